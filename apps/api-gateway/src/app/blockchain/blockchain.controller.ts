@@ -105,6 +105,22 @@ export class BlockchainController {
     return this.blockchainService.getTransaction(id);
   }
 
+  @Public()
+  @Get('transactions/:id/proof')
+  @ApiOperation({ summary: 'Get merkle inclusion proof for a transaction' })
+  @ApiParam({ name: 'id', type: String, description: 'Transaction ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Transaction proof retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Transaction not found',
+  })
+  getTransactionProof(@Param('id') id: string) {
+    return this.blockchainService.getTransactionProof(id);
+  }
+
   @Post('transactions')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create transaction' })
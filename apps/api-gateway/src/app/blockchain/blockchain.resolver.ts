@@ -10,6 +10,7 @@ import { Public } from '../auth/decorators/public.decorator';
 import { BlockInfoType } from './types/block-info.type';
 import { BlockType } from './types/block.type';
 import { TransactionType } from './types/transaction.type';
+import { TransactionProofType } from './types/transaction-proof.type';
 import { AddressDetailsType } from './types/address-details.type';
 import { ValidatorType } from './types/validator.type';
 import { NetworkStatsType } from './types/network-stats.type';
@@ -52,6 +53,14 @@ export class BlockchainResolver {
     return this.blockchainService.getTransaction(id);
   }
 
+  @Public()
+  @Query(() => TransactionProofType, {
+    description: 'Get merkle inclusion proof for a transaction',
+  })
+  async transactionProof(@Args('id') id: string) {
+    return this.blockchainService.getTransactionProof(id);
+  }
+
   @Public()
   @Query(() => AddressDetailsType, { description: 'Get address details' })
   async addressDetails(@Args('address') address: string) {
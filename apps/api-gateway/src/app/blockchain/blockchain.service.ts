@@ -4,6 +4,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Observable, throwError } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
 import { HttpService } from '@nestjs/axios';
+import { hashBlock } from '@digital-chuckram/utils';
 import { CreateTransactionDto } from './dto/create-transaction.dto';
 
 @Injectable()
@@ -30,7 +31,7 @@ export class BlockchainService {
    */
   getBlockByHeight(height: number): Observable<any> {
     return this.httpService.get(`/blocks/${height}`).pipe(
-      map((response: any) => response.data),
+      map((response: any) => this.verifyBlock(response.data)),
       catchError((error) => {
         this.logger.error(
           `Failed to get block at height ${height}: ${error.message}`
@@ -45,7 +46,7 @@ export class BlockchainService {
    */
   getBlockByHash(hash: string): Observable<any> {
     return this.httpService.get(`/blocks/hash/${hash}`).pipe(
-      map((response: any) => response.data),
+      map((response: any) => this.verifyBlock(response.data)),
       catchError((error) => {
         this.logger.error(
           `Failed to get block with hash ${hash}: ${error.message}`
@@ -81,6 +82,21 @@ export class BlockchainService {
     );
   }
 
+  /**
+   * Get merkle inclusion proof for a transaction
+   */
+  getTransactionProof(id: string): Observable<any> {
+    return this.httpService.get(`/transactions/${id}/proof`).pipe(
+      map((response: any) => response.data),
+      catchError((error) => {
+        this.logger.error(
+          `Failed to get proof for transaction ${id}: ${error.message}`
+        );
+        return throwError(error);
+      })
+    );
+  }
+
   /**
    * Create transaction
    */
@@ -205,4 +221,14 @@ export class BlockchainService {
       })
     );
   }
+
+  /**
+   * Check a block from the node against its canonical hash before relaying it
+   */
+  private verifyBlock(block: any): any {
+    if (hashBlock(block) !== block.hash) {
+      throw new Error(`Block ${block.hash} does not match its contents`);
+    }
+    return block;
+  }
 }
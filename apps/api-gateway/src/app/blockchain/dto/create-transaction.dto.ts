@@ -20,6 +20,10 @@ export enum TransactionType {
   FEE = 'FEE',
   MINT = 'MINT',
   BURN = 'BURN',
+  EVIDENCE = 'EVIDENCE',
+  BOND = 'BOND',
+  UNBOND = 'UNBOND',
+  REDELEGATE = 'REDELEGATE',
 }
 
 export class CreateTransactionDto {
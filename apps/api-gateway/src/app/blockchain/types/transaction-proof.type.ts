@@ -0,0 +1,33 @@
+// apps/api-gateway/src/app/blockchain/types/transaction-proof.type.ts
+
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+
+@ObjectType()
+export class MerkleProofType {
+  @Field(() => Int)
+  index!: number;
+
+  @Field(() => Int)
+  leafCount!: number;
+
+  @Field(() => [String])
+  siblings!: string[];
+}
+
+@ObjectType()
+export class TransactionProofType {
+  @Field()
+  transactionId!: string;
+
+  @Field()
+  blockHash!: string;
+
+  @Field(() => Int)
+  blockHeight!: number;
+
+  @Field()
+  merkleRoot!: string;
+
+  @Field(() => MerkleProofType)
+  proof!: MerkleProofType;
+}
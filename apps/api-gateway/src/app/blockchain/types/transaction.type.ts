@@ -13,6 +13,10 @@ export enum TransactionTypeEnum {
   FEE = 'FEE',
   MINT = 'MINT',
   BURN = 'BURN',
+  EVIDENCE = 'EVIDENCE',
+  BOND = 'BOND',
+  UNBOND = 'UNBOND',
+  REDELEGATE = 'REDELEGATE',
 }
 
 registerEnumType(TransactionTypeEnum, {
@@ -0,0 +1,29 @@
+// apps/blockchain-node/src/app/block-producer/block-producer.controller.ts
+
+import {
+  Controller,
+  Get,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../api/guards/api-key.guard';
+import { BlockProducerService } from './block-producer.service';
+
+@Controller('block-producer')
+@UseGuards(ApiKeyGuard)
+export class BlockProducerController {
+  constructor(private readonly blockProducerService: BlockProducerService) {}
+
+  @Get('status')
+  getStatus() {
+    return this.blockProducerService.getStatus();
+  }
+
+  @Get('schedule')
+  getSchedule(
+    @Query('count', new ParseIntPipe({ optional: true })) count?: number
+  ) {
+    return this.blockProducerService.getSchedule(Math.min(count ?? 10, 1000));
+  }
+}
@@ -0,0 +1,15 @@
+// apps/blockchain-node/src/app/block-producer/block-producer.module.ts
+
+import { Module } from '@nestjs/common';
+import { BlockProducerService } from './block-producer.service';
+import { BlockProducerController } from './block-producer.controller';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+import { MempoolModule } from '../mempool/mempool.module';
+
+@Module({
+  imports: [BlockchainModule, MempoolModule],
+  providers: [BlockProducerService],
+  controllers: [BlockProducerController],
+  exports: [BlockProducerService],
+})
+export class BlockProducerModule {}
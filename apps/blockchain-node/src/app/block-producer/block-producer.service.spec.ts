@@ -0,0 +1,296 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { signTransaction } from '@digital-chuckram/blockchain';
+import {
+  ProposerSchedule,
+  verifyBlockSignature,
+} from '@digital-chuckram/consensus';
+import { BlockProducerService } from './block-producer.service';
+import {
+  getProposerRound,
+  ProposerScheduler,
+} from '../blockchain/proposer-schedule';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { GenesisService } from '../blockchain/genesis.service';
+import { StateManager } from '../blockchain/state-manager.service';
+import { MempoolService } from '../mempool/mempool.service';
+import { StorageService } from '../storage/storage.service';
+import {
+  createDevnetGenesis,
+  DevnetValidator,
+  generateValidators,
+} from '../../devnet/devnet-genesis';
+
+describe('BlockProducerService', () => {
+  const keys = CryptoUtils.generateKeyPair();
+  const treasury = CryptoUtils.generateKeyPair();
+  const TREASURY = treasury.address;
+  let producer: BlockProducerService;
+  let blockchainService: BlockchainService;
+  let stateManager: StateManager;
+  let mempoolService: MempoolService;
+  let eventEmitter: EventEmitter2;
+
+  const createTransfer = (id: string, nonce: number, fee = '1'): any =>
+    signTransaction(
+      {
+        id,
+        from: TREASURY,
+        to: 'CHKalice',
+        amount: '100',
+        fee,
+        timestamp: Date.now(),
+        type: 'TRANSFER',
+        signature: '',
+        nonce,
+      } as any,
+      treasury.privateKey,
+      treasury.publicKey
+    );
+
+  beforeEach(async () => {
+    const configService = new ConfigService({
+      blockchain: {
+        blockTime: 1000,
+        maxTransactionsPerBlock: 10,
+        treasuryAddress: TREASURY,
+      },
+      consensus: { blockProposerTimeout: 2000 },
+      storage: { database: { type: 'memory' }, cacheSize: 10 },
+      rewards: { blockReward: '0' },
+      mempool: { maxSize: 100, maxSizePerAccount: 10, minFee: 1 },
+      validator: {
+        isValidator: true,
+        validatorAddress: keys.address,
+        validatorPrivateKey: keys.privateKey,
+      },
+    });
+    eventEmitter = new EventEmitter2();
+    stateManager = new StateManager(configService, eventEmitter);
+    blockchainService = new BlockchainService(
+      configService,
+      new GenesisService(configService),
+      stateManager,
+      new StorageService(configService),
+      eventEmitter
+    );
+    await blockchainService.onModuleInit();
+    mempoolService = new MempoolService(configService, eventEmitter);
+
+    producer = new BlockProducerService(
+      configService,
+      blockchainService,
+      stateManager,
+      mempoolService,
+      eventEmitter
+    );
+  });
+
+  it('should produce a signed block from mempool transactions', async () => {
+    const relayed = jest.fn();
+    eventEmitter.on('blockchain.block.relayable', relayed);
+
+    // Added out of nonce order, the higher nonce paying the higher fee
+    await mempoolService.addTransaction(createTransfer('tx-1', 1, '5'));
+    await mempoolService.addTransaction(createTransfer('tx-0', 0));
+
+    const block = await producer.produceBlock();
+
+    expect(block.transactions.map((tx: any) => tx.id)).toEqual([
+      'tx-0',
+      'tx-1',
+    ]);
+    expect(block.transactions[0].addedAt).toBeUndefined();
+    expect(blockchainService.getChainHeight()).toBe(1);
+    expect(stateManager.getBalance('CHKalice')).toBe(200n);
+    expect(stateManager.getStateRoot()).toBe(block.header.stateRoot);
+    expect(verifyBlockSignature(block.header, keys.publicKey)).toBe(true);
+    expect(relayed).toHaveBeenCalledWith(block);
+  });
+
+  it('should leave out transactions that do not apply', async () => {
+    await mempoolService.addTransaction(createTransfer('tx-0', 0));
+    await mempoolService.addTransaction(createTransfer('tx-gap', 5, '9'));
+
+    const block = await producer.produceBlock();
+
+    expect(block.transactions.map((tx: any) => tx.id)).toEqual(['tx-0']);
+    expect(blockchainService.getChainHeight()).toBe(1);
+  });
+
+  it('should only admit transactions signed by their sender', async () => {
+    const misbehaved = jest.fn();
+    eventEmitter.on('p2p.peer.misbehaved', misbehaved);
+    const forged = { ...createTransfer('tx-0', 0), amount: '1000' };
+
+    await expect(mempoolService.addTransaction(forged)).rejects.toThrow(
+      'Invalid transaction signature'
+    );
+    await mempoolService.handleReceivedTransaction({
+      transaction: forged,
+      peerId: 'peer-1',
+    });
+
+    expect(mempoolService.getPendingCount()).toBe(0);
+    expect(misbehaved).toHaveBeenCalledWith(
+      expect.objectContaining({
+        peerId: 'peer-1',
+        misbehavior: 'bad-signature',
+      })
+    );
+  });
+
+  it('should not admit transactions that issue coins', async () => {
+    const misbehaved = jest.fn();
+    eventEmitter.on('p2p.peer.misbehaved', misbehaved);
+    const mint = signTransaction(
+      { ...createTransfer('tx-0', 0), type: 'MINT', signature: '' },
+      treasury.privateKey,
+      treasury.publicKey
+    );
+
+    await expect(mempoolService.addTransaction(mint)).rejects.toThrow(
+      'MINT transactions are only valid in the genesis block'
+    );
+    await mempoolService.handleReceivedTransaction({
+      transaction: mint,
+      peerId: 'peer-1',
+    });
+
+    expect(mempoolService.getPendingCount()).toBe(0);
+    expect(misbehaved).toHaveBeenCalledWith(
+      expect.objectContaining({
+        peerId: 'peer-1',
+        misbehavior: 'invalid-transaction',
+      })
+    );
+  });
+
+  it('should wait for its turn and take over when the proposer times out', async () => {
+    const validators = generateValidators(2, 0, '0');
+    const createProducer = async (validator: DevnetValidator) => {
+      const configService = new ConfigService({
+        blockchain: { blockTime: 1000 },
+        consensus: { blockProposerTimeout: 2000 },
+        storage: { database: { type: 'memory' }, cacheSize: 10 },
+        rewards: { blockReward: '0' },
+        validator: {
+          isValidator: true,
+          validatorAddress: validator.address,
+          validatorPrivateKey: validator.privateKey,
+        },
+      });
+      const genesisService = new GenesisService(configService);
+      jest
+        .spyOn(genesisService, 'loadGenesisBlock')
+        .mockResolvedValue(createDevnetGenesis(validators, '1000', 0));
+      const state = new StateManager(configService, eventEmitter);
+      const chain = new BlockchainService(
+        configService,
+        genesisService,
+        state,
+        new StorageService(configService),
+        eventEmitter
+      );
+      await chain.onModuleInit();
+
+      return {
+        chain,
+        producer: new BlockProducerService(
+          configService,
+          chain,
+          state,
+          new MempoolService(configService, eventEmitter),
+          eventEmitter
+        ),
+      };
+    };
+
+    const first = await createProducer(validators[0]);
+    const proposer = first.chain.getProposer(1, 0);
+    // The validator that proposes height 1 only in round 1
+    const { chain, producer: backup } = await createProducer(
+      validators.find((v) => v.address !== proposer)!
+    );
+
+    expect(await backup.tick(500)).toBeNull();
+    expect(await backup.tick(1000)).toBeNull();
+    expect(await backup.tick(3000)).not.toBeNull();
+    expect(chain.getChainHeight()).toBe(1);
+  });
+
+  it('should not produce while syncing', async () => {
+    const genesisTime = blockchainService.getBlockByHeight(0).header.timestamp;
+
+    producer.handleSyncStarted();
+    expect(await producer.tick(genesisTime + 1000)).toBeNull();
+
+    producer.handleSyncCompleted();
+    expect(await producer.tick(genesisTime + 1000)).not.toBeNull();
+  });
+
+  describe('proposer schedule', () => {
+    it('should pass the turn on after each proposer timeout', () => {
+      expect(getProposerRound(999, 1000, 2000)).toBeNull();
+      expect(getProposerRound(1000, 1000, 2000)).toBe(0);
+      expect(getProposerRound(2999, 1000, 2000)).toBe(0);
+      expect(getProposerRound(3000, 1000, 2000)).toBe(1);
+    });
+
+    it('should rotate validators by height and round', () => {
+      const scheduler = new ProposerScheduler();
+      const validators = ['CHKc', 'CHKa', 'CHKb'].map((address) => ({
+        address,
+        votingPower: 1,
+      }));
+
+      expect(scheduler.getProposer(validators, 0, 0)).toBe('CHKa');
+      expect(scheduler.getProposer(validators, 1, 0)).toBe('CHKb');
+      expect(scheduler.getProposer(validators, 1, 1)).toBe('CHKc');
+      expect(scheduler.getProposer(validators, 101, 0, 100)).toBe('CHKb');
+      expect(scheduler.getProposer([], 1, 0)).toBeUndefined();
+    });
+
+    it('should keep advancing the schedule of a validator set', () => {
+      const scheduler = new ProposerScheduler();
+      const validators = [
+        { address: 'CHKa', votingPower: 2 },
+        { address: 'CHKb', votingPower: 1 },
+      ];
+      const advance = jest.spyOn(ProposerSchedule.prototype as any, 'advance');
+      const proposers = (seed?: string) =>
+        [5000, 5001, 5002].map((height) =>
+          scheduler.getProposer(validators, height, 0, 0, seed)
+        );
+
+      // The schedule is built once up to the first height, then moves a
+      // step per height
+      const unseeded = proposers();
+      expect(advance).toHaveBeenCalledTimes(5003);
+      expect(unseeded).toEqual(
+        new ProposerSchedule(validators).getProposers(5000, 3)
+      );
+
+      // Another seed is another schedule, the first one is kept
+      advance.mockClear();
+      proposers('seed');
+      proposers();
+      expect(advance).toHaveBeenCalledTimes(5003);
+      advance.mockRestore();
+    });
+
+    it('should give validators turns in proportion to voting power', () => {
+      const validators = [
+        { address: 'CHKa', votingPower: 1 },
+        { address: 'CHKb', votingPower: 3 },
+      ];
+      const scheduler = new ProposerScheduler();
+      const turns = [0, 1, 2, 3].map((height) =>
+        scheduler.getProposer(validators, height, 0)
+      );
+
+      expect(turns.filter((address) => address === 'CHKb')).toHaveLength(3);
+    });
+  });
+});
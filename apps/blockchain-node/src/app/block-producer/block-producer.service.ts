@@ -0,0 +1,246 @@
+// apps/blockchain-node/src/app/block-producer/block-producer.service.ts
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { signBlockHeader } from '@digital-chuckram/consensus';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { StateManager } from '../blockchain/state-manager.service';
+import { MempoolService } from '../mempool/mempool.service';
+import { getProposerRound } from '../blockchain/proposer-schedule';
+
+@Injectable()
+export class BlockProducerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BlockProducerService.name);
+  private timer: NodeJS.Timeout | undefined;
+  private isProducing = false;
+  private isSyncing = false;
+  private blocksProduced = 0;
+  private lastProducedHeight: number | undefined;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly blockchainService: BlockchainService,
+    private readonly stateManager: StateManager,
+    private readonly mempoolService: MempoolService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  onModuleInit() {
+    if (!this.isEnabled()) {
+      this.logger.log('Block production disabled, node is not a validator');
+      return;
+    }
+
+    // Poll several times per block interval so blocks follow blockTime closely
+    const interval = Math.ceil(this.getBlockTime() / 5);
+    this.timer = setInterval(() => this.tick(), interval);
+
+    this.logger.log(
+      `Producing blocks as ${this.getValidatorAddress()} every ${this.getBlockTime()}ms`
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Produce a block if it is this validator's turn
+  async tick(now: number = Date.now()): Promise<any | null> {
+    if (this.isProducing || this.isSyncing) {
+      return null;
+    }
+
+    const parent = this.blockchainService.getBlockByHeight(
+      this.blockchainService.getChainHeight()
+    );
+    const round = getProposerRound(
+      now - parent.header.timestamp,
+      this.getBlockTime(),
+      this.configService.get<number>('consensus.blockProposerTimeout') ?? 10000
+    );
+    if (round === null) {
+      return null;
+    }
+
+    const height = parent.header.height + 1;
+    const proposer = this.getProposer(height, round);
+    if (proposer !== this.getValidatorAddress()) {
+      return null;
+    }
+
+    if (round > 0) {
+      this.logger.log(
+        `Proposer timed out for height ${height}, taking over in round ${round}`
+      );
+    }
+    this.eventEmitter.emit('validator.proposer.selected', proposer);
+
+    return this.produceBlock(now, round);
+  }
+
+  // Build, sign and add a block on the current tip from mempool transactions
+  async produceBlock(
+    timestamp: number = Date.now(),
+    round = 0
+  ): Promise<any | null> {
+    this.isProducing = true;
+
+    try {
+      const parent = this.blockchainService.getBlockByHeight(
+        this.blockchainService.getChainHeight()
+      );
+      const block = await this.buildBlock(parent, timestamp, round);
+
+      if (!(await this.blockchainService.addBlock(block))) {
+        this.logger.warn(`Produced block ${block.hash} was rejected`);
+        return null;
+      }
+
+      this.blocksProduced++;
+      this.lastProducedHeight = block.header.height;
+      this.eventEmitter.emit('blockchain.block.relayable', block);
+
+      this.logger.log(
+        `Produced block ${block.hash} at height ${block.header.height} with ${block.transactions.length} transactions`
+      );
+      return block;
+    } catch (error: any) {
+      this.logger.error(`Failed to produce block: ${error.message}`);
+      return null;
+    } finally {
+      this.isProducing = false;
+    }
+  }
+
+  getStatus(): any {
+    return {
+      enabled: this.isEnabled(),
+      validatorAddress: this.getValidatorAddress(),
+      isProducing: this.isProducing,
+      isSyncing: this.isSyncing,
+      blocksProduced: this.blocksProduced,
+      lastProducedHeight: this.lastProducedHeight,
+    };
+  }
+
+  // Round 0 proposers of the next blocks, as far as the current validator
+  // set is known
+  getSchedule(count: number): Array<{ height: number; proposer: string }> {
+    const next = this.blockchainService.getChainHeight() + 1;
+
+    return Array.from({ length: count }, (_, i) => ({
+      height: next + i,
+      proposer: this.getProposer(next + i, 0)!,
+    }));
+  }
+
+  @OnEvent('sync.started')
+  handleSyncStarted(): void {
+    this.isSyncing = true;
+  }
+
+  @OnEvent('sync.completed')
+  handleSyncCompleted(): void {
+    this.isSyncing = false;
+  }
+
+  private async buildBlock(
+    parent: any,
+    timestamp: number,
+    round: number
+  ): Promise<any> {
+    const header: any = {
+      version: 1,
+      previousHash: parent.hash,
+      merkleRoot: '',
+      timestamp: Math.max(timestamp, parent.header.timestamp + 1),
+      height: parent.header.height + 1,
+      validatorAddress: this.getValidatorAddress(),
+      round,
+    };
+    const block: any = { header, transactions: [], nonce: 0, hash: '' };
+
+    const { transactions, stateRoot, nextValidatorSetHash } =
+      await this.stateManager.selectTransactions(
+        block,
+        this.getCandidateTransactions()
+      );
+    block.transactions = transactions;
+    header.merkleRoot =
+      this.blockchainService.calculateMerkleRoot(transactions);
+    header.stateRoot = stateRoot;
+
+    // The last block of an epoch commits to the next validator set
+    if (nextValidatorSetHash) {
+      header.nextValidatorSetHash = nextValidatorSetHash;
+    }
+
+    const privateKey = this.configService.get<string>(
+      'validator.validatorPrivateKey'
+    );
+    if (privateKey) {
+      header.validatorSignature = signBlockHeader(header, privateKey);
+    }
+
+    block.hash = this.blockchainService.calculateBlockHash(block);
+    return block;
+  }
+
+  // Highest fee mempool transactions, each sender's in nonce order. The
+  // state manager keeps those that apply cleanly on current state.
+  private getCandidateTransactions(): any[] {
+    const maxCount =
+      this.configService.get<number>('blockchain.maxTransactionsPerBlock') ??
+      5000;
+
+    const bySender = new Map<string, any[]>();
+    for (const pending of this.mempoolService.getTransactionsForBlock(
+      maxCount
+    )) {
+      const tx = { ...pending };
+      delete tx.addedAt; // Mempool bookkeeping, not part of the transaction
+
+      if (!bySender.has(tx.from)) {
+        bySender.set(tx.from, []);
+      }
+      bySender.get(tx.from)!.push(tx);
+    }
+
+    return Array.from(bySender.values()).flatMap((txs) =>
+      txs.sort((a, b) => a.nonce - b.nonce)
+    );
+  }
+
+  // Active validators take turns by voting power; a validator on a chain
+  // with none yet produces alone
+  private getProposer(height: number, round: number): string | undefined {
+    return (
+      this.blockchainService.getProposer(height, round) ??
+      this.getValidatorAddress()
+    );
+  }
+
+  private isEnabled(): boolean {
+    return (
+      this.configService.get<boolean>('validator.isValidator') === true &&
+      !!this.getValidatorAddress()
+    );
+  }
+
+  private getValidatorAddress(): string {
+    return this.configService.get<string>('validator.validatorAddress') ?? '';
+  }
+
+  private getBlockTime(): number {
+    return this.configService.get<number>('blockchain.blockTime') ?? 5000;
+  }
+}
@@ -50,6 +50,17 @@ export class BlockchainController {
     return block;
   }
 
+  @Get('blocks/:height/header')
+  getBlockHeader(@Param('height', ParseIntPipe) height: number) {
+    const header = this.blockchainService.getBlockHeader(height);
+
+    if (!header) {
+      throw new NotFoundException(`Block at height ${height} not found`);
+    }
+
+    return header;
+  }
+
   @Get('blocks/hash/:hash')
   getBlockByHash(@Param('hash') hash: string) {
     const block = this.blockchainService.getBlock(hash);
@@ -92,6 +103,17 @@ export class BlockchainController {
     return result;
   }
 
+  @Get('transactions/:id/proof')
+  getTransactionProof(@Param('id') id: string) {
+    const proof = this.blockchainService.getTransactionProof(id);
+
+    if (!proof) {
+      throw new NotFoundException(`Transaction ${id} not found`);
+    }
+
+    return proof;
+  }
+
   @Get('address/:address')
   getAddressInfo(@Param('address') address: string) {
     const balance = this.stateManager.getBalance(address);
@@ -124,11 +146,34 @@ export class BlockchainController {
     return this.blockchainService.getAddressTransactions(address, limit);
   }
 
+  @Get('address/:address/proof')
+  getAddressProof(
+    @Param('address') address: string,
+    @Query('height', new ParseIntPipe({ optional: true })) height?: number
+  ) {
+    try {
+      return this.stateManager.getStateProof(address, height);
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
   @Get('validators')
   getValidators() {
     return this.stateManager.getValidators();
   }
 
+  @Get('validators/at/:height')
+  getValidatorSetAt(@Param('height', ParseIntPipe) height: number) {
+    const validatorSet = this.stateManager.getValidatorSetAt(height);
+
+    if (!validatorSet) {
+      throw new NotFoundException(`No validator set at height ${height}`);
+    }
+
+    return validatorSet;
+  }
+
   @Get('validators/:address')
   getValidator(@Param('address') address: string) {
     const validator = this.stateManager.getValidator(address);
@@ -146,6 +191,7 @@ export class BlockchainController {
 
     return {
       totalSupply: totalSupply.toString(),
+      ...this.stateManager.getSupplyInfo(),
     };
   }
 
@@ -161,6 +207,20 @@ export class BlockchainController {
     };
   }
 
+  @Post('revert')
+  async revertToHeight(@Body('height', ParseIntPipe) height: number) {
+    try {
+      await this.blockchainService.revertToHeight(height);
+
+      return {
+        success: true,
+        height: this.blockchainService.getChainHeight(),
+      };
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
   @Post('blocks')
   async addBlock(@Body() block: any) {
     try {
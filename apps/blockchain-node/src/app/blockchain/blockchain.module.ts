@@ -5,8 +5,10 @@ import { BlockchainService } from './blockchain.service';
 import { BlockchainController } from './blockchain.controller';
 import { GenesisService } from './genesis.service';
 import { StateManager } from './state-manager.service';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
+  imports: [StorageModule],
   providers: [BlockchainService, GenesisService, StateManager],
   controllers: [BlockchainController],
   exports: [BlockchainService, StateManager],
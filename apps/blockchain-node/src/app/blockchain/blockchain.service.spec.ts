@@ -0,0 +1,490 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  signTransaction,
+  verifyTransactionProof,
+} from '@digital-chuckram/blockchain';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import {
+  createCommitCertificate,
+  signBlockHeader,
+  signVote,
+} from '@digital-chuckram/consensus';
+import { BlockchainService } from './blockchain.service';
+import { GenesisService } from './genesis.service';
+import { StateManager } from './state-manager.service';
+import { StorageService } from '../storage/storage.service';
+import {
+  createDevnetGenesis,
+  DevnetValidator,
+  generateValidators,
+} from '../../devnet/devnet-genesis';
+
+describe('BlockchainService', () => {
+  const treasury = CryptoUtils.generateKeyPair();
+  const TREASURY = treasury.address;
+  let blockchainService: BlockchainService;
+  let stateManager: StateManager;
+  let eventEmitter: EventEmitter2;
+  let configService: ConfigService;
+  let createdBlocks: Map<string, any>;
+  let timestamp: number;
+
+  const createTransfer = (id: string, nonce: number, amount = '100'): any =>
+    signTransaction(
+      {
+        id,
+        from: TREASURY,
+        to: 'CHKalice',
+        amount,
+        fee: '1',
+        timestamp: Date.now(),
+        type: 'TRANSFER',
+        signature: '',
+        nonce,
+      } as any,
+      treasury.privateKey,
+      treasury.publicKey
+    );
+
+  // Build a block on any branch, committing to the state it produces there.
+  // Blocks whose branch cannot be applied get an arbitrary state root.
+  const createBlock = async (parent: any, transactions: any[] = []) => {
+    const block = {
+      header: {
+        version: 1,
+        previousHash: parent.hash,
+        merkleRoot: blockchainService.calculateMerkleRoot(transactions),
+        timestamp: ++timestamp,
+        height: parent.header.height + 1,
+        validatorAddress: 'CHKvalidator1',
+        stateRoot: '',
+      },
+      transactions,
+      nonce: 0,
+      hash: '',
+    };
+
+    const branch = [parent];
+    while (branch[0].header.height > 0) {
+      branch.unshift(createdBlocks.get(branch[0].header.previousHash));
+    }
+
+    const shadow = new StateManager(configService, new EventEmitter2());
+    try {
+      await shadow.initialize(branch[0]);
+      for (const ancestor of branch.slice(1)) {
+        await shadow.applyBlock(ancestor);
+      }
+      block.header.stateRoot = await shadow.calculatePostStateRoot(block);
+    } catch {
+      block.header.stateRoot = 'f'.repeat(64);
+    }
+
+    block.hash = blockchainService.calculateBlockHash(block);
+    createdBlocks.set(block.hash, block);
+    return block;
+  };
+
+  beforeEach(async () => {
+    configService = new ConfigService({
+      blockchain: { confirmations: 3, treasuryAddress: TREASURY },
+      storage: { database: { type: 'memory' }, cacheSize: 10 },
+      rewards: { blockReward: '0' },
+    });
+    eventEmitter = new EventEmitter2();
+    stateManager = new StateManager(configService, eventEmitter);
+
+    blockchainService = new BlockchainService(
+      configService,
+      new GenesisService(configService),
+      stateManager,
+      new StorageService(configService),
+      eventEmitter
+    );
+    await blockchainService.onModuleInit();
+    const genesis = blockchainService.getBlockByHeight(0);
+    createdBlocks = new Map([[genesis.hash, genesis]]);
+    timestamp = genesis.header.timestamp;
+  });
+
+  it('should keep the canonical block when a competing block arrives', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const a1 = await createBlock(genesis, [createTransfer('tx-a', 0)]);
+    const b1 = await createBlock(genesis);
+
+    expect(await blockchainService.addBlock(a1)).toBe(true);
+    expect(await blockchainService.addBlock(b1)).toBe(true);
+
+    expect(blockchainService.getBlockByHeight(1).hash).toBe(a1.hash);
+    expect(blockchainService.hasBlock(b1.hash)).toBe(true);
+    expect(blockchainService.isCanonical(b1)).toBe(false);
+    expect(stateManager.getBalance('CHKalice')).toBe(100n);
+  });
+
+  it('should reject a block with a transaction its sender did not sign', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const mallory = CryptoUtils.generateKeyPair();
+    const forged = [
+      { ...createTransfer('tx-a', 0), amount: '200' },
+      signTransaction(
+        { ...createTransfer('tx-b', 0), signature: '' },
+        mallory.privateKey,
+        mallory.publicKey
+      ),
+      { ...createTransfer('tx-c', 0), publicKey: undefined },
+    ];
+
+    for (const transaction of forged) {
+      const block = await createBlock(genesis, [transaction]);
+      expect(await blockchainService.addBlock(block)).toBe(false);
+    }
+    expect(blockchainService.getChainHeight()).toBe(0);
+    expect(stateManager.getBalance('CHKalice')).toBe(0n);
+  });
+
+  it('should reject a block with a reward its sender issued', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const reward = signTransaction(
+      { ...createTransfer('reward', 0, '5000'), type: 'REWARD', signature: '' },
+      treasury.privateKey,
+      treasury.publicKey
+    );
+
+    const block = await createBlock(genesis, [reward]);
+
+    expect(await blockchainService.addBlock(block)).toBe(false);
+    expect(blockchainService.getChainHeight()).toBe(0);
+    expect(stateManager.getBalance('CHKalice')).toBe(0n);
+  });
+
+  it('should reorganize to a longer branch and orphan its transactions', async () => {
+    const orphaned = jest.fn();
+    eventEmitter.on('blockchain.transactions.orphaned', orphaned);
+
+    const genesis = blockchainService.getBlockByHeight(0);
+    const a1 = await createBlock(genesis, [createTransfer('tx-a', 0)]);
+    const b1 = await createBlock(genesis, [createTransfer('tx-b', 0, '30')]);
+    const b2 = await createBlock(b1);
+
+    await blockchainService.addBlock(a1);
+    await blockchainService.addBlock(b1);
+    await blockchainService.addBlock(b2);
+
+    expect(blockchainService.getChainHeight()).toBe(2);
+    expect(blockchainService.getBlockByHeight(1).hash).toBe(b1.hash);
+    expect(blockchainService.getBlockByHeight(2).hash).toBe(b2.hash);
+    expect(stateManager.getBalance('CHKalice')).toBe(30n);
+    expect(stateManager.getNonce(TREASURY)).toBe(1);
+    expect(orphaned).toHaveBeenCalledWith([a1.transactions[0]]);
+  });
+
+  it('should prefer the branch with more validator votes over a longer one', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const a1 = await createBlock(genesis);
+    const a2 = await createBlock(a1);
+    const b1 = await createBlock(genesis);
+
+    await blockchainService.addBlock(a1);
+    await blockchainService.addBlock(a2);
+    await blockchainService.addBlock(b1);
+    await blockchainService.recordBlockVote(b1.hash, 'CHKvalidator1');
+
+    expect(blockchainService.getChainHeight()).toBe(1);
+    expect(blockchainService.getBlockByHeight(1).hash).toBe(b1.hash);
+    expect(blockchainService.getBlockByHeight(2)).toBeNull();
+  });
+
+  it('should never reorganize finalized blocks', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    let tip = genesis;
+    for (let i = 0; i < 5; i++) {
+      tip = await createBlock(tip);
+      await blockchainService.addBlock(tip);
+    }
+
+    const fork = await createBlock(blockchainService.getBlockByHeight(1));
+
+    expect(blockchainService.getFinalizedHeight()).toBe(2);
+    expect(await blockchainService.addBlock(fork)).toBe(false);
+    expect(blockchainService.isBlockFinalized(tip.hash)).toBe(false);
+    expect(
+      blockchainService.isBlockFinalized(
+        blockchainService.getBlockByHeight(2).hash
+      )
+    ).toBe(true);
+  });
+
+  it('should keep the current chain when the winning branch is invalid', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const a1 = await createBlock(genesis, [createTransfer('tx-a', 0)]);
+    const b1 = await createBlock(genesis, [
+      createTransfer('tx-b', 0, '999999999999999'),
+    ]);
+    const b2 = await createBlock(b1);
+
+    await blockchainService.addBlock(a1);
+    await blockchainService.addBlock(b1);
+    await blockchainService.addBlock(b2);
+
+    expect(blockchainService.getBlockByHeight(1).hash).toBe(a1.hash);
+    expect(blockchainService.hasBlock(b1.hash)).toBe(false);
+    expect(stateManager.getBalance('CHKalice')).toBe(100n);
+  });
+
+  it('should revert the chain to a height and return its transactions', async () => {
+    const orphaned = jest.fn();
+    eventEmitter.on('blockchain.transactions.orphaned', orphaned);
+
+    const genesis = blockchainService.getBlockByHeight(0);
+    const a1 = await createBlock(genesis, [createTransfer('tx-a', 0)]);
+    const a2 = await createBlock(a1, [createTransfer('tx-b', 1)]);
+    await blockchainService.addBlock(a1);
+    await blockchainService.addBlock(a2);
+
+    await blockchainService.revertToHeight(1);
+
+    expect(blockchainService.getChainHeight()).toBe(1);
+    expect(blockchainService.hasBlock(a2.hash)).toBe(false);
+    expect(stateManager.getBalance('CHKalice')).toBe(100n);
+    expect(stateManager.getNonce(TREASURY)).toBe(1);
+    expect(orphaned).toHaveBeenCalledWith([a2.transactions[0]]);
+    await expect(blockchainService.revertToHeight(1)).rejects.toThrow(
+      'Cannot revert to height 1, chain height is 1'
+    );
+  });
+
+  describe('with validators', () => {
+    const validators = generateValidators(2, 0, '0');
+
+    beforeEach(async () => {
+      const genesisService = new GenesisService(configService);
+      jest
+        .spyOn(genesisService, 'loadGenesisBlock')
+        .mockResolvedValue(createDevnetGenesis(validators, '1000'));
+      stateManager = new StateManager(configService, eventEmitter);
+      blockchainService = new BlockchainService(
+        configService,
+        genesisService,
+        stateManager,
+        new StorageService(configService),
+        eventEmitter
+      );
+      await blockchainService.onModuleInit();
+    });
+
+    // Block on the tip proposed in a round, by the scheduled proposer unless
+    // another is given, and signed by the proposer unless another key is
+    const propose = async (
+      round: number,
+      proposer?: DevnetValidator,
+      signer?: DevnetValidator
+    ) => {
+      const parent = blockchainService.getBlockByHeight(
+        blockchainService.getChainHeight()
+      );
+      const height = parent.header.height + 1;
+      proposer ??= validators.find(
+        (v) => v.address === blockchainService.getProposer(height, round)
+      )!;
+
+      const header: any = {
+        version: 1,
+        previousHash: parent.hash,
+        merkleRoot: blockchainService.calculateMerkleRoot([]),
+        timestamp: parent.header.timestamp + 5000 + round * 10000,
+        height,
+        validatorAddress: proposer.address,
+        round,
+      };
+      const block = { header, transactions: [], nonce: 0, hash: '' };
+      header.stateRoot = await stateManager.calculatePostStateRoot(block);
+      header.validatorSignature = signBlockHeader(
+        header,
+        (signer ?? proposer).privateKey
+      );
+      block.hash = blockchainService.calculateBlockHash(block);
+      return block;
+    };
+
+    const other = (address: string) =>
+      validators.find((v) => v.address !== address)!;
+
+    it('should accept blocks from the scheduled proposer', async () => {
+      expect(await blockchainService.addBlock(await propose(0))).toBe(true);
+      expect(await blockchainService.addBlock(await propose(1))).toBe(true);
+      expect(blockchainService.getChainHeight()).toBe(2);
+    });
+
+    it('should reject a block with a forged proposer signature', async () => {
+      const proposer = blockchainService.getProposer(1, 0)!;
+      const forged = await propose(0, undefined, other(proposer));
+
+      expect(await blockchainService.addBlock(forged)).toBe(false);
+      expect(blockchainService.getChainHeight()).toBe(0);
+    });
+
+    it('should reject a block from a validator out of turn', async () => {
+      const proposer = blockchainService.getProposer(1, 0)!;
+      const early = await propose(0, other(proposer));
+
+      expect(await blockchainService.addBlock(early)).toBe(false);
+      // The turn passes to it once the scheduled proposer times out
+      expect(
+        await blockchainService.addBlock(await propose(1, other(proposer)))
+      ).toBe(true);
+    });
+
+    it('should prefer the block of the earlier round at the same height', async () => {
+      const late = await propose(1);
+      const early = await propose(0);
+
+      expect(await blockchainService.addBlock(late)).toBe(true);
+      expect(await blockchainService.addBlock(early)).toBe(true);
+      expect(blockchainService.getBlockByHeight(1).hash).toBe(early.hash);
+    });
+
+    const certify = (block: any, signers: DevnetValidator[]) =>
+      createCommitCertificate(
+        block.hash,
+        block.header.height,
+        block.header.round,
+        signers.map((signer) => ({
+          validatorAddress: signer.address,
+          signature: signVote(
+            {
+              type: 'PRECOMMIT',
+              height: block.header.height,
+              round: block.header.round,
+              blockHash: block.hash,
+            },
+            signer.privateKey
+          ),
+        }))
+      );
+
+    it('should check commit certificates on blocks from peers', async () => {
+      const block = await propose(0);
+
+      expect(
+        await blockchainService.addPeerBlock(
+          { ...block, certificate: certify(block, [validators[0]]) },
+          'peer-1'
+        )
+      ).toBe(false);
+
+      expect(
+        await blockchainService.addPeerBlock(
+          { ...block, certificate: certify(block, validators) },
+          'peer-1'
+        )
+      ).toBe(true);
+      expect(blockchainService.getChainHeight()).toBe(1);
+      expect(blockchainService.getCertifiedHeight()).toBe(1);
+    });
+
+    it('should report peers for invalid blocks but not for orphans', async () => {
+      const misbehaved = jest.fn();
+      eventEmitter.on('p2p.peer.misbehaved', misbehaved);
+      const resign = (block: any, header: any) => {
+        const proposer = validators.find(
+          (v) => v.address === header.validatorAddress
+        )!;
+        const resigned = { ...block, header: { ...header } };
+        resigned.header.validatorSignature = signBlockHeader(
+          resigned.header,
+          proposer.privateKey
+        );
+        resigned.hash = blockchainService.calculateBlockHash(resigned);
+        return resigned;
+      };
+      const block = await propose(0);
+
+      const orphan = resign(block, {
+        ...block.header,
+        previousHash: 'a'.repeat(64),
+      });
+      expect(await blockchainService.addPeerBlock(orphan, 'peer-1')).toBe(
+        false
+      );
+      expect(misbehaved).not.toHaveBeenCalled();
+
+      const invalid = [
+        await propose(0, undefined, other(block.header.validatorAddress)),
+        resign(block, { ...block.header, stateRoot: 'f'.repeat(64) }),
+      ];
+      for (const [i, peerBlock] of invalid.entries()) {
+        expect(
+          await blockchainService.addPeerBlock(peerBlock, `peer-${i + 2}`)
+        ).toBe(false);
+        expect(misbehaved).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            peerId: `peer-${i + 2}`,
+            misbehavior: 'invalid-block',
+          })
+        );
+      }
+      expect(blockchainService.getChainHeight()).toBe(0);
+    });
+
+    it('should finalize a block once validators certify it', async () => {
+      const block = await propose(0);
+      await blockchainService.addBlock(block);
+      expect(blockchainService.isBlockFinalized(block.hash)).toBe(false);
+
+      expect(
+        await blockchainService.attachCertificate(
+          block.hash,
+          certify(block, [validators[0]])
+        )
+      ).toBe(false);
+      expect(
+        await blockchainService.attachCertificate(
+          block.hash,
+          certify(block, validators)
+        )
+      ).toBe(true);
+
+      expect(blockchainService.getBlockHeader(1).certificate).toBeDefined();
+      expect(blockchainService.isBlockFinalized(block.hash)).toBe(true);
+    });
+
+    it('should reject a block claiming another round than its timestamp', async () => {
+      const block = await propose(1);
+      const proposer = validators.find(
+        (v) => v.address === block.header.validatorAddress
+      )!;
+      block.header.round = 0;
+      block.header.validatorSignature = signBlockHeader(
+        block.header,
+        proposer.privateKey
+      );
+      block.hash = blockchainService.calculateBlockHash(block);
+
+      expect(await blockchainService.addBlock(block)).toBe(false);
+    });
+  });
+
+  it('should prove a transaction is included in its block', async () => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const a1 = await createBlock(genesis, [
+      createTransfer('tx-a', 0),
+      createTransfer('tx-b', 1),
+      createTransfer('tx-c', 2),
+    ]);
+    await blockchainService.addBlock(a1);
+
+    const proof = blockchainService.getTransactionProof('tx-b')!;
+
+    expect(proof).toMatchObject({
+      blockHash: a1.hash,
+      blockHeight: 1,
+      merkleRoot: a1.header.merkleRoot,
+    });
+    expect(verifyTransactionProof(a1.transactions[1], proof)).toBe(true);
+    expect(
+      verifyTransactionProof({ ...a1.transactions[1], to: 'CHKmallory' }, proof)
+    ).toBe(false);
+    expect(blockchainService.getTransactionProof('tx-missing')).toBeNull();
+  });
+});
@@ -5,21 +5,46 @@ import { ConfigService } from '@nestjs/config';
 import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
 import { GenesisService } from './genesis.service';
 import { StateManager } from './state-manager.service';
-import { createHash } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { ChainHead, StateSnapshot } from '../storage/block-store';
+import { isPreferredBranch } from './fork-choice';
+import { getProposerRound, ProposerScheduler } from './proposer-schedule';
+import {
+  checkTransactionSignature,
+  checkTransactionType,
+} from './transaction-checks';
+import { TransactionProof } from '@digital-chuckram/blockchain';
+import {
+  verifyBlockSignature,
+  verifyCommitCertificate,
+} from '@digital-chuckram/consensus';
+import { CommitCertificate, Validator } from '@digital-chuckram/types';
+import {
+  calculateMerkleRoot,
+  getMerkleProof,
+  hashBlock,
+  hashTransaction,
+} from '@digital-chuckram/utils';
 
 @Injectable()
 export class BlockchainService implements OnModuleInit {
   private readonly logger = new Logger(BlockchainService.name);
-  private blocks: Map<string, any> = new Map(); // hash -> block
-  private blocksByHeight: Map<number, string> = new Map(); // height -> hash
+  private blocks: Map<string, any> = new Map(); // hash -> block, all branches
+  private blocksByHeight: Map<number, string> = new Map(); // height -> canonical hash
+  private blockVotes: Map<string, Set<string>> = new Map(); // hash -> validators
   private lastBlockHash: string | undefined;
   private chainHeight: number = 0;
+  private certifiedHeight = 0; // Highest canonical block with a commit certificate
+  private syncedFrom = 0; // Height of the snapshot a fast synced chain started from
+  private snapshots: Array<{ block: any; state: StateSnapshot }> = []; // Served for fast sync, oldest first
+  private proposerScheduler = new ProposerScheduler();
   private initialized: boolean = false;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly genesisService: GenesisService,
     private readonly stateManager: StateManager,
+    private readonly storageService: StorageService,
     private readonly eventEmitter: EventEmitter2
   ) {}
 
@@ -38,7 +63,7 @@ export class BlockchainService implements OnModuleInit {
     }
   }
 
-  // Initialize the blockchain with genesis block
+  // Initialize the blockchain from storage, or from the genesis block
   private async initialize(): Promise<void> {
     // Check if we already have blocks
     if (this.blocks.size > 0) {
@@ -46,20 +71,80 @@ export class BlockchainService implements OnModuleInit {
       return;
     }
 
+    // Resume from persisted chain if there is one
+    const head = await this.storageService.getChainHead();
+    if (head) {
+      await this.loadFromStorage(head);
+      return;
+    }
+
     this.logger.log('Loading genesis block...');
 
     // Get genesis block from genesis service
     const genesisBlock = await this.genesisService.loadGenesisBlock();
 
     // Add genesis block to blockchain
-    this.addBlock(genesisBlock);
+    await this.addBlock(genesisBlock);
+    this.lastBlockHash = genesisBlock.hash;
 
     // Initialize state with genesis block
     await this.stateManager.initialize(genesisBlock);
 
+    // Persist genesis block and initial state
+    await this.storageService.commitBlock(
+      genesisBlock,
+      this.stateManager.exportState()
+    );
+
     this.logger.log(`Genesis block loaded with hash ${genesisBlock.hash}`);
   }
 
+  // Reload blocks, height index and state from storage
+  private async loadFromStorage(head: ChainHead): Promise<void> {
+    this.logger.log(
+      `Loading blockchain from storage up to height ${head.height}`
+    );
+
+    // Load down from the head. A fast synced chain has no blocks between
+    // genesis and the snapshot it started from.
+    let height = head.height;
+    for (; height > 0; height--) {
+      const block = await this.storageService.getBlockByHeight(height);
+      if (!block) break;
+
+      this.blocks.set(block.hash, block);
+      this.blocksByHeight.set(height, block.hash);
+      if (block.certificate && height > this.certifiedHeight) {
+        this.certifiedHeight = height;
+      }
+    }
+    this.syncedFrom = height > 0 ? height + 1 : 0;
+
+    const genesisBlock = await this.storageService.getBlockByHeight(0);
+    if (!genesisBlock) {
+      throw new Error('Block at height 0 missing from storage');
+    }
+    this.blocks.set(genesisBlock.hash, genesisBlock);
+    this.blocksByHeight.set(0, genesisBlock.hash);
+
+    this.chainHeight = head.height;
+    this.lastBlockHash = head.hash;
+
+    const snapshot = await this.storageService.getState();
+    if (snapshot && snapshot.lastBlockHash === head.hash) {
+      this.stateManager.restoreState(snapshot);
+    } else {
+      // Snapshot missing or stale, rebuild state by replaying the chain
+      this.logger.warn('State snapshot not usable, replaying blocks');
+      await this.replayState(head.height);
+    }
+
+    this.eventEmitter.emit('blockchain.state.updated', {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+    });
+  }
+
   // Get a block by hash
   getBlock(hash: string): any {
     return this.blocks.get(hash);
@@ -72,6 +157,20 @@ export class BlockchainService implements OnModuleInit {
     return this.getBlock(hash);
   }
 
+  // Get a block's header with what a light client needs to verify it,
+  // leaving out the transactions
+  getBlockHeader(height: number): any {
+    const block = this.getBlockByHeight(height);
+    if (!block) return null;
+
+    return {
+      header: block.header,
+      hash: block.hash,
+      nonce: block.nonce,
+      certificate: block.certificate,
+    };
+  }
+
   // Get latest blocks
   getLatestBlocks(limit: number = 10): any[] {
     const blocks = [];
@@ -118,24 +217,58 @@ export class BlockchainService implements OnModuleInit {
       return false;
     }
 
+    // Genesis block, state is initialized by the caller
+    if (block.header.height === 0) {
+      if (this.blocksByHeight.has(0)) {
+        this.logger.warn(`Rejecting competing genesis block ${block.hash}`);
+        return false;
+      }
+
+      this.blocks.set(block.hash, block);
+      this.blocksByHeight.set(0, block.hash);
+      this.eventEmitter.emit('blockchain.block.added', block);
+      return true;
+    }
+
+    // Block on a side branch: keep it and let fork choice decide
+    if (block.header.previousHash !== this.lastBlockHash) {
+      this.blocks.set(block.hash, block);
+      await this.storageService.putBlock(block);
+
+      this.logger.log(
+        `Stored side block ${block.hash} at height ${block.header.height}`
+      );
+
+      await this.maybeReorganize(block);
+      return true;
+    }
+
+    // Update state with new block before it becomes part of the chain
+    try {
+      await this.stateManager.applyBlock(block);
+    } catch (error: any) {
+      this.logger.warn(`Block ${block.hash} does not apply: ${error.message}`);
+      return false;
+    }
+
     // Add block to chain
     this.blocks.set(block.hash, block);
     this.blocksByHeight.set(block.header.height, block.hash);
+    this.chainHeight = block.header.height;
+    this.lastBlockHash = block.hash;
 
-    // Update chain state if this is a new highest block
-    if (block.header.height > this.chainHeight) {
-      this.chainHeight = block.header.height;
-      this.lastBlockHash = block.hash;
-
-      // Update state with new block
-      await this.stateManager.applyBlock(block);
+    // Persist block together with the resulting state
+    await this.storageService.commitBlock(
+      block,
+      this.stateManager.exportState()
+    );
+    this.recordSnapshot(block);
 
-      // Emit state updated event
-      this.eventEmitter.emit('blockchain.state.updated', {
-        height: this.chainHeight,
-        lastBlockHash: this.lastBlockHash,
-      });
-    }
+    // Emit state updated event
+    this.eventEmitter.emit('blockchain.state.updated', {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+    });
 
     // Emit block added event
     this.eventEmitter.emit('blockchain.block.added', block);
@@ -147,6 +280,390 @@ export class BlockchainService implements OnModuleInit {
     return true;
   }
 
+  // Keep the state after every snapshot interval's block for peers to fast
+  // sync from
+  private recordSnapshot(block: any): void {
+    const interval =
+      this.configService.get<number>('sync.snapshotInterval') ?? 1000;
+    if (interval <= 0 || block.header.height % interval !== 0) {
+      return;
+    }
+
+    this.snapshots.push({ block, state: this.stateManager.exportState() });
+    const maxSnapshots =
+      this.configService.get<number>('sync.maxSnapshots') ?? 2;
+    while (this.snapshots.length > maxSnapshots) {
+      this.snapshots.shift();
+    }
+  }
+
+  // Get a snapshot at a height, or the latest one, of a block that can no
+  // longer be reorganized away
+  getSnapshot(height?: number): { block: any; state: StateSnapshot } | null {
+    for (let i = this.snapshots.length - 1; i >= 0; i--) {
+      const { block } = this.snapshots[i];
+      if (
+        (height === undefined || block.header.height === height) &&
+        block.header.height <= this.getFinalizedHeight() &&
+        this.isCanonical(block)
+      ) {
+        return this.snapshots[i];
+      }
+    }
+    return null;
+  }
+
+  // Fast sync: adopt a peer's state snapshot instead of replaying the chain
+  // up to it. Blocks below the snapshot are never fetched, so the chain can
+  // no longer be reverted or replayed below it.
+  async importSnapshot(block: any, snapshot: StateSnapshot): Promise<boolean> {
+    const reason = this.checkSnapshot(block, snapshot);
+    if (reason) {
+      this.logger.warn(
+        `Rejecting snapshot at height ${block?.header?.height}: ${reason}`
+      );
+      return false;
+    }
+
+    this.stateManager.restoreState(snapshot);
+
+    this.blocks.set(block.hash, block);
+    this.blocksByHeight.set(block.header.height, block.hash);
+    this.chainHeight = block.header.height;
+    this.lastBlockHash = block.hash;
+    this.syncedFrom = block.header.height;
+    if (block.certificate) {
+      this.certifiedHeight = block.header.height;
+    }
+
+    await this.storageService.commitBlock(
+      block,
+      this.stateManager.exportState()
+    );
+    this.snapshots.push({ block, state: snapshot });
+
+    this.eventEmitter.emit('blockchain.state.updated', {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+    });
+
+    this.logger.log(
+      `Imported state snapshot of block ${block.hash} at height ${this.chainHeight}`
+    );
+
+    return true;
+  }
+
+  // Check a snapshot and the block it was taken at, returning the rejection
+  // reason or null if it can be imported. Only the configured checkpoint
+  // block is trusted: a certificate alone proves nothing, as the validators
+  // that signed it come with the snapshot.
+  private checkSnapshot(block: any, snapshot: StateSnapshot): string | null {
+    if (!block?.header || !snapshot) {
+      return 'Missing block or state';
+    }
+    if (this.calculateBlockHash(block) !== block.hash) {
+      return 'Block does not match its hash';
+    }
+    if (
+      snapshot.height !== block.header.height ||
+      snapshot.lastBlockHash !== block.hash
+    ) {
+      return 'State was not taken at the block';
+    }
+    if (block.header.height <= this.chainHeight) {
+      return `Chain is already at height ${this.chainHeight}`;
+    }
+
+    const checkpointHash = this.configService.get<string>(
+      'sync.checkpointHash'
+    );
+    if (!checkpointHash) {
+      return 'No trusted checkpoint is configured';
+    }
+    if (block.hash !== checkpointHash) {
+      return `Block is not the trusted checkpoint ${checkpointHash}`;
+    }
+
+    return this.stateManager.checkSnapshot(snapshot, block);
+  }
+
+  // Record a validator vote for a block, which may make its branch win
+  // fork choice
+  async recordBlockVote(
+    blockHash: string,
+    validatorAddress: string
+  ): Promise<void> {
+    if (!this.blockVotes.has(blockHash)) {
+      this.blockVotes.set(blockHash, new Set());
+    }
+    this.blockVotes.get(blockHash)!.add(validatorAddress);
+
+    const block = this.getBlock(blockHash);
+    if (block && !this.isCanonical(block)) {
+      await this.maybeReorganize(block);
+    }
+  }
+
+  // Check if a block is part of the canonical chain
+  isCanonical(block: any): boolean {
+    return this.blocksByHeight.get(block.header.height) === block.hash;
+  }
+
+  // Heights at or below this can no longer be reorganized: those up to the
+  // last certified block and, unless finality needs certificates, those
+  // buried under enough confirmations
+  getFinalizedHeight(): number {
+    if (
+      this.configService.get<boolean>('consensus.requireCommitCertificates')
+    ) {
+      return this.certifiedHeight;
+    }
+
+    const confirmations =
+      this.configService.get<number>('blockchain.confirmations') ?? 6;
+    return Math.max(this.certifiedHeight, this.chainHeight - confirmations);
+  }
+
+  // Height of the last canonical block validators certified
+  getCertifiedHeight(): number {
+    return this.certifiedHeight;
+  }
+
+  // Switch to the branch ending at a side block if fork choice prefers it
+  private async maybeReorganize(tip: any): Promise<boolean> {
+    const { ancestor, blocks } = this.getBranch(tip);
+    const ancestorHeight = ancestor.header.height;
+    const current = this.getBlockRange(ancestorHeight + 1, this.chainHeight);
+
+    const preferred = isPreferredBranch(
+      {
+        votes: this.countVotes(blocks),
+        height: tip.header.height,
+        rounds: this.countRounds(blocks),
+      },
+      {
+        votes: this.countVotes(current),
+        height: this.chainHeight,
+        rounds: this.countRounds(current),
+      },
+      ancestorHeight,
+      this.getFinalizedHeight()
+    );
+
+    if (!preferred) {
+      return false;
+    }
+
+    return this.reorganize(ancestor, current, blocks);
+  }
+
+  // Walk back from a block to the canonical chain, returning the common
+  // ancestor and the branch blocks above it in chain order
+  private getBranch(tip: any): { ancestor: any; blocks: any[] } {
+    const blocks = [];
+    let block = tip;
+
+    while (!this.isCanonical(block)) {
+      blocks.unshift(block);
+      block = this.getBlock(block.header.previousHash);
+      if (!block) {
+        throw new Error(`Branch of block ${tip.hash} is not connected`);
+      }
+    }
+
+    return { ancestor: block, blocks };
+  }
+
+  // Count the validator votes on a list of blocks
+  private countVotes(blocks: any[]): number {
+    return blocks.reduce(
+      (total, block) => total + (this.blockVotes.get(block.hash)?.size ?? 0),
+      0
+    );
+  }
+
+  // Add up the proposer rounds of a list of blocks
+  private countRounds(blocks: any[]): number {
+    return blocks.reduce(
+      (total, block) => total + (block.header.round ?? 0),
+      0
+    );
+  }
+
+  // Roll state back to the common ancestor and replay the winning branch.
+  // If the branch turns out to be invalid the old chain is restored.
+  private async reorganize(
+    ancestor: any,
+    oldBlocks: any[],
+    newBlocks: any[]
+  ): Promise<boolean> {
+    const ancestorHeight = ancestor.header.height;
+    const tip = newBlocks[newBlocks.length - 1];
+
+    this.logger.warn(
+      `Reorganizing chain at ${ancestor.hash} (height ${ancestorHeight}): reverting ${oldBlocks.length} blocks, applying ${newBlocks.length}`
+    );
+
+    await this.rollbackState(ancestorHeight);
+
+    for (const [index, block] of newBlocks.entries()) {
+      try {
+        await this.stateManager.applyBlock(block);
+      } catch (error: any) {
+        this.logger.warn(
+          `Aborting reorg, block ${block.hash} is invalid: ${error.message}`
+        );
+
+        // Forget the invalid block and its descendants on this branch
+        newBlocks
+          .slice(index)
+          .forEach((invalid) => this.blocks.delete(invalid.hash));
+
+        // Restore the old chain
+        await this.rollbackState(ancestorHeight);
+        for (const oldBlock of oldBlocks) {
+          await this.stateManager.applyBlock(oldBlock);
+        }
+        return false;
+      }
+    }
+
+    // Point the height index at the new branch
+    for (const block of oldBlocks) {
+      this.blocksByHeight.delete(block.header.height);
+    }
+    for (const block of newBlocks) {
+      this.blocksByHeight.set(block.header.height, block.hash);
+      if (block.certificate) {
+        this.recordCertified(block);
+      }
+    }
+    this.chainHeight = tip.header.height;
+    this.lastBlockHash = tip.hash;
+
+    await this.storageService.commitReorg(
+      ancestor,
+      newBlocks,
+      this.stateManager.exportState()
+    );
+
+    for (const block of newBlocks) {
+      this.eventEmitter.emit('blockchain.block.added', block);
+    }
+    const orphaned = this.returnOrphanedTransactions(oldBlocks, newBlocks);
+    this.eventEmitter.emit('blockchain.reorg', {
+      ancestorHash: ancestor.hash,
+      ancestorHeight,
+      removedBlocks: oldBlocks.map((block) => block.hash),
+      addedBlocks: newBlocks.map((block) => block.hash),
+    });
+    this.eventEmitter.emit('blockchain.state.updated', {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+    });
+
+    this.logger.log(
+      `Reorganized to block ${tip.hash} at height ${this.chainHeight}, ${orphaned.length} transactions returned to mempool`
+    );
+
+    return true;
+  }
+
+  // Admin operation: revert the chain and state to a height, discarding the
+  // canonical blocks above it
+  async revertToHeight(height: number): Promise<void> {
+    if (!Number.isInteger(height) || height < 0 || height >= this.chainHeight) {
+      throw new Error(
+        `Cannot revert to height ${height}, chain height is ${this.chainHeight}`
+      );
+    }
+    if (height < this.syncedFrom) {
+      throw new Error(
+        `Cannot revert to height ${height}, chain was fast synced from ${this.syncedFrom}`
+      );
+    }
+
+    const ancestor = this.getBlockByHeight(height);
+    const removed = this.getBlockRange(height + 1, this.chainHeight);
+
+    this.logger.warn(
+      `Reverting chain from height ${this.chainHeight} to ${height}`
+    );
+
+    await this.rollbackState(height);
+
+    for (const block of removed) {
+      this.blocksByHeight.delete(block.header.height);
+      this.blocks.delete(block.hash);
+    }
+    this.chainHeight = height;
+    this.lastBlockHash = ancestor.hash;
+    this.certifiedHeight = Math.min(this.certifiedHeight, height);
+
+    await this.storageService.commitReorg(
+      ancestor,
+      [],
+      this.stateManager.exportState()
+    );
+
+    this.returnOrphanedTransactions(removed, []);
+    this.eventEmitter.emit('blockchain.state.updated', {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+    });
+  }
+
+  // Send transactions of abandoned blocks that were not included again
+  // back to the mempool
+  private returnOrphanedTransactions(
+    abandoned: any[],
+    replacement: any[]
+  ): any[] {
+    const included = new Set(
+      replacement.flatMap((block) => block.transactions.map((tx: any) => tx.id))
+    );
+    const orphaned = abandoned
+      .flatMap((block) => block.transactions)
+      .filter((tx: any) => !included.has(tx.id) && tx.from !== '0'.repeat(40));
+
+    this.eventEmitter.emit('blockchain.transactions.orphaned', orphaned);
+    return orphaned;
+  }
+
+  // Roll state back to a height by undoing blocks from the state head,
+  // replaying from genesis if an undo log is missing
+  private async rollbackState(height: number): Promise<void> {
+    let head = this.getBlock(this.stateManager.getLastBlockHash() ?? '');
+
+    while (head && head.header.height > height) {
+      if (!this.stateManager.canRevertBlock(head.hash)) {
+        this.logger.warn(
+          `No undo log for block ${head.hash}, replaying chain instead`
+        );
+        await this.replayState(height);
+        return;
+      }
+
+      this.stateManager.revertBlock(head);
+      head = this.getBlock(head.header.previousHash);
+    }
+  }
+
+  // Rebuild state by replaying the canonical chain from genesis up to a height
+  private async replayState(height: number): Promise<void> {
+    if (this.syncedFrom > 0) {
+      throw new Error(
+        `Cannot replay state, blocks below height ${this.syncedFrom} were fast synced`
+      );
+    }
+
+    await this.stateManager.initialize(this.getBlockByHeight(0));
+    for (let h = 1; h <= height; h++) {
+      await this.stateManager.applyBlock(this.getBlockByHeight(h));
+    }
+  }
+
   // Validate block (simplified)
   validateBlock(block: any): boolean {
     // Check block structure
@@ -169,18 +686,25 @@ export class BlockchainService implements OnModuleInit {
       return this.validateGenesisBlock(block);
     }
 
-    // Check previous block hash
-    const prevBlock = this.getBlockByHeight(block.header.height - 1);
+    // Every block after genesis must commit to the state it produces
+    if (!block.header.stateRoot) {
+      this.logger.warn(`Block ${block.hash} has no state root`);
+      return false;
+    }
+
+    // Check previous block, which may be on any known branch
+    const prevBlock = this.getBlock(block.header.previousHash);
     if (!prevBlock) {
-      this.logger.warn(
-        `Previous block at height ${block.header.height - 1} not found`
-      );
+      this.logger.warn(`Previous block ${block.header.previousHash} not found`);
       return false;
     }
 
-    if (prevBlock.hash !== block.header.previousHash) {
+    // Blocks competing with finalized blocks can never become canonical
+    if (block.header.height <= this.getFinalizedHeight()) {
       this.logger.warn(
-        `Previous hash mismatch: ${prevBlock.hash} != ${block.header.previousHash}`
+        `Block ${
+          block.hash
+        } conflicts with finalized height ${this.getFinalizedHeight()}`
       );
       return false;
     }
@@ -203,6 +727,13 @@ export class BlockchainService implements OnModuleInit {
       return false;
     }
 
+    // Blocks must come from the scheduled proposer and carry its signature
+    const proposerError = this.checkProposer(block, prevBlock);
+    if (proposerError) {
+      this.logger.warn(proposerError);
+      return false;
+    }
+
     // Check merkle root
     const calculatedMerkleRoot = this.calculateMerkleRoot(block.transactions);
     if (calculatedMerkleRoot !== block.header.merkleRoot) {
@@ -212,10 +743,21 @@ export class BlockchainService implements OnModuleInit {
       return false;
     }
 
-    // Validate transactions (simplified)
+    // Check nonces against current state when the block extends our tip
+    if (block.header.previousHash === this.lastBlockHash) {
+      const nonceError = this.stateManager.checkBlockNonces(block);
+      if (nonceError) {
+        this.logger.warn(nonceError);
+        return false;
+      }
+    }
+
+    // Every transaction must be signed by its sender, and none may issue
+    // coins
     for (const tx of block.transactions) {
-      if (!this.validateTransaction(tx)) {
-        this.logger.warn(`Invalid transaction in block: ${tx.id}`);
+      const error = checkTransactionType(tx) ?? checkTransactionSignature(tx);
+      if (error) {
+        this.logger.warn(`Invalid transaction ${tx.id} in block: ${error}`);
         return false;
       }
     }
@@ -223,6 +765,60 @@ export class BlockchainService implements OnModuleInit {
     return true;
   }
 
+  // Check the proposer of a block against the schedule for its height and the
+  // round it claims, which must be the one its timestamp falls in. A chain without active validators yet
+  // accepts blocks from any producer.
+  private checkProposer(block: any, prevBlock: any): string | null {
+    const { header } = block;
+    if (this.stateManager.getActiveValidatorsAt(header.height).length === 0) {
+      return null;
+    }
+
+    const round = getProposerRound(
+      header.timestamp - prevBlock.header.timestamp,
+      this.configService.get<number>('blockchain.blockTime') ?? 5000,
+      this.configService.get<number>('consensus.blockProposerTimeout') ?? 10000
+    );
+    if (round === null) {
+      return `Block ${block.hash} was proposed before the block time passed`;
+    }
+    if (header.round !== round) {
+      return `Block ${block.hash} claims round ${header.round}, its timestamp is in round ${round}`;
+    }
+
+    const proposer = this.getProposer(header.height, round);
+    if (header.validatorAddress !== proposer) {
+      return `Block ${block.hash} proposed by ${header.validatorAddress}, expected ${proposer} in round ${round}`;
+    }
+
+    const validator = this.stateManager.getValidator(header.validatorAddress);
+    if (
+      !validator?.publicKey ||
+      !verifyBlockSignature(header, validator.publicKey)
+    ) {
+      return `Block ${block.hash} has an invalid proposer signature`;
+    }
+
+    return null;
+  }
+
+  // Scheduled proposer of a height and round among the active validators,
+  // undefined on a chain without any
+  getProposer(height: number, round: number): string | undefined {
+    const validatorSet = this.stateManager.getValidatorSetAt(height);
+    const validators = this.stateManager
+      .getActiveValidatorsAt(height)
+      .map((v) => ({ address: v.address, votingPower: v.votingPower ?? 0 }));
+
+    return this.proposerScheduler.getProposer(
+      validators,
+      height,
+      round,
+      validatorSet?.startHeight,
+      validatorSet?.seed
+    );
+  }
+
   // Validate genesis block
   private validateGenesisBlock(block: any): boolean {
     // The genesis block is validated differently
@@ -232,30 +828,14 @@ export class BlockchainService implements OnModuleInit {
     );
   }
 
-  // Validate transaction (simplified)
-  private validateTransaction(tx: any): boolean {
-    // In a real implementation, this would verify signatures, check balances, etc.
-    return true;
-  }
-
   // Calculate block hash
   calculateBlockHash(block: any): string {
-    const header = block.header;
-    const dataToHash = `${header.version}${header.previousHash}${header.merkleRoot}${header.timestamp}${header.height}${header.validatorAddress}${block.nonce}`;
-    return createHash('sha256').update(dataToHash).digest('hex');
+    return hashBlock(block);
   }
 
-  // Calculate merkle root from transactions (simplified)
+  // Calculate merkle root from transaction hashes
   calculateMerkleRoot(transactions: any[]): string {
-    if (transactions.length === 0) {
-      return '0'.repeat(64);
-    }
-
-    const txHashes = transactions.map((tx) => tx.id);
-
-    // For simplicity, we'll just concatenate and hash
-    // In a real implementation, this would build a proper merkle tree
-    return createHash('sha256').update(txHashes.join('')).digest('hex');
+    return calculateMerkleRoot(transactions);
   }
 
   // Get current blockchain state
@@ -263,6 +843,7 @@ export class BlockchainService implements OnModuleInit {
     return {
       height: this.chainHeight,
       lastBlockHash: this.lastBlockHash,
+      certifiedHeight: this.certifiedHeight, // Light clients sync up to here
       blockCount: this.blocks.size,
       isInitialized: this.initialized,
       genesisHash: this.getBlockByHeight(0)?.hash,
@@ -278,15 +859,9 @@ export class BlockchainService implements OnModuleInit {
     const { block, peerId } = payload;
 
     try {
-      // First, validate and add the block
-      const success = await this.addBlock(block);
+      const success = await this.addPeerBlock(block, peerId);
 
       if (success) {
-        // If this is a new highest block, we need to check for chain reorg
-        if (block.header.height > this.chainHeight) {
-          await this.handlePotentialReorg(block);
-        }
-
         // Broadcast the block to other peers
         this.eventEmitter.emit('blockchain.block.relayable', block);
       }
@@ -297,18 +872,131 @@ export class BlockchainService implements OnModuleInit {
     }
   }
 
-  // Handle potential chain reorganization
-  private async handlePotentialReorg(newBlock: any): Promise<void> {
-    // In a real implementation, this would handle chain reorgs
-    // For now, we just log and accept the new highest block
-    this.logger.debug(
-      `New highest block ${newBlock.hash} at height ${newBlock.header.height}`
+  // Add a block from a peer or sync, reorganizing if its branch wins. A
+  // commit certificate it carries must be valid, and certifies our copy of
+  // the block if we already have it.
+  async addPeerBlock(block: any, peerId: string): Promise<boolean> {
+    // A block whose hash does not match is malformed, not merely unknown
+    if (!block?.header || this.calculateBlockHash(block) !== block.hash) {
+      this.logger.warn(`Rejecting malformed block from peer ${peerId}`);
+      this.reportPeer(peerId, 'Block hash does not match its contents');
+      return false;
+    }
+
+    const certificateError = this.validateCommitCertificate(block);
+    if (certificateError) {
+      this.logger.warn(
+        `Rejecting block ${block.hash} from peer ${peerId}: ${certificateError}`
+      );
+      this.reportPeer(peerId, certificateError);
+      return false;
+    }
+
+    if (this.blocks.has(block.hash)) {
+      if (block.certificate) {
+        await this.attachCertificate(block.hash, block.certificate);
+      }
+      return false;
+    }
+
+    // Only blocks invalid in themselves are the peer's fault, not ones we
+    // cannot place on a known branch after finality
+    const placeable =
+      !!this.getBlock(block.header.previousHash) &&
+      block.header.height > this.getFinalizedHeight();
+
+    const added = await this.addBlock(block);
+    if (!added && placeable && !this.blocks.has(block.hash)) {
+      this.reportPeer(peerId, `Block ${block.hash} failed validation`);
+    }
+    if (added && block.certificate) {
+      this.recordCertified(block);
+    }
+    return added;
+  }
+
+  // Attach a commit certificate collected from validator precommits to a
+  // block, returning whether it was valid and the block had none yet
+  async attachCertificate(
+    blockHash: string,
+    certificate: CommitCertificate
+  ): Promise<boolean> {
+    const block = this.getBlock(blockHash);
+    if (!block || block.certificate) {
+      return false;
+    }
+
+    const error = this.validateCommitCertificate({ ...block, certificate });
+    if (error) {
+      this.logger.warn(
+        `Rejecting certificate for block ${blockHash}: ${error}`
+      );
+      return false;
+    }
+
+    block.certificate = certificate;
+    await this.storageService.putBlock(block);
+    this.recordCertified(block);
+
+    this.logger.log(
+      `Certified block ${blockHash} at height ${block.header.height}`
     );
+    this.eventEmitter.emit('blockchain.block.certified', block);
+    return true;
+  }
+
+  // A certified canonical block is final, along with everything below it
+  private recordCertified(block: any): void {
+    if (this.isCanonical(block) && block.header.height > this.certifiedHeight) {
+      this.certifiedHeight = block.header.height;
+    }
+  }
+
+  // Let the peer manager penalize a peer that sent an invalid block
+  private reportPeer(peerId: string, reason: string): void {
+    this.eventEmitter.emit('p2p.peer.misbehaved', {
+      peerId,
+      misbehavior: 'invalid-block',
+      reason,
+    });
+  }
+
+  // Check a block's commit certificate, if it has one, against the
+  // validators active at its height, returning the rejection reason or null
+  // if it is acceptable
+  validateCommitCertificate(block: any): string | null {
+    if (!block.certificate) {
+      return null;
+    }
+
+    // Signers are weighed by the stake-based voting power in state
+    const validators: Validator[] = this.stateManager
+      .getActiveValidatorsAt(block.header.height)
+      .map((v) => ({ ...v, votingPower: v.votingPower ?? 0 }));
+
+    return verifyCommitCertificate(block.certificate, block, validators);
+  }
+
+  // Handle a validator vote from consensus
+  @OnEvent('consensus.vote.received')
+  async handleVote(payload: {
+    blockHash: string;
+    validatorAddress: string;
+  }): Promise<void> {
+    try {
+      await this.recordBlockVote(payload.blockHash, payload.validatorAddress);
+    } catch (error: any) {
+      this.logger.error(
+        `Error recording vote for block ${payload.blockHash}: ${error.message}`
+      );
+    }
   }
 
   // Get transaction by ID
   getTransaction(txId: string): { transaction: any; block: any } | null {
     for (const block of this.blocks.values()) {
+      if (!this.isCanonical(block)) continue;
+
       for (const tx of block.transactions) {
         if (tx.id === txId) {
           return { transaction: tx, block };
@@ -319,6 +1007,25 @@ export class BlockchainService implements OnModuleInit {
     return null;
   }
 
+  // Merkle proof that a canonical transaction is included in its block
+  getTransactionProof(txId: string): TransactionProof | null {
+    const result = this.getTransaction(txId);
+    if (!result) {
+      return null;
+    }
+
+    const { block } = result;
+    const index = block.transactions.findIndex((tx: any) => tx.id === txId);
+
+    return {
+      transactionId: txId,
+      blockHash: block.hash,
+      blockHeight: block.header.height,
+      merkleRoot: block.header.merkleRoot,
+      proof: getMerkleProof(block.transactions.map(hashTransaction), index),
+    };
+  }
+
   // Get transactions for a specific address
   getAddressTransactions(address: string, limit: number = 100): any[] {
     const transactions = [];
@@ -349,13 +1056,14 @@ export class BlockchainService implements OnModuleInit {
 
   // Get block count
   getBlockCount(): number {
-    return this.blocks.size;
+    return this.blocksByHeight.size;
   }
 
   // Get transaction count
   getTransactionCount(): number {
     let count = 0;
     for (const block of this.blocks.values()) {
+      if (!this.isCanonical(block)) continue;
       count += block.transactions.length;
     }
     return count;
@@ -376,9 +1084,9 @@ export class BlockchainService implements OnModuleInit {
     const block = this.getBlock(blockHash);
     if (!block) return false;
 
-    const confirmations: any = this.configService.get<number>(
-      'blockchain.confirmations'
+    return (
+      this.isCanonical(block) &&
+      block.header.height <= this.getFinalizedHeight()
     );
-    return this.chainHeight - block.header.height >= confirmations;
   }
 }
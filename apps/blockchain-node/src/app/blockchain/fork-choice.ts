@@ -0,0 +1,34 @@
+// apps/blockchain-node/src/app/blockchain/fork-choice.ts
+
+// Weight of a branch above its common ancestor with another branch
+export interface BranchScore {
+  votes: number; // Validator votes on the branch's blocks above the ancestor
+  height: number; // Height of the branch tip
+  rounds: number; // Proposer rounds of the branch's blocks above the ancestor
+}
+
+// Fork choice rule. Finalized blocks are never reverted, so a branch forking
+// at or below the finalized height always loses. Otherwise the branch with
+// more validator votes wins, then the longest, then the one whose blocks
+// came in earlier rounds: a later round's block only exists because its
+// proposer did not see the earlier one in time. Ties keep the current chain.
+export function isPreferredBranch(
+  candidate: BranchScore,
+  current: BranchScore,
+  ancestorHeight: number,
+  finalizedHeight: number
+): boolean {
+  if (ancestorHeight < finalizedHeight) {
+    return false;
+  }
+
+  if (candidate.votes !== current.votes) {
+    return candidate.votes > current.votes;
+  }
+
+  if (candidate.height !== current.height) {
+    return candidate.height > current.height;
+  }
+
+  return candidate.rounds < current.rounds;
+}
@@ -4,7 +4,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as fs from 'fs';
 import * as path from 'path';
-import { createHash } from 'crypto';
+import {
+  calculateMerkleRoot,
+  hashBlock,
+  sha256,
+} from '@digital-chuckram/utils';
 
 @Injectable()
 export class GenesisService {
@@ -55,7 +59,7 @@ export class GenesisService {
     const transactions = this.createGenesisTransactions(now);
 
     // Calculate merkle root
-    const merkleRoot = this.calculateMerkleRoot(transactions);
+    const merkleRoot = calculateMerkleRoot(transactions);
     header.merkleRoot = merkleRoot;
 
     // Create complete block
@@ -67,7 +71,7 @@ export class GenesisService {
     };
 
     // Calculate and set block hash
-    genesisBlock.hash = this.calculateBlockHash(genesisBlock);
+    genesisBlock.hash = hashBlock(genesisBlock);
 
     // Save genesis block to file
     this.saveGenesisBlock(genesisBlock);
@@ -86,7 +90,9 @@ export class GenesisService {
     const mintTx = {
       id: this.generateTxId('mint', '0', timestamp),
       from: '0'.repeat(40), // System address
-      to: 'government-treasury',
+      to:
+        this.configService.get<string>('blockchain.treasuryAddress') ??
+        'government-treasury',
       amount: '10000000000', // 10 billion initial supply
       fee: '0',
       timestamp,
@@ -101,26 +107,6 @@ export class GenesisService {
     return [mintTx];
   }
 
-  // Calculate block hash
-  private calculateBlockHash(block: any): string {
-    const header = block.header;
-    const dataToHash = `${header.version}${header.previousHash}${header.merkleRoot}${header.timestamp}${header.height}${header.validatorAddress}${block.nonce}`;
-    return createHash('sha256').update(dataToHash).digest('hex');
-  }
-
-  // Calculate merkle root (simplified)
-  private calculateMerkleRoot(transactions: any[]): string {
-    if (transactions.length === 0) {
-      return '0'.repeat(64);
-    }
-
-    const txHashes = transactions.map((tx) => tx.id);
-
-    // For simplicity, we'll just concatenate and hash
-    // In a real implementation, this would build a proper merkle tree
-    return createHash('sha256').update(txHashes.join('')).digest('hex');
-  }
-
   // Generate transaction ID
   private generateTxId(
     type: string,
@@ -128,7 +114,7 @@ export class GenesisService {
     timestamp: number
   ): string {
     const data = `${type}:${address}:${timestamp}:${Math.random()}`;
-    return createHash('sha256').update(data).digest('hex');
+    return sha256(data);
   }
 
   // Save genesis block to file
@@ -0,0 +1,75 @@
+// apps/blockchain-node/src/app/blockchain/proposer-schedule.ts
+
+import {
+  ProposerSchedule,
+  WeightedValidator,
+} from '@digital-chuckram/consensus';
+
+// Proposer round for the next block, given the time since the last one. No
+// block is due before blockTime; after that the turn passes to the next
+// validator each time a proposer lets blockProposerTimeout go by.
+export function getProposerRound(
+  elapsed: number,
+  blockTime: number,
+  proposerTimeout: number
+): number | null {
+  if (elapsed < blockTime) {
+    return null;
+  }
+
+  return Math.floor((elapsed - blockTime) / proposerTimeout);
+}
+
+// Schedules of the most recent validator sets kept by a ProposerScheduler
+const MAX_SCHEDULES = 4;
+
+// Validators take turns in proportion to voting power. The schedule starts
+// over with each validator set, and every round moves one place further.
+// Schedules are kept per validator set and seed, so consecutive heights and
+// rounds advance them a step at a time instead of replaying the epoch.
+export class ProposerScheduler {
+  private schedules: Map<string, ProposerSchedule> = new Map(); // Least recently used first
+
+  getProposer(
+    validators: WeightedValidator[],
+    height: number,
+    round: number,
+    startHeight = 0,
+    seed?: string
+  ): string | undefined {
+    if (validators.length === 0) {
+      return undefined;
+    }
+
+    return this.getSchedule(validators, startHeight, seed).getProposer(
+      height - startHeight + round
+    );
+  }
+
+  // Validators leaving the set during an epoch, when deactivated or jailed,
+  // change the schedule, so they are part of the key
+  private getSchedule(
+    validators: WeightedValidator[],
+    startHeight: number,
+    seed?: string
+  ): ProposerSchedule {
+    const key = JSON.stringify([
+      startHeight,
+      seed ?? null,
+      validators.map((v) => [v.address, v.votingPower]),
+    ]);
+
+    let schedule = this.schedules.get(key);
+    if (schedule) {
+      this.schedules.delete(key);
+    } else {
+      schedule = new ProposerSchedule(validators, seed);
+    }
+    this.schedules.set(key, schedule);
+
+    if (this.schedules.size > MAX_SCHEDULES) {
+      this.schedules.delete(this.schedules.keys().next().value!);
+    }
+    return schedule;
+  }
+}
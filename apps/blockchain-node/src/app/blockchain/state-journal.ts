@@ -0,0 +1,40 @@
+// apps/blockchain-node/src/app/blockchain/state-journal.ts
+
+// Undo log of a block: the value every state entry had before the block
+// first changed it (undefined if the entry did not exist), plus the chain
+// position and supply totals to return to
+export class StateJournal {
+  readonly balances: Map<string, bigint | undefined> = new Map();
+  readonly nonces: Map<string, number | undefined> = new Map();
+  readonly validators: Map<string, any> = new Map();
+  readonly validatorSets: Map<number, any> = new Map(); // By epoch
+
+  constructor(
+    readonly chainHeight: number,
+    readonly lastBlockHash: string | undefined,
+    readonly totalMinted: bigint,
+    readonly totalBurned: bigint
+  ) {}
+
+  // Remember the previous value of an entry, only on its first change
+  record<K, T>(
+    entries: Map<K, T | undefined>,
+    key: K,
+    previous: T | undefined
+  ): void {
+    if (!entries.has(key)) {
+      entries.set(key, previous);
+    }
+  }
+
+  // Take over the entries of a journal started after this one, keeping the
+  // earlier previous values
+  merge(later: StateJournal): void {
+    later.balances.forEach((v, key) => this.record(this.balances, key, v));
+    later.nonces.forEach((v, key) => this.record(this.nonces, key, v));
+    later.validators.forEach((v, key) => this.record(this.validators, key, v));
+    later.validatorSets.forEach((v, key) =>
+      this.record(this.validatorSets, key, v)
+    );
+  }
+}
@@ -0,0 +1,690 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { verifyStateProof } from '@digital-chuckram/blockchain';
+import { hashValidatorSet, signVote } from '@digital-chuckram/consensus';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { Evidence, Vote } from '@digital-chuckram/types';
+import { StateManager } from './state-manager.service';
+
+describe('StateManager', () => {
+  const SYSTEM = '0'.repeat(40);
+  // Validators register with the public key their address derives from
+  const [alice, bob, carol, gov] = Array.from({ length: 4 }, () =>
+    CryptoUtils.generateKeyPair()
+  );
+  const [ALICE, BOB, CAROL, GOV] = [alice, bob, carol, gov].map(
+    (keys) => keys.address
+  );
+  const publicKeys = new Map(
+    [alice, bob, carol, gov].map((keys) => [keys.address, keys.publicKey])
+  );
+  let stateManager: StateManager;
+
+  const createTransfer = (id: string, nonce: number) => ({
+    id,
+    from: ALICE,
+    to: BOB,
+    amount: '10',
+    fee: '1',
+    timestamp: Date.now(),
+    type: 'TRANSFER',
+    signature: 'sig',
+    nonce,
+  });
+
+  const registerValidator = (from: string, validatorType: string) => ({
+    id: `register-${from}`,
+    from,
+    to: SYSTEM,
+    amount: '0',
+    fee: '0',
+    type: 'VALIDATOR_REGISTRATION',
+    data: { validatorType, stake: '100', publicKey: publicKeys.get(from) },
+    nonce: 0,
+  });
+
+  const createBlock = (height: number, transactions: any[]) => ({
+    header: { height, validatorAddress: 'CHKproposer' },
+    transactions,
+    hash: `block-${height}`,
+  });
+
+  const createStateManager = async (config: Record<string, any> = {}) => {
+    stateManager = new StateManager(
+      new ConfigService(config),
+      new EventEmitter2()
+    );
+
+    await stateManager.initialize(
+      createBlock(0, [
+        {
+          id: 'mint',
+          from: SYSTEM,
+          to: ALICE,
+          amount: '1000',
+          fee: '0',
+          type: 'MINT',
+          nonce: 0,
+        },
+      ])
+    );
+  };
+
+  beforeEach(() => createStateManager());
+
+  describe('nonces', () => {
+    it('should advance the nonce for sequential transactions', async () => {
+      await stateManager.applyBlock(
+        createBlock(1, [createTransfer('tx0', 0), createTransfer('tx1', 1)])
+      );
+
+      expect(stateManager.getNonce(ALICE)).toBe(2);
+      expect(stateManager.getBalance(BOB)).toBe(20n);
+    });
+
+    it('should reject a replayed transaction', async () => {
+      await stateManager.applyBlock(createBlock(1, [createTransfer('tx0', 0)]));
+
+      await expect(
+        stateManager.applyBlock(createBlock(2, [createTransfer('tx0', 0)]))
+      ).rejects.toThrow('Nonce 0 already used (replay), expected 1');
+      expect(stateManager.validateTransaction(createTransfer('tx0', 0))).toBe(
+        false
+      );
+    });
+
+    it('should reject a nonce gap', async () => {
+      await expect(
+        stateManager.applyBlock(createBlock(1, [createTransfer('tx3', 3)]))
+      ).rejects.toThrow('Nonce gap: got 3, expected 0');
+      expect(stateManager.validateTransaction(createTransfer('tx3', 3))).toBe(
+        false
+      );
+    });
+
+    it('should reject a duplicate nonce within a block without applying it', async () => {
+      const block = createBlock(1, [
+        createTransfer('tx0', 0),
+        createTransfer('dup', 0),
+      ]);
+
+      expect(stateManager.checkBlockNonces(block)).toBe(
+        'Transaction dup rejected: Nonce 0 already used (replay), expected 1'
+      );
+      await expect(stateManager.applyBlock(block)).rejects.toThrow();
+      expect(stateManager.getNonce(ALICE)).toBe(0);
+      expect(stateManager.getBalance(ALICE)).toBe(1000n);
+    });
+  });
+
+  describe('fees and rewards', () => {
+    it('should pay transaction fees to the block proposer', async () => {
+      await createStateManager({ rewards: { blockReward: '0' } });
+
+      await stateManager.applyBlock(
+        createBlock(1, [createTransfer('tx0', 0), createTransfer('tx1', 1)])
+      );
+
+      expect(stateManager.getBalance('CHKproposer')).toBe(2n);
+      expect(stateManager.getBalance(SYSTEM)).toBe(0n);
+    });
+
+    it('should split the block reward by the government validator ratio', async () => {
+      await createStateManager({
+        rewards: { blockReward: '100', halvingInterval: 0 },
+        consensus: { governmentValidatorRatio: 60, epochLength: 1 },
+      });
+      await stateManager.applyBlock(
+        createBlock(1, [
+          createTransfer('gov', 0),
+          { ...createTransfer('cit', 1), amount: '200' },
+        ])
+      );
+
+      // Bob registers as government validator, Alice as citizen
+      await stateManager.applyBlock(
+        createBlock(2, [
+          registerValidator(BOB, 'government'),
+          { ...registerValidator(ALICE, 'citizen'), nonce: 2 },
+        ])
+      );
+      const bob = stateManager.getBalance(BOB);
+      const alice = stateManager.getBalance(ALICE);
+
+      await stateManager.applyBlock(createBlock(3, []));
+
+      expect(stateManager.getBalance(BOB) - bob).toBe(60n);
+      expect(stateManager.getBalance(ALICE) - alice).toBe(40n);
+    });
+
+    it('should keep total supply equal to minted minus burned', async () => {
+      await stateManager.applyBlock(
+        createBlock(1, [
+          createTransfer('tx0', 0),
+          { ...createTransfer('burn', 1), type: 'BURN', amount: '300' },
+          { ...registerValidator(ALICE, 'citizen'), nonce: 2 },
+        ])
+      );
+
+      expect(stateManager.getSupplyInfo()).toEqual({
+        minted: '1160',
+        burned: '300',
+        circulating: '760',
+        staked: '100',
+        consistent: true,
+      });
+    });
+
+    it('should only issue coins in the genesis block', async () => {
+      const supply = stateManager.getSupplyInfo();
+
+      for (const type of ['MINT', 'REWARD']) {
+        const issue = { ...createTransfer('issue', 0), type, amount: '5000' };
+
+        await expect(
+          stateManager.applyBlock(createBlock(1, [issue]))
+        ).rejects.toThrow(
+          `Transaction issue rejected: ${type} transactions are only valid in the genesis block`
+        );
+        expect(stateManager.validateTransaction(issue)).toBe(false);
+      }
+      expect(stateManager.getBalance(BOB)).toBe(0n);
+      expect(stateManager.getSupplyInfo()).toEqual(supply);
+    });
+  });
+
+  describe('undo logs', () => {
+    it('should revert a block to the exact previous state', async () => {
+      await stateManager.applyBlock(createBlock(1, [createTransfer('tx0', 0)]));
+      const before = stateManager.exportState();
+
+      const block = createBlock(2, [
+        createTransfer('tx1', 1),
+        { ...createTransfer('burn', 2), type: 'BURN', amount: '50' },
+        { ...registerValidator(ALICE, 'citizen'), nonce: 3 },
+      ]);
+      await stateManager.applyBlock(block);
+      stateManager.revertBlock(block);
+
+      expect(stateManager.exportState()).toEqual(before);
+      expect(stateManager.getValidator(ALICE)).toBeUndefined();
+      expect(stateManager.canRevertBlock(block.hash)).toBe(false);
+    });
+
+    it('should only revert the head block', async () => {
+      const block1 = createBlock(1, [createTransfer('tx0', 0)]);
+      await stateManager.applyBlock(block1);
+      await stateManager.applyBlock(createBlock(2, []));
+
+      expect(() => stateManager.revertBlock(block1)).toThrow(
+        'Cannot revert block block-1, state is at block-2'
+      );
+    });
+
+    it('should leave state untouched when a block fails halfway', async () => {
+      const before = stateManager.exportState();
+
+      await expect(
+        stateManager.applyBlock(
+          createBlock(1, [
+            createTransfer('tx0', 0),
+            { ...createTransfer('tx1', 1), amount: '5000' },
+          ])
+        )
+      ).rejects.toThrow('Insufficient balance');
+
+      expect(stateManager.exportState()).toEqual(before);
+    });
+  });
+
+  describe('state root', () => {
+    const toAccountState = (account: any) => ({
+      ...account,
+      balance: BigInt(account.balance),
+      validator: account.validator && {
+        ...account.validator,
+        stake: BigInt(account.validator.stake),
+      },
+    });
+
+    it('should reject a block committing to the wrong state root', async () => {
+      const before = stateManager.exportState();
+      const block = createBlock(1, [createTransfer('tx0', 0)]);
+
+      await expect(
+        stateManager.applyBlock({
+          ...block,
+          header: { ...block.header, stateRoot: 'f'.repeat(64) },
+        })
+      ).rejects.toThrow('State root mismatch');
+      expect(stateManager.exportState()).toEqual(before);
+    });
+
+    it('should accept the state root calculated ahead of the block', async () => {
+      const block: any = createBlock(1, [createTransfer('tx0', 0)]);
+      block.header.stateRoot = await stateManager.calculatePostStateRoot(block);
+
+      expect(stateManager.getLastBlockHash()).toBe('block-0');
+      await stateManager.applyBlock(block);
+      expect(stateManager.getStateRoot()).toBe(block.header.stateRoot);
+    });
+
+    it('should select the transactions that apply and commit to their state', async () => {
+      const before = stateManager.exportState();
+      const overspend = { ...createTransfer('tx-big', 1), amount: '5000' };
+      const candidates = [
+        createTransfer('tx0', 0),
+        overspend,
+        createTransfer('tx1', 1),
+        createTransfer('tx-gap', 5),
+      ];
+
+      const block: any = createBlock(1, []);
+      const { transactions, stateRoot } = await stateManager.selectTransactions(
+        block,
+        candidates
+      );
+
+      expect(transactions.map((tx) => tx.id)).toEqual(['tx0', 'tx1']);
+      expect(stateManager.exportState()).toEqual(before);
+
+      block.transactions = transactions;
+      block.header.stateRoot = stateRoot;
+      await stateManager.applyBlock(block);
+      expect(stateManager.getBalance(BOB)).toBe(20n);
+    });
+
+    it('should prove account state at the current and past heights', async () => {
+      const genesisRoot = stateManager.getStateRoot();
+      await stateManager.applyBlock(createBlock(1, [createTransfer('tx0', 0)]));
+
+      const current = stateManager.getStateProof(BOB);
+      expect(current.stateRoot).toBe(stateManager.getStateRoot());
+      expect(current.account.balance).toBe('10');
+      expect(
+        verifyStateProof(
+          current.stateRoot,
+          BOB,
+          toAccountState(current.account),
+          current.proof
+        )
+      ).toBe(true);
+
+      const past = stateManager.getStateProof(BOB, 0);
+      expect(past).toMatchObject({
+        height: 0,
+        blockHash: 'block-0',
+        stateRoot: genesisRoot,
+        account: null,
+      });
+      expect(verifyStateProof(past.stateRoot, BOB, null, past.proof)).toBe(
+        true
+      );
+    });
+  });
+
+  describe('evidence', () => {
+    const keys = CryptoUtils.generateKeyPair();
+
+    const signedVote = (blockHash: string): Vote => ({
+      validatorAddress: keys.address,
+      blockHash,
+      blockHeight: 5,
+      round: 0,
+      signature: signVote(
+        { type: 'PRECOMMIT', height: 5, round: 0, blockHash },
+        keys.privateKey
+      ),
+      timestamp: 0,
+    });
+
+    const doubleVote: Evidence = {
+      type: 'DUPLICATE_VOTE',
+      voteA: signedVote('block-a'),
+      voteB: signedVote('block-b'),
+    };
+
+    const submitEvidence = (id: string, nonce: number, evidence: Evidence) => ({
+      id,
+      from: ALICE,
+      to: SYSTEM,
+      amount: '0',
+      fee: '1',
+      type: 'EVIDENCE',
+      data: { evidence },
+      nonce,
+    });
+
+    const registerKeyedValidator = (validatorType: string) =>
+      stateManager.applyBlock(
+        createBlock(1, [
+          { ...createTransfer('fund', 0), to: keys.address, amount: '200' },
+          {
+            ...registerValidator(keys.address, validatorType),
+            data: { validatorType, stake: '100', publicKey: keys.publicKey },
+          },
+        ])
+      );
+
+    it('should slash and jail a citizen validator that double votes', async () => {
+      await registerKeyedValidator('CITIZEN');
+      await stateManager.applyBlock(
+        createBlock(2, [submitEvidence('evidence', 1, doubleVote)])
+      );
+
+      expect(stateManager.getValidator(keys.address)).toMatchObject({
+        stake: '90',
+        active: false,
+        jailed: true,
+      });
+      expect(stateManager.getSupplyInfo().consistent).toBe(true);
+      expect(stateManager.getActiveValidators()).toHaveLength(0);
+    });
+
+    it('should jail a government validator without slashing', async () => {
+      await registerKeyedValidator('GOVERNMENT');
+      await stateManager.applyBlock(
+        createBlock(2, [submitEvidence('evidence', 1, doubleVote)])
+      );
+
+      expect(stateManager.getValidator(keys.address)).toMatchObject({
+        stake: '100',
+        active: false,
+        jailed: true,
+      });
+
+      // Neither more evidence nor a new registration changes the verdict
+      await expect(
+        stateManager.applyBlock(
+          createBlock(3, [submitEvidence('again', 2, doubleVote)])
+        )
+      ).rejects.toThrow('already jailed');
+      await expect(
+        stateManager.applyBlock(
+          createBlock(3, [
+            {
+              ...registerValidator(keys.address, 'GOVERNMENT'),
+              nonce: 1,
+            },
+          ])
+        )
+      ).rejects.toThrow('is jailed');
+    });
+
+    it('should reject evidence that does not show equivocation', async () => {
+      await registerKeyedValidator('CITIZEN');
+
+      const sameBlock: Evidence = {
+        type: 'DUPLICATE_VOTE',
+        voteA: signedVote('block-a'),
+        voteB: { ...signedVote('block-a'), timestamp: 1 },
+      };
+      const forged: Evidence = {
+        ...doubleVote,
+        voteB: { ...doubleVote.voteB, signature: doubleVote.voteA.signature },
+      };
+
+      expect(
+        stateManager.validateTransaction(submitEvidence('e1', 1, sameBlock))
+      ).toBe(false);
+      expect(stateManager.checkEvidence(forged)).toBe(
+        'Invalid signature on vote for block-b'
+      );
+    });
+  });
+
+  describe('staking', () => {
+    const stakingTx = (
+      type: string,
+      from: string,
+      nonce: number,
+      amount: string,
+      data: Record<string, string>
+    ) => ({
+      id: `${type}-${from}-${nonce}`,
+      from,
+      to: SYSTEM,
+      amount,
+      fee: '1',
+      type,
+      data,
+      nonce,
+    });
+
+    it('should only register a validator with the key of its address', async () => {
+      const register = (publicKey: string) =>
+        stateManager.applyBlock(
+          createBlock(1, [
+            {
+              ...registerValidator(ALICE, 'citizen'),
+              data: { validatorType: 'citizen', stake: '100', publicKey },
+            },
+          ])
+        );
+      // The compressed form of Alice's key derives another address
+      const compressed =
+        (parseInt(alice.publicKey.slice(-1), 16) % 2 ? '03' : '02') +
+        alice.publicKey.slice(2, 66);
+
+      await expect(register(bob.publicKey)).rejects.toThrow(
+        `Public key does not belong to validator ${ALICE}`
+      );
+      await expect(register(compressed)).rejects.toThrow(
+        `Public key does not belong to validator ${ALICE}`
+      );
+      await register(alice.publicKey);
+      expect(stateManager.getValidator(ALICE)?.publicKey).toBe(alice.publicKey);
+    });
+
+    it('should return unbonded stake after the unbonding period', async () => {
+      await createStateManager({
+        rewards: { blockReward: '0' },
+        consensus: { unbondingPeriod: 2 },
+      });
+      await stateManager.applyBlock(
+        createBlock(1, [
+          { ...createTransfer('fund', 0), amount: '300' },
+          { ...registerValidator(ALICE, 'citizen'), nonce: 1 },
+        ])
+      );
+
+      await stateManager.applyBlock(
+        createBlock(2, [stakingTx('BOND', BOB, 0, '200', { validator: ALICE })])
+      );
+      expect(stateManager.getValidator(ALICE)).toMatchObject({
+        stake: '300',
+        delegations: { [ALICE]: '100', [BOB]: '200' },
+      });
+      expect(stateManager.getBalance(BOB)).toBe(99n);
+
+      const overdrawn = stakingTx('UNBOND', BOB, 1, '201', {
+        validator: ALICE,
+      });
+      expect(stateManager.validateTransaction(overdrawn)).toBe(false);
+      await expect(
+        stateManager.applyBlock(createBlock(3, [overdrawn]))
+      ).rejects.toThrow('Cannot unbond 201');
+
+      // Released at height 3 + 2
+      await stateManager.applyBlock(
+        createBlock(3, [
+          stakingTx('UNBOND', BOB, 1, '150', { validator: ALICE }),
+        ])
+      );
+      expect(stateManager.getValidator(ALICE).stake).toBe('150');
+      expect(stateManager.getSupplyInfo().staked).toBe('300');
+
+      await stateManager.applyBlock(createBlock(4, []));
+      expect(stateManager.getBalance(BOB)).toBe(98n);
+
+      await stateManager.applyBlock(createBlock(5, []));
+      expect(stateManager.getBalance(BOB)).toBe(248n);
+      expect(stateManager.getValidator(ALICE).unbonding).toEqual([]);
+      expect(stateManager.getSupplyInfo()).toMatchObject({
+        staked: '150',
+        consistent: true,
+      });
+    });
+
+    it.each([
+      ['public key', (alice: any) => (alice.publicKey = bob.publicKey)],
+      ['delegations', (alice: any) => (alice.delegations[BOB] = '51')],
+      ['unbonding', (alice: any) => alice.unbonding[0].releaseHeight++],
+      [
+        'validator sets',
+        (_: any, state: any) =>
+          state.validatorSets[0][1].validators.push({
+            address: BOB,
+            publicKey: bob.publicKey,
+            type: 'citizen',
+            votingPower: 1,
+          }),
+      ],
+    ])(
+      'should reject a snapshot with tampered %s',
+      async (_, tamper: (alice: any, state: any) => void) => {
+        await createStateManager({ consensus: { unbondingPeriod: 10 } });
+        await stateManager.applyBlock(
+          createBlock(1, [
+            { ...createTransfer('fund', 0), amount: '300' },
+            { ...registerValidator(ALICE, 'citizen'), nonce: 1 },
+          ])
+        );
+        await stateManager.applyBlock(
+          createBlock(2, [
+            stakingTx('BOND', BOB, 0, '200', { validator: ALICE }),
+            stakingTx('UNBOND', BOB, 1, '150', { validator: ALICE }),
+          ])
+        );
+        const block = {
+          header: { height: 2, stateRoot: stateManager.getStateRoot() },
+        };
+        const snapshot = stateManager.exportState();
+        expect(stateManager.checkSnapshot(snapshot, block)).toBeNull();
+
+        const tampered = structuredClone(snapshot);
+        const [, alice] = tampered.validators.find(
+          ([address]) => address === ALICE
+        )!;
+        tamper(alice, tampered);
+        expect(stateManager.checkSnapshot(tampered, block)).toMatch(
+          'State root mismatch'
+        );
+      }
+    );
+
+    it('should weigh voting power by stake and the government ratio', async () => {
+      await createStateManager({
+        consensus: { governmentValidatorRatio: 60 },
+      });
+      await stateManager.applyBlock(
+        createBlock(1, [
+          { ...createTransfer('bob', 0), amount: '300' },
+          { ...createTransfer('carol', 1), to: CAROL, amount: '300' },
+        ])
+      );
+      await stateManager.applyBlock(
+        createBlock(2, [
+          { ...registerValidator(ALICE, 'citizen'), nonce: 2 },
+          registerValidator(BOB, 'citizen'),
+          {
+            ...registerValidator(GOV, 'government'),
+            data: {
+              validatorType: 'government',
+              stake: '0',
+              publicKey: gov.publicKey,
+            },
+          },
+        ])
+      );
+
+      const powers = () =>
+        [GOV, ALICE, BOB].map(
+          (address) => stateManager.getValidator(address).votingPower
+        );
+      expect(powers()).toEqual([6000, 2000, 2000]);
+
+      await stateManager.applyBlock(
+        createBlock(3, [
+          stakingTx('BOND', CAROL, 0, '200', { validator: ALICE }),
+        ])
+      );
+      expect(powers()).toEqual([6000, 3000, 1000]);
+
+      await stateManager.applyBlock(
+        createBlock(4, [
+          stakingTx('REDELEGATE', CAROL, 1, '200', {
+            sourceValidator: ALICE,
+            validator: BOB,
+          }),
+        ])
+      );
+      expect(powers()).toEqual([6000, 1000, 3000]);
+      expect(stateManager.getValidator(BOB).delegations).toEqual({
+        [BOB]: '100',
+        [CAROL]: '200',
+      });
+    });
+  });
+
+  describe('epochs', () => {
+    it('should change validators only at epoch boundaries', async () => {
+      await createStateManager({
+        rewards: { blockReward: '0' },
+        consensus: {
+          epochLength: 3,
+          maxValidators: 1,
+          governmentValidatorRatio: 0,
+        },
+      });
+      await stateManager.applyBlock(
+        createBlock(1, [
+          { ...createTransfer('fund', 0), amount: '200' },
+          { ...registerValidator(ALICE, 'citizen'), nonce: 1 },
+          {
+            ...registerValidator(BOB, 'citizen'),
+            data: {
+              validatorType: 'citizen',
+              stake: '50',
+              publicKey: bob.publicKey,
+            },
+          },
+        ])
+      );
+      expect(stateManager.getActiveValidators()).toEqual([]);
+
+      // The last block of the epoch commits to the next validator set
+      const block2: any = createBlock(2, []);
+      block2.header.nextValidatorSetHash =
+        await stateManager.calculateNextValidatorSetHash(block2);
+      await expect(
+        stateManager.applyBlock({
+          ...block2,
+          header: { ...block2.header, nextValidatorSetHash: 'f'.repeat(64) },
+        })
+      ).rejects.toThrow('Next validator set mismatch');
+      await stateManager.applyBlock(block2);
+
+      // The single seat goes to the larger stake from height 3
+      expect(stateManager.getActiveValidators()).toMatchObject([
+        { address: ALICE, votingPower: 10000 },
+      ]);
+      expect(stateManager.getValidatorSetAt(1)).toMatchObject({
+        epoch: 0,
+        validators: [],
+      });
+      expect(block2.header.nextValidatorSetHash).toBe(
+        hashValidatorSet(stateManager.getValidatorSetAt(3))
+      );
+      expect(stateManager.getValidatorSetAt(5)).toMatchObject({
+        epoch: 1,
+        startHeight: 3,
+        validators: [{ address: ALICE }],
+      });
+
+      stateManager.revertBlock(block2);
+      expect(stateManager.getValidatorSetAt(3).epoch).toBe(0);
+      expect(stateManager.getActiveValidators()).toEqual([]);
+    });
+  });
+});
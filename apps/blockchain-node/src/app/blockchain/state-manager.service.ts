@@ -3,6 +3,33 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  AccountState,
+  checkNonce,
+  DEFAULT_REWARD_SCHEDULE,
+  getBlockReward,
+  NonceTracker,
+  RewardSchedule,
+  splitBlockReward,
+  StateTree,
+} from '@digital-chuckram/blockchain';
+import {
+  computeVotingPowers,
+  deriveProposerSeed,
+  getEpoch,
+  getEpochStartHeight,
+  getEvidenceOffender,
+  hashValidatorSet,
+  isEpochEnd,
+  selectValidatorSet,
+  verifyCommitCertificate,
+  verifyEvidence,
+} from '@digital-chuckram/consensus';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { Evidence } from '@digital-chuckram/types';
+import { StateSnapshot } from '../storage/block-store';
+import { StateJournal } from './state-journal';
+import { checkTransactionType } from './transaction-checks';
 
 @Injectable()
 export class StateManager {
@@ -10,8 +37,15 @@ export class StateManager {
   private balances: Map<string, bigint> = new Map();
   private validators: Map<string, any> = new Map();
   private nonces: Map<string, number> = new Map();
+  private validatorSets: Map<number, any> = new Map(); // epoch -> validator set
   private chainHeight: number = 0;
   private lastBlockHash: string | undefined;
+  private totalMinted = 0n;
+  private totalBurned = 0n;
+  private collectedFees = 0n; // Fees of the block being applied
+  private journal: StateJournal | undefined; // Undo log of the block being applied
+  private undoLogs: Map<string, StateJournal> = new Map(); // block hash -> undo log
+  private simulating = false; // Applying a block only to compute its state root
 
   constructor(
     private readonly configService: ConfigService,
@@ -26,11 +60,20 @@ export class StateManager {
     this.balances.clear();
     this.validators.clear();
     this.nonces.clear();
+    this.validatorSets.clear();
+    this.undoLogs.clear();
+    this.totalMinted = 0n;
+    this.totalBurned = 0n;
+    this.collectedFees = 0n;
 
     // Apply genesis transactions
     for (const tx of genesisBlock.transactions) {
-      await this.applyTransaction(tx);
+      await this.applyTransaction(tx, true);
     }
+    this.updateVotingPowers();
+    this.recordValidatorSet(0);
+    this.distributeBlockRewards(genesisBlock);
+    this.advanceEpoch(genesisBlock);
 
     // Update chain state
     this.chainHeight = 0;
@@ -39,21 +82,146 @@ export class StateManager {
     this.logger.log('State initialized successfully');
   }
 
-  // Apply block to update state
+  // Restore state from a persisted snapshot
+  restoreState(snapshot: StateSnapshot): void {
+    this.balances = new Map(
+      snapshot.balances.map(([address, balance]) => [address, BigInt(balance)])
+    );
+    this.nonces = new Map(snapshot.nonces);
+    this.validators = new Map(snapshot.validators);
+    this.validatorSets = new Map(snapshot.validatorSets);
+    this.undoLogs.clear();
+    this.totalMinted = BigInt(snapshot.supply.minted);
+    this.totalBurned = BigInt(snapshot.supply.burned);
+    this.chainHeight = snapshot.height;
+    this.lastBlockHash = snapshot.lastBlockHash;
+
+    // Snapshots from before epochs start with the validators they have
+    if (this.validatorSets.size === 0) {
+      this.recordValidatorSet(this.chainHeight + 1);
+    }
+
+    this.logger.log(`State restored at height ${this.chainHeight}`);
+  }
+
+  // Check a peer's snapshot of a trusted block before fast syncing to it,
+  // returning the rejection reason or null if it is acceptable. Its accounts
+  // and validator sets must match the state root of the block, and a commit
+  // certificate on the block must be signed by the validators it has for
+  // that height.
+  checkSnapshot(snapshot: StateSnapshot, block: any): string | null {
+    const height = block.header.height;
+    const validatorSets = new Map(snapshot.validatorSets ?? []);
+    const stateRoot = this.buildStateTree(
+      new Map(
+        snapshot.balances.map(([address, balance]) => [
+          address,
+          BigInt(balance),
+        ])
+      ),
+      new Map(snapshot.nonces),
+      new Map(snapshot.validators),
+      validatorSets,
+      height
+    ).getRoot();
+    if (stateRoot !== block.header.stateRoot) {
+      return `State root mismatch: block has ${block.header.stateRoot}, snapshot is ${stateRoot}`;
+    }
+
+    // The block fixes the next validator set if it ends an epoch
+    if (block.header.nextValidatorSetHash !== undefined) {
+      const next = validatorSets.get(
+        getEpoch(height + 1, this.getEpochLength())
+      );
+      if (
+        !next ||
+        hashValidatorSet(next) !== block.header.nextValidatorSetHash
+      ) {
+        return 'Next validator set does not match the block';
+      }
+    }
+
+    if (!block.certificate) {
+      return null;
+    }
+
+    const validatorSet = findValidatorSet(
+      validatorSets,
+      getEpoch(height, this.getEpochLength())
+    );
+    if (!validatorSet) {
+      return `No validator set for height ${height}`;
+    }
+
+    // Members of a validator set are active for its whole epoch
+    return verifyCommitCertificate(
+      block.certificate,
+      block,
+      validatorSet.validators.map((v: any) => ({ ...v, active: true }))
+    );
+  }
+
+  // Export state in a serializable form for persistence
+  exportState(): StateSnapshot {
+    return {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+      balances: Array.from(this.balances.entries()).map(
+        ([address, balance]) => [address, balance.toString()]
+      ),
+      nonces: Array.from(this.nonces.entries()),
+      validators: Array.from(this.validators.entries()).map(
+        ([address, validator]) => [address, { ...validator }]
+      ),
+      validatorSets: Array.from(this.validatorSets.entries()),
+      supply: {
+        minted: this.totalMinted.toString(),
+        burned: this.totalBurned.toString(),
+      },
+    };
+  }
+
+  // Apply block to update state. Either the whole block is applied and its
+  // undo log recorded, or state is left untouched.
   async applyBlock(block: any): Promise<void> {
     this.logger.debug(
       `Applying block ${block.hash} at height ${block.header.height} to state`
     );
 
+    const journal = new StateJournal(
+      this.chainHeight,
+      this.lastBlockHash,
+      this.totalMinted,
+      this.totalBurned
+    );
+    this.journal = journal;
+
     try {
-      // Apply each transaction in the block
-      for (const tx of block.transactions) {
-        await this.applyTransaction(tx);
+      await this.applyBlockChanges(block);
+
+      // Check the block commits to the state it produced
+      if (block.header.stateRoot !== undefined) {
+        const stateRoot = this.getStateRoot();
+        if (stateRoot !== block.header.stateRoot) {
+          throw new Error(
+            `State root mismatch: block has ${block.header.stateRoot}, state is ${stateRoot}`
+          );
+        }
+      }
+
+      // And to the validator set it chose for the next epoch
+      if (block.header.nextValidatorSetHash !== undefined) {
+        const nextValidatorSetHash = this.getNextValidatorSetHash(
+          block.header.height
+        );
+        if (nextValidatorSetHash !== block.header.nextValidatorSetHash) {
+          throw new Error(
+            `Next validator set mismatch: block has ${block.header.nextValidatorSetHash}, state has ${nextValidatorSetHash}`
+          );
+        }
       }
 
-      // Update chain state
-      this.chainHeight = block.header.height;
-      this.lastBlockHash = block.hash;
+      this.saveUndoLog(block.hash, journal);
 
       // Emit state updated event
       this.eventEmitter.emit('blockchain.state.updated', {
@@ -64,16 +232,243 @@ export class StateManager {
 
       this.logger.debug(`Block ${block.hash} successfully applied to state`);
     } catch (error: any) {
+      // Discard whatever the block changed before it failed
+      this.undo(journal);
+
       this.logger.error(
         `Error applying block ${block.hash} to state: ${error.message}`,
         error.stack
       );
       throw error;
+    } finally {
+      this.journal = undefined;
+    }
+  }
+
+  // State root a block would produce on top of current state, for block
+  // producers. State is left untouched.
+  calculatePostStateRoot(block: any): Promise<string> {
+    return this.simulateBlock(block, () => this.getStateRoot());
+  }
+
+  // Hash of the validator set a block would choose if it ends an epoch
+  calculateNextValidatorSetHash(block: any): Promise<string | undefined> {
+    return this.simulateBlock(block, () =>
+      this.getNextValidatorSetHash(block.header.height)
+    );
+  }
+
+  // Pick the candidate transactions that apply, in order, on top of current
+  // state for a block being built, skipping the ones that fail, together
+  // with the roots the block then commits to. Each candidate is applied
+  // once and state is left untouched.
+  async selectTransactions(
+    block: any,
+    candidates: any[]
+  ): Promise<{
+    transactions: any[];
+    stateRoot: string;
+    nextValidatorSetHash?: string;
+  }> {
+    const transactions: any[] = [];
+
+    return this.simulateBlock(
+      { ...block, transactions },
+      () => ({
+        transactions,
+        stateRoot: this.getStateRoot(),
+        nextValidatorSetHash: this.getNextValidatorSetHash(block.header.height),
+      }),
+      async () => {
+        for (const tx of candidates) {
+          if (await this.tryTransaction(tx)) {
+            transactions.push(tx);
+          } else {
+            this.logger.debug(`Skipping transaction ${tx.id} for this block`);
+          }
+        }
+      }
+    );
+  }
+
+  // Apply a transaction of the block being applied, undoing just that
+  // transaction if it fails
+  private async tryTransaction(tx: any): Promise<boolean> {
+    const blockJournal = this.journal!;
+    const journal = new StateJournal(
+      this.chainHeight,
+      this.lastBlockHash,
+      this.totalMinted,
+      this.totalBurned
+    );
+    const collectedFees = this.collectedFees;
+    this.journal = journal;
+
+    try {
+      await this.applyTransaction(tx);
+      blockJournal.merge(journal);
+      return true;
+    } catch {
+      this.undo(journal);
+      this.collectedFees = collectedFees;
+      return false;
+    } finally {
+      this.journal = blockJournal;
+    }
+  }
+
+  // Read state as it would be after a block, then put it back
+  private async simulateBlock<T>(
+    block: any,
+    read: () => T,
+    applyTransactions?: () => Promise<void>
+  ): Promise<T> {
+    const journal = new StateJournal(
+      this.chainHeight,
+      this.lastBlockHash,
+      this.totalMinted,
+      this.totalBurned
+    );
+    this.journal = journal;
+    this.simulating = true;
+
+    try {
+      await this.applyBlockChanges(block, applyTransactions);
+      return read();
+    } finally {
+      this.undo(journal);
+      this.journal = undefined;
+      this.simulating = false;
+    }
+  }
+
+  // Apply the transactions, fees and reward of a block and move the chain
+  // head to it. Block producers may apply the transactions their own way.
+  private async applyBlockChanges(
+    block: any,
+    applyTransactions?: () => Promise<void>
+  ): Promise<void> {
+    // Reject the block up front if its nonces are not sequential
+    const nonceError = this.checkBlockNonces(block);
+    if (nonceError) {
+      throw new Error(nonceError);
     }
+
+    // Apply each transaction in the block
+    this.collectedFees = 0n;
+    if (applyTransactions) {
+      await applyTransactions();
+    } else {
+      for (const tx of block.transactions) {
+        await this.applyTransaction(tx);
+      }
+    }
+
+    // Return stake whose unbonding period ends here, then reweigh validators
+    this.releaseUnbondedStake(block.header.height);
+    this.updateVotingPowers();
+
+    // Pay fees and the block reward
+    this.distributeBlockRewards(block);
+    this.advanceEpoch(block);
+
+    // Update chain state
+    this.chainHeight = block.header.height;
+    this.lastBlockHash = block.hash;
   }
 
-  // Apply transaction to update state
-  private async applyTransaction(tx: any): Promise<void> {
+  // Revert the block at the head of state using its undo log
+  revertBlock(block: any): void {
+    if (block.hash !== this.lastBlockHash) {
+      throw new Error(
+        `Cannot revert block ${block.hash}, state is at ${this.lastBlockHash}`
+      );
+    }
+
+    const journal = this.undoLogs.get(block.hash);
+    if (!journal) {
+      throw new Error(`No undo log for block ${block.hash}`);
+    }
+
+    this.undo(journal);
+    this.undoLogs.delete(block.hash);
+
+    this.eventEmitter.emit('blockchain.state.reverted', {
+      height: this.chainHeight,
+      lastBlockHash: this.lastBlockHash,
+      revertedBlockHash: block.hash,
+    });
+
+    this.logger.debug(
+      `Block ${block.hash} reverted, state back at height ${this.chainHeight}`
+    );
+  }
+
+  // Check if a block can be reverted without replaying the chain
+  canRevertBlock(blockHash: string): boolean {
+    return this.undoLogs.has(blockHash);
+  }
+
+  // Keep undo logs for the most recent blocks only
+  private saveUndoLog(blockHash: string, journal: StateJournal): void {
+    const maxUndoBlocks =
+      this.configService.get<number>('blockchain.maxUndoBlocks') ?? 1000;
+
+    this.undoLogs.set(blockHash, journal);
+    while (this.undoLogs.size > maxUndoBlocks) {
+      const oldest = this.undoLogs.keys().next().value;
+      if (oldest === undefined) break;
+      this.undoLogs.delete(oldest);
+    }
+  }
+
+  // Restore every entry recorded in an undo log
+  private undo(journal: StateJournal): void {
+    restoreEntries(this.balances, journal.balances);
+    restoreEntries(this.nonces, journal.nonces);
+    restoreEntries(this.validators, journal.validators);
+    restoreEntries(this.validatorSets, journal.validatorSets);
+
+    this.chainHeight = journal.chainHeight;
+    this.lastBlockHash = journal.lastBlockHash;
+    this.totalMinted = journal.totalMinted;
+    this.totalBurned = journal.totalBurned;
+    this.collectedFees = 0n;
+  }
+
+  // Check that every sender in a block uses strictly sequential nonces,
+  // returning the rejection reason or null if the nonces are valid
+  checkBlockNonces(block: any): string | null {
+    const nonces = new NonceTracker((address) => this.getNonce(address));
+
+    for (const tx of block.transactions) {
+      if (tx.from === '0'.repeat(40)) continue;
+
+      const reason = nonces.use(tx.from, tx.nonce);
+      if (reason) {
+        return `Transaction ${tx.id} rejected: ${reason}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Apply transaction to update state. Coins are only minted by the genesis
+  // block's transactions.
+  private async applyTransaction(tx: any, genesis = false): Promise<void> {
+    const typeError = genesis ? null : checkTransactionType(tx);
+    if (typeError) {
+      throw new Error(`Transaction ${tx.id} rejected: ${typeError}`);
+    }
+
+    // Check nonce before touching any state (except for system transactions)
+    if (tx.from !== '0'.repeat(40)) {
+      const reason = checkNonce(this.getNonce(tx.from), tx.nonce);
+      if (reason) {
+        throw new Error(`Transaction ${tx.id} rejected: ${reason}`);
+      }
+    }
+
     // Handle different transaction types
     switch (tx.type) {
       case 'TRANSFER':
@@ -91,6 +486,18 @@ export class StateManager {
       case 'REWARD':
         await this.applyRewardTransaction(tx);
         break;
+      case 'EVIDENCE':
+        await this.applyEvidence(tx);
+        break;
+      case 'BOND':
+        await this.applyBond(tx);
+        break;
+      case 'UNBOND':
+        await this.applyUnbond(tx);
+        break;
+      case 'REDELEGATE':
+        await this.applyRedelegate(tx);
+        break;
       // Add more transaction types as needed
       default:
         throw new Error(`Unsupported transaction type: ${tx.type}`);
@@ -98,8 +505,7 @@ export class StateManager {
 
     // Update nonce for sender (except for system transactions)
     if (tx.from !== '0'.repeat(40)) {
-      const currentNonce = this.nonces.get(tx.from) || 0;
-      this.nonces.set(tx.from, Math.max(currentNonce, tx.nonce + 1));
+      this.setNonce(tx.from, tx.nonce + 1);
     }
   }
 
@@ -127,12 +533,8 @@ export class StateManager {
     const recipientBalance = this.getBalance(to);
     this.setBalance(to, recipientBalance + amountValue);
 
-    // Fee goes to system (in a real implementation, would go to validators)
-    if (feeValue > 0n) {
-      const systemAddress = '0'.repeat(40); // System fee collection address
-      const systemBalance = this.getBalance(systemAddress);
-      this.setBalance(systemAddress, systemBalance + feeValue);
-    }
+    // Fee goes to the block proposer
+    this.collectedFees += feeValue;
   }
 
   // Apply mint transaction
@@ -145,6 +547,7 @@ export class StateManager {
     // Update recipient balance
     const recipientBalance = this.getBalance(to);
     this.setBalance(to, recipientBalance + amountValue);
+    this.totalMinted += amountValue;
   }
 
   // Apply burn transaction
@@ -167,14 +570,11 @@ export class StateManager {
     // Update sender balance (burn amount + fee)
     this.setBalance(from, senderBalance - totalDebit);
 
-    // Fee goes to system
-    if (feeValue > 0n) {
-      const systemAddress = '0'.repeat(40);
-      const systemBalance = this.getBalance(systemAddress);
-      this.setBalance(systemAddress, systemBalance + feeValue);
-    }
+    // Fee goes to the block proposer
+    this.collectedFees += feeValue;
 
     // Burned amount is removed from circulation (no recipient)
+    this.totalBurned += amountValue;
   }
 
   // Apply validator registration
@@ -187,6 +587,22 @@ export class StateManager {
     // Extract validator data
     const { validatorType, stake } = data;
 
+    // Jailed validators cannot register their way back in, and registered
+    // ones change their stake by bonding
+    if (this.validators.get(from)?.jailed) {
+      throw new Error(`Validator ${from} is jailed`);
+    }
+    if (this.validators.has(from)) {
+      throw new Error(`Validator ${from} is already registered`);
+    }
+
+    // The key that verifies the validator's blocks and votes must be the
+    // one its address belongs to, in the one form, so a key cannot register
+    // a second validator under the address of its compressed form
+    if (!this.isValidatorKey(data.publicKey, from)) {
+      throw new Error(`Public key does not belong to validator ${from}`);
+    }
+
     // Check if sender has enough balance for fee + stake
     const stakeValue = stake ? BigInt(stake) : 0n;
     const totalDebit = feeValue + stakeValue;
@@ -201,29 +617,329 @@ export class StateManager {
     // Deduct fee and stake
     this.setBalance(from, senderBalance - totalDebit);
 
-    // Fee goes to system
-    if (feeValue > 0n) {
-      const systemAddress = '0'.repeat(40);
-      const systemBalance = this.getBalance(systemAddress);
-      this.setBalance(systemAddress, systemBalance + feeValue);
-    }
+    // Fee goes to the block proposer
+    this.collectedFees += feeValue;
 
     // Register validator
-    this.validators.set(from, {
+    this.setValidator(from, {
       address: from,
+      publicKey: data.publicKey, // Verifies the validator's votes
       type: validatorType,
       stake: stakeValue.toString(),
+      delegations: stakeValue > 0n ? { [from]: stakeValue.toString() } : {},
+      unbonding: [],
+      votingPower: 0, // Set once the block's transactions are applied
       registeredAt: tx.timestamp,
       active: true,
       lastActiveBlock: this.chainHeight,
     });
 
     // Emit validator registered event
-    this.eventEmitter.emit('validator.registered', {
-      validatorAddress: from,
-      validatorType,
-      stake: stakeValue.toString(),
+    if (!this.simulating) {
+      this.eventEmitter.emit('validator.registered', {
+        validatorAddress: from,
+        validatorType,
+        stake: stakeValue.toString(),
+      });
+    }
+  }
+
+  private isValidatorKey(publicKey: any, address: string): boolean {
+    try {
+      return (
+        typeof publicKey === 'string' &&
+        CryptoUtils.normalizePublicKey(publicKey) === publicKey &&
+        CryptoUtils.publicKeyToAddress(publicKey) === address
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // Apply misbehavior evidence: the offender is jailed, and a citizen
+  // validator also loses part of its stake, which is burned
+  private async applyEvidence(tx: any): Promise<void> {
+    const { from, data, fee } = tx;
+    const feeValue = BigInt(fee);
+    const evidence: Evidence = data?.evidence;
+
+    const reason = this.checkEvidence(evidence);
+    if (reason) {
+      throw new Error(`Invalid evidence in ${tx.id}: ${reason}`);
+    }
+
+    const senderBalance = this.getBalance(from);
+    if (senderBalance < feeValue) {
+      throw new Error(
+        `Insufficient balance: ${from} has ${senderBalance}, needs ${feeValue}`
+      );
+    }
+
+    // Fee goes to the block proposer
+    this.setBalance(from, senderBalance - feeValue);
+    this.collectedFees += feeValue;
+
+    const offender = getEvidenceOffender(evidence);
+    const validator = this.validators.get(offender);
+
+    // Every delegation and pending unbonding to a citizen validator is cut
+    // by the same share
+    const percent = BigInt(
+      validator.type?.toUpperCase() === 'CITIZEN'
+        ? this.getSlashingPercent()
+        : 0
+    );
+    let slashed = 0n;
+    const slash = (amount: string): string => {
+      const cut = (BigInt(amount) * percent) / 100n;
+      slashed += cut;
+      return (BigInt(amount) - cut).toString();
+    };
+
+    const delegations = Object.fromEntries(
+      Object.entries(getDelegations(validator)).map(([delegator, amount]) => [
+        delegator,
+        slash(amount),
+      ])
+    );
+    const unbonding = (validator.unbonding ?? []).map((entry: any) => ({
+      ...entry,
+      amount: slash(entry.amount),
+    }));
+
+    this.totalBurned += slashed;
+    this.setValidator(offender, {
+      ...withDelegations(validator, delegations),
+      unbonding,
+      active: false,
+      jailed: true,
+      jailedAt: this.chainHeight + 1, // Height of the block with the evidence
     });
+
+    if (!this.simulating) {
+      this.eventEmitter.emit('validator.slashed', {
+        validatorAddress: offender,
+        evidenceType: evidence.type,
+        slashed: slashed.toString(),
+        reporter: from,
+      });
+    }
+  }
+
+  // Bond stake to a validator, either its own or as a delegator
+  private async applyBond(tx: any): Promise<void> {
+    const { from, data, fee } = tx;
+    const amount = BigInt(tx.amount);
+    const validator = this.getBondableValidator(data?.validator);
+
+    if (amount <= 0n) {
+      throw new Error(`Bond amount must be positive, got ${amount}`);
+    }
+
+    const totalDebit = amount + BigInt(fee);
+    const senderBalance = this.getBalance(from);
+    if (senderBalance < totalDebit) {
+      throw new Error(
+        `Insufficient balance: ${from} has ${senderBalance}, needs ${totalDebit}`
+      );
+    }
+
+    this.setBalance(from, senderBalance - totalDebit);
+    this.collectedFees += BigInt(fee);
+    this.setValidator(
+      validator.address,
+      addDelegation(validator, from, amount)
+    );
+  }
+
+  // Start unbonding stake. It stops counting towards voting power now but
+  // only returns to the delegator's balance after the unbonding period, so it
+  // can still be slashed for misbehavior in the meantime.
+  private async applyUnbond(tx: any): Promise<void> {
+    const { from, data } = tx;
+    const amount = BigInt(tx.amount);
+    const validator = this.validators.get(data?.validator);
+    if (!validator) {
+      throw new Error(`${data?.validator} is not a validator`);
+    }
+
+    this.checkUnbond(validator, from, amount);
+    this.payFee(tx);
+
+    const releaseHeight = this.chainHeight + 1 + this.getUnbondingPeriod();
+    this.setValidator(validator.address, {
+      ...addDelegation(validator, from, -amount),
+      unbonding: [
+        ...(validator.unbonding ?? []),
+        { delegator: from, amount: amount.toString(), releaseHeight },
+      ],
+    });
+  }
+
+  // Move bonded stake straight to another validator
+  private async applyRedelegate(tx: any): Promise<void> {
+    const { from, data } = tx;
+    const amount = BigInt(tx.amount);
+    const source = this.validators.get(data?.sourceValidator);
+    if (!source) {
+      throw new Error(`${data?.sourceValidator} is not a validator`);
+    }
+    const target = this.getBondableValidator(data?.validator);
+    if (source.address === target.address) {
+      throw new Error('Cannot redelegate to the same validator');
+    }
+
+    this.checkUnbond(source, from, amount);
+    this.payFee(tx);
+
+    this.setValidator(source.address, addDelegation(source, from, -amount));
+    this.setValidator(
+      target.address,
+      addDelegation(this.validators.get(target.address), from, amount)
+    );
+  }
+
+  private getBondableValidator(address: string | undefined): any {
+    const validator = address && this.validators.get(address);
+    if (!validator) {
+      throw new Error(`${address} is not a validator`);
+    }
+    if (validator.jailed) {
+      throw new Error(`Validator ${address} is jailed`);
+    }
+    return validator;
+  }
+
+  private checkUnbond(validator: any, delegator: string, amount: bigint): void {
+    const bonded = BigInt(getDelegations(validator)[delegator] ?? '0');
+    if (amount <= 0n || amount > bonded) {
+      throw new Error(
+        `Cannot unbond ${amount}: ${delegator} has ${bonded} bonded to ${validator.address}`
+      );
+    }
+  }
+
+  // Charge a transaction's fee, which goes to the block proposer
+  private payFee(tx: any): void {
+    const feeValue = BigInt(tx.fee);
+    const senderBalance = this.getBalance(tx.from);
+    if (senderBalance < feeValue) {
+      throw new Error(
+        `Insufficient balance: ${tx.from} has ${senderBalance}, needs ${feeValue}`
+      );
+    }
+
+    this.setBalance(tx.from, senderBalance - feeValue);
+    this.collectedFees += feeValue;
+  }
+
+  // Credit stake whose unbonding period has ended back to its delegators
+  private releaseUnbondedStake(height: number): void {
+    for (const validator of Array.from(this.validators.values())) {
+      const entries: any[] = validator.unbonding ?? [];
+      const released = entries.filter((entry) => entry.releaseHeight <= height);
+      if (released.length === 0) continue;
+
+      for (const entry of released) {
+        this.setBalance(
+          entry.delegator,
+          this.getBalance(entry.delegator) + BigInt(entry.amount)
+        );
+      }
+      this.setValidator(validator.address, {
+        ...validator,
+        unbonding: entries.filter((entry) => entry.releaseHeight > height),
+      });
+    }
+  }
+
+  // Choose the next epoch's validators after the last block of an epoch,
+  // optionally with a proposer order seeded from that block
+  private advanceEpoch(block: any): void {
+    const height = block.header.height;
+    if (!isEpochEnd(height, this.getEpochLength())) {
+      return;
+    }
+
+    const seed = this.configService.get<boolean>('consensus.randomizeProposers')
+      ? deriveProposerSeed([block.header.validatorSignature ?? '', block.hash])
+      : undefined;
+    this.recordValidatorSet(height + 1, seed);
+  }
+
+  // Fix the validator set of the epoch starting at a height from current
+  // state. If too few validators qualify the previous set carries over.
+  private recordValidatorSet(startHeight: number, seed?: string): void {
+    const epoch = getEpoch(startHeight, this.getEpochLength());
+    const selected =
+      selectValidatorSet(this.getValidators(), {
+        minValidators:
+          this.configService.get<number>('consensus.minValidators') ?? 1,
+        maxValidators:
+          this.configService.get<number>('consensus.maxValidators') ?? 100,
+        governmentValidatorRatio: this.getGovernmentRatio(),
+      }) ??
+      (this.getValidatorSetAt(startHeight - 1)?.validators ?? []).map(
+        (v: any) => this.validators.get(v.address)
+      );
+
+    // Voting power is shared out within the set
+    const powers = computeVotingPowers(selected, this.getGovernmentRatio());
+    const validatorSet = {
+      epoch,
+      startHeight: getEpochStartHeight(epoch, this.getEpochLength()),
+      validators: selected.map((validator: any) => ({
+        address: validator.address,
+        publicKey: validator.publicKey,
+        type: validator.type,
+        votingPower: powers.get(validator.address) ?? 0,
+      })),
+      seed,
+    };
+
+    this.journal?.record(
+      this.journal.validatorSets,
+      epoch,
+      this.validatorSets.get(epoch)
+    );
+    this.validatorSets.set(epoch, validatorSet);
+  }
+
+  // Recompute voting power from stake and the government weight split
+  private updateVotingPowers(): void {
+    const powers = computeVotingPowers(
+      Array.from(this.validators.values()),
+      this.getGovernmentRatio()
+    );
+
+    for (const [address, votingPower] of powers) {
+      const validator = this.validators.get(address);
+      if (validator.votingPower !== votingPower) {
+        this.setValidator(address, { ...validator, votingPower });
+      }
+    }
+  }
+
+  // Check evidence against the offender's registered key, returning the
+  // rejection reason or null if it is valid
+  checkEvidence(evidence: Evidence | undefined): string | null {
+    if (!evidence) {
+      return 'Missing evidence';
+    }
+
+    const offender = getEvidenceOffender(evidence);
+    const validator = this.validators.get(offender);
+    if (!validator) {
+      return `${offender} is not a validator`;
+    }
+    if (validator.jailed) {
+      return `Validator ${offender} is already jailed`;
+    }
+    if (!validator.publicKey) {
+      return `Unknown public key for validator ${offender}`;
+    }
+
+    return verifyEvidence(evidence, validator.publicKey);
   }
 
   // Apply reward transaction
@@ -236,6 +952,100 @@ export class StateManager {
     // Update recipient balance
     const recipientBalance = this.getBalance(to);
     this.setBalance(to, recipientBalance + amountValue);
+    this.totalMinted += amountValue;
+  }
+
+  // Pay the fees collected from a block to its proposer and issue the block
+  // reward, split between government and citizen validators
+  private distributeBlockRewards(block: any): void {
+    const proposer = block.header.validatorAddress;
+    const reward = getBlockReward(
+      this.getRewardSchedule(),
+      block.header.height
+    );
+
+    if ((this.collectedFees > 0n || reward > 0n) && !proposer) {
+      throw new Error(`Block ${block.hash} has no proposer to reward`);
+    }
+
+    if (this.collectedFees > 0n) {
+      this.setBalance(proposer, this.getBalance(proposer) + this.collectedFees);
+      this.collectedFees = 0n;
+    }
+
+    if (reward === 0n) {
+      return;
+    }
+
+    const governmentRatio = this.getGovernmentRatio();
+    const validators = this.getActiveValidators();
+    const shares = splitBlockReward(
+      reward,
+      {
+        governmentRatio,
+        citizenRatio: 1 - governmentRatio,
+      },
+      {
+        proposer,
+        government: validators
+          .filter((v) => v.type?.toUpperCase() === 'GOVERNMENT')
+          .map((v) => v.address),
+        citizen: validators
+          .filter((v) => v.type?.toUpperCase() === 'CITIZEN')
+          .map((v) => v.address),
+      }
+    );
+
+    shares.forEach((amount, address) =>
+      this.setBalance(address, this.getBalance(address) + amount)
+    );
+    this.totalMinted += reward;
+  }
+
+  // Reward schedule from config, falling back to the network defaults
+  private getRewardSchedule(): RewardSchedule {
+    const blockReward = this.configService.get<string>('rewards.blockReward');
+    const halvingInterval = this.configService.get<number>(
+      'rewards.halvingInterval'
+    );
+    const minimumReward = this.configService.get<string>(
+      'rewards.minimumReward'
+    );
+
+    return {
+      blockReward:
+        blockReward !== undefined
+          ? BigInt(blockReward)
+          : DEFAULT_REWARD_SCHEDULE.blockReward,
+      halvingInterval:
+        halvingInterval ?? DEFAULT_REWARD_SCHEDULE.halvingInterval,
+      minimumReward:
+        minimumReward !== undefined
+          ? BigInt(minimumReward)
+          : DEFAULT_REWARD_SCHEDULE.minimumReward,
+    };
+  }
+
+  // Share of block rewards and voting power going to government validators
+  private getGovernmentRatio(): number {
+    return (
+      (this.configService.get<number>('consensus.governmentValidatorRatio') ??
+        50) / 100
+    );
+  }
+
+  private getEpochLength(): number {
+    return this.configService.get<number>('consensus.epochLength') ?? 100;
+  }
+
+  // Blocks before unbonded stake is returned
+  private getUnbondingPeriod(): number {
+    return this.configService.get<number>('consensus.unbondingPeriod') ?? 100;
+  }
+
+  // Share of a citizen validator's stake burned for misbehavior
+  private getSlashingPercent(): number {
+    return this.configService.get<number>('consensus.slashingPercent') ?? 10;
   }
 
   // Get balance for an address
@@ -245,9 +1055,179 @@ export class StateManager {
 
   // Set balance for an address
   setBalance(address: string, balance: bigint): void {
+    this.journal?.record(
+      this.journal.balances,
+      address,
+      this.balances.get(address)
+    );
     this.balances.set(address, balance);
   }
 
+  // Set the next expected nonce for an address
+  private setNonce(address: string, nonce: number): void {
+    this.journal?.record(
+      this.journal.nonces,
+      address,
+      this.nonces.get(address)
+    );
+    this.nonces.set(address, nonce);
+  }
+
+  // Set validator info, keeping a copy of the previous info for undo
+  private setValidator(address: string, validator: any): void {
+    const previous = this.validators.get(address);
+    this.journal?.record(
+      this.journal.validators,
+      address,
+      previous && { ...previous }
+    );
+    this.validators.set(address, validator);
+  }
+
+  // Root of the state tree over every account's balance, nonce, voting
+  // power and validator info, and the validator sets in force
+  getStateRoot(): string {
+    return this.buildStateTree(
+      this.balances,
+      this.nonces,
+      this.validators,
+      this.validatorSets,
+      this.chainHeight
+    ).getRoot();
+  }
+
+  // Merkle proof of an account's state at a height, for light clients.
+  // Past heights are rebuilt from undo logs so only recent ones are available.
+  getStateProof(address: string, height: number = this.chainHeight): any {
+    if (height > this.chainHeight || height < 0) {
+      throw new Error(
+        `Height ${height} is outside the chain (height ${this.chainHeight})`
+      );
+    }
+
+    const balances = new Map(this.balances);
+    const nonces = new Map(this.nonces);
+    const validators = new Map(this.validators);
+    const validatorSets = new Map(this.validatorSets);
+    let blockHash = this.lastBlockHash;
+    let blockHeight = this.chainHeight;
+
+    // Step back through undo logs until reaching the requested height
+    while (blockHeight > height) {
+      const journal = blockHash ? this.undoLogs.get(blockHash) : undefined;
+      if (!journal) {
+        throw new Error(`State at height ${height} is no longer available`);
+      }
+
+      restoreEntries(balances, journal.balances);
+      restoreEntries(nonces, journal.nonces);
+      restoreEntries(validators, journal.validators);
+      restoreEntries(validatorSets, journal.validatorSets);
+      blockHash = journal.lastBlockHash;
+      blockHeight = journal.chainHeight;
+    }
+
+    const accounts = this.buildAccounts(balances, nonces, validators);
+    const tree = new StateTree(
+      accounts,
+      hashValidatorSets(
+        getCommittedValidatorSets(validatorSets, height, this.getEpochLength())
+      )
+    );
+    const account = accounts.get(address);
+
+    return {
+      address,
+      height,
+      blockHash,
+      stateRoot: tree.getRoot(),
+      account: account
+        ? {
+            balance: account.balance.toString(),
+            nonce: account.nonce,
+            votingPower: account.votingPower,
+            validator: account.validator && {
+              ...account.validator,
+              stake: account.validator.stake.toString(),
+              delegations: Object.fromEntries(
+                Object.entries(account.validator.delegations ?? {}).map(
+                  ([delegator, amount]) => [delegator, amount.toString()]
+                )
+              ),
+              unbonding: (account.validator.unbonding ?? []).map((entry) => ({
+                ...entry,
+                amount: entry.amount.toString(),
+              })),
+            },
+          }
+        : null,
+      proof: tree.getProof(address),
+    };
+  }
+
+  // State tree over the accounts and the validator sets in force after the
+  // block at a height
+  private buildStateTree(
+    balances: Map<string, bigint>,
+    nonces: Map<string, number>,
+    validators: Map<string, any>,
+    validatorSets: Map<number, any>,
+    height: number
+  ): StateTree {
+    return new StateTree(
+      this.buildAccounts(balances, nonces, validators),
+      hashValidatorSets(
+        getCommittedValidatorSets(validatorSets, height, this.getEpochLength())
+      )
+    );
+  }
+
+  // Combine state maps into the per-account view committed by the state tree
+  private buildAccounts(
+    balances: Map<string, bigint>,
+    nonces: Map<string, number>,
+    validators: Map<string, any>
+  ): Map<string, AccountState> {
+    const addresses = new Set([
+      ...balances.keys(),
+      ...nonces.keys(),
+      ...validators.keys(),
+    ]);
+
+    const accounts = new Map<string, AccountState>();
+    for (const address of addresses) {
+      const validator = validators.get(address);
+      accounts.set(address, {
+        balance: balances.get(address) ?? 0n,
+        nonce: nonces.get(address) ?? 0,
+        votingPower: validator?.votingPower ?? 0,
+        validator: validator && {
+          type: validator.type,
+          stake: BigInt(validator.stake || '0'),
+          active: validator.active,
+          jailed: validator.jailed,
+          publicKey: validator.publicKey,
+          delegations: Object.fromEntries(
+            Object.entries(getDelegations(validator)).map(
+              ([delegator, amount]) => [delegator, BigInt(amount)]
+            )
+          ),
+          unbonding: (validator.unbonding ?? []).map((entry: any) => ({
+            delegator: entry.delegator,
+            amount: BigInt(entry.amount),
+            releaseHeight: entry.releaseHeight,
+          })),
+        },
+      });
+    }
+    return accounts;
+  }
+
+  // Get the hash of the last block applied to state
+  getLastBlockHash(): string | undefined {
+    return this.lastBlockHash;
+  }
+
   // Get nonce for an address
   getNonce(address: string): number {
     return this.nonces.get(address) || 0;
@@ -263,9 +1243,44 @@ export class StateManager {
     return Array.from(this.validators.values());
   }
 
-  // Get active validators
+  // Get the validators of the current epoch that have not since been
+  // deactivated, with the voting power fixed for the epoch
   getActiveValidators(): any[] {
-    return this.getValidators().filter((v) => v.active);
+    return this.getActiveValidatorsAt(this.chainHeight + 1);
+  }
+
+  // Get the members of the validator set in force at a height that have not
+  // since been deactivated
+  getActiveValidatorsAt(height: number): any[] {
+    const validatorSet = this.getValidatorSetAt(height);
+
+    return (validatorSet?.validators ?? [])
+      .map((member: any) => ({
+        ...this.validators.get(member.address),
+        votingPower: member.votingPower,
+      }))
+      .filter((v: any) => v.active);
+  }
+
+  // Hash of the validator set chosen after the block at a height, if that
+  // block ends an epoch
+  private getNextValidatorSetHash(height: number): string | undefined {
+    if (!isEpochEnd(height, this.getEpochLength())) {
+      return undefined;
+    }
+
+    const validatorSet = this.validatorSets.get(
+      getEpoch(height + 1, this.getEpochLength())
+    );
+    return validatorSet && hashValidatorSet(validatorSet);
+  }
+
+  // Get the validator set in force at a height, past or next
+  getValidatorSetAt(height: number): any {
+    return findValidatorSet(
+      this.validatorSets,
+      getEpoch(height, this.getEpochLength())
+    );
   }
 
   // Get validators by type
@@ -293,6 +1308,33 @@ export class StateManager {
     return total;
   }
 
+  // Get total amount locked as validator stake, bonded or unbonding
+  getStakedSupply(): bigint {
+    let total = 0n;
+    for (const validator of this.validators.values()) {
+      total += BigInt(validator.stake || '0');
+      for (const entry of validator.unbonding ?? []) {
+        total += BigInt(entry.amount);
+      }
+    }
+    return total;
+  }
+
+  // Get issuance totals and check that balances plus stake equal minted
+  // minus burned
+  getSupplyInfo(): any {
+    const circulating = this.getTotalSupply();
+    const staked = this.getStakedSupply();
+
+    return {
+      minted: this.totalMinted.toString(),
+      burned: this.totalBurned.toString(),
+      circulating: circulating.toString(),
+      staked: staked.toString(),
+      consistent: circulating + staked === this.totalMinted - this.totalBurned,
+    };
+  }
+
   // Get state information
   getStateInfo(): any {
     return {
@@ -301,6 +1343,7 @@ export class StateManager {
       accountCount: this.balances.size,
       validatorCount: this.validators.size,
       activeValidatorCount: this.getActiveValidators().length,
+      epoch: getEpoch(this.chainHeight + 1, this.getEpochLength()),
       totalSupply: this.getTotalSupply().toString(),
     };
   }
@@ -308,21 +1351,61 @@ export class StateManager {
   // Check if a transaction is valid based on current state
   validateTransaction(tx: any): boolean {
     try {
+      const typeError = checkTransactionType(tx);
+      if (typeError) {
+        this.logger.debug(`Transaction ${tx.id} rejected: ${typeError}`);
+        return false;
+      }
+
       // Check nonce
       if (tx.from !== '0'.repeat(40)) {
         // Skip for system transactions
-        const currentNonce = this.getNonce(tx.from);
-        if (tx.nonce < currentNonce) {
+        const reason = checkNonce(this.getNonce(tx.from), tx.nonce);
+        if (reason) {
+          this.logger.debug(`Transaction ${tx.id} rejected: ${reason}`);
+          return false;
+        }
+      }
+
+      if (tx.type === 'EVIDENCE') {
+        const reason = this.checkEvidence(tx.data?.evidence);
+        if (reason) {
+          this.logger.debug(`Transaction ${tx.id} rejected: ${reason}`);
+          return false;
+        }
+      }
+
+      if (tx.type === 'UNBOND' || tx.type === 'REDELEGATE') {
+        const source =
+          tx.type === 'UNBOND' ? tx.data?.validator : tx.data?.sourceValidator;
+        const bonded = BigInt(
+          getDelegations(this.validators.get(source) ?? {})[tx.from] ?? '0'
+        );
+        if (BigInt(tx.amount || '0') > bonded) {
           this.logger.debug(
-            `Transaction ${tx.id} has invalid nonce ${tx.nonce}, current is ${currentNonce}`
+            `Transaction ${tx.id} rejected: ${tx.from} has ${bonded} bonded to ${source}`
           );
           return false;
         }
       }
 
-      // Check balance for transactions that require funds
-      if (['TRANSFER', 'BURN', 'VALIDATOR_REGISTRATION'].includes(tx.type)) {
-        const amount = BigInt(tx.amount || '0');
+      // Check balance for transactions that require funds. Unbonding and
+      // redelegating move bonded stake, so only their fee is paid from the
+      // balance.
+      if (
+        [
+          'TRANSFER',
+          'BURN',
+          'VALIDATOR_REGISTRATION',
+          'EVIDENCE',
+          'BOND',
+          'UNBOND',
+          'REDELEGATE',
+        ].includes(tx.type)
+      ) {
+        const amount = ['UNBOND', 'REDELEGATE'].includes(tx.type)
+          ? 0n
+          : BigInt(tx.amount || '0');
         const fee = BigInt(tx.fee);
         const stake =
           tx.type === 'VALIDATOR_REGISTRATION' && tx.data?.stake
@@ -351,3 +1434,105 @@ export class StateManager {
     }
   }
 }
+
+// Write previous values back into a state map, deleting entries that did
+// not exist before
+function restoreEntries<K, T>(
+  entries: Map<K, T>,
+  previous: Map<K, T | undefined>
+): void {
+  previous.forEach((value, key) => {
+    if (value === undefined) {
+      entries.delete(key);
+    } else {
+      entries.set(key, value);
+    }
+  });
+}
+
+// Validator sets in force after the block at a height: the one its epoch
+// started with, and the next epoch's if the block chose it. Blocks after the
+// height are checked against these, so the state root commits to them.
+function getCommittedValidatorSets(
+  validatorSets: Map<number, any>,
+  height: number,
+  epochLength: number
+): any[] {
+  const current = findValidatorSet(
+    validatorSets,
+    getEpoch(height, epochLength)
+  );
+  const next = findValidatorSet(
+    validatorSets,
+    getEpoch(height + 1, epochLength)
+  );
+  return [current, next].filter(
+    (validatorSet, i, sets) => validatorSet && sets.indexOf(validatorSet) === i
+  );
+}
+
+// Hash of validator sets, with the proposer seeds their hashes leave out
+function hashValidatorSets(validatorSets: any[]): string {
+  return CryptoUtils.hash(
+    JSON.stringify(
+      validatorSets.map((validatorSet) => [
+        hashValidatorSet(validatorSet),
+        validatorSet.seed ?? null,
+      ])
+    )
+  );
+}
+
+// Validator set of an epoch, falling back to the latest earlier set
+function findValidatorSet(validatorSets: Map<number, any>, epoch: number): any {
+  if (validatorSets.has(epoch)) {
+    return validatorSets.get(epoch);
+  }
+
+  let latest: any;
+  for (const validatorSet of validatorSets.values()) {
+    if (
+      validatorSet.epoch <= epoch &&
+      (!latest || validatorSet.epoch > latest.epoch)
+    ) {
+      latest = validatorSet;
+    }
+  }
+  return latest;
+}
+
+// Stake bonded to a validator by each delegator. Validators registered
+// before delegation hold their whole stake themselves.
+function getDelegations(validator: any): Record<string, string> {
+  if (validator.delegations) {
+    return validator.delegations;
+  }
+  return BigInt(validator.stake || '0') > 0n
+    ? { [validator.address]: validator.stake }
+    : {};
+}
+
+// Validator info with new delegations and the stake they add up to. Records
+// are replaced rather than changed in place so undo logs keep old values.
+function withDelegations(
+  validator: any,
+  delegations: Record<string, string>
+): any {
+  const stake = Object.values(delegations).reduce(
+    (total, amount) => total + BigInt(amount),
+    0n
+  );
+  return { ...validator, delegations, stake: stake.toString() };
+}
+
+function addDelegation(validator: any, delegator: string, amount: bigint): any {
+  const delegations = { ...getDelegations(validator) };
+  const bonded = BigInt(delegations[delegator] ?? '0') + amount;
+
+  if (bonded > 0n) {
+    delegations[delegator] = bonded.toString();
+  } else {
+    delete delegations[delegator];
+  }
+  return withDelegations(validator, delegations);
+}
@@ -0,0 +1,29 @@
+// apps/blockchain-node/src/app/blockchain/transaction-checks.ts
+
+import { verifyTransactionSignature } from '@digital-chuckram/blockchain';
+
+// Transactions that issue coins. They are only valid in the genesis block,
+// after which new coins only come from block rewards.
+const ISSUANCE_TYPES = ['MINT', 'REWARD'];
+
+// Check a transaction may appear in a block after genesis, returning the
+// rejection reason or null
+export function checkTransactionType(tx: any): string | null {
+  if (ISSUANCE_TYPES.includes(tx?.type)) {
+    return `${tx.type} transactions are only valid in the genesis block`;
+  }
+  return null;
+}
+
+// Check that a transaction carries its sender's public key and is signed
+// with it, returning the rejection reason or null. The node keeps no account
+// keys, so every transaction brings the key of the address it spends from.
+export function checkTransactionSignature(tx: any): string | null {
+  if (typeof tx?.publicKey !== 'string') {
+    return `Missing public key for sender ${tx?.from}`;
+  }
+  if (!verifyTransactionSignature(tx, tx.publicKey)) {
+    return 'Invalid transaction signature';
+  }
+  return null;
+}
@@ -0,0 +1,12 @@
+// apps/blockchain-node/src/app/consensus/consensus.module.ts
+
+import { Module } from '@nestjs/common';
+import { ConsensusService } from './consensus.service';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+
+@Module({
+  imports: [BlockchainModule],
+  providers: [ConsensusService],
+  exports: [ConsensusService],
+})
+export class ConsensusModule {}
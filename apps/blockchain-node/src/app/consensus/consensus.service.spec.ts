@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { EventEmitter2, EventEmitterModule } from '@nestjs/event-emitter';
+import { signBlockHeader, signVote } from '@digital-chuckram/consensus';
+import { ConsensusModule } from './consensus.module';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { GenesisService } from '../blockchain/genesis.service';
+import { StateManager } from '../blockchain/state-manager.service';
+import { MessageHandler } from '../p2p/message-handler.service';
+import {
+  createDevnetGenesis,
+  DevnetValidator,
+  generateValidators,
+} from '../../devnet/devnet-genesis';
+
+describe('ConsensusService', () => {
+  const validators = generateValidators(2, 0, '0');
+  const [self, peer] = validators;
+  let module: TestingModule;
+  let blockchainService: BlockchainService;
+  let stateManager: StateManager;
+  let messageHandler: MessageHandler;
+  let broadcast: any[];
+
+  beforeEach(async () => {
+    const genesis = createDevnetGenesis(validators, '1000');
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              blockchain: { confirmations: 3 },
+              storage: { database: { type: 'memory' } },
+              validator: {
+                isValidator: true,
+                validatorAddress: self.address,
+                validatorPrivateKey: self.privateKey,
+              },
+            }),
+          ],
+        }),
+        EventEmitterModule.forRoot({ wildcard: true, delimiter: '.' }),
+        BlockchainModule,
+        ConsensusModule,
+      ],
+      providers: [MessageHandler],
+    })
+      .overrideProvider(GenesisService)
+      .useValue({ loadGenesisBlock: async () => genesis })
+      .compile();
+    await module.init();
+
+    blockchainService = module.get(BlockchainService);
+    stateManager = module.get(StateManager);
+    messageHandler = module.get(MessageHandler);
+    broadcast = [];
+    module
+      .get(EventEmitter2)
+      .on('consensus.message.broadcast', (payload) => broadcast.push(payload));
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  // Let event handlers and the storage writes they start finish
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  // Block at height 1 from the round's scheduled proposer
+  const propose = async (round: number) => {
+    const genesis = blockchainService.getBlockByHeight(0);
+    const proposer = validators.find(
+      (v) => v.address === blockchainService.getProposer(1, round)
+    )!;
+    const header: any = {
+      version: 1,
+      previousHash: genesis.hash,
+      merkleRoot: blockchainService.calculateMerkleRoot([]),
+      timestamp: genesis.header.timestamp + 5000 + round * 10000,
+      height: 1,
+      validatorAddress: proposer.address,
+      round,
+    };
+    const block = { header, transactions: [], nonce: 0, hash: '' };
+    header.stateRoot = await stateManager.calculatePostStateRoot(block);
+    header.validatorSignature = signBlockHeader(header, proposer.privateKey);
+    block.hash = blockchainService.calculateBlockHash(block);
+    return block;
+  };
+
+  const precommit = (
+    validator: DevnetValidator,
+    block: any,
+    signer: DevnetValidator = validator
+  ) => {
+    const payload = {
+      type: 'PRECOMMIT' as const,
+      height: block.header.height,
+      round: block.header.round,
+      blockHash: block.hash,
+    };
+    return {
+      type: payload.type,
+      height: payload.height,
+      round: payload.round,
+      data: { blockHash: block.hash },
+      from: validator.address,
+      signature: signVote(payload, signer.privateKey),
+      timestamp: Date.now(),
+    };
+  };
+
+  it('should precommit a new canonical block and certify it with peer precommits', async () => {
+    const block = await propose(0);
+    await blockchainService.addBlock(block);
+    await settle();
+
+    expect(broadcast).toEqual([
+      {
+        message: expect.objectContaining({
+          type: 'PRECOMMIT',
+          height: 1,
+          from: self.address,
+          data: { blockHash: block.hash },
+        }),
+      },
+    ]);
+    // Half of the voting power is not enough
+    expect(blockchainService.getBlock(block.hash).certificate).toBeUndefined();
+
+    const recordVote = jest.spyOn(blockchainService, 'recordBlockVote');
+    await messageHandler.handleConsensusMessage(
+      precommit(peer, block),
+      'peer-1'
+    );
+    await settle();
+
+    expect(recordVote).toHaveBeenCalledWith(block.hash, peer.address);
+    expect(blockchainService.getBlock(block.hash).certificate).toMatchObject({
+      blockHash: block.hash,
+      height: 1,
+      signers: [self.address, peer.address].sort(),
+    });
+    expect(blockchainService.getCertifiedHeight()).toBe(1);
+    expect(blockchainService.getFinalizedHeight()).toBe(1);
+    // The peer's precommit is relayed once, to the other peers
+    expect(broadcast).toHaveLength(2);
+    expect(broadcast[1].exceptPeerId).toBe('peer-1');
+  });
+
+  it('should certify a block from precommits that arrived before it', async () => {
+    const block = await propose(0);
+    await messageHandler.handleConsensusMessage(
+      precommit(peer, block),
+      'peer-1'
+    );
+    await settle();
+
+    await blockchainService.addBlock(block);
+    await settle();
+
+    expect(blockchainService.getBlock(block.hash).certificate).toBeDefined();
+  });
+
+  it('should ignore precommits with an invalid signature', async () => {
+    const penalized = jest.fn();
+    module.get(EventEmitter2).on('p2p.peer.misbehaved', penalized);
+    const recordVote = jest.spyOn(blockchainService, 'recordBlockVote');
+    const block = await propose(0);
+
+    await messageHandler.handleConsensusMessage(
+      precommit(peer, block, self),
+      'peer-1'
+    );
+    await settle();
+
+    // Only this validator's own precommit counts once the block arrives
+    await blockchainService.addBlock(block);
+    await settle();
+    expect(blockchainService.getBlock(block.hash).certificate).toBeUndefined();
+    expect(recordVote).not.toHaveBeenCalledWith(block.hash, peer.address);
+    expect(penalized).toHaveBeenCalledWith(
+      expect.objectContaining({
+        peerId: 'peer-1',
+        misbehavior: 'bad-signature',
+      })
+    );
+  });
+});
@@ -0,0 +1,269 @@
+// apps/blockchain-node/src/app/consensus/consensus.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import {
+  createCommitCertificate,
+  signVote,
+  verifyVoteSignature,
+} from '@digital-chuckram/consensus';
+import { ConsensusMessage } from '@digital-chuckram/types';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { StateManager } from '../blockchain/state-manager.service';
+
+interface Precommit {
+  blockHash: string;
+  round: number;
+  signature: string;
+}
+
+// Validator votes on the node's chain. A validator precommits the block
+// that joins its canonical chain at each height, once per height, and
+// broadcasts the precommit as a PRECOMMIT consensus message. Precommits from
+// peers are checked against the validators active at their height, relayed,
+// and count as votes in fork choice. Once precommits from more than two
+// thirds of the voting power agree on a block, they are attached to it as
+// its commit certificate, which finalizes it.
+@Injectable()
+export class ConsensusService {
+  private readonly logger = new Logger(ConsensusService.name);
+  private precommits: Map<number, Map<string, Precommit>> = new Map(); // height -> validator -> precommit
+  private lastPrecommitHeight = 0; // This validator's highest precommit
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly blockchainService: BlockchainService,
+    private readonly stateManager: StateManager,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  // Precommit a block that joined the canonical chain, and see whether it
+  // can be certified with precommits that arrived before it
+  @OnEvent('blockchain.block.added')
+  async handleBlockAdded(block: any): Promise<void> {
+    try {
+      const height = block.header.height;
+      this.prune();
+
+      const message = this.createPrecommit(block);
+      if (message) {
+        this.lastPrecommitHeight = height;
+        this.eventEmitter.emit('consensus.message.broadcast', { message });
+        this.addPrecommit(message);
+      }
+
+      await this.tryCertify(height);
+    } catch (error: any) {
+      this.logger.error(
+        `Error precommitting block ${block?.hash}: ${error.message}`
+      );
+    }
+  }
+
+  // Handle a consensus message from a peer. Nodes only exchange
+  // precommits, other message types are ignored.
+  @OnEvent('consensus.message.received')
+  async handleMessage(payload: {
+    message: ConsensusMessage;
+    peerId: string;
+  }): Promise<void> {
+    const { message, peerId } = payload;
+    if (message?.type !== 'PRECOMMIT') {
+      return;
+    }
+
+    try {
+      const error = this.checkPrecommit(message);
+      if (error) {
+        this.logger.debug(`Ignoring precommit from ${peerId}: ${error}`);
+        if (error === 'Invalid signature') {
+          this.eventEmitter.emit('p2p.peer.misbehaved', {
+            peerId,
+            misbehavior: 'bad-signature',
+            reason: `Invalid precommit signature from ${message.from}`,
+          });
+        }
+        return;
+      }
+
+      if (this.addPrecommit(message)) {
+        // Pass new precommits on to peers not connected to their signer
+        this.eventEmitter.emit('consensus.message.broadcast', {
+          message,
+          exceptPeerId: peerId,
+        });
+        await this.tryCertify(message.height);
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Error processing precommit from ${peerId}: ${error.message}`
+      );
+    }
+  }
+
+  // This validator's signed precommit for a block, or undefined if it is
+  // not an active validator at the block's height or already precommitted
+  // a block there
+  private createPrecommit(block: any): ConsensusMessage | undefined {
+    const address = this.configService.get<string>(
+      'validator.validatorAddress'
+    );
+    const privateKey = this.configService.get<string>(
+      'validator.validatorPrivateKey'
+    );
+    const height = block.header.height;
+    if (
+      this.configService.get<boolean>('validator.isValidator') !== true ||
+      !address ||
+      !privateKey ||
+      height <= this.lastPrecommitHeight ||
+      height <= this.blockchainService.getCertifiedHeight() ||
+      !this.stateManager
+        .getActiveValidatorsAt(height)
+        .some((v: any) => v.address === address)
+    ) {
+      return undefined;
+    }
+
+    const round = block.header.round ?? 0;
+    return {
+      type: 'PRECOMMIT',
+      height,
+      round,
+      data: { blockHash: block.hash },
+      from: address,
+      signature: signVote(
+        { type: 'PRECOMMIT', height, round, blockHash: block.hash },
+        privateKey
+      ),
+      timestamp: Date.now(),
+    };
+  }
+
+  // Check a precommit from a peer, returning the rejection reason or null
+  // if it should be counted
+  private checkPrecommit(message: ConsensusMessage): string | null {
+    const blockHash = message.data?.blockHash;
+    if (
+      !Number.isInteger(message.height) ||
+      !Number.isInteger(message.round) ||
+      typeof blockHash !== 'string' ||
+      typeof message.signature !== 'string'
+    ) {
+      return 'Malformed precommit';
+    }
+
+    if (message.height <= this.blockchainService.getCertifiedHeight()) {
+      return `Height ${message.height} is already certified`;
+    }
+
+    const validator = this.stateManager
+      .getActiveValidatorsAt(message.height)
+      .find((v: any) => v.address === message.from);
+    if (!validator?.publicKey) {
+      return `${message.from} is not an active validator at height ${message.height}`;
+    }
+
+    const valid = verifyVoteSignature(
+      {
+        type: 'PRECOMMIT',
+        height: message.height,
+        round: message.round,
+        blockHash,
+      },
+      message.signature,
+      validator.publicKey
+    );
+    return valid ? null : 'Invalid signature';
+  }
+
+  // Record a validator's precommit as its vote for the block, returning
+  // false if it already precommitted at that height
+  private addPrecommit(message: ConsensusMessage): boolean {
+    if (!this.precommits.has(message.height)) {
+      this.precommits.set(message.height, new Map());
+    }
+    const atHeight = this.precommits.get(message.height)!;
+    if (atHeight.has(message.from)) {
+      return false;
+    }
+
+    const blockHash = message.data.blockHash;
+    atHeight.set(message.from, {
+      blockHash,
+      round: message.round,
+      signature: message.signature,
+    });
+    this.eventEmitter.emit('consensus.vote.received', {
+      blockHash,
+      validatorAddress: message.from,
+    });
+    return true;
+  }
+
+  // Attach a commit certificate to the block at a height once precommits
+  // for it carry more than two thirds of the voting power
+  private async tryCertify(height: number): Promise<void> {
+    const atHeight = this.precommits.get(height);
+    if (!atHeight) {
+      return;
+    }
+
+    const validators = this.stateManager.getActiveValidatorsAt(height);
+    const totalPower = validators.reduce(
+      (total: number, v: any) => total + (v.votingPower ?? 0),
+      0
+    );
+    const power = new Map(
+      validators.map((v: any) => [v.address, v.votingPower ?? 0])
+    );
+
+    const votes = new Map<string, number>(); // block hash -> voting power
+    for (const [address, precommit] of atHeight) {
+      votes.set(
+        precommit.blockHash,
+        (votes.get(precommit.blockHash) ?? 0) + (power.get(address) ?? 0)
+      );
+    }
+
+    for (const [blockHash, signedPower] of votes) {
+      const block = this.blockchainService.getBlock(blockHash);
+      if (!block || block.certificate || signedPower * 3 <= totalPower * 2) {
+        continue;
+      }
+
+      // Only precommits for the round the block was proposed in sign it
+      const round = block.header.round ?? 0;
+      const precommits = Array.from(atHeight.entries())
+        .filter(([, p]) => p.blockHash === blockHash && p.round === round)
+        .map(([validatorAddress, p]) => ({
+          validatorAddress,
+          signature: p.signature,
+        }));
+
+      const certificate = createCommitCertificate(
+        blockHash,
+        height,
+        round,
+        precommits
+      );
+      if (
+        await this.blockchainService.attachCertificate(blockHash, certificate)
+      ) {
+        this.precommits.delete(height);
+      }
+      return;
+    }
+  }
+
+  // Forget precommits for heights that are final
+  private prune(): void {
+    const finalized = this.blockchainService.getFinalizedHeight();
+    for (const height of this.precommits.keys()) {
+      if (height <= finalized) {
+        this.precommits.delete(height);
+      }
+    }
+  }
+}
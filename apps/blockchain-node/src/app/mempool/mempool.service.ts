@@ -4,6 +4,10 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  checkTransactionSignature,
+  checkTransactionType,
+} from '../blockchain/transaction-checks';
 
 @Injectable()
 export class MempoolService implements OnModuleInit {
@@ -28,6 +32,17 @@ export class MempoolService implements OnModuleInit {
       return false;
     }
 
+    // Only the sender's key can sign for it, and only genesis issues coins
+    const invalidError =
+      checkTransactionType(transaction) ??
+      checkTransactionSignature(transaction);
+    if (invalidError) {
+      this.logger.warn(
+        `Rejecting transaction ${transaction.id}: ${invalidError}`
+      );
+      throw new Error(invalidError);
+    }
+
     // Check mempool size limit
     const maxSize: any = this.configService.get<number>('mempool.maxSize');
     if (this.pendingTransactions.size >= maxSize) {
@@ -166,8 +181,7 @@ export class MempoolService implements OnModuleInit {
     const { transaction, peerId } = payload;
 
     try {
-      // Validate transaction (in real implementation, this would be more extensive)
-      // For now we just check the basics
+      // Drop transactions missing fields or a valid sender signature
       if (
         !transaction.id ||
         !transaction.from ||
@@ -176,6 +190,37 @@ export class MempoolService implements OnModuleInit {
         !transaction.signature
       ) {
         this.logger.warn(`Invalid transaction received from peer ${peerId}`);
+        this.eventEmitter.emit('p2p.peer.misbehaved', {
+          peerId,
+          misbehavior: 'invalid-transaction',
+          reason: 'Malformed transaction',
+        });
+        return;
+      }
+
+      const typeError = checkTransactionType(transaction);
+      if (typeError) {
+        this.logger.warn(
+          `Transaction ${transaction.id} from peer ${peerId} rejected: ${typeError}`
+        );
+        this.eventEmitter.emit('p2p.peer.misbehaved', {
+          peerId,
+          misbehavior: 'invalid-transaction',
+          reason: typeError,
+        });
+        return;
+      }
+
+      const signatureError = checkTransactionSignature(transaction);
+      if (signatureError) {
+        this.logger.warn(
+          `Transaction ${transaction.id} from peer ${peerId} rejected: ${signatureError}`
+        );
+        this.eventEmitter.emit('p2p.peer.misbehaved', {
+          peerId,
+          misbehavior: 'bad-signature',
+          reason: signatureError,
+        });
         return;
       }
 
@@ -232,6 +277,28 @@ export class MempoolService implements OnModuleInit {
     );
   }
 
+  // Handle chain reorganization by returning orphaned transactions
+  @OnEvent('blockchain.transactions.orphaned')
+  async handleOrphanedTransactions(transactions: any[]): Promise<void> {
+    let restoredCount = 0;
+
+    for (const tx of transactions) {
+      try {
+        if (await this.addTransaction(tx)) {
+          restoredCount++;
+        }
+      } catch (error: any) {
+        this.logger.debug(
+          `Dropped orphaned transaction ${tx.id}: ${error.message}`
+        );
+      }
+    }
+
+    this.logger.log(
+      `Returned ${restoredCount} of ${transactions.length} orphaned transactions to mempool`
+    );
+  }
+
   // Get mempool statistics
   getStats(): any {
     const transactions = this.getAllTransactions();
@@ -92,13 +92,27 @@ export class NodeService implements OnModuleInit, OnModuleDestroy {
     });
 
     // Sync events
-    this.eventEmitter.on('sync.started', () => {
+    this.eventEmitter.on('sync.started', (sync) => {
       this.isSyncing = true;
+      this.nodeInfo.syncProgress = this.getSyncProgress(
+        sync.startHeight,
+        sync.startHeight,
+        sync.targetHeight
+      );
       this.logger.log('Blockchain synchronization started');
     });
 
+    this.eventEmitter.on('sync.progress', (sync) => {
+      this.nodeInfo.syncProgress = this.getSyncProgress(
+        sync.startHeight,
+        sync.currentHeight,
+        sync.targetHeight
+      );
+    });
+
     this.eventEmitter.on('sync.completed', (blockHeight) => {
       this.isSyncing = false;
+      this.nodeInfo.syncProgress = undefined;
       this.logger.log(
         `Blockchain synchronization completed at height ${blockHeight}`
       );
@@ -125,28 +139,10 @@ export class NodeService implements OnModuleInit, OnModuleDestroy {
 
     this.logger.log('Starting node...');
 
-    // Here we would typically:
-    // 1. Initialize the blockchain
-    // 2. Start P2P networking
-    // 3. Set up validators if needed
-    // 4. Start the block producer if this is a validator
-    // 5. Begin blockchain synchronization
-
-    // For now we'll emit events to simulate this
+    // The blockchain initializes itself on module init and validator nodes
+    // produce blocks through the BlockProducerService
     this.eventEmitter.emit('node.starting');
 
-    // Simulate blockchain sync
-    setTimeout(() => {
-      this.eventEmitter.emit('sync.started');
-
-      // Simulate sync completion after a delay
-      setTimeout(() => {
-        this.eventEmitter.emit('sync.completed', 1000);
-        this.nodeInfo.blockHeight = 1000;
-        this.nodeInfo.isSynced = true;
-      }, 5000);
-    }, 1000);
-
     this.isRunning = true;
     this.eventEmitter.emit('node.started');
   }
@@ -183,6 +179,24 @@ export class NodeService implements OnModuleInit, OnModuleDestroy {
     return this.nodeInfo;
   }
 
+  // Share of the blocks between the start and target heights applied so far
+  private getSyncProgress(
+    startHeight: number,
+    currentHeight: number,
+    targetHeight: number
+  ): any {
+    const total = targetHeight - startHeight;
+    return {
+      startHeight,
+      currentHeight,
+      targetHeight,
+      percent:
+        total > 0
+          ? Math.floor(((currentHeight - startHeight) * 100) / total)
+          : 100,
+    };
+  }
+
   getStatus(): string {
     if (!this.isRunning) return 'stopped';
     if (this.isSyncing) return 'syncing';
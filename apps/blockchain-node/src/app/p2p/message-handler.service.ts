@@ -3,6 +3,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
+// Turns messages from authenticated peers into application events. The
+// network answers pings and peer discovery itself.
 @Injectable()
 export class MessageHandler {
   private readonly logger = new Logger(MessageHandler.name);
@@ -40,14 +42,6 @@ export class MessageHandler {
     });
   }
 
-  // Handle peer discovery message
-  async handlePeerDiscovery(peers: string[], peerId: string): Promise<void> {
-    this.logger.debug(`Received ${peers.length} peer addresses from ${peerId}`);
-
-    // Emit event for P2P service to process
-    this.eventEmitter.emit('p2p.peers.discovered', { peers, peerId });
-  }
-
   // Handle sync request message
   async handleSyncRequest(request: any, peerId: string): Promise<void> {
     this.logger.debug(
@@ -70,61 +64,37 @@ export class MessageHandler {
     this.eventEmitter.emit('sync.response.received', { response, peerId });
   }
 
-  // Handle ping message
-  async handlePing(ping: any, peerId: string): Promise<void> {
-    this.logger.debug(`Received ping from ${peerId}`);
+  // Handle state snapshot request message
+  async handleSnapshotRequest(request: any, peerId: string): Promise<void> {
+    this.logger.debug(`Received snapshot request from ${peerId}`);
 
-    // Emit event to send pong response
-    this.eventEmitter.emit('p2p.ping.received', { ping, peerId });
+    // Emit event for sync service to process
+    this.eventEmitter.emit('sync.snapshot.request.received', {
+      request,
+      peerId,
+    });
   }
 
-  // Handle pong message
-  async handlePong(pong: any, peerId: string): Promise<void> {
-    this.logger.debug(`Received pong from ${peerId}`);
-
-    // Calculate latency
-    const latency = Date.now() - pong.timestamp;
+  // Handle state snapshot response message
+  async handleSnapshotResponse(response: any, peerId: string): Promise<void> {
+    this.logger.debug(
+      `Received snapshot response from ${peerId} at height ${
+        response.state?.height ?? 'none'
+      }`
+    );
 
-    // Emit event to update peer latency
-    this.eventEmitter.emit('p2p.pong.received', { pong, peerId, latency });
+    // Emit event for sync service to process
+    this.eventEmitter.emit('sync.snapshot.response.received', {
+      response,
+      peerId,
+    });
   }
 
-  // Handle generic message (router function)
-  async handleMessage(message: any, peerId: string): Promise<void> {
-    if (!message || !message.type) {
-      this.logger.warn(`Received invalid message from ${peerId}`);
-      return;
-    }
-
-    this.logger.debug(
-      `Received message of type ${message.type} from ${peerId}`
-    );
+  // Handle consensus message
+  async handleConsensusMessage(message: any, peerId: string): Promise<void> {
+    this.logger.debug(`Received consensus message from ${peerId}`);
 
-    // Route to appropriate handler based on message type
-    switch (message.type) {
-      case 'block':
-        await this.handleBlock(message.payload, peerId);
-        break;
-      case 'transaction':
-        await this.handleTransaction(message.payload, peerId);
-        break;
-      case 'peers':
-        await this.handlePeerDiscovery(message.payload, peerId);
-        break;
-      case 'sync_request':
-        await this.handleSyncRequest(message.payload, peerId);
-        break;
-      case 'sync_response':
-        await this.handleSyncResponse(message.payload, peerId);
-        break;
-      case 'ping':
-        await this.handlePing(message.payload, peerId);
-        break;
-      case 'pong':
-        await this.handlePong(message.payload, peerId);
-        break;
-      default:
-        this.logger.warn(`Unknown message type ${message.type} from ${peerId}`);
-    }
+    // Emit event for consensus to process
+    this.eventEmitter.emit('consensus.message.received', { message, peerId });
   }
 }
@@ -0,0 +1,71 @@
+// apps/blockchain-node/src/app/p2p/p2p.controller.ts
+
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../api/guards/api-key.guard';
+import { PeerManager } from './peer-manager.service';
+import { P2pService } from './p2p.service';
+
+@Controller('peers')
+@UseGuards(ApiKeyGuard)
+export class P2pController {
+  constructor(
+    private readonly peerManager: PeerManager,
+    private readonly p2pService: P2pService
+  ) {}
+
+  @Get()
+  getPeers() {
+    return this.peerManager.getPeers().map((peer) => ({
+      ...peer,
+      score: this.peerManager.getPeerScore(peer.id),
+    }));
+  }
+
+  // Propagation latency and duplicate counts of gossiped blocks and
+  // transactions
+  @Get('gossip')
+  getGossipMetrics() {
+    return this.p2pService.getGossipMetrics() ?? null;
+  }
+
+  @Get('bans')
+  getBans() {
+    return this.peerManager.getBans();
+  }
+
+  // Ban a peer ID or address, for a number of milliseconds or permanently
+  @Post(':id/ban')
+  banPeer(
+    @Param('id') id: string,
+    @Body() body: { duration?: number; reason?: string }
+  ) {
+    const { duration, reason } = body ?? {};
+    if (
+      duration !== undefined &&
+      (typeof duration !== 'number' || !(duration > 0))
+    ) {
+      throw new BadRequestException('Ban duration must be a positive number');
+    }
+
+    return this.peerManager.banPeer(id, duration, reason ?? 'Banned by admin');
+  }
+
+  @Delete(':id/ban')
+  unbanPeer(@Param('id') id: string) {
+    if (!this.peerManager.unbanPeer(id)) {
+      throw new NotFoundException(`${id} is not banned`);
+    }
+
+    return { success: true };
+  }
+}
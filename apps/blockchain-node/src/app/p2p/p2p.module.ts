@@ -4,9 +4,14 @@ import { Module } from '@nestjs/common';
 import { P2pService } from './p2p.service';
 import { PeerManager } from './peer-manager.service';
 import { MessageHandler } from './message-handler.service';
+import { P2pController } from './p2p.controller';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+import { MempoolModule } from '../mempool/mempool.module';
 
 @Module({
+  imports: [BlockchainModule, MempoolModule],
   providers: [P2pService, PeerManager, MessageHandler],
-  exports: [P2pService],
+  controllers: [P2pController],
+  exports: [P2pService, PeerManager],
 })
 export class P2pModule {}
@@ -0,0 +1,135 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageType } from '@digital-chuckram/types';
+import { calculateMerkleRoot, hashBlock } from '@digital-chuckram/utils';
+import { P2pService } from './p2p.service';
+import { PeerManager } from './peer-manager.service';
+import { MessageHandler } from './message-handler.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { MempoolService } from '../mempool/mempool.service';
+
+describe('P2pService', () => {
+  const port = 47321;
+  let dataDir: string;
+  let services: P2pService[];
+
+  const createNode = (name: string, network: Record<string, any>) => {
+    const configService = new ConfigService({
+      network: {
+        name: 'devnet',
+        maxPeers: 10,
+        minPeers: 1,
+        p2pPort: 0,
+        bootstrapNodes: [],
+        nodeKeyFile: path.join(dataDir, name, 'node-key.json'),
+        ...network,
+      },
+    });
+    const eventEmitter = new EventEmitter2();
+    const peerManager = new PeerManager(configService, eventEmitter);
+    const blockchainService = {
+      getBlock: () => undefined,
+    } as unknown as BlockchainService;
+    const p2pService = new P2pService(
+      configService,
+      peerManager,
+      new MessageHandler(eventEmitter),
+      blockchainService,
+      new MempoolService(configService, eventEmitter)
+    );
+    services.push(p2pService);
+    return { p2pService, peerManager, eventEmitter };
+  };
+
+  const waitFor = (eventEmitter: EventEmitter2, event: string) =>
+    new Promise<any>((resolve) => eventEmitter.once(event, resolve));
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'p2p-'));
+    services = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(services.map((service) => service.stop()));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep its node key across restarts', async () => {
+    const node = createNode('a', {});
+    await node.p2pService.start();
+    const nodeId = node.p2pService.getNodeId();
+    await node.p2pService.stop();
+
+    await node.p2pService.start();
+    expect(node.p2pService.getNodeId()).toBe(nodeId);
+  });
+
+  it('should connect to bootstrap nodes and bridge messages onto events', async () => {
+    const a = createNode('a', { p2pPort: port });
+    const b = createNode('b', { bootstrapNodes: [`127.0.0.1:${port}`] });
+    await a.p2pService.start();
+
+    const connected = Promise.all([
+      waitFor(a.eventEmitter, 'p2p.peer.connected'),
+      waitFor(b.eventEmitter, 'p2p.peer.connected'),
+    ]);
+    await b.p2pService.start();
+    const [peerOfA, peerOfB] = await connected;
+    expect(peerOfA.id).toBe(b.p2pService.getNodeId());
+    expect(peerOfB.id).toBe(a.p2pService.getNodeId());
+    expect(b.peerManager.getPeer(peerOfB.id)?.connected).toBe(true);
+
+    // Messages sent through the event bus arrive as events on the other node
+    const request = { requestId: '1', fromHeight: 1, toHeight: 5 };
+    const received = waitFor(a.eventEmitter, 'sync.request.received');
+    b.p2pService.handleSend({
+      peerId: peerOfB.id,
+      message: { type: MessageType.BLOCK_REQUEST, payload: request },
+    });
+    expect(await received).toEqual({ request, peerId: peerOfA.id });
+
+    // New blocks and transactions are announced and fetched by the peer
+    const block: any = {
+      header: {
+        version: 1,
+        previousHash: 'previous',
+        merkleRoot: calculateMerkleRoot([]),
+        timestamp: Date.now(),
+        height: 1,
+        validatorAddress: 'CHKvalidator',
+      },
+      transactions: [],
+      nonce: 0,
+    };
+    block.hash = hashBlock(block);
+    const relayed = waitFor(b.eventEmitter, 'blockchain.block.received');
+    a.p2pService.handleBlockRelayable(block);
+    expect(await relayed).toEqual({ block, peerId: peerOfB.id });
+
+    const transaction = { id: 'tx-1', timestamp: Date.now() };
+    const gossiped = waitFor(a.eventEmitter, 'mempool.transaction.received');
+    b.p2pService.handleTransactionAdded(transaction);
+    expect(await gossiped).toEqual({ transaction, peerId: peerOfA.id });
+    expect(a.p2pService.getGossipMetrics()?.transactions.received).toBe(1);
+
+    const disconnected = waitFor(a.eventEmitter, 'p2p.peer.disconnected');
+    await b.p2pService.stop();
+    expect((await disconnected).id).toBe(peerOfA.id);
+  }, 20000);
+
+  it('should retry bootstrap nodes while below minPeers', async () => {
+    const a = createNode('a', { p2pPort: port });
+    const b = createNode('b', { bootstrapNodes: [`127.0.0.1:${port}`] });
+
+    // The bootstrap node is not up yet when the node starts
+    await b.p2pService.start();
+    await a.p2pService.start();
+
+    const connected = waitFor(b.eventEmitter, 'p2p.peer.connected');
+    b.p2pService.maintainPeers();
+    expect((await connected).id).toBe(a.p2pService.getNodeId());
+  }, 20000);
+});
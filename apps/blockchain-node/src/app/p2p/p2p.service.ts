@@ -0,0 +1,242 @@
+// apps/blockchain-node/src/app/p2p/p2p.service.ts
+
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { P2PNetwork, loadOrCreateNodeKey } from '@digital-chuckram/p2p';
+import {
+  GossipMetrics,
+  MessageType,
+  NetworkConfig,
+  Peer,
+} from '@digital-chuckram/types';
+import { PeerManager } from './peer-manager.service';
+import { MessageHandler } from './message-handler.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { MempoolService } from '../mempool/mempool.service';
+
+const NODE_VERSION = '1.0.0';
+
+// Runs the node's P2PNetwork: peers authenticate with the node key, messages
+// from them are handed to the MessageHandler as application events, and
+// 'p2p.message.send' events, new blocks and transactions, and validator
+// precommits go out to them.
+// Blocks and transactions are gossiped, served from the chain and mempool.
+@Injectable()
+export class P2pService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(P2pService.name);
+  private network?: P2PNetwork;
+  private timer?: NodeJS.Timeout;
+  private chainHeight = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly peerManager: PeerManager,
+    private readonly messageHandler: MessageHandler,
+    private readonly blockchainService: BlockchainService,
+    private readonly mempoolService: MempoolService
+  ) {}
+
+  async onApplicationBootstrap() {
+    await this.start();
+  }
+
+  async onModuleDestroy() {
+    await this.stop();
+  }
+
+  // Listen on the P2P port and dial the bootstrap nodes
+  async start(): Promise<void> {
+    if (this.network) {
+      return;
+    }
+
+    const nodeKey = loadOrCreateNodeKey(
+      this.configService.get<string>('network.nodeKeyFile') ??
+        './data/node-key.json'
+    );
+
+    const network = new P2PNetwork(
+      this.getNetworkConfig(),
+      nodeKey.privateKey,
+      this.peerManager.getScoring()
+    );
+    network.setChainHeight(this.chainHeight);
+    network.setGossipSource({
+      getBlock: (hash) => this.blockchainService.getBlock(hash),
+      getPendingTransactions: () => this.mempoolService.getAllTransactions(),
+    });
+    this.bridgeEvents(network);
+    this.network = network;
+
+    await network.start();
+    this.logger.log(
+      `P2P network started on port ${network.getPort()} as ${network.getNodeId()}`
+    );
+
+    const interval =
+      this.configService.get<number>('network.peerDiscoveryInterval') ?? 60000;
+    this.timer = setInterval(() => this.maintainPeers(), interval);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    const network = this.network;
+    this.network = undefined;
+    await network?.stop();
+  }
+
+  getNodeId(): string | undefined {
+    return this.network?.getNodeId();
+  }
+
+  getPort(): number | undefined {
+    return this.network?.getPort();
+  }
+
+  getGossipMetrics(): GossipMetrics | undefined {
+    return this.network?.getGossipMetrics();
+  }
+
+  // Look for more peers while fewer than minPeers are connected
+  maintainPeers(): void {
+    const network = this.network;
+    const minPeers = this.configService.get<number>('network.minPeers') ?? 3;
+    if (!network || network.getPeerCount() >= minPeers) {
+      return;
+    }
+
+    this.logger.debug(
+      `Connected to ${network.getPeerCount()} of at least ${minPeers} peers, looking for more`
+    );
+    network.connectToSeedPeers();
+    network.discoverPeers();
+  }
+
+  @OnEvent('p2p.message.send')
+  handleSend(payload: {
+    peerId: string;
+    message: { type: MessageType; payload: any };
+  }): void {
+    const { peerId, message } = payload;
+    if (!this.network?.sendToPeer(peerId, message.type, message.payload)) {
+      this.logger.debug(`Cannot send ${message.type} to ${peerId}`);
+    }
+  }
+
+  @OnEvent('p2p.peer.disconnect')
+  handleDisconnect(payload: { peerId: string }): void {
+    this.network?.disconnectPeer(payload.peerId);
+  }
+
+  @OnEvent('blockchain.block.relayable')
+  handleBlockRelayable(block: any): void {
+    this.network?.broadcastBlock(block);
+  }
+
+  @OnEvent('consensus.message.broadcast')
+  handleConsensusBroadcast(payload: {
+    message: any;
+    exceptPeerId?: string;
+  }): void {
+    this.network?.broadcastConsensusMessage(
+      payload.message,
+      payload.exceptPeerId
+    );
+  }
+
+  @OnEvent('mempool.transaction.added')
+  handleTransactionAdded(transaction: any): void {
+    this.network?.broadcastTransaction(transaction);
+  }
+
+  // Keep the height advertised in handshakes current
+  @OnEvent('blockchain.state.updated')
+  handleStateUpdated(state: { height: number }): void {
+    this.chainHeight = state.height;
+    this.network?.setChainHeight(state.height);
+  }
+
+  private bridgeEvents(network: P2PNetwork): void {
+    network.on('peer-connected', (peer: Peer) =>
+      this.peerManager.registerPeer(peer)
+    );
+    network.on('peer-disconnected', (peerId: string) =>
+      this.peerManager.removePeer(peerId)
+    );
+
+    network.on('block', (block, peerId: string) =>
+      this.messageHandler.handleBlock(block, peerId)
+    );
+    network.on('transaction', (transaction, peerId: string) =>
+      this.messageHandler.handleTransaction(transaction, peerId)
+    );
+    network.on('block-request', (request, peerId: string) =>
+      this.messageHandler.handleSyncRequest(request, peerId)
+    );
+    network.on('block-response', (response, peerId: string) =>
+      this.messageHandler.handleSyncResponse(response, peerId)
+    );
+    network.on('snapshot-request', (request, peerId: string) =>
+      this.messageHandler.handleSnapshotRequest(request, peerId)
+    );
+    network.on('snapshot-response', (response, peerId: string) =>
+      this.messageHandler.handleSnapshotResponse(response, peerId)
+    );
+    network.on('consensus-message', (message, peerId: string) =>
+      this.messageHandler.handleConsensusMessage(message, peerId)
+    );
+  }
+
+  private getNetworkConfig(): NetworkConfig {
+    return {
+      port: this.configService.get<number>('network.p2pPort') ?? 40000,
+      maxPeers: this.configService.get<number>('network.maxPeers') ?? 25,
+      maxInbound: this.configService.get<number>('network.maxInboundPeers'),
+      maxOutbound: this.configService.get<number>('network.maxOutboundPeers'),
+      maxMessageSize: this.configService.get<number>('network.maxMessageSize'),
+      handshakeTimeout: this.configService.get<number>(
+        'network.handshakeTimeout'
+      ),
+      seedPeers: this.getBootstrapPeers(),
+      networkId: this.configService.get<string>('network.name') ?? 'testnet',
+      version: NODE_VERSION,
+      gossip: {
+        blockFanout: this.configService.get<number>('network.blockFanout') ?? 8,
+        transactionFanout:
+          this.configService.get<number>('network.transactionFanout') ?? 4,
+      },
+    };
+  }
+
+  // Bootstrap nodes are given as host:port, their IDs are learned on connect
+  private getBootstrapPeers(): Peer[] {
+    const nodes =
+      this.configService.get<string[]>('network.bootstrapNodes') ?? [];
+
+    return nodes.map((node) => {
+      const separator = node.lastIndexOf(':');
+      const address = separator > 0 ? node.slice(0, separator) : node;
+      const port =
+        separator > 0 ? parseInt(node.slice(separator + 1), 10) : 40000;
+
+      return {
+        id: node,
+        address: address.replace(/^\[(.*)\]$/, '$1'),
+        port,
+        lastSeen: 0,
+        version: NODE_VERSION,
+        chainHeight: 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PeerManager } from './peer-manager.service';
+
+describe('PeerManager', () => {
+  const createManager = () => {
+    const eventEmitter = new EventEmitter2();
+    const peerManager = new PeerManager(
+      new ConfigService({
+        network: { maxPeers: 10, banThreshold: 100, banDuration: 60000 },
+      }),
+      eventEmitter
+    );
+    return { peerManager, eventEmitter };
+  };
+
+  const createPeer = (id: string, address: string) => ({
+    id,
+    address,
+    port: 40000,
+    lastSeen: 0,
+    version: '1.0.0',
+    chainHeight: 0,
+  });
+
+  it('should ban and drop a peer that keeps misbehaving', () => {
+    const { peerManager, eventEmitter } = createManager();
+    const banned = jest.fn();
+    eventEmitter.on('p2p.peer.banned', banned);
+    const peer = peerManager.registerPeer(createPeer('CHKpeer1', '10.0.0.1'));
+
+    peerManager.handleMisbehavior({
+      peerId: peer.id,
+      misbehavior: 'invalid-block',
+    });
+    expect(peerManager.getPeerScore(peer.id)).toBe(50);
+    expect(peerManager.hasPeer(peer.id)).toBe(true);
+
+    peerManager.handleMisbehavior({
+      peerId: peer.id,
+      misbehavior: 'bad-signature',
+    });
+    expect(peerManager.isBanned(peer.id)).toBe(true);
+    expect(peerManager.hasPeer(peer.id)).toBe(false);
+    expect(banned).toHaveBeenCalledWith(
+      expect.objectContaining({ key: peer.id })
+    );
+  });
+
+  it('should ban and unban addresses on request', () => {
+    const { peerManager } = createManager();
+    peerManager.registerPeer(createPeer('CHKpeer2', '10.0.0.2'));
+
+    const ban = peerManager.banPeer('10.0.0.2', undefined, 'Manual');
+    expect(ban.until).toBeUndefined();
+    expect(peerManager.getPeers()).toEqual([]);
+    expect(peerManager.getBans()).toEqual([ban]);
+
+    expect(peerManager.unbanPeer('10.0.0.2')).toBe(true);
+    expect(peerManager.unbanPeer('10.0.0.2')).toBe(false);
+    expect(peerManager.isBanned('10.0.0.2')).toBe(false);
+  });
+});
@@ -1,72 +1,60 @@
 // apps/blockchain-node/src/app/p2p/peer-manager.service.ts
 
 import { Injectable, Logger } from '@nestjs/common';
-import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
 import { ConfigService } from '@nestjs/config';
+import { DEFAULT_SCORING_CONFIG, PeerScoring } from '@digital-chuckram/p2p';
+import { Misbehavior, Peer, PeerBan } from '@digital-chuckram/types';
 
-export interface Peer {
-  id: string;
-  address: string;
-  port: number;
-  version: string;
+// A peer authenticated by the network, keyed by its node ID
+export interface PeerInfo extends Peer {
   connected: boolean;
-  lastSeen: number;
   connectionTime: number;
-  blockHeight?: number;
   latency?: number;
 }
 
 @Injectable()
 export class PeerManager {
   private readonly logger = new Logger(PeerManager.name);
-  private peers: Map<string, Peer> = new Map();
+  private peers: Map<string, PeerInfo> = new Map();
+  private readonly scoring: PeerScoring;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2
-  ) {}
-
-  // Add a new peer
-  async addPeer(peerAddress: string): Promise<any> {
-    // Parse address and port from peer string
-    const [address, portStr] = peerAddress.split(':');
-    const port = parseInt(portStr || '40000', 10);
-
-    // Generate a unique ID for this peer
-    const id = `${address}:${port}`;
-
-    // Check if we already have this peer
-    if (this.peers.has(id)) {
-      this.logger.debug(`Peer ${id} already connected`);
-      return this.peers.get(id);
-    }
-
-    // Check if we can add more peers
-    const maxPeers: any = this.configService.get<number>('network.maxPeers');
-    if (this.peers.size >= maxPeers) {
-      throw new Error(`Maximum peer limit reached (${maxPeers})`);
-    }
+  ) {
+    this.scoring = new PeerScoring({
+      banFile: this.configService.get<string>('network.banFile'),
+      banThreshold:
+        this.configService.get<number>('network.banThreshold') ??
+        DEFAULT_SCORING_CONFIG.banThreshold,
+      banDuration:
+        this.configService.get<number>('network.banDuration') ??
+        DEFAULT_SCORING_CONFIG.banDuration,
+      addressBanThreshold:
+        this.configService.get<number>('network.addressBanThreshold') ??
+        DEFAULT_SCORING_CONFIG.addressBanThreshold,
+    });
+    this.scoring.on('banned', (ban: PeerBan) => this.handleBan(ban));
+  }
 
-    // Create new peer object
+  // Record a peer once the network has authenticated it
+  registerPeer(peer: Peer): PeerInfo {
     const now = Date.now();
-    const peer: Peer = {
-      id,
-      address,
-      port,
-      version: '1.0.0', // In a real implementation, this would come from handshake
+    const info: PeerInfo = {
+      ...peer,
       connected: true,
       lastSeen: now,
       connectionTime: now,
     };
 
-    // Add to peer list
-    this.peers.set(id, peer);
+    this.peers.set(peer.id, info);
 
     // Emit event
-    this.eventEmitter.emit('p2p.peer.connected', peer);
+    this.eventEmitter.emit('p2p.peer.connected', info);
 
-    this.logger.log(`Added new peer: ${id}`);
-    return peer;
+    this.logger.log(`Added new peer: ${peer.id}`);
+    return info;
   }
 
   // Remove a peer
@@ -87,7 +75,7 @@ export class PeerManager {
   }
 
   // Update peer information
-  updatePeer(peerId: string, updates: Partial<Peer>): Peer {
+  updatePeer(peerId: string, updates: Partial<PeerInfo>): PeerInfo {
     const peer = this.peers.get(peerId);
     if (!peer) {
       throw new Error(`Peer ${peerId} not found`);
@@ -101,17 +89,17 @@ export class PeerManager {
   }
 
   // Get a specific peer
-  getPeer(peerId: string): Peer | undefined {
+  getPeer(peerId: string): PeerInfo | undefined {
     return this.peers.get(peerId);
   }
 
   // Get all peers
-  getPeers(): Peer[] {
+  getPeers(): PeerInfo[] {
     return Array.from(this.peers.values());
   }
 
   // Get connected peers
-  getConnectedPeers(): Peer[] {
+  getConnectedPeers(): PeerInfo[] {
     return this.getPeers().filter((peer) => peer.connected);
   }
 
@@ -125,7 +113,8 @@ export class PeerManager {
     return this.peers.has(peerId);
   }
 
-  // Disconnect a peer
+  // Disconnect a peer. The P2P service closes the connection and the peer is
+  // removed once the network reports it gone.
   async disconnectPeer(peerId: string): Promise<boolean> {
     const peer = this.peers.get(peerId);
     if (!peer || !peer.connected) {
@@ -136,10 +125,7 @@ export class PeerManager {
     peer.connected = false;
     this.peers.set(peerId, peer);
 
-    // Emit event
-    this.eventEmitter.emit('p2p.peer.disconnected', peer);
-
-    // In a real implementation, we would close the socket connection
+    this.eventEmitter.emit('p2p.peer.disconnect', { peerId });
 
     this.logger.log(`Disconnected peer: ${peerId}`);
     return true;
@@ -160,25 +146,92 @@ export class PeerManager {
     return disconnectedCount;
   }
 
-  // Get peers with highest block height
-  getPeersWithHighestBlock(): Peer[] {
-    const peers: any = this.getConnectedPeers().filter(
-      (peer) => peer.blockHeight !== undefined
+  // Scoring shared with the network, which enforces bans and rate limits on
+  // connections
+  getScoring(): PeerScoring {
+    return this.scoring;
+  }
+
+  // Add the penalty for misbehavior to the peer's score, returning whether
+  // this got it banned
+  penalizePeer(peerId: string, misbehavior: Misbehavior): boolean {
+    this.logger.debug(`Penalizing peer ${peerId} for ${misbehavior}`);
+    return this.scoring.penalize(peerId, misbehavior);
+  }
+
+  // Misbehavior reported by the services checking what peers send
+  @OnEvent('p2p.peer.misbehaved')
+  handleMisbehavior(payload: {
+    peerId: string;
+    misbehavior: Misbehavior;
+    reason?: string;
+  }): void {
+    const { peerId, misbehavior, reason } = payload;
+    this.logger.warn(
+      `Peer ${peerId} misbehaved (${misbehavior})${reason ? `: ${reason}` : ''}`
+    );
+    this.penalizePeer(peerId, misbehavior);
+  }
+
+  // Ban a peer ID or address, permanently when no duration is given
+  banPeer(key: string, duration?: number, reason?: string): PeerBan {
+    return this.scoring.ban(key, duration, reason);
+  }
+
+  unbanPeer(key: string): boolean {
+    const removed = this.scoring.unban(key);
+    if (removed) {
+      this.logger.log(`Unbanned ${key}`);
+    }
+    return removed;
+  }
+
+  getBans(): PeerBan[] {
+    return this.scoring.getBans();
+  }
+
+  isBanned(key: string): boolean {
+    return this.scoring.isBanned(key);
+  }
+
+  getPeerScore(peerId: string): number {
+    return this.scoring.getScore(peerId);
+  }
+
+  // Drop the peers a new ban applies to
+  private handleBan(ban: PeerBan): void {
+    this.logger.warn(
+      `Banned ${ban.key}${
+        ban.until ? ` until ${new Date(ban.until).toISOString()}` : ''
+      }: ${ban.reason}`
     );
 
+    for (const peer of this.getPeers()) {
+      if (peer.id === ban.key || peer.address === ban.key) {
+        this.removePeer(peer.id);
+      }
+    }
+
+    this.eventEmitter.emit('p2p.peer.banned', ban);
+  }
+
+  // Get peers with highest block height
+  getPeersWithHighestBlock(): PeerInfo[] {
+    const peers = this.getConnectedPeers();
+
     if (peers.length === 0) {
       return [];
     }
 
     // Find maximum height
-    const maxHeight = Math.max(...peers.map((peer: any) => peer.blockHeight));
+    const maxHeight = Math.max(...peers.map((peer) => peer.chainHeight));
 
     // Return peers with this height
-    return peers.filter((peer: any) => peer.blockHeight === maxHeight);
+    return peers.filter((peer) => peer.chainHeight === maxHeight);
   }
 
   // Get random peers (useful for various P2P operations)
-  getRandomPeers(count: number): Peer[] {
+  getRandomPeers(count: number): PeerInfo[] {
     const connectedPeers = this.getConnectedPeers();
 
     if (connectedPeers.length <= count) {
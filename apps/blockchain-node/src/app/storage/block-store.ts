@@ -0,0 +1,44 @@
+// apps/blockchain-node/src/app/storage/block-store.ts
+
+// Pointer to the block at the tip of the canonical chain
+export interface ChainHead {
+  height: number;
+  hash: string;
+}
+
+// Serializable copy of the state held by StateManager
+export interface StateSnapshot {
+  height: number;
+  lastBlockHash?: string;
+  balances: Array<[string, string]>;
+  nonces: Array<[string, number]>;
+  validators: Array<[string, any]>;
+  validatorSets?: Array<[number, any]>; // By epoch, missing in older snapshots
+  supply: { minted: string; burned: string };
+}
+
+// Backend-agnostic persistence for blocks, height index and latest state
+export interface BlockStore {
+  open(): Promise<void>;
+  close(): Promise<void>;
+
+  getBlock(hash: string): Promise<any | undefined>;
+  getBlockHash(height: number): Promise<string | undefined>;
+  getChainHead(): Promise<ChainHead | undefined>;
+  getState(): Promise<StateSnapshot | undefined>;
+
+  // Store a block body without touching the canonical index
+  putBlock(block: any): Promise<void>;
+
+  // Atomically store a block, index it at its height, move the chain head
+  // to it and replace the persisted state snapshot
+  commitBlock(block: any, state: StateSnapshot): Promise<void>;
+
+  // Atomically replace the canonical chain above a common ancestor with a
+  // new branch, possibly empty, moving the head to its last block
+  commitReorg(
+    ancestor: any,
+    blocks: any[],
+    state: StateSnapshot
+  ): Promise<void>;
+}
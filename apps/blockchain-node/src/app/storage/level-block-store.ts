@@ -0,0 +1,109 @@
+// apps/blockchain-node/src/app/storage/level-block-store.ts
+
+import { Level } from 'level';
+import { BlockStore, ChainHead, StateSnapshot } from './block-store';
+
+// Key layout inside the database
+const BLOCK_PREFIX = 'block:'; // block:<hash> -> block
+const HEIGHT_PREFIX = 'height:'; // height:<padded height> -> hash
+const HEAD_KEY = 'meta:head';
+const STATE_KEY = 'meta:state';
+
+// LevelDB-backed embedded store, the default for blockchain nodes
+export class LevelBlockStore implements BlockStore {
+  private readonly db: Level<string, any>;
+
+  constructor(location: string) {
+    this.db = new Level<string, any>(location, { valueEncoding: 'json' });
+  }
+
+  async open(): Promise<void> {
+    await this.db.open();
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+
+  async getBlock(hash: string): Promise<any | undefined> {
+    return this.get(BLOCK_PREFIX + hash);
+  }
+
+  async getBlockHash(height: number): Promise<string | undefined> {
+    return this.get(this.heightKey(height));
+  }
+
+  async getChainHead(): Promise<ChainHead | undefined> {
+    return this.get(HEAD_KEY);
+  }
+
+  async getState(): Promise<StateSnapshot | undefined> {
+    return this.get(STATE_KEY);
+  }
+
+  async putBlock(block: any): Promise<void> {
+    await this.db.put(BLOCK_PREFIX + block.hash, block);
+  }
+
+  async commitBlock(block: any, state: StateSnapshot): Promise<void> {
+    const head: ChainHead = { height: block.header.height, hash: block.hash };
+
+    await this.db.batch([
+      { type: 'put', key: BLOCK_PREFIX + block.hash, value: block },
+      { type: 'put', key: this.heightKey(head.height), value: head.hash },
+      { type: 'put', key: HEAD_KEY, value: head },
+      { type: 'put', key: STATE_KEY, value: state },
+    ]);
+  }
+
+  async commitReorg(
+    ancestor: any,
+    blocks: any[],
+    state: StateSnapshot
+  ): Promise<void> {
+    const oldHead = await this.getChainHead();
+    const tip = blocks.length > 0 ? blocks[blocks.length - 1] : ancestor;
+    const head: ChainHead = { height: tip.header.height, hash: tip.hash };
+    const ops: any[] = [];
+
+    // Drop the height index of the abandoned branch
+    for (
+      let height = ancestor.header.height + 1;
+      height <= (oldHead?.height ?? 0);
+      height++
+    ) {
+      ops.push({ type: 'del', key: this.heightKey(height) });
+    }
+
+    for (const block of blocks) {
+      ops.push({ type: 'put', key: BLOCK_PREFIX + block.hash, value: block });
+      ops.push({
+        type: 'put',
+        key: this.heightKey(block.header.height),
+        value: block.hash,
+      });
+    }
+
+    ops.push({ type: 'put', key: HEAD_KEY, value: head });
+    ops.push({ type: 'put', key: STATE_KEY, value: state });
+
+    await this.db.batch(ops);
+  }
+
+  // Zero-pad heights so keys sort in chain order
+  private heightKey(height: number): string {
+    return HEIGHT_PREFIX + height.toString().padStart(12, '0');
+  }
+
+  // Read a key, mapping "not found" to undefined
+  private async get(key: string): Promise<any | undefined> {
+    try {
+      return await this.db.get(key);
+    } catch (error: any) {
+      if (error.code === 'LEVEL_NOT_FOUND') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
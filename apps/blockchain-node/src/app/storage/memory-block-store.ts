@@ -0,0 +1,73 @@
+// apps/blockchain-node/src/app/storage/memory-block-store.ts
+
+import { BlockStore, ChainHead, StateSnapshot } from './block-store';
+
+// Non-persistent store, used for tests and ephemeral nodes
+export class MemoryBlockStore implements BlockStore {
+  private blocks: Map<string, string> = new Map(); // hash -> serialized block
+  private blocksByHeight: Map<number, string> = new Map(); // height -> hash
+  private head: ChainHead | undefined;
+  private state: string | undefined;
+
+  async open(): Promise<void> {
+    // Nothing to open
+  }
+
+  async close(): Promise<void> {
+    // Nothing to close
+  }
+
+  async getBlock(hash: string): Promise<any | undefined> {
+    const data = this.blocks.get(hash);
+    return data ? JSON.parse(data) : undefined;
+  }
+
+  async getBlockHash(height: number): Promise<string | undefined> {
+    return this.blocksByHeight.get(height);
+  }
+
+  async getChainHead(): Promise<ChainHead | undefined> {
+    return this.head ? { ...this.head } : undefined;
+  }
+
+  async getState(): Promise<StateSnapshot | undefined> {
+    return this.state ? JSON.parse(this.state) : undefined;
+  }
+
+  async putBlock(block: any): Promise<void> {
+    // Store a serialized copy so callers cannot mutate persisted data
+    this.blocks.set(block.hash, JSON.stringify(block));
+  }
+
+  async commitBlock(block: any, state: StateSnapshot): Promise<void> {
+    const serializedState = JSON.stringify(state);
+
+    await this.putBlock(block);
+    this.blocksByHeight.set(block.header.height, block.hash);
+    this.head = { height: block.header.height, hash: block.hash };
+    this.state = serializedState;
+  }
+
+  async commitReorg(
+    ancestor: any,
+    blocks: any[],
+    state: StateSnapshot
+  ): Promise<void> {
+    const serializedState = JSON.stringify(state);
+
+    for (const height of Array.from(this.blocksByHeight.keys())) {
+      if (height > ancestor.header.height) {
+        this.blocksByHeight.delete(height);
+      }
+    }
+
+    for (const block of blocks) {
+      await this.putBlock(block);
+      this.blocksByHeight.set(block.header.height, block.hash);
+    }
+
+    const tip = blocks.length > 0 ? blocks[blocks.length - 1] : ancestor;
+    this.head = { height: tip.header.height, hash: tip.hash };
+    this.state = serializedState;
+  }
+}
@@ -0,0 +1,10 @@
+// apps/blockchain-node/src/app/storage/storage.module.ts
+
+import { Module } from '@nestjs/common';
+import { StorageService } from './storage.service';
+
+@Module({
+  providers: [StorageService],
+  exports: [StorageService],
+})
+export class StorageModule {}
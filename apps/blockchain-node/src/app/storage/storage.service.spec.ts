@@ -0,0 +1,128 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageService } from './storage.service';
+import { StateSnapshot } from './block-store';
+
+describe('StorageService', () => {
+  const createBlock = (height: number, previousHash: string) => ({
+    header: {
+      version: 1,
+      previousHash,
+      merkleRoot: '0'.repeat(64),
+      timestamp: 1700000000000 + height,
+      height,
+      validatorAddress: 'CHKvalidator1',
+    },
+    transactions: [],
+    nonce: 0,
+    hash: `block-${height}`,
+  });
+
+  const createState = (height: number): StateSnapshot => ({
+    height,
+    lastBlockHash: `block-${height}`,
+    balances: [['CHKuser1', '1000']],
+    nonces: [['CHKuser1', height]],
+    validators: [],
+    supply: { minted: '1000', burned: '0' },
+  });
+
+  const createService = (type: string, dataDir?: string) =>
+    new StorageService(
+      new ConfigService({
+        blockchain: { dataDir },
+        storage: { database: { type }, cacheSize: 2 },
+      })
+    );
+
+  it('should reject unsupported storage types', () => {
+    expect(() => createService('postgres')).toThrow(
+      'Unsupported storage type: postgres'
+    );
+  });
+
+  describe('memory', () => {
+    it('should commit blocks and move the chain head', async () => {
+      const storage = createService('memory');
+      const genesis = createBlock(0, '0'.repeat(64));
+      const block1 = createBlock(1, genesis.hash);
+
+      expect(await storage.getChainHead()).toBeUndefined();
+
+      await storage.commitBlock(genesis, createState(0));
+      await storage.commitBlock(block1, createState(1));
+
+      expect(await storage.getChainHead()).toEqual({
+        height: 1,
+        hash: block1.hash,
+      });
+      expect(await storage.getBlockByHeight(0)).toEqual(genesis);
+      expect((await storage.getState())?.lastBlockHash).toBe(block1.hash);
+    });
+
+    it('should store side blocks without indexing them', async () => {
+      const storage = createService('memory');
+      const side = createBlock(1, 'other');
+
+      await storage.putBlock(side);
+
+      expect(await storage.getBlock(side.hash)).toEqual(side);
+      expect(await storage.getBlockHash(1)).toBeUndefined();
+    });
+  });
+
+  describe('leveldb', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chuckram-storage-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should reload blocks and state after a restart', async () => {
+      const genesis = createBlock(0, '0'.repeat(64));
+      const block1 = createBlock(1, genesis.hash);
+
+      const storage = createService('leveldb', dataDir);
+      await storage.commitBlock(genesis, createState(0));
+      await storage.commitBlock(block1, createState(1));
+      await storage.onModuleDestroy();
+
+      const reopened = createService('leveldb', dataDir);
+      expect(await reopened.getChainHead()).toEqual({
+        height: 1,
+        hash: block1.hash,
+      });
+      expect(await reopened.getBlockByHeight(1)).toEqual(block1);
+      expect(await reopened.getState()).toEqual(createState(1));
+      await reopened.onModuleDestroy();
+    });
+
+    it('should replace the canonical branch on reorg', async () => {
+      const genesis = createBlock(0, '0'.repeat(64));
+      const a1 = createBlock(1, genesis.hash);
+      const a2 = createBlock(2, a1.hash);
+      const b1 = { ...createBlock(1, genesis.hash), hash: 'block-1b' };
+
+      const storage = createService('leveldb', dataDir);
+      await storage.commitBlock(genesis, createState(0));
+      await storage.commitBlock(a1, createState(1));
+      await storage.commitBlock(a2, createState(2));
+      await storage.commitReorg(genesis, [b1], createState(1));
+
+      expect(await storage.getChainHead()).toEqual({
+        height: 1,
+        hash: b1.hash,
+      });
+      expect(await storage.getBlockHash(1)).toBe(b1.hash);
+      expect(await storage.getBlockHash(2)).toBeUndefined();
+      expect(await storage.getBlock(a2.hash)).toEqual(a2);
+      await storage.onModuleDestroy();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// apps/blockchain-node/src/app/storage/storage.service.ts
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { BlockStore, ChainHead, StateSnapshot } from './block-store';
+import { LevelBlockStore } from './level-block-store';
+import { MemoryBlockStore } from './memory-block-store';
+
+@Injectable()
+export class StorageService implements OnModuleDestroy {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly store: BlockStore;
+  private readonly cacheSize: number;
+  private blockCache: Map<string, any> = new Map(); // hash -> block, in LRU order
+  private opening: Promise<void> | undefined;
+
+  constructor(private readonly configService: ConfigService) {
+    this.cacheSize = this.configService.get<number>('storage.cacheSize') ?? 0;
+    this.store = this.createStore();
+  }
+
+  async onModuleDestroy() {
+    if (!this.opening) return;
+
+    await this.opening;
+    await this.store.close();
+    this.opening = undefined;
+    this.logger.log('Storage closed');
+  }
+
+  // Create the backend selected by storage.database.type
+  private createStore(): BlockStore {
+    const type = this.configService.get<string>('storage.database.type');
+
+    switch (type) {
+      case 'leveldb': {
+        const dataDir =
+          this.configService.get<string>('blockchain.dataDir') || './data';
+        const location = path.join(dataDir, 'chaindata');
+        this.logger.log(`Using LevelDB storage at ${location}`);
+        return new LevelBlockStore(location);
+      }
+      case 'memory':
+        this.logger.log('Using in-memory storage');
+        return new MemoryBlockStore();
+      default:
+        throw new Error(`Unsupported storage type: ${type}`);
+    }
+  }
+
+  // Open the backend once, on first use
+  private async ready(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.store.open();
+    }
+    await this.opening;
+  }
+
+  // Get a block by hash
+  async getBlock(hash: string): Promise<any | undefined> {
+    const cached = this.blockCache.get(hash);
+    if (cached) {
+      this.cacheBlock(cached);
+      return cached;
+    }
+
+    await this.ready();
+    const block = await this.store.getBlock(hash);
+    if (block) {
+      this.cacheBlock(block);
+    }
+    return block;
+  }
+
+  // Get the canonical block hash at a height
+  async getBlockHash(height: number): Promise<string | undefined> {
+    await this.ready();
+    return this.store.getBlockHash(height);
+  }
+
+  // Get the canonical block at a height
+  async getBlockByHeight(height: number): Promise<any | undefined> {
+    const hash = await this.getBlockHash(height);
+    return hash ? this.getBlock(hash) : undefined;
+  }
+
+  // Get the tip of the persisted canonical chain
+  async getChainHead(): Promise<ChainHead | undefined> {
+    await this.ready();
+    return this.store.getChainHead();
+  }
+
+  // Get the persisted state snapshot
+  async getState(): Promise<StateSnapshot | undefined> {
+    await this.ready();
+    return this.store.getState();
+  }
+
+  // Store a block that is not (yet) part of the canonical chain
+  async putBlock(block: any): Promise<void> {
+    await this.ready();
+    await this.store.putBlock(block);
+    this.cacheBlock(block);
+  }
+
+  // Persist a block as the new chain head together with the resulting state
+  async commitBlock(block: any, state: StateSnapshot): Promise<void> {
+    await this.ready();
+    await this.store.commitBlock(block, state);
+    this.cacheBlock(block);
+  }
+
+  // Persist a chain reorganization: the branch replacing every canonical
+  // block above the common ancestor, and the resulting state
+  async commitReorg(
+    ancestor: any,
+    blocks: any[],
+    state: StateSnapshot
+  ): Promise<void> {
+    await this.ready();
+    await this.store.commitReorg(ancestor, blocks, state);
+    blocks.forEach((block) => this.cacheBlock(block));
+  }
+
+  // Keep recently used blocks in memory, evicting the least recently used
+  private cacheBlock(block: any): void {
+    if (this.cacheSize <= 0) return;
+
+    this.blockCache.delete(block.hash);
+    this.blockCache.set(block.hash, block);
+
+    if (this.blockCache.size > this.cacheSize) {
+      const oldest = this.blockCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.blockCache.delete(oldest);
+      }
+    }
+  }
+}
@@ -0,0 +1,12 @@
+// apps/blockchain-node/src/app/sync/sync.module.ts
+
+import { Module } from '@nestjs/common';
+import { SyncService } from './sync.service';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+
+@Module({
+  imports: [BlockchainModule],
+  providers: [SyncService],
+  exports: [SyncService],
+})
+export class SyncModule {}
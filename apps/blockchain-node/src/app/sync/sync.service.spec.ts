@@ -0,0 +1,368 @@
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { createCommitCertificate, signVote } from '@digital-chuckram/consensus';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { MessageType } from '@digital-chuckram/types';
+import { SyncService } from './sync.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { GenesisService } from '../blockchain/genesis.service';
+import { StateManager } from '../blockchain/state-manager.service';
+import { BlockProducerService } from '../block-producer/block-producer.service';
+import { MempoolService } from '../mempool/mempool.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('SyncService', () => {
+  const keys = CryptoUtils.generateKeyPair();
+  let source: BlockchainService;
+  let blockchainService: BlockchainService;
+  let syncService: SyncService;
+  let eventEmitter: EventEmitter2;
+  let sent: Array<{ peerId: string; message: any }>;
+
+  const createConfig = (sync: Record<string, any> = {}) =>
+    new ConfigService({
+      blockchain: { blockTime: 1000, confirmations: 1 },
+      storage: { database: { type: 'memory' }, cacheSize: 10 },
+      rewards: { blockReward: '0' },
+      mempool: { maxSize: 100, maxSizePerAccount: 10, minFee: 1 },
+      sync: {
+        syncBatchSize: 2,
+        syncTimeout: 1000,
+        snapshotInterval: 2,
+        ...sync,
+      },
+      validator: {
+        isValidator: true,
+        validatorAddress: keys.address,
+        validatorPrivateKey: keys.privateKey,
+      },
+    });
+
+  const createBlockchain = async (
+    configService: ConfigService,
+    eventEmitter: EventEmitter2,
+    genesisService: GenesisService
+  ) => {
+    const blockchain = new BlockchainService(
+      configService,
+      genesisService,
+      new StateManager(configService, eventEmitter),
+      new StorageService(configService),
+      eventEmitter
+    );
+    await blockchain.onModuleInit();
+    return blockchain;
+  };
+
+  // Answer a sync request from the source chain, as a peer would over the
+  // network
+  const respond = (request: { peerId: string; message: any }) => {
+    const { requestId, fromHeight, toHeight } = request.message.payload;
+    return syncService.handleSyncResponse({
+      response: {
+        requestId,
+        blocks: structuredClone(source.getBlockRange(fromHeight, toHeight)),
+      },
+      peerId: request.peerId,
+    });
+  };
+
+  const requested = () =>
+    sent.map(({ peerId, message }) => [
+      peerId,
+      message.payload.fromHeight,
+      message.payload.toHeight,
+    ]);
+
+  // Replace the fresh node with one that fast syncs
+  const useFastSync = async (sync: Record<string, any> = {}) => {
+    const configService = createConfig({ fastSync: true, ...sync });
+    const genesis = source.getBlockByHeight(0);
+    syncService.onModuleDestroy();
+    blockchainService = await createBlockchain(configService, eventEmitter, {
+      loadGenesisBlock: async () => structuredClone(genesis),
+    } as GenesisService);
+    syncService = new SyncService(
+      configService,
+      blockchainService,
+      eventEmitter
+    );
+  };
+
+  // Answer a snapshot request from the source chain
+  const respondSnapshot = (
+    request: { peerId: string; message: any },
+    tamper: (state: any) => void = () => undefined
+  ) => {
+    const snapshot = structuredClone(
+      source.getSnapshot(request.message.payload.height)
+    );
+    if (snapshot) {
+      tamper(snapshot.state);
+    }
+    return syncService.handleSnapshotResponse({
+      response: {
+        requestId: request.message.payload.requestId,
+        block: snapshot?.block ?? null,
+        state: snapshot?.state ?? null,
+      },
+      peerId: request.peerId,
+    });
+  };
+
+  beforeEach(async () => {
+    // A validator node five blocks ahead
+    const sourceConfig = createConfig();
+    const sourceEvents = new EventEmitter2();
+    source = await createBlockchain(
+      sourceConfig,
+      sourceEvents,
+      new GenesisService(sourceConfig)
+    );
+    const stateManager = (source as any).stateManager;
+    const producer = new BlockProducerService(
+      sourceConfig,
+      source,
+      stateManager,
+      new MempoolService(sourceConfig, sourceEvents),
+      sourceEvents
+    );
+    const genesis = source.getBlockByHeight(0);
+    for (let height = 1; height <= 5; height++) {
+      await producer.produceBlock(genesis.header.timestamp + height * 1000);
+    }
+
+    // A fresh node with the same genesis
+    const configService = createConfig();
+    eventEmitter = new EventEmitter2();
+    blockchainService = await createBlockchain(configService, eventEmitter, {
+      loadGenesisBlock: async () => structuredClone(genesis),
+    } as GenesisService);
+    syncService = new SyncService(
+      configService,
+      blockchainService,
+      eventEmitter
+    );
+
+    sent = [];
+    eventEmitter.on('p2p.message.send', (message) => sent.push(message));
+  });
+
+  afterEach(() => {
+    syncService.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should serve at most a batch of canonical blocks', () => {
+    const serving = new SyncService(createConfig(), source, eventEmitter);
+
+    serving.handleSyncRequest({
+      request: { requestId: '7', fromHeight: 2, toHeight: 10 },
+      peerId: 'peer-a',
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].message.type).toBe(MessageType.BLOCK_RESPONSE);
+    expect(sent[0].message.payload.requestId).toBe('7');
+    expect(
+      sent[0].message.payload.blocks.map((b: any) => b.header.height)
+    ).toEqual([2, 3]);
+  });
+
+  it('should download batches from several peers and apply them in order', async () => {
+    const completed = jest.fn();
+    const progress = jest.fn();
+    eventEmitter.on('sync.completed', completed);
+    eventEmitter.on('sync.progress', progress);
+
+    syncService.updatePeerHeight('peer-a', 5);
+    syncService.updatePeerHeight('peer-b', 5);
+    expect(requested()).toEqual([
+      ['peer-a', 1, 2],
+      ['peer-b', 3, 4],
+    ]);
+
+    // Later blocks wait for the earlier ones, the idle peer moves on
+    await respond(sent[1]);
+    expect(blockchainService.getChainHeight()).toBe(0);
+    expect(requested()[2]).toEqual(['peer-b', 5, 5]);
+
+    await respond(sent[0]);
+    expect(blockchainService.getChainHeight()).toBe(4);
+
+    await respond(sent[2]);
+    expect(blockchainService.getChainHeight()).toBe(5);
+    expect(blockchainService.getBlockByHeight(5).hash).toBe(
+      source.getBlockByHeight(5).hash
+    );
+    expect(progress).toHaveBeenLastCalledWith({
+      startHeight: 0,
+      currentHeight: 5,
+      targetHeight: 5,
+    });
+    expect(completed).toHaveBeenCalledWith(5);
+    expect(syncService.getStatus().isSyncing).toBe(false);
+  });
+
+  it('should retry a timed out request with another peer', async () => {
+    jest.useFakeTimers();
+    syncService.updatePeerHeight('peer-a', 2);
+    syncService.updatePeerHeight('peer-b', 2);
+    expect(requested()).toEqual([['peer-a', 1, 2]]);
+
+    jest.advanceTimersByTime(1000);
+    expect(requested()[1]).toEqual(['peer-b', 1, 2]);
+
+    // The late answer is no longer wanted
+    await respond(sent[0]);
+    expect(blockchainService.getChainHeight()).toBe(0);
+
+    await respond(sent[1]);
+    expect(blockchainService.getChainHeight()).toBe(2);
+  });
+
+  it('should drop a peer that sends invalid blocks', async () => {
+    syncService.updatePeerHeight('peer-a', 2);
+    const [request] = sent;
+
+    const blocks = structuredClone(source.getBlockRange(1, 2));
+    blocks[0].header.stateRoot = 'f'.repeat(64);
+    await syncService.handleSyncResponse({
+      response: { requestId: request.message.payload.requestId, blocks },
+      peerId: 'peer-a',
+    });
+
+    expect(blockchainService.getChainHeight()).toBe(0);
+    expect(syncService.getStatus()).toMatchObject({
+      isSyncing: false,
+      peers: 0,
+    });
+
+    syncService.updatePeerHeight('peer-b', 2);
+    await respond(sent[1]);
+    expect(blockchainService.getChainHeight()).toBe(2);
+  });
+
+  it('should serve the latest finalized snapshot', () => {
+    const serving = new SyncService(createConfig(), source, eventEmitter);
+
+    serving.handleSnapshotRequest({
+      request: { requestId: '3' },
+      peerId: 'peer-a',
+    });
+    serving.handleSnapshotRequest({
+      request: { requestId: '4', height: 3 },
+      peerId: 'peer-a',
+    });
+
+    expect(sent[0].message.type).toBe(MessageType.SNAPSHOT_RESPONSE);
+    expect(sent[0].message.payload.state.height).toBe(4);
+    expect(sent[0].message.payload.block.hash).toBe(
+      source.getBlockByHeight(4).hash
+    );
+    expect(sent[1].message.payload).toEqual({
+      requestId: '4',
+      block: null,
+      state: null,
+    });
+  });
+
+  it('should fast sync to a trusted checkpoint and then fetch the rest', async () => {
+    const checkpoint = source.getBlockByHeight(4);
+    await useFastSync({
+      checkpointHeight: 4,
+      checkpointHash: checkpoint.hash,
+    });
+
+    syncService.updatePeerHeight('peer-a', 5);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].message.type).toBe(MessageType.SNAPSHOT_REQUEST);
+    expect(sent[0].message.payload.height).toBe(4);
+
+    await respondSnapshot(sent[0]);
+    expect(blockchainService.getChainHeight()).toBe(4);
+    expect(blockchainService.getBlockByHeight(2)).toBeNull();
+    expect(requested()[1]).toEqual(['peer-a', 5, 5]);
+
+    await respond(sent[1]);
+    expect(blockchainService.getChainHeight()).toBe(5);
+    expect(blockchainService.getBlockchainState().lastBlockHash).toBe(
+      source.getBlockByHeight(5).hash
+    );
+  });
+
+  it('should reject a snapshot that does not match its state root', async () => {
+    const checkpoint = source.getBlockByHeight(4);
+    await useFastSync({
+      checkpointHeight: 4,
+      checkpointHash: checkpoint.hash,
+    });
+
+    syncService.updatePeerHeight('peer-a', 5);
+    await respondSnapshot(sent[0], (state) => {
+      state.balances[0][1] = '1' + state.balances[0][1];
+    });
+
+    expect(blockchainService.getChainHeight()).toBe(0);
+    expect(syncService.getStatus().peers).toBe(0);
+
+    // Another peer's snapshot is used instead
+    syncService.updatePeerHeight('peer-b', 5);
+    expect(sent[1].message.type).toBe(MessageType.SNAPSHOT_REQUEST);
+    await respondSnapshot(sent[1]);
+    expect(blockchainService.getChainHeight()).toBe(4);
+  });
+
+  it('should only fast sync to a trusted checkpoint', async () => {
+    await useFastSync();
+
+    // Without a checkpoint blocks are synced from genesis
+    syncService.updatePeerHeight('peer-a', 5);
+    expect(sent[0].message.type).toBe(MessageType.BLOCK_REQUEST);
+    expect(requested()[0]).toEqual(['peer-a', 1, 2]);
+  });
+
+  it('should reject a snapshot certified by validators it brings along', async () => {
+    await useFastSync();
+    const { block, state } = structuredClone(source.getSnapshot(4)!);
+
+    // A peer makes up validators and a state that commits to them
+    const forger = CryptoUtils.generateKeyPair();
+    state.validatorSets = [
+      [
+        0,
+        {
+          epoch: 0,
+          startHeight: 0,
+          validators: [
+            {
+              address: forger.address,
+              publicKey: forger.publicKey,
+              type: 'government',
+              votingPower: 1,
+            },
+          ],
+        },
+      ],
+    ];
+    const forgedState = new StateManager(createConfig(), new EventEmitter2());
+    forgedState.restoreState(state);
+    block.header.stateRoot = forgedState.getStateRoot();
+    block.hash = source.calculateBlockHash(block);
+    state.lastBlockHash = block.hash;
+    const round = block.header.round ?? 0;
+    block.certificate = createCommitCertificate(block.hash, 4, round, [
+      {
+        validatorAddress: forger.address,
+        signature: signVote(
+          { type: 'PRECOMMIT', height: 4, round, blockHash: block.hash },
+          forger.privateKey
+        ),
+      },
+    ]);
+    expect(forgedState.checkSnapshot(state, block)).toBeNull();
+
+    expect(await blockchainService.importSnapshot(block, state)).toBe(false);
+    expect(blockchainService.getChainHeight()).toBe(0);
+  });
+});
@@ -0,0 +1,562 @@
+// apps/blockchain-node/src/app/sync/sync.service.ts
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { MessageType } from '@digital-chuckram/types';
+import { BlockchainService } from '../blockchain/blockchain.service';
+
+interface BlockRequest {
+  requestId: string;
+  peerId: string;
+  fromHeight: number;
+  toHeight: number;
+  timer: NodeJS.Timeout;
+}
+
+interface SnapshotRequest {
+  requestId: string;
+  peerId: string;
+  timer: NodeJS.Timeout;
+}
+
+// Block sync over the P2P layer. Peers announce their heights on connection
+// and with new blocks; while any peer is ahead, missing heights are requested
+// in batches, one outstanding request per peer so several peers download in
+// parallel. Blocks are buffered and applied in height order. A peer that
+// times out or sends invalid blocks is dropped from the sync and its range
+// requested again from another peer. With fast sync, a node behind its
+// trusted checkpoint first asks peers one at a time for a state snapshot of
+// that block and only downloads the blocks after it. The same service
+// answers other nodes' requests from the canonical chain and its snapshots.
+@Injectable()
+export class SyncService implements OnModuleDestroy {
+  private readonly logger = new Logger(SyncService.name);
+  private peerHeights: Map<string, number> = new Map();
+  private requests: Map<string, BlockRequest> = new Map(); // requestId -> request
+  private received: Map<number, { block: any; peerId: string }> = new Map(); // height -> block
+  private snapshotRequest: SnapshotRequest | undefined;
+  private snapshotPeers: Set<string> = new Set(); // Peers asked for a snapshot
+  private importingSnapshot = false;
+  private warnedNoCheckpoint = false;
+  private nextRequestId = 0;
+  private syncing = false;
+  private applying = false;
+  private startHeight = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly blockchainService: BlockchainService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  onModuleDestroy() {
+    for (const request of this.requests.values()) {
+      clearTimeout(request.timer);
+    }
+    this.requests.clear();
+    if (this.snapshotRequest) {
+      clearTimeout(this.snapshotRequest.timer);
+      this.snapshotRequest = undefined;
+    }
+  }
+
+  @OnEvent('p2p.peer.connected')
+  handlePeerConnected(peer: { id: string; chainHeight?: number }): void {
+    if (peer.chainHeight !== undefined) {
+      this.updatePeerHeight(peer.id, peer.chainHeight);
+    }
+  }
+
+  @OnEvent('p2p.peer.disconnected')
+  handlePeerDisconnected(peer: { id: string }): void {
+    this.dropPeer(peer.id);
+    this.schedule();
+  }
+
+  // A peer relaying a block has at least that block. The next block is
+  // applied as it is relayed, only a gap calls for syncing.
+  @OnEvent('blockchain.block.received')
+  handleBlockReceived(payload: { block: any; peerId: string }): void {
+    const height = payload.block?.header?.height;
+    if (typeof height === 'number') {
+      this.updatePeerHeight(payload.peerId, height, 2);
+    }
+  }
+
+  // Record a peer's height, syncing if it is at least minLead blocks ahead
+  updatePeerHeight(peerId: string, height: number, minLead = 1): void {
+    if (height > (this.peerHeights.get(peerId) ?? -1)) {
+      this.peerHeights.set(peerId, height);
+    }
+
+    if (
+      this.syncing ||
+      height >= this.blockchainService.getChainHeight() + minLead
+    ) {
+      this.startSync();
+    }
+  }
+
+  // Serve a block range from the canonical chain, at most one batch
+  @OnEvent('sync.request.received')
+  handleSyncRequest(payload: {
+    request: { requestId: string; fromHeight: number; toHeight: number };
+    peerId: string;
+  }): void {
+    const { request, peerId } = payload;
+    const fromHeight = Math.max(0, request.fromHeight);
+    const toHeight = Math.min(
+      request.toHeight,
+      fromHeight + this.getBatchSize() - 1,
+      this.blockchainService.getChainHeight()
+    );
+
+    this.send(peerId, MessageType.BLOCK_RESPONSE, {
+      requestId: request.requestId,
+      blocks: this.blockchainService.getBlockRange(fromHeight, toHeight),
+    });
+  }
+
+  @OnEvent('sync.response.received')
+  async handleSyncResponse(payload: {
+    response: { requestId: string; blocks?: any[] };
+    peerId: string;
+  }): Promise<void> {
+    const { response, peerId } = payload;
+    const request = this.requests.get(response.requestId);
+    if (!request || request.peerId !== peerId) {
+      this.logger.debug(`Ignoring unexpected sync response from ${peerId}`);
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.requests.delete(request.requestId);
+
+    // Blocks must follow on from the requested height without gaps. A
+    // shorter answer is fine, the rest is requested again.
+    const blocks = response.blocks ?? [];
+    const inOrder = blocks.every(
+      (block, i) =>
+        block?.header?.height === request.fromHeight + i &&
+        block.header.height <= request.toHeight
+    );
+    if (blocks.length === 0 || !inOrder) {
+      this.logger.warn(
+        `Peer ${peerId} sent no usable blocks for ${request.fromHeight}-${request.toHeight}`
+      );
+      this.dropPeer(peerId);
+    } else {
+      for (const block of blocks) {
+        this.received.set(block.header.height, { block, peerId });
+      }
+    }
+
+    this.schedule();
+    await this.applyReceived();
+  }
+
+  // Serve the snapshot at the requested height, or the latest one
+  @OnEvent('sync.snapshot.request.received')
+  handleSnapshotRequest(payload: {
+    request: { requestId: string; height?: number };
+    peerId: string;
+  }): void {
+    const { request, peerId } = payload;
+    const snapshot = this.blockchainService.getSnapshot(request.height);
+
+    this.send(peerId, MessageType.SNAPSHOT_RESPONSE, {
+      requestId: request.requestId,
+      block: snapshot?.block ?? null,
+      state: snapshot?.state ?? null,
+    });
+  }
+
+  @OnEvent('sync.snapshot.response.received')
+  async handleSnapshotResponse(payload: {
+    response: { requestId: string; block?: any; state?: any };
+    peerId: string;
+  }): Promise<void> {
+    const { response, peerId } = payload;
+    const request = this.snapshotRequest;
+    if (
+      !request ||
+      this.importingSnapshot ||
+      request.requestId !== response.requestId ||
+      request.peerId !== peerId
+    ) {
+      this.logger.debug(`Ignoring unexpected snapshot from ${peerId}`);
+      return;
+    }
+
+    clearTimeout(request.timer);
+
+    // Block requests wait until the snapshot is imported or rejected
+    let imported = false;
+    this.importingSnapshot = true;
+    try {
+      if (response.block && response.state) {
+        imported = await this.blockchainService.importSnapshot(
+          response.block,
+          response.state
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`Error importing snapshot: ${error.message}`);
+    } finally {
+      this.importingSnapshot = false;
+      this.snapshotRequest = undefined;
+    }
+
+    if (imported) {
+      this.eventEmitter.emit('sync.progress', {
+        startHeight: this.startHeight,
+        currentHeight: this.blockchainService.getChainHeight(),
+        targetHeight: this.getTargetHeight(),
+      });
+    } else if (response.block || response.state) {
+      this.logger.warn(`Peer ${peerId} sent an unusable state snapshot`);
+      this.dropPeer(peerId);
+    } else {
+      this.logger.debug(`Peer ${peerId} has no state snapshot to serve`);
+    }
+
+    this.schedule();
+  }
+
+  getStatus(): any {
+    return {
+      isSyncing: this.syncing,
+      startHeight: this.startHeight,
+      currentHeight: this.blockchainService.getChainHeight(),
+      targetHeight: this.getTargetHeight(),
+      peers: this.peerHeights.size,
+      pendingRequests: this.requests.size,
+      awaitingSnapshot: this.snapshotRequest !== undefined,
+      bufferedBlocks: this.received.size,
+    };
+  }
+
+  private startSync(): void {
+    if (this.syncing) {
+      this.schedule();
+      return;
+    }
+
+    this.syncing = true;
+    this.startHeight = this.blockchainService.getChainHeight();
+    this.eventEmitter.emit('sync.started', {
+      startHeight: this.startHeight,
+      targetHeight: this.getTargetHeight(),
+    });
+    this.logger.log(
+      `Syncing from height ${this.startHeight} to ${this.getTargetHeight()}`
+    );
+
+    this.schedule();
+  }
+
+  // Give every idle peer the lowest missing range it can serve, and finish
+  // once nothing more can be requested or applied
+  private schedule(): void {
+    if (!this.syncing) {
+      return;
+    }
+
+    // Fast sync fetches a snapshot before any blocks
+    if (this.snapshotRequest || this.requestSnapshot()) {
+      return;
+    }
+
+    const chainHeight = this.blockchainService.getChainHeight();
+    for (const height of this.received.keys()) {
+      if (height <= chainHeight) {
+        this.received.delete(height);
+      }
+    }
+
+    const busy = new Set(
+      Array.from(this.requests.values()).map((request) => request.peerId)
+    );
+    for (const [peerId, peerHeight] of this.peerHeights) {
+      if (busy.has(peerId)) continue;
+
+      const range = this.findMissingRange(peerHeight);
+      if (range) {
+        this.request(peerId, range.fromHeight, range.toHeight);
+      }
+    }
+
+    if (
+      this.requests.size === 0 &&
+      !this.applying &&
+      !this.received.has(chainHeight + 1)
+    ) {
+      this.finishSync();
+    }
+  }
+
+  // With fast sync, ask the highest peer not asked before for a snapshot at
+  // the trusted checkpoint. Returns whether a request was sent.
+  private requestSnapshot(): boolean {
+    const checkpointHeight = this.getCheckpointHeight();
+    if (
+      checkpointHeight === undefined ||
+      checkpointHeight <= this.blockchainService.getChainHeight()
+    ) {
+      return false;
+    }
+
+    let peerId: string | undefined;
+    let bestHeight = -1;
+    for (const [candidate, peerHeight] of this.peerHeights) {
+      if (
+        peerHeight >= checkpointHeight &&
+        peerHeight > bestHeight &&
+        !this.snapshotPeers.has(candidate)
+      ) {
+        peerId = candidate;
+        bestHeight = peerHeight;
+      }
+    }
+    if (!peerId) {
+      return false;
+    }
+
+    const requestId = `${++this.nextRequestId}`;
+    const timer = setTimeout(
+      () => this.handleSnapshotTimeout(requestId),
+      this.configService.get<number>('sync.syncTimeout') ?? 30000
+    );
+    this.snapshotRequest = { requestId, peerId, timer };
+    this.snapshotPeers.add(peerId);
+
+    this.logger.log(`Requesting state snapshot from peer ${peerId}`);
+    this.send(peerId, MessageType.SNAPSHOT_REQUEST, {
+      requestId,
+      height: checkpointHeight,
+    });
+    return true;
+  }
+
+  // Height of the block to fast sync to, if fast sync is on. A snapshot can
+  // only be trusted through a configured checkpoint, so without one the node
+  // syncs every block from genesis.
+  private getCheckpointHeight(): number | undefined {
+    if (!this.configService.get<boolean>('sync.fastSync')) {
+      return undefined;
+    }
+
+    const checkpointHeight =
+      this.configService.get<number>('sync.checkpointHeight') ?? 0;
+    if (
+      checkpointHeight <= 0 ||
+      !this.configService.get<string>('sync.checkpointHash')
+    ) {
+      if (!this.warnedNoCheckpoint) {
+        this.warnedNoCheckpoint = true;
+        this.logger.warn(
+          'Fast sync needs a checkpoint height and hash, syncing blocks instead'
+        );
+      }
+      return undefined;
+    }
+    return checkpointHeight;
+  }
+
+  // A peer slow to send its snapshot may still serve blocks, so it is kept
+  private handleSnapshotTimeout(requestId: string): void {
+    const request = this.snapshotRequest;
+    if (!request || request.requestId !== requestId || this.importingSnapshot) {
+      return;
+    }
+
+    this.logger.warn(`Peer ${request.peerId} timed out on the state snapshot`);
+    this.snapshotRequest = undefined;
+    this.schedule();
+  }
+
+  // Lowest run of heights that is neither buffered nor requested, up to a
+  // batch and no further than the peer's height or the buffer limit
+  private findMissingRange(
+    peerHeight: number
+  ): { fromHeight: number; toHeight: number } | null {
+    const chainHeight = this.blockchainService.getChainHeight();
+    const lastHeight = Math.min(
+      peerHeight,
+      chainHeight + this.getMaxBufferedBlocks()
+    );
+
+    let fromHeight = chainHeight + 1;
+    while (fromHeight <= lastHeight && this.isCovered(fromHeight)) {
+      fromHeight++;
+    }
+    if (fromHeight > lastHeight) {
+      return null;
+    }
+
+    let toHeight = fromHeight;
+    while (
+      toHeight < lastHeight &&
+      toHeight - fromHeight + 1 < this.getBatchSize() &&
+      !this.isCovered(toHeight + 1)
+    ) {
+      toHeight++;
+    }
+
+    return { fromHeight, toHeight };
+  }
+
+  private isCovered(height: number): boolean {
+    if (this.received.has(height)) {
+      return true;
+    }
+    for (const request of this.requests.values()) {
+      if (height >= request.fromHeight && height <= request.toHeight) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private request(peerId: string, fromHeight: number, toHeight: number): void {
+    const requestId = `${++this.nextRequestId}`;
+    const timer = setTimeout(
+      () => this.handleTimeout(requestId),
+      this.configService.get<number>('sync.syncTimeout') ?? 30000
+    );
+    this.requests.set(requestId, {
+      requestId,
+      peerId,
+      fromHeight,
+      toHeight,
+      timer,
+    });
+
+    this.logger.debug(
+      `Requesting blocks ${fromHeight}-${toHeight} from peer ${peerId}`
+    );
+    this.send(peerId, MessageType.BLOCK_REQUEST, {
+      requestId,
+      fromHeight,
+      toHeight,
+    });
+  }
+
+  private handleTimeout(requestId: string): void {
+    const request = this.requests.get(requestId);
+    if (!request) {
+      return;
+    }
+
+    this.logger.warn(
+      `Peer ${request.peerId} timed out on blocks ${request.fromHeight}-${request.toHeight}`
+    );
+    this.dropPeer(request.peerId);
+    this.schedule();
+  }
+
+  // Apply buffered blocks in height order. Only one pass runs at a time,
+  // it picks up blocks that arrive while it is applying.
+  private async applyReceived(): Promise<void> {
+    if (this.applying) {
+      return;
+    }
+    this.applying = true;
+
+    try {
+      for (;;) {
+        const height = this.blockchainService.getChainHeight() + 1;
+        const entry = this.received.get(height);
+        if (!entry) break;
+        this.received.delete(height);
+
+        const added = await this.blockchainService.addPeerBlock(
+          entry.block,
+          entry.peerId
+        );
+
+        // The block may have arrived meanwhile by relay
+        if (!added && this.blockchainService.getChainHeight() < height) {
+          this.logger.warn(
+            `Invalid block at height ${height} from peer ${entry.peerId}`
+          );
+          this.dropPeer(entry.peerId);
+          continue;
+        }
+
+        this.eventEmitter.emit('sync.progress', {
+          startHeight: this.startHeight,
+          currentHeight: this.blockchainService.getChainHeight(),
+          targetHeight: this.getTargetHeight(),
+        });
+      }
+    } catch (error: any) {
+      this.logger.error(`Error applying synced blocks: ${error.message}`);
+    } finally {
+      this.applying = false;
+    }
+
+    this.schedule();
+  }
+
+  private finishSync(): void {
+    this.syncing = false;
+    this.received.clear();
+
+    const height = this.blockchainService.getChainHeight();
+    if (height < this.getTargetHeight()) {
+      this.logger.warn(
+        `Sync stopped at height ${height}, no peer could serve up to ${this.getTargetHeight()}`
+      );
+    } else {
+      this.logger.log(`Synced to height ${height}`);
+    }
+    this.eventEmitter.emit('sync.completed', height);
+  }
+
+  // Stop syncing from a peer, releasing its requests and buffered blocks so
+  // other peers fetch them
+  private dropPeer(peerId: string): void {
+    this.peerHeights.delete(peerId);
+
+    if (this.snapshotRequest?.peerId === peerId && !this.importingSnapshot) {
+      clearTimeout(this.snapshotRequest.timer);
+      this.snapshotRequest = undefined;
+    }
+
+    for (const [requestId, request] of this.requests) {
+      if (request.peerId === peerId) {
+        clearTimeout(request.timer);
+        this.requests.delete(requestId);
+      }
+    }
+    for (const [height, entry] of this.received) {
+      if (entry.peerId === peerId) {
+        this.received.delete(height);
+      }
+    }
+  }
+
+  private send(peerId: string, type: MessageType, payload: any): void {
+    this.eventEmitter.emit('p2p.message.send', {
+      peerId,
+      message: { type, payload },
+    });
+  }
+
+  private getTargetHeight(): number {
+    return Math.max(
+      this.blockchainService.getChainHeight(),
+      ...this.peerHeights.values()
+    );
+  }
+
+  private getBatchSize(): number {
+    return this.configService.get<number>('sync.syncBatchSize') ?? 100;
+  }
+
+  private getMaxBufferedBlocks(): number {
+    return this.configService.get<number>('sync.maxBlocksInMemory') ?? 1000;
+  }
+}
@@ -1,122 +1,135 @@
 // apps/blockchain-node/src/config/configuration.ts
 
-export default () => ({
+// Built from the process environment, or from another one for nodes sharing
+// a process such as a devnet
+export default (env: NodeJS.ProcessEnv = process.env) => ({
   // Node information
-  nodeName:
-    process.env.NODE_NAME || `node-${Math.floor(Math.random() * 10000)}`,
-  port: parseInt(process.env.NODE_PORT || '4000', 10),
-  environment: process.env.NODE_ENV || 'development',
+  nodeName: env.NODE_NAME || `node-${Math.floor(Math.random() * 10000)}`,
+  port: parseInt(env.NODE_PORT || '4000', 10),
+  environment: env.NODE_ENV || 'development',
 
   // API settings
   api: {
-    port: parseInt(process.env.API_PORT || '4001', 10),
-    enableSwagger: process.env.ENABLE_SWAGGER === 'true',
-    enableGraphQL: process.env.ENABLE_GRAPHQL === 'true',
-    apiKey: process.env.API_KEY || 'development-api-key',
+    port: parseInt(env.API_PORT || '4001', 10),
+    enableSwagger: env.ENABLE_SWAGGER === 'true',
+    enableGraphQL: env.ENABLE_GRAPHQL === 'true',
+    apiKey: env.API_KEY || 'development-api-key',
   },
 
   // Network settings
   network: {
-    name: process.env.NETWORK || 'testnet',
-    bootstrapNodes: (process.env.BOOTSTRAP_NODES || '')
-      .split(',')
-      .filter(Boolean),
-    maxPeers: parseInt(process.env.MAX_PEERS || '25', 10),
-    minPeers: parseInt(process.env.MIN_PEERS || '3', 10),
-    peerDiscoveryInterval: parseInt(
-      process.env.PEER_DISCOVERY_INTERVAL || '60000',
-      10
-    ),
-    p2pPort: parseInt(process.env.P2P_PORT || '40000', 10),
+    name: env.NETWORK || 'testnet',
+    bootstrapNodes: (env.BOOTSTRAP_NODES || '').split(',').filter(Boolean),
+    maxPeers: parseInt(env.MAX_PEERS || '25', 10),
+    minPeers: parseInt(env.MIN_PEERS || '3', 10),
+    peerDiscoveryInterval: parseInt(env.PEER_DISCOVERY_INTERVAL || '60000', 10),
+    p2pPort: parseInt(env.P2P_PORT || '40000', 10),
+    nodeKeyFile: env.NODE_KEY_FILE || './data/node-key.json', // Node identity, created on first start
+    maxInboundPeers: parseInt(env.MAX_INBOUND_PEERS || '12', 10),
+    maxOutboundPeers: parseInt(env.MAX_OUTBOUND_PEERS || '13', 10),
+    maxMessageSize: parseInt(env.MAX_MESSAGE_SIZE || '33554432', 10), // 32 MB
+    handshakeTimeout: parseInt(env.HANDSHAKE_TIMEOUT || '10000', 10), // Milliseconds before an unauthenticated connection is closed
+    banFile: env.BAN_FILE || './data/bans.json',
+    banThreshold: parseInt(env.BAN_THRESHOLD || '100', 10), // Misbehavior score that gets a peer banned
+    banDuration: parseInt(env.BAN_DURATION || '3600000', 10), // 1 hour
+    addressBanThreshold: parseInt(env.ADDRESS_BAN_THRESHOLD || '3', 10), // Peer IDs banned from an address that get it banned
+    blockFanout: parseInt(env.BLOCK_FANOUT || '8', 10), // Peers each new block is announced to
+    transactionFanout: parseInt(env.TRANSACTION_FANOUT || '4', 10),
   },
 
   // Blockchain settings
   blockchain: {
-    dataDir: process.env.DATA_DIR || './data',
-    genesisFile: process.env.GENESIS_FILE || './genesis.json',
-    blockTime: parseInt(process.env.BLOCK_TIME || '5000', 10), // 5 seconds
-    maxTransactionsPerBlock: parseInt(
-      process.env.MAX_TX_PER_BLOCK || '5000',
-      10
-    ),
-    confirmations: parseInt(process.env.CONFIRMATIONS || '6', 10),
+    dataDir: env.DATA_DIR || './data',
+    genesisFile: env.GENESIS_FILE || './genesis.json',
+    treasuryAddress: env.TREASURY_ADDRESS || 'government-treasury', // Receives the supply of a default genesis block
+    blockTime: parseInt(env.BLOCK_TIME || '5000', 10), // 5 seconds
+    maxTransactionsPerBlock: parseInt(env.MAX_TX_PER_BLOCK || '5000', 10),
+    confirmations: parseInt(env.CONFIRMATIONS || '6', 10),
+    maxUndoBlocks: parseInt(env.MAX_UNDO_BLOCKS || '1000', 10), // Blocks revertable without replay
   },
 
   // Consensus settings
   consensus: {
-    type: process.env.CONSENSUS_TYPE || 'hybrid-poa-dpos',
-    requiredConsensus: parseInt(process.env.REQUIRED_CONSENSUS || '66', 10), // 66%
-    validatorRotationInterval: parseInt(
-      process.env.VALIDATOR_ROTATION || '86400000',
-      10
-    ), // 24 hours
-    maxValidators: parseInt(process.env.MAX_VALIDATORS || '100', 10),
-    blockProposerTimeout: parseInt(
-      process.env.BLOCK_PROPOSER_TIMEOUT || '10000',
-      10
-    ), // 10 seconds
+    type: env.CONSENSUS_TYPE || 'hybrid-poa-dpos',
+    requiredConsensus: parseInt(env.REQUIRED_CONSENSUS || '66', 10), // 66%
+    epochLength: parseInt(env.EPOCH_LENGTH || '100', 10), // Blocks per validator set
+    minValidators: parseInt(env.MIN_VALIDATORS || '1', 10),
+    maxValidators: parseInt(env.MAX_VALIDATORS || '100', 10),
+    randomizeProposers: env.RANDOMIZE_PROPOSERS === 'true', // Seed each epoch's proposer order from its previous block
+    blockProposerTimeout: parseInt(env.BLOCK_PROPOSER_TIMEOUT || '10000', 10), // 10 seconds
     governmentValidatorRatio: parseInt(
-      process.env.GOVERNMENT_VALIDATOR_RATIO || '50',
+      env.GOVERNMENT_VALIDATOR_RATIO || '50',
       10
     ), // 50%
+    slashingPercent: parseInt(env.SLASHING_PERCENT || '10', 10), // Citizen stake burned per offense
+    unbondingPeriod: parseInt(env.UNBONDING_PERIOD || '100', 10), // Blocks before unbonded stake is returned
+    requireCommitCertificates: env.REQUIRE_COMMIT_CERTIFICATES === 'true', // Finalize blocks only by commit certificate, not by depth
+  },
+
+  // Block reward settings, amounts in Cash
+  rewards: {
+    blockReward: env.BLOCK_REWARD || '160', // 10 Chuckrams
+    halvingInterval: parseInt(env.REWARD_HALVING_INTERVAL || '25000000', 10), // 0 to never halve
+    minimumReward: env.MINIMUM_BLOCK_REWARD || '16', // 1 Chuckram
   },
 
   // Mempool settings
   mempool: {
-    maxSize: parseInt(process.env.MEMPOOL_MAX_SIZE || '50000', 10),
-    maxSizePerAccount: parseInt(
-      process.env.MEMPOOL_MAX_PER_ACCOUNT || '25',
-      10
-    ),
-    expirationTime: parseInt(process.env.MEMPOOL_EXPIRATION || '3600000', 10), // 1 hour
-    minFee: parseInt(process.env.MEMPOOL_MIN_FEE || '1', 10), // 1 Cash
+    maxSize: parseInt(env.MEMPOOL_MAX_SIZE || '50000', 10),
+    maxSizePerAccount: parseInt(env.MEMPOOL_MAX_PER_ACCOUNT || '25', 10),
+    expirationTime: parseInt(env.MEMPOOL_EXPIRATION || '3600000', 10), // 1 hour
+    minFee: parseInt(env.MEMPOOL_MIN_FEE || '1', 10), // 1 Cash
   },
 
   // Validator settings
   validator: {
-    isValidator: process.env.IS_VALIDATOR === 'true',
-    validatorType: process.env.VALIDATOR_TYPE || 'citizen', // government or citizen
-    validatorAddress: process.env.VALIDATOR_ADDRESS,
-    validatorPrivateKey: process.env.VALIDATOR_PRIVATE_KEY, // Only in secure environment
-    validatorKeyFile: process.env.VALIDATOR_KEY_FILE || './validator-key.json',
-    stakeAmount: process.env.VALIDATOR_STAKE || '0', // For citizen validators
+    isValidator: env.IS_VALIDATOR === 'true',
+    validatorType: env.VALIDATOR_TYPE || 'citizen', // government or citizen
+    validatorAddress: env.VALIDATOR_ADDRESS,
+    validatorPrivateKey: env.VALIDATOR_PRIVATE_KEY, // Only in secure environment
+    validatorKeyFile: env.VALIDATOR_KEY_FILE || './validator-key.json',
+    stakeAmount: env.VALIDATOR_STAKE || '0', // For citizen validators
   },
 
   // Sync settings
   sync: {
-    fastSync: process.env.FAST_SYNC === 'true',
-    syncBatchSize: parseInt(process.env.SYNC_BATCH_SIZE || '100', 10),
-    syncTimeout: parseInt(process.env.SYNC_TIMEOUT || '30000', 10), // 30 seconds
-    maxBlocksInMemory: parseInt(process.env.MAX_BLOCKS_IN_MEMORY || '1000', 10),
+    fastSync: env.FAST_SYNC === 'true', // Start from a peer's state snapshot
+    checkpointHeight: parseInt(env.CHECKPOINT_HEIGHT || '0', 10), // Trusted block to fast sync to
+    checkpointHash: env.CHECKPOINT_HASH, // Fast sync needs both, otherwise blocks are synced from genesis
+    snapshotInterval: parseInt(env.SNAPSHOT_INTERVAL || '1000', 10), // Blocks between snapshots served to peers, 0 to serve none
+    maxSnapshots: parseInt(env.MAX_SNAPSHOTS || '2', 10),
+    syncBatchSize: parseInt(env.SYNC_BATCH_SIZE || '100', 10),
+    syncTimeout: parseInt(env.SYNC_TIMEOUT || '30000', 10), // 30 seconds
+    maxBlocksInMemory: parseInt(env.MAX_BLOCKS_IN_MEMORY || '1000', 10),
   },
 
   // Wallet settings
   wallet: {
-    defaultWalletPath: process.env.DEFAULT_WALLET_PATH || './wallet.json',
-    autoGenerateWallet: process.env.AUTO_GENERATE_WALLET === 'true',
-    walletPassword: process.env.WALLET_PASSWORD, // Only in secure environment or for dev
+    defaultWalletPath: env.DEFAULT_WALLET_PATH || './wallet.json',
+    autoGenerateWallet: env.AUTO_GENERATE_WALLET === 'true',
+    walletPassword: env.WALLET_PASSWORD, // Only in secure environment or for dev
   },
 
   // Storage settings
   storage: {
     database: {
-      type: process.env.DB_TYPE || 'leveldb',
-      host: process.env.DB_HOST || 'localhost',
-      port: parseInt(process.env.DB_PORT || '5432', 10),
-      username: process.env.DB_USERNAME,
-      password: process.env.DB_PASSWORD,
-      database: process.env.DB_NAME || 'chuckram',
+      type: env.DB_TYPE || 'leveldb', // leveldb or memory
+      host: env.DB_HOST || 'localhost',
+      port: parseInt(env.DB_PORT || '5432', 10),
+      username: env.DB_USERNAME,
+      password: env.DB_PASSWORD,
+      database: env.DB_NAME || 'chuckram',
     },
-    cacheSize: parseInt(process.env.CACHE_SIZE || '5000', 10),
-    pruning: process.env.PRUNING === 'true',
-    pruningAge: parseInt(process.env.PRUNING_AGE || '2592000000', 10), // 30 days in milliseconds
+    cacheSize: parseInt(env.CACHE_SIZE || '5000', 10), // Blocks kept in memory
+    pruning: env.PRUNING === 'true',
+    pruningAge: parseInt(env.PRUNING_AGE || '2592000000', 10), // 30 days in milliseconds
   },
 
   // Logging settings
   logging: {
-    level: process.env.LOG_LEVEL || 'info',
-    console: process.env.LOG_CONSOLE !== 'false',
-    file: process.env.LOG_FILE === 'true',
-    logFilePath: process.env.LOG_FILE_PATH || './logs',
+    level: env.LOG_LEVEL || 'info',
+    console: env.LOG_CONSOLE !== 'false',
+    file: env.LOG_FILE === 'true',
+    logFilePath: env.LOG_FILE_PATH || './logs',
   },
 });
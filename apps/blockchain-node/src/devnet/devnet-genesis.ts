@@ -0,0 +1,94 @@
+// apps/blockchain-node/src/devnet/devnet-genesis.ts
+
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import {
+  calculateMerkleRoot,
+  hashBlock,
+  sha256,
+} from '@digital-chuckram/utils';
+
+const SYSTEM_ADDRESS = '0'.repeat(40);
+
+export type DevnetValidatorType = 'government' | 'citizen';
+
+export interface DevnetValidator {
+  type: DevnetValidatorType;
+  address: string;
+  publicKey: string;
+  privateKey: string;
+  stake: string; // Cash bonded at genesis, none for government validators
+}
+
+// Fresh keys for the requested mix of validators
+export function generateValidators(
+  government: number,
+  citizens: number,
+  citizenStake: string
+): DevnetValidator[] {
+  const create = (type: DevnetValidatorType, stake: string) => {
+    const { address, publicKey, privateKey } = CryptoUtils.generateKeyPair();
+    return { type, address, publicKey, privateKey, stake };
+  };
+
+  return [
+    ...Array.from({ length: government }, () => create('government', '0')),
+    ...Array.from({ length: citizens }, () => create('citizen', citizenStake)),
+  ];
+}
+
+// Genesis block shared by every devnet node: each validator is funded and
+// registered, so the chain starts with the whole validator set active
+export function createDevnetGenesis(
+  validators: DevnetValidator[],
+  balance: string,
+  timestamp: number = Date.now()
+): any {
+  const transactions = validators.flatMap((validator) => [
+    {
+      id: sha256(`devnet:MINT:${validator.address}:${timestamp}`),
+      from: SYSTEM_ADDRESS,
+      to: validator.address,
+      amount: (BigInt(balance) + BigInt(validator.stake)).toString(),
+      fee: '0',
+      timestamp,
+      type: 'MINT',
+      data: { description: 'Devnet validator funds' },
+      signature: '0'.repeat(128),
+      nonce: 0,
+    },
+    {
+      id: sha256(`devnet:VALIDATOR_REGISTRATION:${validator.address}`),
+      from: validator.address,
+      to: SYSTEM_ADDRESS,
+      amount: '0',
+      fee: '0',
+      timestamp,
+      type: 'VALIDATOR_REGISTRATION',
+      data: {
+        validatorType: validator.type,
+        stake: validator.stake,
+        publicKey: validator.publicKey,
+      },
+      signature: '0'.repeat(128),
+      nonce: 0,
+    },
+  ]);
+
+  const block = {
+    header: {
+      version: 1,
+      previousHash: '0'.repeat(64),
+      merkleRoot: calculateMerkleRoot(transactions),
+      timestamp,
+      height: 0,
+      validatorAddress: SYSTEM_ADDRESS,
+      validatorSignature: null,
+    },
+    transactions,
+    nonce: 0,
+    hash: '',
+  };
+  block.hash = hashBlock(block);
+
+  return block;
+}
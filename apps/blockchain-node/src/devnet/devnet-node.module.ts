@@ -0,0 +1,47 @@
+// apps/blockchain-node/src/devnet/devnet-node.module.ts
+
+import { DynamicModule, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import configuration from '../config/configuration';
+import { StorageModule } from '../app/storage/storage.module';
+import { BlockchainModule } from '../app/blockchain/blockchain.module';
+import { ConsensusModule } from '../app/consensus/consensus.module';
+import { MempoolModule } from '../app/mempool/mempool.module';
+import { P2pModule } from '../app/p2p/p2p.module';
+import { BlockProducerModule } from '../app/block-producer/block-producer.module';
+import { SyncModule } from '../app/sync/sync.module';
+
+// The node's chain, networking and block production without its HTTP API,
+// configured from the given environment so several nodes can share a process
+@Module({})
+export class DevnetNodeModule {
+  static register(env: NodeJS.ProcessEnv): DynamicModule {
+    return {
+      module: DevnetNodeModule,
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          skipProcessEnv: true,
+          load: [() => configuration(env)],
+        }),
+        ScheduleModule.forRoot(),
+        EventEmitterModule.forRoot({
+          wildcard: true,
+          delimiter: '.',
+          maxListeners: 20,
+          verboseMemoryLeak: true,
+        }),
+        StorageModule,
+        BlockchainModule,
+        ConsensusModule,
+        MempoolModule,
+        P2pModule,
+        BlockProducerModule,
+        SyncModule,
+      ],
+    };
+  }
+}
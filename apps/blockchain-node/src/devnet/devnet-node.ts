@@ -0,0 +1,218 @@
+// apps/blockchain-node/src/devnet/devnet-node.ts
+
+import { INestApplicationContext, LogLevel, Type } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlockchainService } from '../app/blockchain/blockchain.service';
+import { PeerManager } from '../app/p2p/peer-manager.service';
+import { DevnetNodeModule } from './devnet-node.module';
+import { DevnetValidator } from './devnet-genesis';
+
+export interface ChainTip {
+  height: number;
+  hash: string;
+}
+
+// Everything needed to run one devnet node, generated up front so the node
+// keeps its identity across restarts
+export interface DevnetNodeSpec {
+  name: string;
+  nodeId: string; // Address of the node key, the node's P2P identity
+  validator?: DevnetValidator;
+  dir: string;
+  p2pPort: number;
+  apiPort: number;
+  env: Record<string, string>; // Node configuration, see configuration.ts
+}
+
+// A node the harness can start, stop and inspect however it runs
+export interface DevnetNode {
+  readonly spec: DevnetNodeSpec;
+  isRunning(): boolean;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  getTip(): Promise<ChainTip>;
+  getPeerIds(): Promise<string[]>;
+  banPeer(nodeId: string, reason: string): Promise<void>;
+  unbanPeer(nodeId: string): Promise<void>;
+}
+
+const STARTUP_TIMEOUT = 60000;
+const SHUTDOWN_TIMEOUT = 10000;
+
+// Node running in this process, its services reachable for tests
+export class InProcessNode implements DevnetNode {
+  private app?: INestApplicationContext;
+
+  constructor(
+    readonly spec: DevnetNodeSpec,
+    private readonly logLevels: LogLevel[]
+  ) {}
+
+  isRunning(): boolean {
+    return !!this.app;
+  }
+
+  async start(): Promise<void> {
+    if (this.app) return;
+
+    this.app = await NestFactory.createApplicationContext(
+      DevnetNodeModule.register(this.spec.env),
+      { logger: this.logLevels }
+    );
+  }
+
+  async stop(): Promise<void> {
+    const app = this.app;
+    this.app = undefined;
+    await app?.close();
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const state = this.get(BlockchainService).getBlockchainState();
+    return { height: state.height, hash: state.lastBlockHash };
+  }
+
+  async getPeerIds(): Promise<string[]> {
+    return this.get(PeerManager)
+      .getConnectedPeers()
+      .map((peer) => peer.id);
+  }
+
+  async banPeer(nodeId: string, reason: string): Promise<void> {
+    this.get(PeerManager).banPeer(nodeId, undefined, reason);
+  }
+
+  async unbanPeer(nodeId: string): Promise<void> {
+    this.get(PeerManager).unbanPeer(nodeId);
+  }
+
+  // A service of the running node
+  get<T>(type: Type<T>): T {
+    if (!this.app) {
+      throw new Error(`Node ${this.spec.name} is not running`);
+    }
+    return this.app.get(type);
+  }
+}
+
+// Node running the built node entry point as a child process, controlled
+// over its HTTP API. Output goes to node.log in the node's directory.
+export class ChildProcessNode implements DevnetNode {
+  private child?: ChildProcess;
+
+  constructor(readonly spec: DevnetNodeSpec, private readonly entry: string) {}
+
+  isRunning(): boolean {
+    return !!this.child;
+  }
+
+  async start(): Promise<void> {
+    if (this.child) return;
+
+    const log = fs.openSync(path.join(this.spec.dir, 'node.log'), 'a');
+    const child = spawn(process.execPath, [this.entry], {
+      cwd: this.spec.dir,
+      env: { ...process.env, ...this.spec.env },
+      stdio: ['ignore', log, log],
+    });
+    fs.closeSync(log);
+    this.child = child;
+
+    let exited = false;
+    child.once('exit', () => {
+      exited = true;
+      if (this.child === child) this.child = undefined;
+    });
+
+    // Up once its API answers
+    const deadline = Date.now() + STARTUP_TIMEOUT;
+    while (!(await this.isResponding())) {
+      if (exited) {
+        throw new Error(`Node ${this.spec.name} exited during startup`);
+      }
+      if (Date.now() > deadline) {
+        await this.stop();
+        throw new Error(`Node ${this.spec.name} did not start`);
+      }
+      await sleep(250);
+    }
+  }
+
+  async stop(): Promise<void> {
+    const child = this.child;
+    this.child = undefined;
+    if (!child || child.exitCode !== null) return;
+
+    const exited = new Promise((resolve) => child.once('exit', resolve));
+    child.kill('SIGTERM');
+    const timer = setTimeout(() => child.kill('SIGKILL'), SHUTDOWN_TIMEOUT);
+    await exited;
+    clearTimeout(timer);
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const info = await this.request('GET', '/blockchain/info');
+    return { height: info.height, hash: info.lastBlockHash };
+  }
+
+  async getPeerIds(): Promise<string[]> {
+    const peers: Array<{ id: string; connected: boolean }> = await this.request(
+      'GET',
+      '/peers'
+    );
+    return peers.filter((peer) => peer.connected).map((peer) => peer.id);
+  }
+
+  async banPeer(nodeId: string, reason: string): Promise<void> {
+    await this.request('POST', `/peers/${nodeId}/ban`, { reason });
+  }
+
+  async unbanPeer(nodeId: string): Promise<void> {
+    await this.request('DELETE', `/peers/${nodeId}/ban`, undefined, [404]);
+  }
+
+  private async isResponding(): Promise<boolean> {
+    try {
+      await this.getTip();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async request(
+    method: string,
+    route: string,
+    body?: unknown,
+    allowedStatuses: number[] = []
+  ): Promise<any> {
+    const response = await fetch(
+      `http://127.0.0.1:${this.spec.apiPort}${route}`,
+      {
+        method,
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.spec.env.API_KEY,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      }
+    );
+
+    if (allowedStatuses.includes(response.status)) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `${method} ${route} on node ${this.spec.name} failed with ${response.status}`
+      );
+    }
+    return response.json();
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
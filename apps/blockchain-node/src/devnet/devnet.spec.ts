@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LightClient, LightClientSource } from '@digital-chuckram/light-client';
+import { Devnet } from './devnet';
+import { InProcessNode } from './devnet-node';
+import { BlockchainService } from '../app/blockchain/blockchain.service';
+import { StateManager } from '../app/blockchain/state-manager.service';
+
+describe('Devnet', () => {
+  let devnet: Devnet | undefined;
+
+  afterEach(async () => {
+    await devnet?.stop();
+    devnet = undefined;
+  });
+
+  it('should generate keys and a shared genesis for the validator mix', () => {
+    devnet = Devnet.create({ government: 2, citizens: 1, observers: 1 });
+
+    expect(devnet.nodes.map((node) => node.spec.name)).toEqual([
+      'government-1',
+      'government-2',
+      'citizen-1',
+      'observer-1',
+    ]);
+    expect(devnet.getValidators('government')).toHaveLength(2);
+    expect(devnet.getValidators('citizen')).toHaveLength(1);
+
+    // Every node bootstraps from the nodes before it
+    const [first, , , last] = devnet.nodes;
+    expect(first.spec.env.BOOTSTRAP_NODES).toBe('');
+    expect(last.spec.env.BOOTSTRAP_NODES.split(',')).toHaveLength(3);
+    expect(last.spec.env.IS_VALIDATOR).toBe('false');
+
+    const registrations = devnet.genesis.transactions.filter(
+      (tx: any) => tx.type === 'VALIDATOR_REGISTRATION'
+    );
+    expect(registrations.map((tx: any) => tx.data.validatorType)).toEqual([
+      'government',
+      'government',
+      'citizen',
+    ]);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(devnet.dir, 'genesis.json'), 'utf8'))
+        .hash
+    ).toBe(devnet.genesis.hash);
+  });
+
+  it('should converge after partitions and validator failures', async () => {
+    devnet = await Devnet.start({
+      government: 1,
+      citizens: 1,
+      observers: 1,
+      basePort: 47400,
+      blockTime: 4000,
+    });
+    const validators = (devnet.getNode('observer-1') as InProcessNode)
+      .get(StateManager)
+      .getActiveValidators();
+    expect(validators.map((validator) => validator.type).sort()).toEqual([
+      'citizen',
+      'government',
+    ]);
+
+    const tip = await devnet.waitForConvergence({ minHeight: 2 });
+
+    // The remaining validator takes over the turns of a stopped one
+    await devnet.kill('citizen-1');
+    const survived = await devnet.waitForConvergence({
+      minHeight: tip.height + 2,
+    });
+
+    // A node cut off falls behind and catches up once the partition heals
+    await devnet.partition(['observer-1']);
+    await devnet.waitForHeight(survived.height + 2, {
+      nodes: ['government-1'],
+    });
+    expect((await devnet.getTips())['observer-1'].height).toBeLessThan(
+      survived.height + 2
+    );
+    await devnet.heal();
+    await devnet.waitForConvergence({ minHeight: survived.height + 2 });
+    await expect(devnet.assertConverged()).resolves.toBeDefined();
+  }, 180000);
+
+  it('should certify headers a light client can follow', async () => {
+    devnet = await Devnet.start({
+      government: 1,
+      citizens: 0,
+      observers: 1,
+      basePort: 47500,
+      env: { EPOCH_LENGTH: '3' },
+    });
+    const validator = devnet.getNode('government-1').spec.validator!;
+    const observer = devnet.getNode('observer-1') as InProcessNode;
+    const blockchainService = observer.get(BlockchainService);
+    const stateManager = observer.get(StateManager);
+
+    // The observer's chain data as its HTTP API serves it
+    const json = (value: any) => JSON.parse(JSON.stringify(value));
+    const source: LightClientSource = {
+      getCertifiedHeight: async () =>
+        blockchainService.getBlockchainState().certifiedHeight,
+      getHeader: async (height) =>
+        json(blockchainService.getBlockHeader(height)),
+      getValidatorSet: async (height) =>
+        json(stateManager.getValidatorSetAt(height)),
+      getAccountProof: async (address, height) =>
+        json(stateManager.getStateProof(address, height)),
+      getTransactionProof: async (id) =>
+        json(blockchainService.getTransactionProof(id)),
+    };
+
+    await devnet.waitForHeight(6, { nodes: ['observer-1'] });
+    const client = new LightClient({
+      source,
+      checkpoint: {
+        header: await source.getHeader(0),
+        validatorSet: await source.getValidatorSet(1),
+      },
+      epochLength: 3,
+    });
+
+    // Past the end of the first epoch, into later validator sets
+    const latest = await client.sync();
+    expect(latest.header.height).toBeGreaterThanOrEqual(4);
+    expect(
+      client.getValidatorSetAt(latest.header.height)!.epoch
+    ).toBeGreaterThan(0);
+    const account = await client.getAccount(validator.address);
+    expect(account?.validator?.publicKey).toBe(validator.publicKey);
+  }, 120000);
+});
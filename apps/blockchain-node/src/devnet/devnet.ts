@@ -0,0 +1,371 @@
+// apps/blockchain-node/src/devnet/devnet.ts
+
+import { LogLevel } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { loadOrCreateNodeKey } from '@digital-chuckram/p2p';
+import {
+  createDevnetGenesis,
+  DevnetValidator,
+  DevnetValidatorType,
+  generateValidators,
+} from './devnet-genesis';
+import {
+  ChainTip,
+  ChildProcessNode,
+  DevnetNode,
+  DevnetNodeSpec,
+  InProcessNode,
+  sleep,
+} from './devnet-node';
+
+export type DevnetMode = 'in-process' | 'child-process';
+
+export interface DevnetOptions {
+  government?: number; // Government validators
+  citizens?: number; // Citizen validators
+  observers?: number; // Nodes that only follow the chain
+  mode?: DevnetMode;
+  dir?: string; // Keys, genesis and node data, a temporary directory if unset
+  basePort?: number; // P2P ports count up from here, API ports from 100 above
+  blockTime?: number;
+  genesisDelay?: number; // Milliseconds until blocks are due, for the nodes to connect
+  citizenStake?: string; // Cash bonded by each citizen validator
+  governmentValidatorRatio?: number; // Percent of voting power
+  entry?: string; // Built node entry point run by child processes
+  logLevels?: LogLevel[]; // Of in-process nodes
+  env?: Record<string, string>; // Further configuration for every node
+}
+
+export interface WaitOptions {
+  nodes?: string[]; // Running nodes if unset
+  timeout?: number;
+}
+
+const DEFAULT_OPTIONS: Required<
+  Omit<DevnetOptions, 'dir' | 'env' | 'genesisDelay'>
+> = {
+  government: 2,
+  citizens: 1,
+  observers: 0,
+  mode: 'in-process',
+  basePort: 41000,
+  blockTime: 1000,
+  citizenStake: '100000',
+  governmentValidatorRatio: 50,
+  entry: path.join(__dirname, 'main.js'),
+  logLevels: ['error', 'warn'],
+};
+
+const DEVNET_BALANCE = '1000000'; // Cash each validator starts with
+const STARTUP_TIME_PER_NODE = 3000;
+const DEFAULT_WAIT_TIMEOUT = 60000;
+const POLL_INTERVAL = 250;
+
+// A local network of blockchain nodes for integration tests. Validator and
+// node keys and a genesis registering every validator are generated into
+// one directory, then the nodes run in this process or as child processes,
+// each bootstrapping from the nodes before it. Partitions are made by
+// having nodes ban each other's node IDs.
+export class Devnet {
+  readonly nodes: DevnetNode[];
+  readonly genesis: any;
+  private readonly removeDir: boolean;
+  private bans: Array<[DevnetNode, string]> = [];
+
+  private constructor(
+    readonly dir: string,
+    options: DevnetOptions,
+    removeDir: boolean
+  ) {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    this.removeDir = removeDir;
+
+    const validators = generateValidators(
+      config.government,
+      config.citizens,
+      config.citizenStake
+    );
+    const members: Array<DevnetValidator | undefined> = [
+      ...validators,
+      ...Array.from({ length: config.observers }, () => undefined),
+    ];
+    const names = createNames(members);
+    const count = members.length;
+
+    // Validators started early would otherwise build chains of their own
+    // before their peers are up
+    const genesisDelay =
+      options.genesisDelay ?? STARTUP_TIME_PER_NODE * (count + 1);
+    this.genesis = createDevnetGenesis(
+      validators,
+      DEVNET_BALANCE,
+      Date.now() + genesisDelay
+    );
+    const genesisFile = path.join(dir, 'genesis.json');
+    fs.writeFileSync(genesisFile, JSON.stringify(this.genesis, null, 2));
+
+    const specs = members.map((validator, i) => {
+      const name = names[i];
+      const nodeDir = path.join(dir, name);
+      fs.mkdirSync(nodeDir, { recursive: true });
+
+      const nodeKeyFile = path.join(nodeDir, 'node-key.json');
+      const nodeKey = loadOrCreateNodeKey(nodeKeyFile);
+      const validatorKeyFile = path.join(nodeDir, 'validator-key.json');
+      if (validator) {
+        fs.writeFileSync(validatorKeyFile, JSON.stringify(validator), {
+          mode: 0o600,
+        });
+      }
+
+      const spec: DevnetNodeSpec = {
+        name,
+        nodeId: CryptoUtils.publicKeyToAddress(nodeKey.publicKey),
+        validator,
+        dir: nodeDir,
+        p2pPort: config.basePort + i,
+        apiPort: config.basePort + 100 + i,
+        env: {},
+      };
+      spec.env = {
+        NODE_NAME: name,
+        NODE_ENV: 'development',
+        NODE_PORT: String(spec.apiPort),
+        API_KEY: 'devnet',
+        NETWORK: 'devnet',
+        BOOTSTRAP_NODES: Array.from(
+          { length: i },
+          (_, j) => `127.0.0.1:${config.basePort + j}`
+        ).join(','),
+        MIN_PEERS: String(count - 1),
+        PEER_DISCOVERY_INTERVAL: '3000', // Reconnect soon after a partition heals
+        P2P_PORT: String(spec.p2pPort),
+        NODE_KEY_FILE: nodeKeyFile,
+        BAN_FILE: path.join(nodeDir, 'bans.json'),
+        DATA_DIR: nodeDir,
+        GENESIS_FILE: genesisFile,
+        DB_TYPE: 'memory',
+        BLOCK_TIME: String(config.blockTime),
+        BLOCK_PROPOSER_TIMEOUT: String(config.blockTime * 2),
+        GOVERNMENT_VALIDATOR_RATIO: String(config.governmentValidatorRatio),
+        IS_VALIDATOR: validator ? 'true' : 'false',
+        ...(validator && {
+          VALIDATOR_TYPE: validator.type,
+          VALIDATOR_ADDRESS: validator.address,
+          VALIDATOR_PRIVATE_KEY: validator.privateKey,
+          VALIDATOR_KEY_FILE: validatorKeyFile,
+        }),
+        ...options.env,
+      };
+      return spec;
+    });
+
+    this.nodes = specs.map((spec) =>
+      config.mode === 'child-process'
+        ? new ChildProcessNode(spec, config.entry)
+        : new InProcessNode(spec, config.logLevels)
+    );
+
+    fs.writeFileSync(
+      path.join(dir, 'devnet.json'),
+      JSON.stringify(
+        specs.map((spec) => ({
+          name: spec.name,
+          nodeId: spec.nodeId,
+          validatorType: spec.validator?.type,
+          validatorAddress: spec.validator?.address,
+          p2pPort: spec.p2pPort,
+          apiPort: spec.apiPort,
+        })),
+        null,
+        2
+      )
+    );
+  }
+
+  // Generate a devnet without starting it
+  static create(options: DevnetOptions = {}): Devnet {
+    const dir =
+      options.dir ?? fs.mkdtempSync(path.join(os.tmpdir(), 'devnet-'));
+    fs.mkdirSync(dir, { recursive: true });
+    return new Devnet(dir, options, !options.dir);
+  }
+
+  static async start(options: DevnetOptions = {}): Promise<Devnet> {
+    const devnet = Devnet.create(options);
+    try {
+      await devnet.start();
+    } catch (error) {
+      await devnet.stop();
+      throw error;
+    }
+    return devnet;
+  }
+
+  // Start every node in order, so each finds the ones it bootstraps from
+  async start(): Promise<void> {
+    for (const node of this.nodes) {
+      await node.start();
+    }
+  }
+
+  // Stop every node, removing the generated temporary directory
+  async stop(): Promise<void> {
+    await Promise.all(this.nodes.map((node) => node.stop()));
+    this.bans = [];
+
+    if (this.removeDir) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    }
+  }
+
+  getNode(name: string): DevnetNode {
+    const node = this.nodes.find((candidate) => candidate.spec.name === name);
+    if (!node) {
+      throw new Error(`No devnet node named ${name}`);
+    }
+    return node;
+  }
+
+  // Validator nodes, optionally of one type
+  getValidators(type?: DevnetValidatorType): DevnetNode[] {
+    return this.nodes.filter(
+      (node) =>
+        node.spec.validator && (!type || node.spec.validator.type === type)
+    );
+  }
+
+  async kill(name: string): Promise<void> {
+    await this.getNode(name).stop();
+  }
+
+  // Start a stopped node again. Its storage is in memory, so it syncs the
+  // chain from its peers.
+  async restart(name: string): Promise<void> {
+    await this.getNode(name).start();
+  }
+
+  // Cut the network into groups of node names that only reach each other.
+  // Nodes not named form one more group.
+  async partition(...groups: string[][]): Promise<void> {
+    await this.heal();
+
+    const named = new Set(groups.flat());
+    const rest = this.nodes
+      .map((node) => node.spec.name)
+      .filter((name) => !named.has(name));
+    const all = rest.length > 0 ? [...groups, rest] : groups;
+    const groupOf = new Map<string, number>();
+    all.forEach((group, i) =>
+      group.forEach((name) => groupOf.set(this.getNode(name).spec.name, i))
+    );
+
+    for (const node of this.nodes) {
+      for (const other of this.nodes) {
+        if (groupOf.get(node.spec.name) === groupOf.get(other.spec.name)) {
+          continue;
+        }
+        this.bans.push([node, other.spec.nodeId]);
+        if (node.isRunning()) {
+          await node.banPeer(other.spec.nodeId, 'Devnet partition');
+        }
+      }
+    }
+  }
+
+  // Lift a partition, nodes reconnect as they look for peers
+  async heal(): Promise<void> {
+    const bans = this.bans;
+    this.bans = [];
+
+    for (const [node, nodeId] of bans) {
+      if (node.isRunning()) {
+        await node.unbanPeer(nodeId);
+      }
+    }
+  }
+
+  // Chain tips of the running nodes, by name
+  async getTips(names?: string[]): Promise<Record<string, ChainTip>> {
+    const tips: Record<string, ChainTip> = {};
+    for (const node of this.selectNodes(names)) {
+      tips[node.spec.name] = await node.getTip();
+    }
+    return tips;
+  }
+
+  // Wait until every node has reached a height
+  async waitForHeight(
+    height: number,
+    options: WaitOptions = {}
+  ): Promise<void> {
+    await this.waitFor(
+      `Nodes did not reach height ${height}`,
+      options,
+      (tips) => tips.every((tip) => tip.height >= height)
+    );
+  }
+
+  // Wait until the nodes agree on their tip, at least at minHeight, and
+  // return it
+  async waitForConvergence(
+    options: WaitOptions & { minHeight?: number } = {}
+  ): Promise<ChainTip> {
+    const minHeight = options.minHeight ?? 0;
+    const tips = await this.waitFor(
+      'Nodes did not converge',
+      options,
+      (tips) =>
+        tips[0].height >= minHeight &&
+        tips.every(
+          (tip) => tip.height === tips[0].height && tip.hash === tips[0].hash
+        )
+    );
+    return tips[0];
+  }
+
+  // Throw unless the nodes are on the same tip right now
+  async assertConverged(names?: string[]): Promise<ChainTip> {
+    return this.waitForConvergence({ nodes: names, timeout: 0 });
+  }
+
+  private async waitFor(
+    failure: string,
+    options: WaitOptions,
+    done: (tips: ChainTip[]) => boolean
+  ): Promise<ChainTip[]> {
+    const deadline = Date.now() + (options.timeout ?? DEFAULT_WAIT_TIMEOUT);
+
+    for (;;) {
+      const tips = await this.getTips(options.nodes);
+      const values = Object.values(tips);
+      if (values.length > 0 && done(values)) {
+        return values;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`${failure}: ${JSON.stringify(tips)}`);
+      }
+      await sleep(POLL_INTERVAL);
+    }
+  }
+
+  private selectNodes(names?: string[]): DevnetNode[] {
+    return names
+      ? names.map((name) => this.getNode(name))
+      : this.nodes.filter((node) => node.isRunning());
+  }
+}
+
+// government-1, government-2, citizen-1, observer-1 and so on
+function createNames(members: Array<DevnetValidator | undefined>): string[] {
+  const counts = new Map<string, number>();
+  return members.map((validator) => {
+    const role = validator?.type ?? 'observer';
+    const count = (counts.get(role) ?? 0) + 1;
+    counts.set(role, count);
+    return `${role}-${count}`;
+  });
+}
@@ -0,0 +1,76 @@
+// apps/blockchain-node/src/devnet/main.ts
+
+import { Logger } from '@nestjs/common';
+import { parseArgs } from 'util';
+import { Devnet, DevnetOptions } from './devnet';
+
+const STATUS_INTERVAL = 10000;
+
+// Run a local devnet until interrupted, for example
+// node dist/devnet.js --government 2 --citizens 2 --observers 1
+async function bootstrap() {
+  const logger = new Logger('Devnet');
+  const { values } = parseArgs({
+    options: {
+      government: { type: 'string' },
+      citizens: { type: 'string' },
+      observers: { type: 'string' },
+      'in-process': { type: 'boolean' },
+      dir: { type: 'string' },
+      'base-port': { type: 'string' },
+      'block-time': { type: 'string' },
+    },
+  });
+
+  const number = (value?: string) =>
+    value !== undefined ? Number(value) : undefined;
+  const options: DevnetOptions = {
+    government: number(values.government),
+    citizens: number(values.citizens),
+    observers: number(values.observers),
+    mode: values['in-process'] ? 'in-process' : 'child-process',
+    dir: values.dir,
+    basePort: number(values['base-port']),
+    blockTime: number(values['block-time']),
+  };
+  // Unset flags keep the devnet defaults
+  for (const key of Object.keys(options) as Array<keyof DevnetOptions>) {
+    if (options[key] === undefined) delete options[key];
+  }
+
+  const devnet = await Devnet.start(options);
+  logger.log(`Devnet running in ${devnet.dir}`);
+  for (const { spec } of devnet.nodes) {
+    logger.log(
+      `${spec.name}: P2P ${spec.p2pPort}, API http://127.0.0.1:${
+        spec.apiPort
+      }, node ${spec.nodeId}${
+        spec.validator ? `, validator ${spec.validator.address}` : ''
+      }`
+    );
+  }
+
+  const timer = setInterval(async () => {
+    try {
+      const tips = await devnet.getTips();
+      logger.log(
+        Object.entries(tips)
+          .map(([name, tip]) => `${name} ${tip.height}`)
+          .join(', ')
+      );
+    } catch (error: any) {
+      logger.warn(`Could not read chain tips: ${error.message}`);
+    }
+  }, STATUS_INTERVAL);
+
+  const shutdown = async () => {
+    clearInterval(timer);
+    logger.log('Stopping devnet');
+    await devnet.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+bootstrap();
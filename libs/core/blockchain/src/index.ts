@@ -1 +1,5 @@
 export * from './lib/blockchain.js';
+export * from './lib/transaction.js';
+export * from './lib/nonce.js';
+export * from './lib/rewards.js';
+export * from './lib/state-tree.js';
@@ -1,11 +1,48 @@
 import { Blockchain } from './blockchain';
-import { Transaction, TransactionType } from '@digital-chuckram/types';
+import { signTransaction, verifyTransactionProof } from './transaction';
+import { verifyStateProof } from './state-tree';
+import { Block, Transaction, TransactionType } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import {
+  ConsensusEngine,
+  createCommitCertificate,
+  signBlockHeader,
+  signVote,
+  verifyEvidence,
+} from '@digital-chuckram/consensus';
+import { calculateMerkleRoot } from '@digital-chuckram/utils';
 
 describe('Blockchain', () => {
+  const funded = CryptoUtils.generateKeyPair();
   let blockchain: Blockchain;
 
+  const createTransfer = (tx: Partial<Transaction> = {}): Transaction =>
+    signTransaction(
+      {
+        id: 'tx',
+        from: funded.address,
+        to: 'CHKuser123',
+        amount: 10n,
+        fee: 1n,
+        timestamp: Date.now(),
+        type: TransactionType.TRANSFER,
+        signature: '',
+        nonce: 0,
+        ...tx,
+      },
+      funded.privateKey,
+      funded.publicKey
+    );
+
+  // Recompute the commitments of a block modified after creation
+  const reseal = (block: Block) => {
+    block.header.merkleRoot = calculateMerkleRoot(block.transactions);
+    block.header.stateRoot = blockchain['calculatePostStateRoot'](block);
+    block.hash = blockchain.calculateBlockHash(block);
+  };
+
   beforeEach(() => {
-    blockchain = new Blockchain();
+    blockchain = new Blockchain({ allocations: { [funded.address]: 100n } });
   });
 
   it('should create genesis block', () => {
@@ -15,24 +52,18 @@ describe('Blockchain', () => {
     expect(chain[0].header.previousHash).toBe('0');
   });
 
-  it('should add a valid transaction to mempool', () => {
-    const tx: Transaction = {
-      id: '1',
-      from: 'SYSTEM',
-      to: 'CHKuser123',
-      amount: 100n,
-      fee: 0n,
-      timestamp: Date.now(),
-      type: TransactionType.REWARD,
-      signature: '',
-      nonce: 0,
-    };
+  it('should mint genesis allocations', () => {
+    expect(blockchain.getBalance(funded.address)).toBe(100n);
+    expect(blockchain.getState().totalMinted).toBe(100n);
+    expect(blockchain.getChain()[0].transactions).toHaveLength(1);
+  });
 
-    const result = blockchain.addTransaction(tx);
+  it('should add a valid transaction to mempool', () => {
+    const result = blockchain.addTransaction(createTransfer());
     expect(result).toBe(true);
   });
 
-  it('should create a new block', () => {
+  it('should reject system transactions outside of block rewards', () => {
     const tx: Transaction = {
       id: '1',
       from: 'SYSTEM',
@@ -40,37 +71,639 @@ describe('Blockchain', () => {
       amount: 100n,
       fee: 0n,
       timestamp: Date.now(),
-      type: TransactionType.REWARD,
+      type: TransactionType.MINT,
       signature: '',
       nonce: 0,
     };
 
-    blockchain.addTransaction(tx);
+    expect(blockchain.checkTransaction(tx)).toBe(
+      'System transactions are only valid as block rewards'
+    );
+    expect(blockchain.addTransaction(tx)).toBe(false);
+  });
+
+  it('should create a new block', () => {
+    blockchain.addTransaction(createTransfer());
     const block = blockchain.createBlock('CHKvalidator1');
 
     expect(block).toBeDefined();
-    expect(block?.transactions.length).toBe(1);
+    expect(block?.transactions.length).toBe(2);
+    expect(block?.transactions[0]).toMatchObject({
+      from: 'SYSTEM',
+      to: 'CHKvalidator1',
+      amount: 160n,
+      type: TransactionType.REWARD,
+    });
     expect(block?.header.height).toBe(1);
   });
 
   it('should update balances after adding block', () => {
-    const tx: Transaction = {
-      id: '1',
-      from: 'SYSTEM',
+    blockchain.addTransaction(createTransfer());
+    const block = blockchain.createBlock('CHKvalidator1');
+    blockchain.addBlock(block!);
+
+    expect(blockchain.getBalance('CHKuser123')).toBe(10n);
+    expect(blockchain.getBalance('CHKvalidator1')).toBe(161n);
+  });
+
+  it('should reject a block minting from the system', () => {
+    blockchain.addTransaction(createTransfer());
+    const block = blockchain.createBlock('CHKvalidator1')!;
+    block.transactions.push({
+      ...block.transactions[0],
+      id: 'mint',
+      to: 'CHKattacker',
+      type: TransactionType.MINT,
+    });
+    reseal(block);
+
+    expect(blockchain.addBlock(block)).toBe(false);
+    expect(blockchain.getBalance('CHKattacker')).toBe(0n);
+  });
+
+  it('should reject a block paying more than the block reward', () => {
+    blockchain.addTransaction(createTransfer());
+    const block = blockchain.createBlock('CHKvalidator1')!;
+    block.transactions[0] = { ...block.transactions[0], amount: 1000n };
+    reseal(block);
+
+    expect(blockchain.addBlock(block)).toBe(false);
+  });
+
+  it('should reject a block without its reward at the start', () => {
+    blockchain.addTransaction(createTransfer());
+    const block = blockchain.createBlock('CHKvalidator1')!;
+    block.transactions.reverse();
+    reseal(block);
+
+    expect(blockchain.addBlock(block)).toBe(false);
+    expect(blockchain.getBalance('CHKvalidator1')).toBe(0n);
+  });
+
+  describe('transaction signatures', () => {
+    const sender = CryptoUtils.generateKeyPair();
+    const other = CryptoUtils.generateKeyPair();
+
+    const createTransfer = (): Transaction => ({
+      id: '2',
+      from: sender.address,
       to: 'CHKuser123',
-      amount: 100n,
-      fee: 0n,
+      amount: 10n,
+      fee: 1n,
       timestamp: Date.now(),
-      type: TransactionType.REWARD,
+      type: TransactionType.TRANSFER,
       signature: '',
       nonce: 0,
+    });
+
+    beforeEach(() => {
+      blockchain = new Blockchain({ allocations: { [sender.address]: 100n } });
+    });
+
+    it('should accept a transaction signed by the sender', () => {
+      const tx = signTransaction(
+        createTransfer(),
+        sender.privateKey,
+        sender.publicKey
+      );
+
+      expect(blockchain.addTransaction(tx)).toBe(true);
+    });
+
+    it('should reject an unsigned transaction', () => {
+      const tx = { ...createTransfer(), publicKey: sender.publicKey };
+
+      expect(blockchain.addTransaction(tx)).toBe(false);
+    });
+
+    it('should reject a transaction signed with another key', () => {
+      const tx = signTransaction(
+        createTransfer(),
+        other.privateKey,
+        other.publicKey
+      );
+
+      expect(blockchain.addTransaction(tx)).toBe(false);
+    });
+
+    it('should reject a transaction modified after signing', () => {
+      const tx = signTransaction(
+        createTransfer(),
+        sender.privateKey,
+        sender.publicKey
+      );
+
+      expect(blockchain.addTransaction({ ...tx, amount: 50n })).toBe(false);
+    });
+
+    it('should resolve the public key of a known sender', () => {
+      const first = signTransaction(
+        createTransfer(),
+        sender.privateKey,
+        sender.publicKey
+      );
+      blockchain.addTransaction(first);
+      blockchain.addBlock(blockchain.createBlock('CHKvalidator1')!);
+
+      const second = signTransaction(
+        { ...createTransfer(), id: '3', nonce: 1 },
+        sender.privateKey,
+        sender.publicKey
+      );
+      delete second.publicKey;
+
+      expect(blockchain.addTransaction(second)).toBe(true);
+    });
+
+    it('should reject a block containing a forged transaction', () => {
+      const forged = signTransaction(
+        createTransfer(),
+        other.privateKey,
+        sender.publicKey
+      );
+      blockchain.addTransaction(
+        signTransaction(createTransfer(), sender.privateKey, sender.publicKey)
+      );
+      const forgedBlock = blockchain.createBlock('CHKvalidator1')!;
+      forgedBlock.transactions[1] = forged;
+      reseal(forgedBlock);
+
+      expect(blockchain.addBlock(forgedBlock)).toBe(false);
+      expect(blockchain.getChain().length).toBe(1);
+    });
+  });
+
+  describe('nonces', () => {
+    const sender = CryptoUtils.generateKeyPair();
+
+    const createTransfer = (id: string, nonce: number): Transaction =>
+      signTransaction(
+        {
+          id,
+          from: sender.address,
+          to: 'CHKuser123',
+          amount: 10n,
+          fee: 1n,
+          timestamp: Date.now(),
+          type: TransactionType.TRANSFER,
+          signature: '',
+          nonce,
+        },
+        sender.privateKey,
+        sender.publicKey
+      );
+
+    const createBlockWith = (transactions: Transaction[]) => {
+      const previous = blockchain.getLatestBlock();
+      const block = {
+        header: {
+          version: 1,
+          previousHash: previous.hash,
+          merkleRoot: calculateMerkleRoot(transactions),
+          timestamp: Date.now(),
+          height: previous.header.height + 1,
+          validatorAddress: 'CHKvalidator1',
+        },
+        transactions,
+        hash: '',
+        nonce: 0,
+      };
+      block.hash = blockchain.calculateBlockHash(block);
+      return block;
     };
 
-    blockchain.addTransaction(tx);
-    const block = blockchain.createBlock('CHKvalidator1');
-    blockchain.addBlock(block!);
+    beforeEach(() => {
+      // Without a block reward, blocks hold only the transactions given
+      blockchain = new Blockchain({
+        rewardSchedule: {
+          blockReward: 0n,
+          halvingInterval: 0,
+          minimumReward: 0n,
+        },
+        allocations: { [sender.address]: 100n },
+      });
+    });
+
+    it('should advance the account nonce when a block is added', () => {
+      blockchain.addTransaction(createTransfer('tx0', 0));
+      blockchain.addBlock(blockchain.createBlock('CHKvalidator1')!);
+
+      expect(blockchain.getNonce(sender.address)).toBe(1);
+    });
+
+    it('should reject a replayed transaction', () => {
+      const tx = createTransfer('tx0', 0);
+      blockchain.addTransaction(tx);
+      blockchain.addBlock(blockchain.createBlock('CHKvalidator1')!);
+
+      expect(blockchain.checkTransaction(tx)).toBe(
+        'Nonce 0 already used (replay), expected 1'
+      );
+      expect(blockchain.addTransaction(tx)).toBe(false);
+    });
+
+    it('should reject a nonce gap', () => {
+      const tx = createTransfer('tx2', 2);
+
+      expect(blockchain.checkTransaction(tx)).toBe(
+        'Nonce gap: got 2, expected 0'
+      );
+      expect(blockchain.addTransaction(tx)).toBe(false);
+    });
+
+    it('should accept sequential nonces pending in the mempool', () => {
+      expect(blockchain.addTransaction(createTransfer('tx0', 0))).toBe(true);
+      expect(blockchain.addTransaction(createTransfer('tx1', 1))).toBe(true);
+      expect(blockchain.addTransaction(createTransfer('dup', 1))).toBe(false);
+
+      const block = blockchain.createBlock('CHKvalidator1')!;
+      expect(blockchain.addBlock(block)).toBe(true);
+      expect(blockchain.getNonce(sender.address)).toBe(2);
+    });
+
+    it('should reject a block with a duplicate nonce', () => {
+      const block = createBlockWith([
+        createTransfer('tx0', 0),
+        createTransfer('dup', 0),
+      ]);
+
+      expect(blockchain.addBlock(block)).toBe(false);
+      expect(blockchain.getNonce(sender.address)).toBe(0);
+    });
+
+    it('should reject a block with a nonce gap', () => {
+      const block = createBlockWith([
+        createTransfer('tx0', 0),
+        createTransfer('tx2', 2),
+      ]);
+
+      expect(blockchain.addBlock(block)).toBe(false);
+    });
+  });
+
+  describe('fees and rewards', () => {
+    const sender = CryptoUtils.generateKeyPair();
+    const schedule = {
+      blockReward: 100n,
+      halvingInterval: 0,
+      minimumReward: 0n,
+    };
+
+    const allocations = { [sender.address]: 1000n };
+
+    const sign = (tx: Partial<Transaction>): Transaction =>
+      signTransaction(
+        {
+          id: 'tx',
+          from: sender.address,
+          to: 'CHKuser123',
+          amount: 10n,
+          fee: 5n,
+          timestamp: Date.now(),
+          type: TransactionType.TRANSFER,
+          signature: '',
+          nonce: 0,
+          ...tx,
+        },
+        sender.privateKey,
+        sender.publicKey
+      );
+
+    it('should pay transaction fees to the block proposer', () => {
+      blockchain = new Blockchain({
+        rewardSchedule: { ...schedule, blockReward: 0n },
+        allocations,
+      });
+
+      blockchain.addTransaction(sign({}));
+      blockchain.addBlock(blockchain.createBlock('CHKproposer')!);
+
+      expect(blockchain.getBalance(sender.address)).toBe(985n);
+      expect(blockchain.getBalance('CHKuser123')).toBe(10n);
+      expect(blockchain.getBalance('CHKproposer')).toBe(5n);
+    });
+
+    it('should split the block reward between validator groups', () => {
+      blockchain = new Blockchain({
+        rewardSchedule: schedule,
+        rewardSplit: {
+          governmentValidatorRatio: 0.6,
+          citizenValidatorRatio: 0.4,
+        },
+        allocations,
+      });
+      const validators = blockchain.getState().validators;
+      for (const [address, type] of [
+        ['GOV1', 'GOVERNMENT'],
+        ['CIT1', 'CITIZEN'],
+        ['CIT2', 'CITIZEN'],
+      ] as const) {
+        validators.set(address, {
+          address,
+          type,
+          active: true,
+          registeredAt: 0,
+          lastActiveBlock: 0,
+        });
+      }
+
+      blockchain.addTransaction(sign({}));
+      const block = blockchain.createBlock('CHKvalidator1')!;
+      expect(
+        block.transactions.slice(0, 3).map((tx) => [tx.to, tx.amount])
+      ).toEqual([
+        ['GOV1', 60n],
+        ['CIT1', 20n],
+        ['CIT2', 20n],
+      ]);
+      blockchain.addBlock(block);
+
+      expect(blockchain.getBalance('GOV1')).toBe(60n);
+      expect(blockchain.getBalance('CIT1')).toBe(20n);
+      expect(blockchain.getBalance('CIT2')).toBe(20n);
+      expect(blockchain.getBalance('CHKvalidator1')).toBe(5n); // Fees only
+    });
+
+    it('should give the proposer the share of an empty validator group', () => {
+      blockchain = new Blockchain({ rewardSchedule: schedule, allocations });
+      blockchain.addTransaction(sign({}));
+      blockchain.addBlock(blockchain.createBlock('CHKvalidator1')!);
+
+      expect(blockchain.getBalance('CHKvalidator1')).toBe(105n);
+    });
+
+    it('should keep total supply equal to minted minus burned', () => {
+      blockchain = new Blockchain({ rewardSchedule: schedule, allocations });
+
+      blockchain.addTransaction(sign({}));
+      blockchain.addTransaction(
+        sign({
+          id: 'burn',
+          to: '',
+          amount: 200n,
+          type: TransactionType.BURN,
+          nonce: 1,
+        })
+      );
+      blockchain.addBlock(blockchain.createBlock('CHKproposer')!);
+
+      const state = blockchain.getState();
+      expect(state.totalMinted).toBe(1100n);
+      expect(state.totalBurned).toBe(200n);
+      expect(blockchain.getTotalSupply()).toBe(900n);
+      expect(blockchain.isSupplyConsistent()).toBe(true);
+    });
+  });
+
+  describe('proposer verification', () => {
+    const keys = [CryptoUtils.generateKeyPair(), CryptoUtils.generateKeyPair()];
+    const outsider = CryptoUtils.generateKeyPair();
+    let consensus: ConsensusEngine;
+    let proposer: { address: string; privateKey: string };
+    let other: { address: string; privateKey: string };
+
+    const queueTransfer = () => blockchain.addTransaction(createTransfer());
+
+    beforeEach(() => {
+      consensus = new ConsensusEngine({
+        minValidators: 1,
+        maxValidators: 10,
+        blockTime: 5000,
+        governmentValidatorRatio: 0.5,
+        citizenValidatorRatio: 0.5,
+        requiredConsensus: 0.66,
+        epochLength: 100,
+      });
+      consensus.initializeGenesis(
+        keys.map((key) => ({
+          address: key.address,
+          publicKey: key.publicKey,
+          type: 'GOVERNMENT',
+          votingPower: 1,
+          active: true,
+          lastActiveBlock: 0,
+          registeredAt: Date.now(),
+        }))
+      );
+      blockchain = new Blockchain({
+        consensus,
+        allocations: { [funded.address]: 100n },
+      });
+
+      const expected = consensus.getState().currentProposer;
+      proposer = keys.find((key) => key.address === expected)!;
+      other = keys.find((key) => key.address !== expected)!;
+    });
+
+    it('should accept a block signed by the expected proposer', () => {
+      queueTransfer();
+      const block = blockchain.createBlock(
+        proposer.address,
+        proposer.privateKey
+      )!;
+
+      expect(block.header.validatorSignature).toBeDefined();
+      expect(blockchain.addBlock(block)).toBe(true);
+    });
+
+    it('should reject an unsigned block', () => {
+      queueTransfer();
+
+      expect(
+        blockchain.addBlock(blockchain.createBlock(proposer.address)!)
+      ).toBe(false);
+    });
+
+    it('should check the commit certificate of a finalized block', () => {
+      queueTransfer();
+      const block = blockchain.createBlock(
+        proposer.address,
+        proposer.privateKey
+      )!;
+      const precommits = keys.map((key) => ({
+        validatorAddress: key.address,
+        signature: signVote(
+          {
+            type: 'PRECOMMIT',
+            height: block.header.height,
+            round: 0,
+            blockHash: block.hash,
+          },
+          key.privateKey
+        ),
+      }));
+
+      // One of two validators is not more than two thirds
+      const partial = createCommitCertificate(
+        block.hash,
+        block.header.height,
+        0,
+        precommits.slice(0, 1)
+      );
+      expect(blockchain.addBlock({ ...block, certificate: partial })).toBe(
+        false
+      );
+
+      const certificate = createCommitCertificate(
+        block.hash,
+        block.header.height,
+        0,
+        precommits
+      );
+      expect(blockchain.addBlock({ ...block, certificate })).toBe(true);
+    });
+
+    it('should report a proposer that signs conflicting blocks', () => {
+      queueTransfer();
+      const block = blockchain.createBlock(
+        proposer.address,
+        proposer.privateKey
+      )!;
+      const header = { ...block.header, timestamp: block.header.timestamp + 1 };
+      header.validatorSignature = signBlockHeader(header, proposer.privateKey);
+
+      expect(consensus.validateProposal(block)).toBeNull();
+      expect(consensus.validateProposal({ ...block, header })).toContain(
+        'signed conflicting blocks'
+      );
+
+      const [evidence] = consensus.getEvidence();
+      expect(evidence).toEqual({
+        type: 'CONFLICTING_PROPOSAL',
+        headerA: block.header,
+        headerB: header,
+      });
+      expect(
+        verifyEvidence(
+          evidence,
+          consensus.getValidator(proposer.address)!.publicKey!
+        )
+      ).toBeNull();
+      expect(blockchain.addBlock(block)).toBe(false); // Proposer is jailed
+    });
+
+    it('should reject a block from a validator out of turn', () => {
+      queueTransfer();
+      const block = blockchain.createBlock(other.address, other.privateKey)!;
+
+      expect(consensus.validateProposal(block)).toContain(
+        `Unexpected proposer ${other.address}`
+      );
+      expect(blockchain.addBlock(block)).toBe(false);
+    });
+
+    it('should reject a block from an unknown validator', () => {
+      queueTransfer();
+      const block = blockchain.createBlock(
+        outsider.address,
+        outsider.privateKey
+      )!;
+
+      expect(consensus.validateProposal(block)).toBe(
+        `Proposer ${outsider.address} is not an active validator`
+      );
+      expect(blockchain.addBlock(block)).toBe(false);
+    });
+
+    it('should reject a block signed with another key', () => {
+      queueTransfer();
+      const block = blockchain.createBlock(proposer.address, other.privateKey)!;
+
+      expect(consensus.validateProposal(block)).toBe(
+        'Invalid proposer signature'
+      );
+      expect(blockchain.addBlock(block)).toBe(false);
+    });
+  });
+
+  describe('state root', () => {
+    const queueTransfer = () => blockchain.addTransaction(createTransfer());
+
+    it('should commit blocks to the state they produce', () => {
+      queueTransfer();
+      const block = blockchain.createBlock('CHKvalidator1')!;
+
+      expect(blockchain.getStateRoot()).not.toBe(block.header.stateRoot);
+      expect(blockchain.addBlock(block)).toBe(true);
+      expect(blockchain.getStateRoot()).toBe(block.header.stateRoot);
+    });
+
+    it('should reject a block whose state root does not match', () => {
+      queueTransfer();
+      const block = blockchain.createBlock('CHKvalidator1')!;
+      block.header.stateRoot = 'f'.repeat(64);
+      block.hash = blockchain.calculateBlockHash(block);
+
+      expect(blockchain.addBlock(block)).toBe(false);
+      expect(blockchain.getBalance('CHKuser123')).toBe(0n);
+    });
+
+    it('should prove account balances against the block state root', () => {
+      queueTransfer();
+      const block = blockchain.createBlock('CHKvalidator1')!;
+      blockchain.addBlock(block);
+
+      const account = blockchain.getAccountState('CHKuser123')!;
+      expect(account.balance).toBe(10n);
+      expect(
+        verifyStateProof(
+          block.header.stateRoot!,
+          'CHKuser123',
+          account,
+          blockchain.getStateProof('CHKuser123')
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('transaction proofs', () => {
+    const createPayment = (id: string, nonce: number): Transaction =>
+      createTransfer({ id, amount: BigInt(nonce + 1), nonce });
+
+    const addBlockWith = (transactions: Transaction[]) => {
+      transactions.forEach((tx) => blockchain.addTransaction(tx));
+      const block = blockchain.createBlock('CHKvalidator1')!;
+      blockchain.addBlock(block);
+      return block;
+    };
+
+    it('should prove every transaction in a block', () => {
+      const transactions = ['a', 'b', 'c', 'd', 'e'].map((id, i) =>
+        createPayment(id, i)
+      );
+      const block = addBlockWith(transactions);
+
+      for (const tx of block.transactions) {
+        const proof = blockchain.getTransactionProof(tx.id)!;
+        expect(proof).toMatchObject({
+          blockHash: block.hash,
+          blockHeight: 1,
+          merkleRoot: block.header.merkleRoot,
+        });
+        expect(verifyTransactionProof(tx, proof)).toBe(true);
+      }
+    });
+
+    it('should reject a proof for a modified transaction', () => {
+      const block = addBlockWith([
+        createPayment('a', 0),
+        createPayment('b', 1),
+      ]);
+      const [, a, b] = block.transactions;
+      const proof = blockchain.getTransactionProof('b')!;
+
+      expect(verifyTransactionProof({ ...b, amount: 20n }, proof)).toBe(false);
+      expect(verifyTransactionProof(a, proof)).toBe(false);
+      expect(
+        verifyTransactionProof(b, {
+          ...proof,
+          proof: { ...proof.proof, index: 0 },
+        })
+      ).toBe(false);
+    });
 
-    const balance = blockchain.getBalance('CHKuser123');
-    expect(balance).toBe(100n);
+    it('should return null for an unknown transaction', () => {
+      expect(blockchain.getTransactionProof('missing')).toBeNull();
+    });
   });
 });
@@ -1,53 +1,117 @@
-import { Block, Transaction, ChainState } from '@digital-chuckram/types';
-import { CryptoUtils } from '@digital-chuckram/crypto';
-import { serializeBigInt } from '@digital-chuckram/utils';
+import {
+  Block,
+  Transaction,
+  ChainState,
+  ConsensusConfig,
+  TransactionType,
+} from '@digital-chuckram/types';
+import {
+  calculateMerkleRoot,
+  EMPTY_MERKLE_ROOT,
+  getMerkleProof,
+  hashBlock,
+  hashTransaction,
+  sha256,
+} from '@digital-chuckram/utils';
+import { ConsensusEngine, signBlockHeader } from '@digital-chuckram/consensus';
+import { TransactionProof, verifyTransactionSignature } from './transaction.js';
+import { NonceTracker } from './nonce.js';
+import {
+  DEFAULT_REWARD_SCHEDULE,
+  getBlockReward,
+  RewardSchedule,
+  splitBlockReward,
+} from './rewards.js';
+import { AccountState, StateProof, StateTree } from './state-tree.js';
+
+export interface BlockchainOptions {
+  consensus?: ConsensusEngine; // Verifies block proposers when set
+  rewardSchedule?: RewardSchedule;
+  rewardSplit?: Pick<
+    ConsensusConfig,
+    'governmentValidatorRatio' | 'citizenValidatorRatio'
+  >;
+  allocations?: Record<string, bigint>; // Balances minted by the genesis block
+}
 
 export class Blockchain {
   private chain: Block[] = [];
   private state: ChainState;
   private mempool: Transaction[] = [];
+  private publicKeys: Map<string, string> = new Map(); // address -> public key
+  private rewardSchedule: RewardSchedule;
+  private rewardSplit: Required<BlockchainOptions>['rewardSplit'];
+  private consensus?: ConsensusEngine;
+
+  constructor(options: BlockchainOptions = {}) {
+    this.consensus = options.consensus;
+    this.rewardSchedule = options.rewardSchedule ?? DEFAULT_REWARD_SCHEDULE;
+    this.rewardSplit = options.rewardSplit ?? {
+      governmentValidatorRatio: 0.5,
+      citizenValidatorRatio: 0.5,
+    };
 
-  constructor() {
     this.state = {
       height: 0,
       lastBlockHash: '0',
       validators: new Map(),
       balances: new Map(),
+      nonces: new Map(),
       votingPower: new Map(),
+      totalMinted: 0n,
+      totalBurned: 0n,
     };
 
-    this.createGenesisBlock();
+    this.createGenesisBlock(options.allocations ?? {});
   }
 
-  private createGenesisBlock(): void {
+  // The genesis block is the only one that may mint outside of rewards
+  private createGenesisBlock(allocations: Record<string, bigint>): void {
+    const timestamp = Date.now();
+    const transactions: Transaction[] = Object.entries(allocations).map(
+      ([address, amount]) => ({
+        id: sha256(`genesis:${address}`),
+        from: 'SYSTEM',
+        to: address,
+        amount,
+        fee: 0n,
+        timestamp,
+        type: TransactionType.MINT,
+        signature: '',
+        nonce: 0,
+      })
+    );
+
     const genesisBlock: Block = {
       header: {
         version: 1,
         previousHash: '0',
-        merkleRoot: '0',
-        timestamp: Date.now(),
+        merkleRoot:
+          transactions.length > 0
+            ? calculateMerkleRoot(transactions)
+            : EMPTY_MERKLE_ROOT,
+        timestamp,
         height: 0,
         validatorAddress: 'GENESIS',
       },
-      transactions: [],
+      transactions,
       hash: '0',
       nonce: 0,
     };
 
     genesisBlock.hash = this.calculateBlockHash(genesisBlock);
+    transactions.forEach((tx) => this.processTransaction(tx));
     this.chain.push(genesisBlock);
     this.state.height = 0;
     this.state.lastBlockHash = genesisBlock.hash;
   }
 
   calculateBlockHash(block: Block): string {
-    const headerString = serializeBigInt(block.header);
-    const txString = serializeBigInt(block.transactions);
-    return CryptoUtils.doubleHash(headerString + txString + block.nonce);
+    return hashBlock(block);
   }
   addTransaction(transaction: Transaction): boolean {
-    // Validate transaction
-    if (!this.validateTransaction(transaction)) {
+    // Validate transaction on top of the transactions already pending
+    if (this.checkTransaction(transaction, this.getPendingNonces()) !== null) {
       return false;
     }
 
@@ -55,28 +119,34 @@ export class Blockchain {
     return true;
   }
 
-  private validateTransaction(transaction: Transaction): boolean {
-    // Check signature
-    const txData = serializeBigInt({
-      from: transaction.from,
-      to: transaction.to,
-      amount: transaction.amount,
-      fee: transaction.fee,
-      timestamp: transaction.timestamp,
-      type: transaction.type,
-      data: transaction.data,
-      nonce: transaction.nonce,
-    });
-
-    // For genesis or reward transactions, skip signature validation
+  // Check a transaction against current state, returning the rejection
+  // reason or null if it is valid. Pass a tracker to validate a sequence of
+  // transactions from the same sender.
+  checkTransaction(
+    transaction: Transaction,
+    nonces: NonceTracker = this.getCommittedNonces()
+  ): string | null {
+    // The system only issues block rewards, checked with the block
     if (transaction.from === 'SYSTEM') {
-      return true;
+      return 'System transactions are only valid as block rewards';
     }
 
-    // Validate signature (implement after we have identity service)
-    // For now, basic validation
-    if (!transaction.signature) {
-      return false;
+    // Resolve the sender key from the transaction or previously seen keys
+    const publicKey =
+      transaction.publicKey || this.publicKeys.get(transaction.from);
+    if (!publicKey) {
+      return `Unknown public key for sender ${transaction.from}`;
+    }
+
+    // Check the key owns the sender address and signed the transaction
+    if (!verifyTransactionSignature(transaction, publicKey)) {
+      return 'Invalid transaction signature';
+    }
+
+    // Check nonce to prevent replays
+    const nonceError = nonces.use(transaction.from, transaction.nonce);
+    if (nonceError) {
+      return nonceError;
     }
 
     // Check balance
@@ -84,29 +154,56 @@ export class Blockchain {
     const totalAmount = transaction.amount + transaction.fee;
 
     if (senderBalance < totalAmount) {
-      return false;
+      return `Insufficient balance: ${transaction.from} has ${senderBalance}, needs ${totalAmount}`;
     }
 
-    return true;
+    return null;
   }
 
-  createBlock(validatorAddress: string): Block | null {
+  getNonce(address: string): number {
+    return this.state.nonces.get(address) || 0;
+  }
+
+  private getCommittedNonces(): NonceTracker {
+    return new NonceTracker((address) => this.getNonce(address));
+  }
+
+  // Nonces including transactions waiting in the mempool
+  private getPendingNonces(): NonceTracker {
+    const nonces = this.getCommittedNonces();
+    for (const tx of this.mempool) {
+      if (tx.from !== 'SYSTEM') {
+        nonces.use(tx.from, tx.nonce);
+      }
+    }
+    return nonces;
+  }
+
+  // Create a block from the mempool, signing the header when the proposer's
+  // validator key is given
+  createBlock(validatorAddress: string, privateKey?: string): Block | null {
     if (this.mempool.length === 0) {
       return null;
     }
 
-    const transactions = [...this.mempool];
-    this.mempool = [];
-
     const previousBlock = this.chain[this.chain.length - 1];
+    const height = previousBlock.header.height + 1;
+    const timestamp = Date.now();
+
+    // The reward opens the block, followed by the pending transactions
+    const transactions = [
+      ...this.createRewardTransactions(height, validatorAddress, timestamp),
+      ...this.mempool,
+    ];
+    this.mempool = [];
 
     const newBlock: Block = {
       header: {
         version: 1,
         previousHash: previousBlock.hash,
-        merkleRoot: this.calculateMerkleRoot(transactions),
-        timestamp: Date.now(),
-        height: previousBlock.header.height + 1,
+        merkleRoot: calculateMerkleRoot(transactions),
+        timestamp,
+        height,
         validatorAddress: validatorAddress,
       },
       transactions: transactions,
@@ -114,20 +211,37 @@ export class Blockchain {
       nonce: 0,
     };
 
-    // Mine block (PoA - just sign it)
+    // Commit to the state the block leads to
+    newBlock.header.stateRoot = this.calculatePostStateRoot(newBlock);
+
+    // PoA: the proposer signs the header, no mining
+    if (privateKey) {
+      newBlock.header.validatorSignature = signBlockHeader(
+        newBlock.header,
+        privateKey
+      );
+    }
     newBlock.hash = this.calculateBlockHash(newBlock);
 
     return newBlock;
   }
 
-  private calculateMerkleRoot(transactions: Transaction[]): string {
-    if (transactions.length === 0) return '';
-
-    const hashes = transactions.map((tx) =>
-      CryptoUtils.hash(serializeBigInt(tx))
-    );
+  // Inclusion proof for a transaction in the chain
+  getTransactionProof(txId: string): TransactionProof | null {
+    for (const block of this.chain) {
+      const index = block.transactions.findIndex((tx) => tx.id === txId);
+      if (index === -1) continue;
+
+      return {
+        transactionId: txId,
+        blockHash: block.hash,
+        blockHeight: block.header.height,
+        merkleRoot: block.header.merkleRoot,
+        proof: getMerkleProof(block.transactions.map(hashTransaction), index),
+      };
+    }
 
-    return CryptoUtils.generateMerkleRoot(hashes);
+    return null;
   }
 
   addBlock(block: Block): boolean {
@@ -160,29 +274,147 @@ export class Blockchain {
       return false;
     }
 
-    // Validate all transactions
-    for (const tx of block.transactions) {
-      if (!this.validateTransaction(tx)) {
+    // Check the block was signed by the expected proposer
+    if (this.consensus && this.consensus.validateProposal(block) !== null) {
+      return false;
+    }
+
+    // Check a finalized block's precommits came from the validators
+    if (
+      this.consensus &&
+      block.certificate &&
+      this.consensus.validateCommitCertificate(block) !== null
+    ) {
+      return false;
+    }
+
+    // Check the block opens with exactly the reward due at its height
+    const rewards = this.createRewardTransactions(
+      block.header.height,
+      block.header.validatorAddress,
+      block.header.timestamp
+    );
+    const hasRewards = rewards.every(
+      (reward, i) =>
+        block.transactions[i] &&
+        hashTransaction(block.transactions[i]) === hashTransaction(reward)
+    );
+    if (!hasRewards) {
+      return false;
+    }
+
+    // Validate all other transactions, in order, so nonces must be
+    // sequential. Any further system transaction is rejected.
+    const nonces = this.getCommittedNonces();
+    for (const tx of block.transactions.slice(rewards.length)) {
+      if (this.checkTransaction(tx, nonces) !== null) {
         return false;
       }
     }
 
     // Validate merkle root
-    const calculatedMerkleRoot = this.calculateMerkleRoot(block.transactions);
+    const calculatedMerkleRoot = calculateMerkleRoot(block.transactions);
     if (calculatedMerkleRoot !== block.header.merkleRoot) {
       return false;
     }
 
+    // Validate the state the block leads to
+    if (block.header.stateRoot !== this.calculatePostStateRoot(block)) {
+      return false;
+    }
+
     return true;
   }
 
+  // State root after applying a block, leaving current state untouched
+  private calculatePostStateRoot(block: Block): string {
+    const state = this.state;
+    const publicKeys = this.publicKeys;
+
+    this.state = {
+      ...state,
+      validators: new Map(state.validators),
+      balances: new Map(state.balances),
+      nonces: new Map(state.nonces),
+      votingPower: new Map(state.votingPower),
+    };
+    this.publicKeys = new Map(publicKeys);
+
+    try {
+      this.updateState(block);
+      return this.getStateRoot();
+    } finally {
+      this.state = state;
+      this.publicKeys = publicKeys;
+    }
+  }
+
   private updateState(block: Block): void {
     this.state.height = block.header.height;
     this.state.lastBlockHash = block.hash;
 
-    // Process transactions
+    // Process transactions, collecting their fees for the proposer
+    let fees = 0n;
     for (const tx of block.transactions) {
       this.processTransaction(tx);
+      if (tx.from !== 'SYSTEM') {
+        fees += tx.fee;
+      }
+    }
+
+    this.credit(block.header.validatorAddress, fees);
+  }
+
+  // Reward transactions due to the proposer of a block: the block reward
+  // split between government and citizen validators, one transaction per
+  // recipient in a fixed order
+  private createRewardTransactions(
+    height: number,
+    proposer: string,
+    timestamp: number
+  ): Transaction[] {
+    const reward = getBlockReward(this.rewardSchedule, height);
+    if (reward === 0n) {
+      return [];
+    }
+
+    const validators = Array.from(this.state.validators.values()).filter(
+      (v) => v.active
+    );
+    const shares = splitBlockReward(
+      reward,
+      {
+        governmentRatio: this.rewardSplit.governmentValidatorRatio,
+        citizenRatio: this.rewardSplit.citizenValidatorRatio,
+      },
+      {
+        proposer,
+        government: validators
+          .filter((v) => v.type === 'GOVERNMENT')
+          .map((v) => v.address),
+        citizen: validators
+          .filter((v) => v.type === 'CITIZEN')
+          .map((v) => v.address),
+      }
+    );
+
+    return Array.from(shares, ([address, amount]) => ({
+      id: sha256(`reward:${height}:${address}`),
+      from: 'SYSTEM',
+      to: address,
+      amount,
+      fee: 0n,
+      timestamp,
+      type: TransactionType.REWARD,
+      signature: '',
+      nonce: 0,
+    }));
+  }
+
+  private credit(address: string, amount: bigint): void {
+    if (amount > 0n) {
+      const balance = this.state.balances.get(address) || 0n;
+      this.state.balances.set(address, balance + amount);
     }
   }
 
@@ -193,13 +425,25 @@ export class Blockchain {
       this.state.balances.set(tx.from, fromBalance - tx.amount - tx.fee);
     }
 
-    const toBalance = this.state.balances.get(tx.to) || 0n;
-    this.state.balances.set(tx.to, toBalance + tx.amount);
+    if (tx.from !== 'SYSTEM') {
+      this.state.nonces.set(tx.from, tx.nonce + 1);
+
+      // Remember the sender key so later transactions may omit it
+      if (tx.publicKey) {
+        this.publicKeys.set(tx.from, tx.publicKey);
+      }
+    }
+
+    // Burned amounts leave circulation instead of reaching a recipient
+    if (tx.type === TransactionType.BURN) {
+      this.state.totalBurned += tx.amount;
+    } else {
+      this.credit(tx.to, tx.amount);
+    }
 
-    // Process fee (goes to validator)
-    if (tx.fee > 0n) {
-      const validatorBalance = this.state.balances.get(tx.from) || 0n;
-      this.state.balances.set(tx.from, validatorBalance + tx.fee);
+    // Amounts from the system are newly issued
+    if (tx.from === 'SYSTEM') {
+      this.state.totalMinted += tx.amount;
     }
   }
 
@@ -207,6 +451,59 @@ export class Blockchain {
     return this.state.balances.get(address) || 0n;
   }
 
+  // Sum of all balances, which must equal minted minus burned
+  getTotalSupply(): bigint {
+    let total = 0n;
+    for (const balance of this.state.balances.values()) {
+      total += balance;
+    }
+    return total;
+  }
+
+  isSupplyConsistent(): boolean {
+    return (
+      this.getTotalSupply() === this.state.totalMinted - this.state.totalBurned
+    );
+  }
+
+  // Account state as committed to by the state tree
+  getAccountState(address: string): AccountState | null {
+    return this.getAccounts().get(address) ?? null;
+  }
+
+  getStateRoot(): string {
+    return new StateTree(this.getAccounts()).getRoot();
+  }
+
+  getStateProof(address: string): StateProof {
+    return new StateTree(this.getAccounts()).getProof(address);
+  }
+
+  private getAccounts(): Map<string, AccountState> {
+    const addresses = new Set([
+      ...this.state.balances.keys(),
+      ...this.state.nonces.keys(),
+      ...this.state.validators.keys(),
+      ...this.state.votingPower.keys(),
+    ]);
+
+    const accounts = new Map<string, AccountState>();
+    for (const address of addresses) {
+      const validator = this.state.validators.get(address);
+      accounts.set(address, {
+        balance: this.getBalance(address),
+        nonce: this.getNonce(address),
+        votingPower: this.state.votingPower.get(address) ?? 0,
+        validator: validator && {
+          type: validator.type,
+          stake: validator.stake ?? 0n,
+          active: validator.active,
+        },
+      });
+    }
+    return accounts;
+  }
+
   getChain(): Block[] {
     return [...this.chain];
   }
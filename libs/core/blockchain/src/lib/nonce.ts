@@ -0,0 +1,52 @@
+// Account nonce rules shared by the core ledger and blockchain nodes.
+// Every account starts at nonce 0 and each accepted transaction must use
+// exactly the next nonce, so signed transactions cannot be replayed.
+
+/**
+ * Check a transaction nonce against the next expected nonce.
+ * Returns the rejection reason, or null when the nonce is acceptable.
+ */
+export function checkNonce(expected: number, nonce: number): string | null {
+  if (!Number.isInteger(nonce) || nonce < 0) {
+    return `Invalid nonce ${nonce}`;
+  }
+
+  if (nonce < expected) {
+    return `Nonce ${nonce} already used (replay), expected ${expected}`;
+  }
+
+  if (nonce > expected) {
+    return `Nonce gap: got ${nonce}, expected ${expected}`;
+  }
+
+  return null;
+}
+
+/**
+ * Tracks nonces consumed on top of committed state, e.g. while validating
+ * the transactions of a block or the pending transactions of a mempool.
+ */
+export class NonceTracker {
+  private next: Map<string, number> = new Map();
+
+  constructor(private readonly committedNonce: (address: string) => number) {}
+
+  /**
+   * Next nonce expected from an address
+   */
+  expected(address: string): number {
+    return this.next.get(address) ?? this.committedNonce(address);
+  }
+
+  /**
+   * Check a nonce and, if acceptable, consume it.
+   * Returns the rejection reason, or null when the nonce was consumed.
+   */
+  use(address: string, nonce: number): string | null {
+    const reason = checkNonce(this.expected(address), nonce);
+    if (!reason) {
+      this.next.set(address, nonce + 1);
+    }
+    return reason;
+  }
+}
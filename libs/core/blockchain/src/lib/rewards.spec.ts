@@ -0,0 +1,46 @@
+import { distributeAmount, getBlockReward, splitBlockReward } from './rewards';
+
+describe('rewards', () => {
+  const schedule = {
+    blockReward: 160n,
+    halvingInterval: 10,
+    minimumReward: 16n,
+  };
+
+  it('should halve the block reward down to the minimum', () => {
+    expect(getBlockReward(schedule, 0)).toBe(0n);
+    expect(getBlockReward(schedule, 1)).toBe(160n);
+    expect(getBlockReward(schedule, 10)).toBe(160n);
+    expect(getBlockReward(schedule, 11)).toBe(80n);
+    expect(getBlockReward(schedule, 31)).toBe(20n);
+    expect(getBlockReward(schedule, 41)).toBe(16n);
+    expect(getBlockReward({ ...schedule, halvingInterval: 0 }, 1000)).toBe(
+      160n
+    );
+  });
+
+  it('should give the remainder of an equal split to the first recipient', () => {
+    expect(distributeAmount(10n, ['A', 'B', 'C'])).toEqual(
+      new Map([
+        ['A', 4n],
+        ['B', 3n],
+        ['C', 3n],
+      ])
+    );
+  });
+
+  it('should never issue more or less than the block reward', () => {
+    const shares = splitBlockReward(
+      101n,
+      { governmentRatio: 0.5, citizenRatio: 0.5 },
+      { proposer: 'P', government: ['G1', 'G2'], citizen: ['C1', 'C2', 'C3'] }
+    );
+
+    let total = 0n;
+    shares.forEach((amount) => (total += amount));
+    expect(total).toBe(101n);
+    expect(shares.get('G1')).toBe(25n);
+    expect(shares.get('C1')).toBe(18n);
+    expect(shares.get('P')).toBe(1n);
+  });
+});
@@ -0,0 +1,115 @@
+// Block reward issuance and fee distribution rules shared by the core ledger
+// and blockchain nodes. All amounts are in Cash.
+
+export interface RewardSchedule {
+  blockReward: bigint; // Issued per block before any halving
+  halvingInterval: number; // Blocks between halvings, 0 to never halve
+  minimumReward: bigint; // Floor the reward never halves below
+}
+
+export interface RewardSplit {
+  governmentRatio: number; // 0.5 for 50%
+  citizenRatio: number; // 0.5 for 50%
+}
+
+export interface RewardRecipients {
+  proposer: string;
+  government: string[];
+  citizen: string[];
+}
+
+// 10 Chuckrams per block, halving roughly every four years of 5s blocks
+export const DEFAULT_REWARD_SCHEDULE: RewardSchedule = {
+  blockReward: 160n,
+  halvingInterval: 25_000_000,
+  minimumReward: 16n,
+};
+
+const RATIO_PRECISION = 10_000n;
+
+/**
+ * Reward issued for the block at a given height
+ */
+export function getBlockReward(
+  schedule: RewardSchedule,
+  height: number
+): bigint {
+  if (height <= 0 || schedule.blockReward <= 0n) {
+    return 0n;
+  }
+
+  if (schedule.halvingInterval <= 0) {
+    return schedule.blockReward;
+  }
+
+  const halvings = Math.floor((height - 1) / schedule.halvingInterval);
+  const reward = schedule.blockReward >> BigInt(Math.min(halvings, 64));
+
+  return reward > schedule.minimumReward ? reward : schedule.minimumReward;
+}
+
+/**
+ * Split an amount equally between recipients. The remainder goes to the
+ * first recipient so nothing is created or lost.
+ */
+export function distributeAmount(
+  amount: bigint,
+  recipients: string[]
+): Map<string, bigint> {
+  const shares = new Map<string, bigint>();
+  if (amount <= 0n || recipients.length === 0) {
+    return shares;
+  }
+
+  const count = BigInt(recipients.length);
+  const share = amount / count;
+  const remainder = amount - share * count;
+
+  recipients.forEach((recipient, index) => {
+    const value = share + (index === 0 ? remainder : 0n);
+    shares.set(recipient, (shares.get(recipient) || 0n) + value);
+  });
+
+  return shares;
+}
+
+/**
+ * Split a block reward between the government and citizen validator groups
+ * according to the consensus ratios. A group with no validators forfeits its
+ * share to the block proposer, as does any rounding remainder.
+ */
+export function splitBlockReward(
+  reward: bigint,
+  split: RewardSplit,
+  recipients: RewardRecipients
+): Map<string, bigint> {
+  const shares = new Map<string, bigint>();
+  const credit = (address: string, amount: bigint) => {
+    if (amount > 0n) {
+      shares.set(address, (shares.get(address) || 0n) + amount);
+    }
+  };
+
+  const governmentShare =
+    (reward * BigInt(Math.round(split.governmentRatio * 10_000))) /
+    RATIO_PRECISION;
+  const citizenShare =
+    (reward * BigInt(Math.round(split.citizenRatio * 10_000))) /
+    RATIO_PRECISION;
+
+  let distributed = 0n;
+  for (const [group, share] of [
+    [recipients.government, governmentShare],
+    [recipients.citizen, citizenShare],
+  ] as Array<[string[], bigint]>) {
+    if (group.length === 0) continue;
+
+    distributeAmount(share, group).forEach((amount, address) =>
+      credit(address, amount)
+    );
+    distributed += share;
+  }
+
+  credit(recipients.proposer, reward - distributed);
+  return shares;
+}
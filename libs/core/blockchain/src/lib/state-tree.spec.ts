@@ -0,0 +1,104 @@
+import {
+  AccountState,
+  EMPTY_STATE_ROOT,
+  StateTree,
+  verifyStateProof,
+} from './state-tree';
+
+describe('StateTree', () => {
+  const account = (balance: bigint, nonce = 0): AccountState => ({
+    balance,
+    nonce,
+    votingPower: 0,
+  });
+
+  const accounts = new Map<string, AccountState>();
+  for (let i = 0; i < 20; i++) {
+    accounts.set(`CHKaccount${i}`, account(BigInt(i * 100), i));
+  }
+  accounts.set('CHKvalidator', {
+    ...account(50n),
+    votingPower: 1,
+    validator: { type: 'CITIZEN', stake: 1000n, active: true },
+  });
+
+  it('should hash an empty tree to the empty root', () => {
+    expect(new StateTree(new Map()).getRoot()).toBe(EMPTY_STATE_ROOT);
+  });
+
+  it('should not depend on insertion order', () => {
+    const reversed = new Map(Array.from(accounts.entries()).reverse());
+
+    expect(new StateTree(reversed).getRoot()).toBe(
+      new StateTree(accounts).getRoot()
+    );
+  });
+
+  it('should change the root when any account changes', () => {
+    const changed = new Map(accounts);
+    changed.set('CHKaccount7', account(701n, 7));
+
+    expect(new StateTree(changed).getRoot()).not.toBe(
+      new StateTree(accounts).getRoot()
+    );
+  });
+
+  it('should prove every account against the root', () => {
+    const tree = new StateTree(accounts);
+    const root = tree.getRoot();
+
+    for (const [address, state] of accounts) {
+      expect(
+        verifyStateProof(root, address, state, tree.getProof(address))
+      ).toBe(true);
+    }
+  });
+
+  it('should reject a proof for a different balance', () => {
+    const tree = new StateTree(accounts);
+    const proof = tree.getProof('CHKaccount3');
+
+    expect(
+      verifyStateProof(tree.getRoot(), 'CHKaccount3', account(1000n, 3), proof)
+    ).toBe(false);
+    expect(
+      verifyStateProof(tree.getRoot(), 'CHKaccount4', account(300n, 3), proof)
+    ).toBe(false);
+  });
+
+  it('should prove that an address has no account', () => {
+    const tree = new StateTree(accounts);
+    const proof = tree.getProof('CHKunknown');
+
+    expect(verifyStateProof(tree.getRoot(), 'CHKunknown', null, proof)).toBe(
+      true
+    );
+    expect(
+      verifyStateProof(tree.getRoot(), 'CHKunknown', account(0n), proof)
+    ).toBe(false);
+    expect(
+      verifyStateProof(
+        tree.getRoot(),
+        'CHKaccount1',
+        null,
+        tree.getProof('CHKaccount1')
+      )
+    ).toBe(false);
+  });
+
+  it('should commit to validator sets alongside provable accounts', () => {
+    const tree = new StateTree(accounts, 'a'.repeat(64));
+    const root = tree.getRoot();
+
+    expect(root).not.toBe(new StateTree(accounts).getRoot());
+    expect(root).not.toBe(new StateTree(accounts, 'b'.repeat(64)).getRoot());
+    expect(
+      verifyStateProof(
+        root,
+        'CHKvalidator',
+        accounts.get('CHKvalidator')!,
+        tree.getProof('CHKvalidator')
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+import { CryptoUtils } from '@digital-chuckram/crypto';
+
+// Commitment to account state as a compact sparse Merkle tree. Accounts are
+// placed by the bits of sha256(address); a subtree holding a single account
+// collapses to that account's leaf and an empty subtree hashes to zeros, so
+// the tree is only as deep as needed to separate its accounts. Chain state
+// that belongs to no account, such as the validator sets, sits in a leaf
+// under a key that is never an address.
+
+export interface AccountState {
+  balance: bigint;
+  nonce: number; // Next expected nonce
+  votingPower: number;
+  validator?: {
+    type: string;
+    stake: bigint;
+    active: boolean;
+    jailed?: boolean;
+    publicKey?: string;
+    delegations?: Record<string, bigint>; // Delegator -> bonded stake
+    unbonding?: UnbondingEntry[];
+  };
+}
+
+export interface UnbondingEntry {
+  delegator: string;
+  amount: bigint;
+  releaseHeight: number;
+}
+
+export interface StateProof {
+  siblings: string[]; // Sibling hashes from the root down to the account
+  // Another account occupying the path, proving the address is absent
+  neighbor?: { keyHash: string; valueHash: string };
+}
+
+export const EMPTY_STATE_ROOT = '0'.repeat(64);
+
+// Key of the leaf committing to the validator sets
+export const VALIDATOR_SETS_KEY = 'validator-sets';
+
+interface Leaf {
+  keyHash: string;
+  valueHash: string;
+}
+
+/**
+ * Canonical encoding of an account, with a fixed field order. Delegations
+ * are ordered by delegator, unbonding entries keep their queue order.
+ */
+export function encodeAccountState(account: AccountState): string {
+  const { validator: v } = account;
+  const validator = v && [
+    v.type,
+    v.stake.toString(),
+    v.active,
+    v.jailed === true,
+    v.publicKey ?? null,
+    Object.entries(v.delegations ?? {})
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([delegator, amount]) => [delegator, amount.toString()]),
+    (v.unbonding ?? []).map((entry) => [
+      entry.delegator,
+      entry.amount.toString(),
+      entry.releaseHeight,
+    ]),
+  ];
+
+  return JSON.stringify([
+    account.balance.toString(),
+    account.nonce,
+    account.votingPower,
+    validator ?? null,
+  ]);
+}
+
+function hashLeaf(leaf: Leaf): string {
+  return CryptoUtils.hash('00' + leaf.keyHash + leaf.valueHash);
+}
+
+function hashNode(left: string, right: string): string {
+  return CryptoUtils.hash('01' + left + right);
+}
+
+// Bit of a hex hash, most significant first
+function bitAt(keyHash: string, depth: number): number {
+  const nibble = parseInt(keyHash[depth >> 2], 16);
+  return (nibble >> (3 - (depth & 3))) & 1;
+}
+
+export class StateTree {
+  private leaves: Leaf[];
+
+  constructor(accounts: Map<string, AccountState>, validatorSetsHash?: string) {
+    this.leaves = Array.from(accounts.entries()).map(([address, account]) => ({
+      keyHash: CryptoUtils.hash(address),
+      valueHash: CryptoUtils.hash(encodeAccountState(account)),
+    }));
+    if (validatorSetsHash !== undefined) {
+      this.leaves.push({
+        keyHash: CryptoUtils.hash(VALIDATOR_SETS_KEY),
+        valueHash: validatorSetsHash,
+      });
+    }
+    this.leaves.sort((a, b) => (a.keyHash < b.keyHash ? -1 : 1));
+  }
+
+  /**
+   * Root hash committing to every account, and to the validator sets when
+   * the tree holds them
+   */
+  getRoot(): string {
+    return this.hashSubtree(this.leaves, 0);
+  }
+
+  /**
+   * Proof that an address holds its current account state, or that it has
+   * no account when it is absent from the tree
+   */
+  getProof(address: string): StateProof {
+    const keyHash = CryptoUtils.hash(address);
+    const siblings: string[] = [];
+    let leaves = this.leaves;
+    let depth = 0;
+
+    while (leaves.length > 1) {
+      const [left, right] = this.split(leaves, depth);
+      const goRight = bitAt(keyHash, depth) === 1;
+
+      siblings.push(this.hashSubtree(goRight ? left : right, depth + 1));
+      leaves = goRight ? right : left;
+      depth++;
+    }
+
+    const proof: StateProof = { siblings };
+    if (leaves.length === 1 && leaves[0].keyHash !== keyHash) {
+      proof.neighbor = { ...leaves[0] };
+    }
+    return proof;
+  }
+
+  private hashSubtree(leaves: Leaf[], depth: number): string {
+    if (leaves.length === 0) return EMPTY_STATE_ROOT;
+    if (leaves.length === 1) return hashLeaf(leaves[0]);
+
+    const [left, right] = this.split(leaves, depth);
+    return hashNode(
+      this.hashSubtree(left, depth + 1),
+      this.hashSubtree(right, depth + 1)
+    );
+  }
+
+  // Split sorted leaves on the bit at a depth
+  private split(leaves: Leaf[], depth: number): [Leaf[], Leaf[]] {
+    const index = leaves.findIndex((leaf) => bitAt(leaf.keyHash, depth) === 1);
+    if (index === -1) return [leaves, []];
+    return [leaves.slice(0, index), leaves.slice(index)];
+  }
+}
+
+/**
+ * Check a state proof against a root. Pass null as the account to verify
+ * that the address has no account.
+ */
+export function verifyStateProof(
+  root: string,
+  address: string,
+  account: AccountState | null,
+  proof: StateProof
+): boolean {
+  const keyHash = CryptoUtils.hash(address);
+  let node: string;
+
+  if (account) {
+    if (proof.neighbor) return false;
+    node = hashLeaf({
+      keyHash,
+      valueHash: CryptoUtils.hash(encodeAccountState(account)),
+    });
+  } else if (proof.neighbor) {
+    // The neighbor must sit on the address's path without being it
+    const { neighbor } = proof;
+    if (neighbor.keyHash === keyHash) return false;
+    for (let depth = 0; depth < proof.siblings.length; depth++) {
+      if (bitAt(neighbor.keyHash, depth) !== bitAt(keyHash, depth)) {
+        return false;
+      }
+    }
+    node = hashLeaf(neighbor);
+  } else {
+    node = EMPTY_STATE_ROOT;
+  }
+
+  for (let depth = proof.siblings.length - 1; depth >= 0; depth--) {
+    const sibling = proof.siblings[depth];
+    node =
+      bitAt(keyHash, depth) === 1
+        ? hashNode(sibling, node)
+        : hashNode(node, sibling);
+  }
+
+  return node === root;
+}
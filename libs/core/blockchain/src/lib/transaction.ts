@@ -0,0 +1,83 @@
+import { Transaction } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import {
+  hashTransaction,
+  MerkleProof,
+  serializeBigInt,
+  verifyMerkleProof,
+} from '@digital-chuckram/utils';
+
+// Canonical payload covered by a transaction signature
+export function getTransactionSigningPayload(transaction: Transaction): string {
+  return serializeBigInt({
+    from: transaction.from,
+    to: transaction.to,
+    amount: transaction.amount,
+    fee: transaction.fee,
+    timestamp: transaction.timestamp,
+    type: transaction.type,
+    data: transaction.data,
+    nonce: transaction.nonce,
+  });
+}
+
+// Sign a transaction, attaching the signature and sender public key
+export function signTransaction(
+  transaction: Transaction,
+  privateKey: string,
+  publicKey: string
+): Transaction {
+  return {
+    ...transaction,
+    publicKey,
+    signature: CryptoUtils.sign(
+      privateKey,
+      getTransactionSigningPayload(transaction)
+    ),
+  };
+}
+
+// Check that the public key owns the sender address and signed the payload
+export function verifyTransactionSignature(
+  transaction: Transaction,
+  publicKey: string
+): boolean {
+  if (!transaction.signature) {
+    return false;
+  }
+
+  if (CryptoUtils.publicKeyToAddress(publicKey) !== transaction.from) {
+    return false;
+  }
+
+  return CryptoUtils.verify(
+    publicKey,
+    getTransactionSigningPayload(transaction),
+    transaction.signature
+  );
+}
+
+// Proof that a transaction is included in a block
+export interface TransactionProof {
+  transactionId: string;
+  blockHash: string;
+  blockHeight: number;
+  merkleRoot: string;
+  proof: MerkleProof;
+}
+
+// Check a transaction against an inclusion proof. The merkle root should come
+// from a block header the caller trusts.
+export function verifyTransactionProof(
+  transaction: Transaction,
+  proof: TransactionProof
+): boolean {
+  return (
+    transaction.id === proof.transactionId &&
+    verifyMerkleProof(
+      hashTransaction(transaction),
+      proof.proof,
+      proof.merkleRoot
+    )
+  );
+}
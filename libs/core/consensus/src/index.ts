@@ -1 +1,9 @@
 export * from './lib/consensus.js';
+export * from './lib/block-signature.js';
+export * from './lib/vote-signature.js';
+export * from './lib/evidence.js';
+export * from './lib/staking.js';
+export * from './lib/epochs.js';
+export * from './lib/proposer-selection.js';
+export * from './lib/bft.js';
+export * from './lib/simulator.js';
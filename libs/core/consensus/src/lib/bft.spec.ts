@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events';
+import { Block, Validator } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { BftConsensus } from './bft';
+import { ConsensusSimulator } from './simulator';
+import {
+  createCommitCertificate,
+  signVote,
+  verifyCommitCertificate,
+} from './vote-signature';
+
+describe('BftConsensus', () => {
+  const expectSameChain = (simulator: ConsensusSimulator, nodes: string[]) => {
+    const [first, ...rest] = nodes.map((address) =>
+      simulator.getCommits(address).map((block) => block.hash)
+    );
+    rest.forEach((chain) => expect(chain).toEqual(first));
+  };
+
+  it('should commit the same certified blocks on every validator', () => {
+    const simulator = new ConsensusSimulator([1, 1, 1, 1]);
+    const addresses = simulator.getAddresses();
+    simulator.start();
+
+    expect(simulator.runUntilHeight(3)).toBe(true);
+    expectSameChain(simulator, addresses);
+
+    // Each height decided in its first round by the scheduled proposer
+    simulator.getCommits(addresses[0]).forEach((block, index) => {
+      expect(block.nonce).toBe(0);
+      expect(block.header.validatorAddress).toBe(
+        addresses[(index + 1) % addresses.length]
+      );
+      expect(
+        verifyCommitCertificate(
+          block.certificate!,
+          block,
+          simulator.getValidators()
+        )
+      ).toBeNull();
+    });
+  });
+
+  it('should move to the next round when the proposer is offline', () => {
+    const simulator = new ConsensusSimulator([1, 1, 1, 1]);
+    const [a, b, c, d] = simulator.getAddresses();
+    simulator.setOnline(b, false); // Proposer of height 1, round 0
+    simulator.start();
+
+    expect(simulator.runUntilHeight(2)).toBe(true);
+    expectSameChain(simulator, [a, c, d]);
+
+    const first = simulator.getCommits(a)[0];
+    expect(first.nonce).toBe(1);
+    expect(first.header.validatorAddress).toBe(c);
+    expect(first.certificate?.round).toBe(1);
+    expect(
+      simulator
+        .getMessages()
+        .filter((m) => m.height === 1 && m.round === 0 && m.type === 'PREVOTE')
+        .every((m) => m.data.blockHash === null)
+    ).toBe(true);
+  });
+
+  it('should not commit without two thirds of the voting power', () => {
+    const simulator = new ConsensusSimulator([3, 1, 1, 1]);
+    const heavy = simulator
+      .getValidators()
+      .find((v) => v.votingPower === 3)!.address;
+    const light = simulator.getAddresses().find((a) => a !== heavy)!;
+    simulator.setOnline(heavy, false);
+    simulator.start();
+
+    expect(simulator.runUntilHeight(1, 10000)).toBe(false);
+    expect(simulator.getCommits(light)).toHaveLength(0);
+    // Votes from half the power never make a quorum to time out on
+    expect(simulator.getEngine(light).getState()).toMatchObject({
+      round: 0,
+      step: 'PREVOTE',
+    });
+  });
+
+  it('should prevote nil for other blocks while locked and unlock on a later polka', () => {
+    let addresses: string[] = [];
+    const simulator = new ConsensusSimulator([1, 1, 1, 1], {
+      // The fourth validator rejects the round 0 proposal
+      validateBlock: (address, block) =>
+        !(address === addresses[3] && block.nonce === 0),
+    });
+    addresses = simulator.getAddresses();
+    const [a, b, c, d] = addresses;
+
+    // Only the first validator sees the polka for the round 0 proposal
+    const hidden = [
+      [b, c],
+      [b, d],
+      [c, b],
+    ];
+    simulator.setMessageFilter(
+      (message, to) =>
+        !(
+          message.round === 0 &&
+          message.type === 'PREVOTE' &&
+          hidden.some(
+            ([from, target]) => message.from === from && to === target
+          )
+        )
+    );
+    simulator.start();
+
+    simulator.run(() => simulator.getEngine(a).getState().round === 1);
+    const locked = simulator.getEngine(a).getState();
+    expect(locked.lockedRound).toBe(0);
+
+    expect(simulator.runUntilHeight(1)).toBe(true);
+    expectSameChain(simulator, addresses);
+
+    const round1Prevote = simulator
+      .getMessages()
+      .find((m) => m.type === 'PREVOTE' && m.round === 1 && m.from === a);
+    expect(round1Prevote?.data.blockHash).toBeNull();
+
+    const committed = simulator.getCommits(a)[0];
+    expect(committed.hash).not.toBe(locked.lockedHash);
+    expect(committed.header.validatorAddress).toBe(c);
+  });
+
+  it('should ignore messages with invalid signatures', () => {
+    const simulator = new ConsensusSimulator([1, 1, 1, 1]);
+    const [a, b] = simulator.getAddresses();
+    simulator.start();
+
+    // A forged proposal for height 1 from its scheduled proposer
+    simulator.getEngine(a).handleMessage({
+      type: 'PROPOSE',
+      height: 1,
+      round: 0,
+      data: { block: { hash: 'forged' }, validRound: -1 },
+      from: b,
+      signature: 'not-a-signature',
+      timestamp: 0,
+    });
+    expect(simulator.getEngine(a).getState().step).toBe('PROPOSE');
+
+    expect(simulator.runUntilHeight(1)).toBe(true);
+    expect(simulator.getCommits(a)[0].hash).not.toBe('forged');
+  });
+
+  it('should exchange messages over a transport', () => {
+    const keys = [CryptoUtils.generateKeyPair(), CryptoUtils.generateKeyPair()];
+    const pair: Validator[] = keys.map((key) => ({
+      address: key.address,
+      publicKey: key.publicKey,
+      type: 'CITIZEN',
+      votingPower: 1,
+      active: true,
+      lastActiveBlock: 0,
+      registeredAt: 0,
+    }));
+    const transports = [new EventEmitter(), new EventEmitter()];
+    const committed: Block[] = [];
+
+    const engines = keys.map(({ address, privateKey }, index) => {
+      const engine = new BftConsensus({
+        validators: pair,
+        address,
+        privateKey,
+        schedule: () => undefined,
+        application: {
+          createBlock: (height, round) => ({
+            header: {
+              version: 1,
+              previousHash: '0'.repeat(64),
+              merkleRoot: '',
+              timestamp: 0,
+              height,
+              validatorAddress: address,
+            },
+            transactions: [],
+            nonce: round,
+            hash: `block-${height}-${round}`,
+          }),
+          validateBlock: () => true,
+          commitBlock: (block) => committed.push(block),
+        },
+      });
+
+      // Each broadcast arrives at the other node as a consensus-message event
+      const peer = transports[1 - index];
+      engine.connect({
+        broadcastConsensusMessage: (message) =>
+          peer.emit('consensus-message', message),
+        on: (event, listener) => transports[index].on(event, listener),
+      });
+      return engine;
+    });
+    engines.forEach((engine) => engine.start(1));
+
+    expect(committed).toHaveLength(2);
+    committed.forEach((block) => {
+      expect(block.hash).toBe('block-1-0');
+      expect(block.certificate?.signers).toEqual(
+        pair.map((v) => v.address).sort()
+      );
+      expect(
+        verifyCommitCertificate(block.certificate!, block, pair)
+      ).toBeNull();
+    });
+  });
+
+  describe('commit certificates', () => {
+    const block = { hash: 'block-1', header: { height: 1 } };
+
+    const certify = (signers: Array<{ address: string; privateKey: string }>) =>
+      createCommitCertificate(
+        block.hash,
+        1,
+        0,
+        signers.map(({ address, privateKey }) => ({
+          validatorAddress: address,
+          signature: signVote(
+            { type: 'PRECOMMIT', height: 1, round: 0, blockHash: block.hash },
+            privateKey
+          ),
+        }))
+      );
+
+    const validator = (address: string, publicKey: string): Validator => ({
+      address,
+      publicKey,
+      type: 'GOVERNMENT',
+      votingPower: 1,
+      active: true,
+      lastActiveBlock: 0,
+      registeredAt: 0,
+    });
+
+    it('should reject a signer whose key does not derive to its address', () => {
+      const keys = CryptoUtils.generateKeyPair();
+      const impostor = CryptoUtils.generateKeyPair();
+
+      expect(
+        verifyCommitCertificate(
+          certify([{ address: impostor.address, privateKey: keys.privateKey }]),
+          block,
+          [validator(impostor.address, keys.publicKey)]
+        )
+      ).toBe(`Public key of ${impostor.address} does not belong to it`);
+    });
+
+    it('should count a key once across its encodings', () => {
+      const keys = CryptoUtils.generateKeyPair();
+      // The compressed form of the same key derives another address
+      const compressed =
+        (parseInt(keys.publicKey.slice(-1), 16) % 2 ? '03' : '02') +
+        keys.publicKey.slice(2, 66);
+      const twin = CryptoUtils.publicKeyToAddress(compressed);
+
+      const error = verifyCommitCertificate(
+        certify([keys, { address: twin, privateKey: keys.privateKey }]),
+        block,
+        [validator(keys.address, keys.publicKey), validator(twin, compressed)]
+      );
+      expect(error).toMatch(/shares its public key with another signer$/);
+    });
+  });
+});
@@ -0,0 +1,537 @@
+import {
+  Block,
+  ConsensusMessage,
+  ConsensusStep,
+  Validator,
+} from '@digital-chuckram/types';
+import {
+  createCommitCertificate,
+  signVote,
+  VotePayload,
+  verifyVoteSignature,
+} from './vote-signature.js';
+import { ProposerSchedule } from './proposer-selection.js';
+
+// Tendermint-style BFT consensus. Each height runs rounds of
+// propose -> prevote -> precommit until more than two thirds of the voting
+// power precommits the same block. Validators lock on a block once they see
+// a polka (two thirds of prevotes) for it and only prevote other blocks when
+// shown a newer polka, so two different blocks can never both commit.
+// Only the simulator runs these rounds so far. Nodes produce blocks on the
+// proposer schedule and exchange just the precommits that certify them.
+
+export interface BftTimeouts {
+  propose: number; // Wait for the round's proposal
+  prevote: number; // Wait for a polka after two thirds of prevotes arrive
+  precommit: number; // Wait for a decision after two thirds of precommits arrive
+  commit: number; // Pause between committing a block and the next height
+  delta: number; // Added to each timeout per round so slow networks catch up
+}
+
+export const DEFAULT_BFT_TIMEOUTS: BftTimeouts = {
+  propose: 3000,
+  prevote: 1000,
+  precommit: 1000,
+  commit: 1000,
+  delta: 500,
+};
+
+// The chain the validators agree on
+export interface BftApplication {
+  createBlock(height: number, round: number): Block;
+  validateBlock(block: Block): boolean;
+  commitBlock(block: Block): void; // With its commit certificate attached
+}
+
+// Carries consensus messages between validators, such as P2PNetwork
+export interface ConsensusTransport {
+  broadcastConsensusMessage(message: ConsensusMessage): void;
+  on(
+    event: 'consensus-message',
+    listener: (message: ConsensusMessage) => void
+  ): unknown;
+}
+
+export interface BftOptions {
+  validators: Validator[];
+  address?: string; // This node's validator address, omitted for observers
+  privateKey?: string; // Signs this node's proposals and votes
+  application: BftApplication;
+  timeouts?: BftTimeouts;
+  schedule?: (delay: number, callback: () => void) => void; // Defaults to setTimeout
+  now?: () => number;
+  seed?: string; // Randomizes the proposer order, see deriveProposerSeed
+}
+
+export interface BftState {
+  height: number;
+  round: number;
+  step: ConsensusStep;
+  lockedRound: number;
+  lockedHash: string | null;
+  validRound: number;
+  validHash: string | null;
+}
+
+type VoteType = 'PREVOTE' | 'PRECOMMIT';
+
+export class BftConsensus {
+  private validators: Map<string, Validator> = new Map();
+  private totalPower = 0;
+  private proposers: ProposerSchedule;
+  private address?: string;
+  private privateKey?: string;
+  private application: BftApplication;
+  private timeouts: BftTimeouts;
+  private schedule: (delay: number, callback: () => void) => void;
+  private now: () => number;
+  private broadcast: (message: ConsensusMessage) => void = () => undefined;
+
+  private height = 0;
+  private round = 0;
+  private step: ConsensusStep = 'PROPOSE';
+  private lockedBlock: Block | null = null;
+  private lockedRound = -1;
+  private validBlock: Block | null = null;
+  private validRound = -1;
+
+  private proposals: Map<number, ConsensusMessage> = new Map(); // round -> proposal
+  private prevotes: Map<number, Map<string, ConsensusMessage>> = new Map();
+  private precommits: Map<number, Map<string, ConsensusMessage>> = new Map();
+  private roundSenders: Map<number, Set<string>> = new Map();
+  private validity: Map<string, boolean> = new Map(); // block hash -> valid
+  private triggered: Set<string> = new Set(); // Upon rules that fire once per round
+  private futureMessages: ConsensusMessage[] = [];
+
+  private inbox: ConsensusMessage[] = [];
+  private processing = false;
+  private stopped = false;
+
+  constructor(options: BftOptions) {
+    for (const validator of options.validators) {
+      if (validator.active) {
+        this.validators.set(validator.address, validator);
+        this.totalPower += validator.votingPower;
+      }
+    }
+
+    this.proposers = new ProposerSchedule(
+      Array.from(this.validators.values()),
+      options.seed
+    );
+
+    this.address = options.address;
+    this.privateKey = options.privateKey;
+    this.application = options.application;
+    this.timeouts = options.timeouts ?? DEFAULT_BFT_TIMEOUTS;
+    this.schedule =
+      options.schedule ?? ((delay, callback) => setTimeout(callback, delay));
+    this.now = options.now ?? Date.now;
+  }
+
+  // Send and receive messages through a network transport
+  connect(transport: ConsensusTransport): void {
+    this.broadcast = (message) => transport.broadcastConsensusMessage(message);
+    transport.on('consensus-message', (message) => this.handleMessage(message));
+  }
+
+  start(height: number): void {
+    this.stopped = false;
+    this.process(() => this.startHeight(height));
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  handleMessage(message: ConsensusMessage): void {
+    if (this.stopped) return;
+
+    this.inbox.push(message);
+    this.process();
+  }
+
+  // Validators take turns in proportion to voting power, each round of a
+  // height moving one place further along the schedule
+  getProposer(height: number, round: number): string {
+    return this.proposers.getProposer(height + round);
+  }
+
+  getState(): BftState {
+    return {
+      height: this.height,
+      round: this.round,
+      step: this.step,
+      lockedRound: this.lockedRound,
+      lockedHash: this.lockedBlock?.hash ?? null,
+      validRound: this.validRound,
+      validHash: this.validBlock?.hash ?? null,
+    };
+  }
+
+  private startHeight(height: number): void {
+    this.height = height;
+    this.lockedBlock = null;
+    this.lockedRound = -1;
+    this.validBlock = null;
+    this.validRound = -1;
+    this.proposals.clear();
+    this.prevotes.clear();
+    this.precommits.clear();
+    this.roundSenders.clear();
+    this.validity.clear();
+    this.triggered.clear();
+
+    this.startRound(0);
+
+    // Messages that arrived early for this height
+    const future = this.futureMessages;
+    this.futureMessages = [];
+    for (const message of future) {
+      if (message.height === height) {
+        this.inbox.push(message);
+      } else if (message.height > height) {
+        this.futureMessages.push(message);
+      }
+    }
+  }
+
+  private startRound(round: number): void {
+    this.round = round;
+    this.step = 'PROPOSE';
+
+    if (this.address && this.getProposer(this.height, round) === this.address) {
+      const block =
+        this.validBlock ?? this.application.createBlock(this.height, round);
+      this.send('PROPOSE', { block, validRound: this.validRound });
+    } else {
+      const { height } = this;
+      this.scheduleTimeout(this.timeouts.propose, () => {
+        if (this.isAt(height, round, 'PROPOSE')) {
+          this.vote('PREVOTE', null);
+        }
+      });
+    }
+  }
+
+  // Run an action, then handle queued messages, applying the protocol rules
+  // after each one. Messages arriving meanwhile wait in the inbox.
+  private process(action?: () => void): void {
+    if (this.processing) {
+      action?.();
+      return;
+    }
+    this.processing = true;
+
+    try {
+      action?.();
+      this.applyRules();
+      while (this.inbox.length > 0 && !this.stopped) {
+        this.receive(this.inbox.shift()!);
+        this.applyRules();
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private receive(message: ConsensusMessage): void {
+    if (message.height > this.height || this.step === 'COMMIT') {
+      if (message.height >= this.height) {
+        this.futureMessages.push(message);
+      }
+      return;
+    }
+    if (message.height < this.height || !this.isSigned(message)) {
+      return;
+    }
+
+    if (message.type === 'PROPOSE') {
+      // Only the round's proposer may propose, and only once
+      if (
+        !message.data?.block?.header ||
+        message.from !== this.getProposer(message.height, message.round) ||
+        this.proposals.has(message.round)
+      ) {
+        return;
+      }
+      this.proposals.set(message.round, message);
+    } else {
+      // The first vote of a validator in a round counts
+      const votes = this.getVotes(message.type, message.round);
+      if (votes.has(message.from)) {
+        return;
+      }
+      votes.set(message.from, message);
+    }
+
+    if (!this.roundSenders.has(message.round)) {
+      this.roundSenders.set(message.round, new Set());
+    }
+    this.roundSenders.get(message.round)!.add(message.from);
+  }
+
+  private applyRules(): void {
+    while (!this.stopped && this.step !== 'COMMIT' && this.applyRule()) {
+      // Keep going until no rule fires
+    }
+  }
+
+  // Apply the first rule whose condition holds, returning whether one did
+  private applyRule(): boolean {
+    const { round } = this;
+
+    // Decide on any round's proposal precommitted by two thirds
+    for (const [proposalRound, proposal] of this.proposals) {
+      const block: Block = proposal.data.block;
+      if (
+        this.hasQuorum(this.getVotes('PRECOMMIT', proposalRound), block.hash) &&
+        this.isValid(block)
+      ) {
+        this.commit(block, proposalRound);
+        return true;
+      }
+    }
+
+    // Skip ahead to a later round a third of the validators are already in
+    for (const [messageRound, senders] of this.roundSenders) {
+      if (messageRound > round && this.isSkipQuorum(senders)) {
+        this.startRound(messageRound);
+        return true;
+      }
+    }
+
+    const proposal = this.proposals.get(round);
+    const block: Block | undefined = proposal?.data.block;
+
+    if (this.step === 'PROPOSE' && proposal && block) {
+      const validRound: number = proposal.data.validRound;
+
+      // Fresh proposal: prevote it unless locked on another block
+      if (validRound === -1) {
+        const acceptable =
+          this.isValid(block) &&
+          (this.lockedRound === -1 || this.lockedBlock?.hash === block.hash);
+        this.vote('PREVOTE', acceptable ? block.hash : null);
+        return true;
+      }
+
+      // Re-proposal of a block with an earlier polka: that polka unlocks
+      if (
+        validRound < round &&
+        this.hasQuorum(this.getVotes('PREVOTE', validRound), block.hash)
+      ) {
+        const acceptable =
+          this.isValid(block) &&
+          (this.lockedRound <= validRound ||
+            this.lockedBlock?.hash === block.hash);
+        this.vote('PREVOTE', acceptable ? block.hash : null);
+        return true;
+      }
+    }
+
+    const prevotes = this.getVotes('PREVOTE', round);
+
+    if (
+      this.step === 'PREVOTE' &&
+      this.hasQuorum(prevotes) &&
+      this.trigger('prevote-timeout')
+    ) {
+      const { height } = this;
+      this.scheduleTimeout(this.timeouts.prevote, () => {
+        if (this.isAt(height, round, 'PREVOTE')) {
+          this.vote('PRECOMMIT', null);
+        }
+      });
+      return true;
+    }
+
+    // Polka for the proposal: lock on it and precommit
+    if (
+      (this.step === 'PREVOTE' || this.step === 'PRECOMMIT') &&
+      block &&
+      this.hasQuorum(prevotes, block.hash) &&
+      this.isValid(block) &&
+      this.trigger('polka')
+    ) {
+      if (this.step === 'PREVOTE') {
+        this.lockedBlock = block;
+        this.lockedRound = round;
+        this.vote('PRECOMMIT', block.hash);
+      }
+      this.validBlock = block;
+      this.validRound = round;
+      return true;
+    }
+
+    // Polka for nil
+    if (this.step === 'PREVOTE' && this.hasQuorum(prevotes, null)) {
+      this.vote('PRECOMMIT', null);
+      return true;
+    }
+
+    if (
+      this.hasQuorum(this.getVotes('PRECOMMIT', round)) &&
+      this.trigger('precommit-timeout')
+    ) {
+      const { height } = this;
+      this.scheduleTimeout(this.timeouts.precommit, () => {
+        if (this.height === height && this.round === round) {
+          this.startRound(round + 1);
+        }
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  private commit(block: Block, round: number): void {
+    this.step = 'COMMIT';
+
+    const precommits = Array.from(this.getVotes('PRECOMMIT', round).values())
+      .filter((vote) => vote.data.blockHash === block.hash)
+      .map((vote) => ({
+        validatorAddress: vote.from,
+        signature: vote.signature,
+      }));
+    this.application.commitBlock({
+      ...block,
+      certificate: createCommitCertificate(
+        block.hash,
+        this.height,
+        round,
+        precommits
+      ),
+    });
+
+    const next = this.height + 1;
+    this.schedule(this.timeouts.commit, () => {
+      if (this.stopped || this.height !== next - 1) return;
+      this.process(() => this.startHeight(next));
+    });
+  }
+
+  // Cast this node's vote, moving to the matching step
+  private vote(type: VoteType, blockHash: string | null): void {
+    this.step = type;
+    this.send(type, { blockHash });
+  }
+
+  private send(type: ConsensusMessage['type'], data: any): void {
+    if (!this.address) return;
+
+    const message: ConsensusMessage = {
+      type,
+      height: this.height,
+      round: this.round,
+      data,
+      from: this.address,
+      signature: '',
+      timestamp: this.now(),
+    };
+    if (this.privateKey) {
+      message.signature = signVote(getPayload(message), this.privateKey);
+    }
+
+    this.broadcast(message);
+    this.inbox.push(message);
+  }
+
+  private scheduleTimeout(base: number, onTimeout: () => void): void {
+    this.schedule(base + this.round * this.timeouts.delta, () => {
+      if (this.stopped) return;
+      this.process(onTimeout);
+    });
+  }
+
+  private isAt(height: number, round: number, step: ConsensusStep): boolean {
+    return this.height === height && this.round === round && this.step === step;
+  }
+
+  // Mark a once-per-round rule as fired, returning false if it already had
+  private trigger(rule: string): boolean {
+    const key = `${rule}:${this.round}`;
+    if (this.triggered.has(key)) return false;
+
+    this.triggered.add(key);
+    return true;
+  }
+
+  // Only messages signed by a known validator count
+  private isSigned(message: ConsensusMessage): boolean {
+    const validator = this.validators.get(message.from);
+    if (!validator?.publicKey) return false;
+
+    return verifyVoteSignature(
+      getPayload(message),
+      message.signature,
+      validator.publicKey
+    );
+  }
+
+  private isValid(block: Block): boolean {
+    if (!this.validity.has(block.hash)) {
+      this.validity.set(
+        block.hash,
+        block.header.height === this.height &&
+          this.application.validateBlock(block)
+      );
+    }
+    return this.validity.get(block.hash)!;
+  }
+
+  private getVotes(
+    type: VoteType,
+    round: number
+  ): Map<string, ConsensusMessage> {
+    const byRound = type === 'PREVOTE' ? this.prevotes : this.precommits;
+    if (!byRound.has(round)) {
+      byRound.set(round, new Map());
+    }
+    return byRound.get(round)!;
+  }
+
+  // More than two thirds of the voting power, for a block hash or nil when
+  // given, otherwise for anything
+  private hasQuorum(
+    votes: Map<string, ConsensusMessage>,
+    blockHash?: string | null
+  ): boolean {
+    let power = 0;
+    for (const vote of votes.values()) {
+      if (blockHash === undefined || vote.data.blockHash === blockHash) {
+        power += this.validators.get(vote.from)!.votingPower;
+      }
+    }
+    return power * 3 > this.totalPower * 2;
+  }
+
+  // More than a third of the voting power, so at least one honest validator
+  private isSkipQuorum(senders: Set<string>): boolean {
+    let power = 0;
+    for (const address of senders) {
+      power += this.validators.get(address)!.votingPower;
+    }
+    return power * 3 > this.totalPower;
+  }
+}
+
+function getPayload(message: ConsensusMessage): VotePayload {
+  if (message.type === 'PROPOSE') {
+    return {
+      type: message.type,
+      height: message.height,
+      round: message.round,
+      blockHash: message.data.block?.hash ?? null,
+      validRound: message.data.validRound,
+    };
+  }
+
+  return {
+    type: message.type,
+    height: message.height,
+    round: message.round,
+    blockHash: message.data.blockHash ?? null,
+  };
+}
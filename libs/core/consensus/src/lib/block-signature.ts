@@ -0,0 +1,62 @@
+import { BlockHeader } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+
+// Canonical payload covered by a proposer signature: every header field
+// except the signature itself
+export function getBlockSigningPayload(header: BlockHeader): string {
+  return JSON.stringify({
+    version: header.version,
+    previousHash: header.previousHash,
+    merkleRoot: header.merkleRoot,
+    timestamp: header.timestamp,
+    height: header.height,
+    validatorAddress: header.validatorAddress,
+    round: header.round,
+    stateRoot: header.stateRoot,
+    nextValidatorSetHash: header.nextValidatorSetHash,
+  });
+}
+
+// Sign a block header with the proposer's validator key
+export function signBlockHeader(
+  header: BlockHeader,
+  privateKey: string
+): string {
+  return CryptoUtils.sign(privateKey, getBlockSigningPayload(header));
+}
+
+// Recently verified signatures are remembered, so nodes sharing a process,
+// as in the in-process devnet, verify each block only once
+const VERIFIED_CACHE_SIZE = 1000;
+const verified = new Set<string>();
+
+// Check that the public key owns the proposer address and signed the header
+export function verifyBlockSignature(
+  header: BlockHeader,
+  publicKey: string
+): boolean {
+  if (!header.validatorSignature) {
+    return false;
+  }
+
+  if (CryptoUtils.publicKeyToAddress(publicKey) !== header.validatorAddress) {
+    return false;
+  }
+
+  const data = getBlockSigningPayload(header);
+  const key = `${publicKey}:${header.validatorSignature}:${data}`;
+  if (verified.has(key)) {
+    return true;
+  }
+
+  if (!CryptoUtils.verify(publicKey, data, header.validatorSignature)) {
+    return false;
+  }
+
+  if (verified.size >= VERIFIED_CACHE_SIZE) {
+    // Sets iterate in insertion order, so this drops the oldest entry
+    verified.delete(verified.values().next().value!);
+  }
+  verified.add(key);
+  return true;
+}
@@ -1,6 +1,10 @@
 import { ConsensusEngine } from './consensus';
+import { signBlockHeader } from './block-signature';
+import { verifyEvidence } from './evidence';
+import { deriveProposerSeed, ProposerSchedule } from './proposer-selection';
 import { ConsensusConfig, Validator } from '@digital-chuckram/types';
 import { Block, TransactionType } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
 
 describe('ConsensusEngine', () => {
   let consensus: ConsensusEngine;
@@ -15,7 +19,7 @@ describe('ConsensusEngine', () => {
       governmentValidatorRatio: 0.5,
       citizenValidatorRatio: 0.5,
       requiredConsensus: 0.66,
-      validatorRotationInterval: 100,
+      epochLength: 100,
     };
 
     consensus = new ConsensusEngine(config);
@@ -60,6 +64,31 @@ describe('ConsensusEngine', () => {
     consensus.initializeGenesis(validators);
   });
 
+  // Give validators key pairs, returning their private keys by address
+  const registerKeys = (addresses: string[]): Record<string, string> => {
+    const keys: Record<string, string> = {};
+    for (const address of addresses) {
+      const keyPair = CryptoUtils.generateKeyPair();
+      consensus.getValidator(address)!.publicKey = keyPair.publicKey;
+      keys[address] = keyPair.privateKey;
+    }
+    return keys;
+  };
+
+  const createBlock = (hash: string): Block => ({
+    header: {
+      version: 1,
+      previousHash: '0',
+      merkleRoot: '0',
+      timestamp: Date.now(),
+      height: 1,
+      validatorAddress: 'GOV1',
+    },
+    transactions: [],
+    hash,
+    nonce: 0,
+  });
+
   it('should initialize with genesis validators', () => {
     const state = consensus.getState();
     expect(state.currentValidators.size).toBe(4);
@@ -131,16 +160,273 @@ describe('ConsensusEngine', () => {
     // Total voting power = 4
     // 66% of 4 = 2.64, so we need at least 3 votes
 
+    const keys = registerKeys(['GOV1', 'GOV2', 'CIT1']);
+
     // Vote with first validator
-    await consensus.voteOnBlock(block, 'GOV1', 'privateKey1');
+    await consensus.voteOnBlock(block, 'GOV1', keys.GOV1);
     expect(blockFinalized).toBe(false);
 
     // Vote with second validator
-    await consensus.voteOnBlock(block, 'GOV2', 'privateKey2');
+    await consensus.voteOnBlock(block, 'GOV2', keys.GOV2);
     expect(blockFinalized).toBe(false);
 
     // Vote with third validator - this should trigger consensus
-    await consensus.voteOnBlock(block, 'CIT1', 'privateKey3');
+    await consensus.voteOnBlock(block, 'CIT1', keys.CIT1);
     expect(blockFinalized).toBe(true);
   });
+
+  it('should only count votes signed by the validator key', async () => {
+    const block = createBlock('block2');
+    const keys = registerKeys(['GOV1', 'GOV2', 'CIT1', 'CIT2']);
+    const finalized: Block[] = [];
+    consensus['onBlockFinalized'] = (b: Block) => finalized.push(b);
+
+    // Signed with another validator's key
+    const forged = await consensus.voteOnBlock(block, 'GOV1', keys.GOV2);
+    expect(await consensus.addVote(block, forged)).toBe(false);
+    await consensus.voteOnBlock(block, 'CIT1', keys.CIT1);
+    await consensus.voteOnBlock(block, 'CIT2', keys.CIT2);
+    expect(finalized).toHaveLength(0);
+
+    await consensus.voteOnBlock(block, 'GOV1', keys.GOV1);
+    expect(finalized).toHaveLength(1);
+  });
+
+  it('should record evidence and jail a validator that votes twice', async () => {
+    const keys = registerKeys(['GOV1']);
+
+    const first = await consensus.voteOnBlock(
+      createBlock('block-a'),
+      'GOV1',
+      keys.GOV1
+    );
+    const second = await consensus.voteOnBlock(
+      createBlock('block-b'),
+      'GOV1',
+      keys.GOV1
+    );
+
+    const [evidence] = consensus.getEvidence();
+    expect(evidence).toEqual({
+      type: 'DUPLICATE_VOTE',
+      voteA: first,
+      voteB: second,
+    });
+    expect(
+      verifyEvidence(evidence, consensus.getValidator('GOV1')!.publicKey!)
+    ).toBeNull();
+    expect(consensus.getValidator('GOV1')).toMatchObject({
+      active: false,
+      jailed: true,
+    });
+    await expect(
+      consensus.voteOnBlock(createBlock('block-c'), 'GOV1', keys.GOV1)
+    ).rejects.toThrow('Invalid or inactive validator');
+  });
+
+  it('should allow a re-proposal in a later round but not in the same one', () => {
+    const keyPair = CryptoUtils.generateKeyPair();
+    consensus = new ConsensusEngine(config);
+    consensus.initializeGenesis([
+      {
+        ...validators[0],
+        address: keyPair.address,
+        publicKey: keyPair.publicKey,
+      },
+    ]);
+
+    const propose = (round: number, timestamp: number): Block => {
+      const block = createBlock(`block-${round}-${timestamp}`);
+      block.header = {
+        ...block.header,
+        validatorAddress: keyPair.address,
+        round,
+        timestamp,
+      };
+      block.header.validatorSignature = signBlockHeader(
+        block.header,
+        keyPair.privateKey
+      );
+      return block;
+    };
+
+    expect(consensus.validateProposal(propose(0, 1000))).toBeNull();
+    expect(consensus.validateProposal(propose(1, 2000))).toBeNull();
+    expect(consensus.getEvidence()).toHaveLength(0);
+
+    const conflicting = propose(1, 3000);
+    expect(consensus.validateProposal(conflicting)).toContain(
+      'signed conflicting blocks at height 1 round 1'
+    );
+
+    const [evidence] = consensus.getEvidence();
+    expect(evidence).toMatchObject({
+      type: 'CONFLICTING_PROPOSAL',
+      headerA: { round: 1, timestamp: 2000 },
+      headerB: { round: 1, timestamp: 3000 },
+    });
+    expect(verifyEvidence(evidence, keyPair.publicKey)).toBeNull();
+    expect(
+      verifyEvidence(
+        { ...evidence, headerA: propose(0, 1000).header } as any,
+        keyPair.publicKey
+      )
+    ).toBe('Headers are for different heights or rounds');
+  });
+
+  it('should attach a verifiable commit certificate to finalized blocks', async () => {
+    // Certificates only count keys that derive to their signer's address
+    const keyPairs = validators.map(() => CryptoUtils.generateKeyPair());
+    consensus = new ConsensusEngine(config);
+    consensus.initializeGenesis(
+      validators.map((validator, index) => ({
+        ...validator,
+        address: keyPairs[index].address,
+        publicKey: keyPairs[index].publicKey,
+      }))
+    );
+    const voters = keyPairs.slice(0, 3);
+
+    const block = createBlock('block3');
+    let certified: Block | undefined;
+    consensus['onBlockFinalized'] = (b: Block) => {
+      certified = b;
+      expect(consensus.validateCommitCertificate(b)).toBeNull();
+    };
+
+    for (const { address, privateKey } of voters) {
+      await consensus.voteOnBlock(block, address, privateKey);
+    }
+
+    expect(certified?.certificate).toMatchObject({
+      blockHash: 'block3',
+      height: 1,
+      round: 0,
+      signers: voters.map(({ address }) => address).sort(),
+    });
+
+    // Dropping a signer leaves too little voting power
+    const weakened = {
+      ...certified!,
+      certificate: {
+        ...certified!.certificate!,
+        signers: certified!.certificate!.signers.slice(0, 2),
+        signatures: certified!.certificate!.signatures.slice(0, 2),
+      },
+    };
+    expect(consensus.validateCommitCertificate(weakened)).toMatch(
+      /voting power/
+    );
+    expect(
+      consensus.validateCommitCertificate({ ...certified!, hash: 'other' })
+    ).toMatch(/Certificate is for block block3/);
+  });
+
+  it('should weigh voting power by stake from the next rotation', () => {
+    const powers = () =>
+      ['GOV1', 'GOV2', 'CIT1', 'CIT2'].map(
+        (address) => consensus.getValidator(address)!.votingPower
+      );
+    expect(powers()).toEqual([2500, 2500, 2500, 2500]);
+
+    expect(consensus.updateStake('CIT1', 3000n)).toBe(true);
+    expect(consensus.updateStake('UNKNOWN', 3000n)).toBe(false);
+    expect(powers()).toEqual([2500, 2500, 2500, 2500]);
+
+    consensus['rotateValidators'](100);
+    expect(powers()).toEqual([2500, 2500, 3750, 1250]);
+  });
+
+  it('should choose a validator set per epoch within the limits', async () => {
+    expect(
+      await consensus.addValidator({
+        address: 'CIT3',
+        type: 'CITIZEN',
+        stake: 5000n,
+        votingPower: 1,
+        active: true,
+        lastActiveBlock: 0,
+        registeredAt: Date.now(),
+      })
+    ).toBe(true);
+
+    // Two government and two citizen seats, citizens chosen by stake
+    config.maxValidators = 4;
+    consensus['rotateValidators'](100);
+    expect(consensus.getState().epoch).toBe(1);
+    expect(consensus.getState().pendingValidators.has('CIT2')).toBe(true);
+
+    // Too few candidates leaves the set unchanged
+    config.minValidators = 5;
+    consensus['rotateValidators'](200);
+
+    const addresses = (height: number) =>
+      consensus.getValidatorSetAt(height)!.validators.map((v) => v.address);
+    expect(addresses(99)).toEqual(['CIT1', 'CIT2', 'GOV1', 'GOV2']);
+    expect(addresses(100)).toEqual(['CIT1', 'CIT3', 'GOV1', 'GOV2']);
+    expect(addresses(250)).toEqual(['CIT1', 'CIT3', 'GOV1', 'GOV2']);
+    expect(consensus.getValidatorSetAt(250)!.startHeight).toBe(200);
+  });
+
+  it('should only unseat validators of the set that stop voting', async () => {
+    const keyPairs = validators.map(() => CryptoUtils.generateKeyPair());
+    consensus = new ConsensusEngine({ ...config, inactivityLimit: 2 });
+    consensus.initializeGenesis(
+      validators.map((validator, index) => ({
+        ...validator,
+        address: keyPairs[index].address,
+        publicKey: keyPairs[index].publicKey,
+      }))
+    );
+    // Pending since genesis, so never had a block to vote on
+    expect(
+      await consensus.addValidator({ ...validators[3], address: 'CIT3' })
+    ).toBe(true);
+
+    // All but the last validator precommit the block at height 1
+    const [absent] = keyPairs.slice(-1);
+    for (const { address, privateKey } of keyPairs.slice(0, -1)) {
+      await consensus.voteOnBlock(createBlock('block1'), address, privateKey);
+    }
+    expect(consensus.getValidator(absent.address)!.lastActiveBlock).toBe(0);
+
+    consensus['rotateValidators'](3);
+    const seated = consensus
+      .getValidatorSetAt(3)!
+      .validators.map((v) => v.address);
+    expect(seated).toContain('CIT3');
+    expect(seated).not.toContain(absent.address);
+    expect(seated).toHaveLength(4);
+    expect(consensus.getValidator('CIT3')!.lastActiveBlock).toBe(2);
+  });
+
+  it('should schedule proposers in proportion to voting power', () => {
+    const weighted = [
+      { address: 'A', votingPower: 3 },
+      { address: 'B', votingPower: 1 },
+    ];
+    const count = (proposers: string[], address: string) =>
+      proposers.filter((proposer) => proposer === address).length;
+
+    const proposers = new ProposerSchedule(weighted).getProposers(0, 8);
+    expect(proposers).toEqual(['A', 'A', 'B', 'A', 'A', 'A', 'B', 'A']);
+
+    // A seed reorders turns the same way everywhere, keeping the shares
+    const seed = deriveProposerSeed(['signature-1', 'signature-2']);
+    const seeded = new ProposerSchedule(weighted, seed).getProposers(0, 400);
+    expect(new ProposerSchedule(weighted, seed).getProposers(0, 400)).toEqual(
+      seeded
+    );
+    expect(Math.abs(count(seeded, 'A') - 300)).toBeLessThanOrEqual(2);
+
+    consensus.updateStake('CIT1', 3000n);
+    consensus['rotateValidators'](100);
+    const upcoming = consensus.getUpcomingProposers(8);
+    expect(upcoming[0]).toBe(consensus.getState().currentProposer);
+    expect(
+      ['GOV1', 'GOV2', 'CIT1', 'CIT2'].map((address) =>
+        count(upcoming, address)
+      )
+    ).toEqual([2, 2, 3, 1]);
+  });
 });
@@ -1,17 +1,43 @@
-import { Block, Transaction } from '@digital-chuckram/types';
-import { CryptoUtils } from '@digital-chuckram/crypto';
+import { Block } from '@digital-chuckram/types';
 import {
+  BlockHeader,
   Validator,
   ConsensusConfig,
   ConsensusState,
+  Evidence,
+  ValidatorSet,
   Vote,
-  ConsensusMessage,
 } from '@digital-chuckram/types';
+import {
+  getBlockSigningPayload,
+  verifyBlockSignature,
+} from './block-signature.js';
+import {
+  createCommitCertificate,
+  signVote,
+  verifyCommitCertificate,
+  verifyVoteSignature,
+} from './vote-signature.js';
+import { getEvidenceOffender } from './evidence.js';
+import { computeVotingPowers } from './staking.js';
+import { deriveProposerSeed, ProposerSchedule } from './proposer-selection.js';
+import {
+  getEpoch,
+  getEpochStartHeight,
+  isEpochEnd,
+  selectValidatorSet,
+} from './epochs.js';
 
 export class ConsensusEngine {
   private config: ConsensusConfig;
   private state: ConsensusState;
   private votes: Map<string, Vote[]> = new Map();
+  private signedVotes: Map<string, Vote> = new Map(); // height:round:validator -> vote
+  private proposals: Map<string, BlockHeader> = new Map(); // height:round:proposer -> header
+  private evidence: Evidence[] = [];
+  private validatorSets: ValidatorSet[] = []; // By epoch, oldest first
+  private proposerSchedule?: ProposerSchedule; // For the current epoch
+  private proposerPosition = 0; // Place of the current proposer in it
   private onBlockFinalized?: (block: Block) => void;
 
   constructor(config: ConsensusConfig) {
@@ -19,7 +45,7 @@ export class ConsensusEngine {
     this.state = {
       currentValidators: new Map(),
       pendingValidators: new Map(),
-      lastRotationBlock: 0,
+      epoch: 0,
       currentProposer: '',
       round: 0,
     };
@@ -46,8 +72,9 @@ export class ConsensusEngine {
       else citizenCount++;
     });
 
-    // Count pending validators
-    this.state.pendingValidators.forEach((v) => {
+    // Count pending validators, except stake updates of current ones
+    this.state.pendingValidators.forEach((v, address) => {
+      if (this.state.currentValidators.has(address)) return;
       if (v.type === 'GOVERNMENT') govCount++;
       else citizenCount++;
     });
@@ -96,10 +123,66 @@ export class ConsensusEngine {
       validatorAddress,
       blockHash: block.hash,
       blockHeight: block.header.height,
-      signature: CryptoUtils.sign(validatorPrivateKey, block.hash),
+      round: this.state.round,
+      signature: signVote(
+        {
+          type: 'PRECOMMIT',
+          height: block.header.height,
+          round: this.state.round,
+          blockHash: block.hash,
+        },
+        validatorPrivateKey
+      ),
       timestamp: Date.now(),
     };
 
+    await this.addVote(block, vote);
+    return vote;
+  }
+
+  // Count a signed vote on a block, from this node or a peer. Votes that do
+  // not verify against the validator's public key are rejected.
+  async addVote(block: Block, vote: Vote): Promise<boolean> {
+    const validator = this.state.currentValidators.get(vote.validatorAddress);
+    if (!validator || !validator.active || !validator.publicKey) {
+      return false;
+    }
+
+    if (
+      vote.blockHash !== block.hash ||
+      vote.blockHeight !== block.header.height ||
+      vote.round !== this.state.round
+    ) {
+      return false;
+    }
+
+    const signed = verifyVoteSignature(
+      {
+        type: 'PRECOMMIT',
+        height: vote.blockHeight,
+        round: vote.round,
+        blockHash: vote.blockHash,
+      },
+      vote.signature,
+      validator.publicKey
+    );
+    if (!signed) {
+      return false;
+    }
+
+    // A second precommit for another block in the same round is equivocation
+    const voteKey = `${vote.blockHeight}:${vote.round}:${vote.validatorAddress}`;
+    const previous = this.signedVotes.get(voteKey);
+    if (previous && previous.blockHash !== vote.blockHash) {
+      this.reportEvidence({
+        type: 'DUPLICATE_VOTE',
+        voteA: previous,
+        voteB: vote,
+      });
+      return false;
+    }
+    this.signedVotes.set(voteKey, vote);
+
     // Initialize votes array if it doesn't exist
     if (!this.votes.has(block.hash)) {
       this.votes.set(block.hash, []);
@@ -110,11 +193,12 @@ export class ConsensusEngine {
 
     // Check if this validator already voted
     const hasAlreadyVoted = blockVotes.some(
-      (v) => v.validatorAddress === validatorAddress
+      (v) => v.validatorAddress === vote.validatorAddress
     );
-    if (!hasAlreadyVoted) {
-      blockVotes.push(vote);
+    if (hasAlreadyVoted) {
+      return false;
     }
+    blockVotes.push(vote);
 
     // Check if we have enough votes BEFORE potentially finalizing
     const hasReachedConsensus = this.hasConsensus(block.hash);
@@ -124,7 +208,87 @@ export class ConsensusEngine {
       this.finalizeBlock(block);
     }
 
-    return vote;
+    return true;
+  }
+
+  // Check that a block was proposed and signed by the expected active
+  // proposer, returning the rejection reason or null if it is valid
+  validateProposal(block: Block): string | null {
+    const { validatorAddress } = block.header;
+
+    const validator = this.state.currentValidators.get(validatorAddress);
+    if (!validator || !validator.active) {
+      return `Proposer ${validatorAddress} is not an active validator`;
+    }
+
+    if (validatorAddress !== this.state.currentProposer) {
+      return `Unexpected proposer ${validatorAddress} for round ${this.state.round}, expected ${this.state.currentProposer}`;
+    }
+
+    if (!validator.publicKey) {
+      return `Unknown public key for validator ${validatorAddress}`;
+    }
+
+    if (!verifyBlockSignature(block.header, validator.publicKey)) {
+      return 'Invalid proposer signature';
+    }
+
+    // A proposer signing two different blocks in one round is equivocation;
+    // proposing again in a later round is not
+    const round = block.header.round ?? 0;
+    const proposalKey = `${block.header.height}:${round}:${validatorAddress}`;
+    const previous = this.proposals.get(proposalKey);
+    if (
+      previous &&
+      getBlockSigningPayload(previous) !== getBlockSigningPayload(block.header)
+    ) {
+      this.reportEvidence({
+        type: 'CONFLICTING_PROPOSAL',
+        headerA: previous,
+        headerB: block.header,
+      });
+      return `Proposer ${validatorAddress} signed conflicting blocks at height ${block.header.height} round ${round}`;
+    }
+    this.proposals.set(proposalKey, block.header);
+
+    return null;
+  }
+
+  // Evidence of misbehavior detected so far, to be submitted on chain as
+  // EVIDENCE transactions
+  getEvidence(): Evidence[] {
+    return [...this.evidence];
+  }
+
+  clearEvidence(): void {
+    this.evidence = [];
+  }
+
+  // Record evidence and jail the offender so it can no longer propose or vote
+  private reportEvidence(evidence: Evidence): void {
+    this.evidence.push(evidence);
+
+    const validator = this.state.currentValidators.get(
+      getEvidenceOffender(evidence)
+    );
+    if (validator) {
+      validator.active = false;
+      validator.jailed = true;
+    }
+  }
+
+  // Check that a block carries a valid commit certificate from the current
+  // validators, returning the rejection reason or null if it is valid
+  validateCommitCertificate(block: Block): string | null {
+    if (!block.certificate) {
+      return `Block ${block.hash} has no commit certificate`;
+    }
+
+    return verifyCommitCertificate(
+      block.certificate,
+      block,
+      Array.from(this.state.currentValidators.values())
+    );
   }
 
   private hasConsensus(blockHash: string): boolean {
@@ -155,22 +319,61 @@ export class ConsensusEngine {
     const epsilon = 0.0001;
     return consensusRatio >= this.config.requiredConsensus - epsilon;
   }
-  // Select next block proposer (round-robin)
+  // Select next block proposer, weighted by voting power
   private selectNextProposer(): void {
-    const validators = Array.from(this.state.currentValidators.values())
-      .filter((v) => v.active)
-      .sort((a, b) => a.address.localeCompare(b.address));
+    this.proposerPosition++;
+    this.state.currentProposer = this.findActiveProposer();
+    this.state.round++;
+  }
 
-    if (validators.length === 0) {
-      throw new Error('No active validators');
+  // Start the epoch's proposer schedule over its validators
+  private resetProposerSchedule(seed?: string): void {
+    const validators = Array.from(this.state.currentValidators.values());
+    this.proposerSchedule =
+      validators.length > 0
+        ? new ProposerSchedule(validators, seed)
+        : undefined;
+    this.proposerPosition = 0;
+
+    if (this.proposerSchedule) {
+      this.state.currentProposer = this.findActiveProposer();
     }
+  }
 
-    const currentIndex = validators.findIndex(
-      (v) => v.address === this.state.currentProposer
-    );
-    const nextIndex = (currentIndex + 1) % validators.length;
-    this.state.currentProposer = validators[nextIndex].address;
-    this.state.round++;
+  // Proposer at the current position, passing over validators deactivated
+  // since the epoch started
+  private findActiveProposer(): string {
+    const schedule = this.proposerSchedule;
+    const limit = this.proposerPosition + this.state.currentValidators.size;
+
+    for (; schedule && this.proposerPosition < limit; this.proposerPosition++) {
+      const address = schedule.getProposer(this.proposerPosition);
+      if (this.state.currentValidators.get(address)?.active) {
+        return address;
+      }
+    }
+    throw new Error('No active validators');
+  }
+
+  // Proposers of the next blocks, from the current one, as far as the
+  // current epoch's validators are known
+  getUpcomingProposers(count: number): string[] {
+    const proposers: string[] = [];
+    const schedule = this.proposerSchedule;
+    const limit =
+      this.proposerPosition + count * this.state.currentValidators.size;
+
+    for (
+      let position = this.proposerPosition;
+      schedule && proposers.length < count && position < limit;
+      position++
+    ) {
+      const address = schedule.getProposer(position);
+      if (this.state.currentValidators.get(address)?.active) {
+        proposers.push(address);
+      }
+    }
+    return proposers;
   }
 
   // Initialize with genesis validators
@@ -179,14 +382,34 @@ export class ConsensusEngine {
       this.state.currentValidators.set(validator.address, validator);
     });
 
-    // Select first proposer (sort by address for deterministic selection)
-    const sortedValidators = validators.sort((a, b) =>
-      a.address.localeCompare(b.address)
-    );
+    this.recalculateVotingPower();
+    this.recordValidatorSet();
+    this.resetProposerSchedule();
+  }
 
-    if (sortedValidators.length > 0) {
-      this.state.currentProposer = sortedValidators[0].address;
+  // Queue a validator's new bonded stake, applied at the next rotation
+  updateStake(address: string, stake: bigint): boolean {
+    const validator =
+      this.state.pendingValidators.get(address) ??
+      this.state.currentValidators.get(address);
+    if (!validator || validator.jailed) {
+      return false;
     }
+
+    this.state.pendingValidators.set(address, { ...validator, stake });
+    return true;
+  }
+
+  // Derive voting power from stake and the government weight split
+  private recalculateVotingPower(): void {
+    const powers = computeVotingPowers(
+      Array.from(this.state.currentValidators.values()),
+      this.config.governmentValidatorRatio
+    );
+
+    this.state.currentValidators.forEach((validator, address) => {
+      validator.votingPower = powers.get(address) ?? 0;
+    });
   }
 
   // Finalize a block after consensus
@@ -194,52 +417,141 @@ export class ConsensusEngine {
     // Clear votes AFTER we're done with finalization
     // This prevents the votes from being cleared too early
 
-    // Update validator states
-    this.state.currentValidators.forEach((validator) => {
-      validator.lastActiveBlock = block.header.height;
-    });
-
-    // Rotate validators if needed
-    if (
-      block.header.height - this.state.lastRotationBlock >=
-      this.config.validatorRotationInterval
-    ) {
-      this.rotateValidators(block.header.height);
+    // Validators whose precommits finalized the block were active in it
+    for (const vote of this.votes.get(block.hash) ?? []) {
+      const validator = this.state.currentValidators.get(vote.validatorAddress);
+      if (validator) {
+        validator.lastActiveBlock = block.header.height;
+      }
     }
 
-    // Select next proposer
-    this.selectNextProposer();
+    // Attach the precommits that finalized the block
+    block.certificate = createCommitCertificate(
+      block.hash,
+      block.header.height,
+      this.state.round,
+      this.votes.get(block.hash) ?? []
+    );
 
-    // Callback to blockchain
+    // Callback to blockchain, while the block's proposer is still the
+    // expected one so the blockchain can validate it
     if (this.onBlockFinalized) {
       this.onBlockFinalized(block);
     }
 
+    // Choose the next epoch's validators after its last block, otherwise
+    // hand over to the next proposer
+    if (isEpochEnd(block.header.height, this.config.epochLength)) {
+      this.rotateValidators(
+        block.header.height + 1,
+        this.config.randomizeProposers
+          ? deriveProposerSeed([
+              block.header.validatorSignature ?? '',
+              block.hash,
+            ])
+          : undefined
+      );
+    } else {
+      this.selectNextProposer();
+    }
+
     // Clear votes LAST
     this.votes.delete(block.hash);
+    this.pruneSignedMessages(block.header.height);
   }
 
-  // Rotate validators
-  private rotateValidators(currentHeight: number): void {
-    // Move pending validators to active
+  // Forget votes and proposals below a finalized height
+  private pruneSignedMessages(height: number): void {
+    for (const [key, vote] of this.signedVotes) {
+      if (vote.blockHeight < height) {
+        this.signedVotes.delete(key);
+      }
+    }
+    for (const [key, header] of this.proposals) {
+      if (header.height < height) {
+        this.proposals.delete(key);
+      }
+    }
+  }
+
+  // Start a new epoch at a height. Pending and current validators compete
+  // for seats; those not chosen wait in the pending set for a later epoch.
+  private rotateValidators(startHeight: number, seed?: string): void {
+    const candidates = new Map(this.state.currentValidators);
     this.state.pendingValidators.forEach((validator, address) => {
-      this.state.currentValidators.set(address, validator);
+      candidates.set(address, validator);
     });
-    this.state.pendingValidators.clear();
 
-    // Remove inactive validators
-    const toRemove: string[] = [];
-    this.state.currentValidators.forEach((validator, address) => {
-      if (currentHeight - validator.lastActiveBlock > 100) {
-        toRemove.push(address);
+    // Jailed validators are dropped, and so are members of the ending set
+    // that voted on none of its last inactivityLimit blocks. Pending
+    // validators had no blocks to vote on.
+    const inactivityLimit =
+      this.config.inactivityLimit ?? this.config.epochLength;
+    candidates.forEach((validator, address) => {
+      const inactive =
+        this.state.currentValidators.has(address) &&
+        startHeight - 1 - validator.lastActiveBlock >= inactivityLimit;
+      if (validator.jailed || inactive) {
+        candidates.delete(address);
       }
     });
 
-    toRemove.forEach((address) => {
-      this.state.currentValidators.delete(address);
+    const selected = selectValidatorSet(Array.from(candidates.values()), {
+      minValidators: this.config.minValidators,
+      maxValidators: this.config.maxValidators,
+      governmentValidatorRatio: this.config.governmentValidatorRatio,
     });
 
-    this.state.lastRotationBlock = currentHeight;
+    // Too few candidates keeps the current validators in place. Validators
+    // taking a seat are active from the start of their epoch.
+    if (selected) {
+      for (const validator of selected) {
+        if (!this.state.currentValidators.has(validator.address)) {
+          validator.lastActiveBlock = startHeight - 1;
+        }
+      }
+      this.state.currentValidators = new Map(
+        selected.map((validator) => [validator.address, validator])
+      );
+      this.state.pendingValidators = new Map(
+        Array.from(candidates).filter(
+          ([address]) => !this.state.currentValidators.has(address)
+        )
+      );
+    }
+
+    this.recalculateVotingPower();
+    this.state.epoch = getEpoch(startHeight, this.config.epochLength);
+    this.recordValidatorSet(seed);
+    this.resetProposerSchedule(seed);
+  }
+
+  // Snapshot the current validators as the current epoch's set
+  private recordValidatorSet(seed?: string): void {
+    const validators = Array.from(this.state.currentValidators.values())
+      .map((validator) => ({ ...validator }))
+      .sort((a, b) => (a.address < b.address ? -1 : 1));
+
+    this.validatorSets.push({
+      epoch: this.state.epoch,
+      startHeight: getEpochStartHeight(
+        this.state.epoch,
+        this.config.epochLength
+      ),
+      validators,
+      seed,
+    });
+  }
+
+  // Validator set in force at a height, or undefined before genesis
+  getValidatorSetAt(height: number): ValidatorSet | undefined {
+    const epoch = getEpoch(height, this.config.epochLength);
+    for (let i = this.validatorSets.length - 1; i >= 0; i--) {
+      if (this.validatorSets[i].epoch <= epoch) {
+        return this.validatorSets[i];
+      }
+    }
+    return undefined;
   }
 
   // Get current consensus state
@@ -0,0 +1,91 @@
+import { ValidatorSet } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { StakedValidator } from './staking.js';
+
+// The chain is divided into epochs of a fixed number of blocks, each with a
+// validator set chosen from the state at the end of the previous epoch.
+
+export interface ValidatorSetLimits {
+  minValidators: number;
+  maxValidators: number;
+  governmentValidatorRatio: number; // 0.5 for 50%
+}
+
+export function getEpoch(height: number, epochLength: number): number {
+  return Math.floor(height / epochLength);
+}
+
+export function getEpochStartHeight(
+  epoch: number,
+  epochLength: number
+): number {
+  return epoch * epochLength;
+}
+
+// Whether a block is the last of its epoch, after which the next validator
+// set is chosen
+export function isEpochEnd(height: number, epochLength: number): boolean {
+  return (height + 1) % epochLength === 0;
+}
+
+// Choose an epoch's validators from the candidates. Government validators
+// fill their share of the seats in address order; citizen validators fill
+// the rest by stake. Returns null if fewer than the minimum qualify, so the
+// previous set stays in place.
+export function selectValidatorSet<T extends StakedValidator>(
+  candidates: T[],
+  limits: ValidatorSetLimits
+): T[] | null {
+  const eligible = candidates
+    .filter((v) => v.active && !v.jailed)
+    .sort((a, b) => compareAddresses(a.address, b.address));
+
+  const government = eligible.filter(
+    (v) => v.type?.toUpperCase() === 'GOVERNMENT'
+  );
+  const citizens = eligible
+    .filter((v) => v.type?.toUpperCase() !== 'GOVERNMENT')
+    .sort((a, b) => {
+      const stakeA = BigInt(a.stake ?? 0);
+      const stakeB = BigInt(b.stake ?? 0);
+      return stakeA === stakeB ? 0 : stakeA > stakeB ? -1 : 1;
+    });
+
+  const governmentSeats = Math.round(
+    limits.maxValidators * limits.governmentValidatorRatio
+  );
+  const selected = [
+    ...government.slice(0, governmentSeats),
+    ...citizens.slice(0, limits.maxValidators - governmentSeats),
+  ];
+
+  if (selected.length < limits.minValidators) {
+    return null;
+  }
+  return selected.sort((a, b) => compareAddresses(a.address, b.address));
+}
+
+// Commitment to a validator set, carried by the last block header of the
+// epoch before so light clients can follow validator changes. The proposer
+// seed is left out as it is derived from that same block.
+export function hashValidatorSet(
+  validatorSet: Pick<ValidatorSet, 'epoch' | 'startHeight' | 'validators'>
+): string {
+  return CryptoUtils.hash(
+    JSON.stringify({
+      epoch: validatorSet.epoch,
+      startHeight: validatorSet.startHeight,
+      validators: validatorSet.validators.map((validator) => ({
+        address: validator.address,
+        publicKey: validator.publicKey,
+        type: validator.type,
+        votingPower: validator.votingPower,
+      })),
+    })
+  );
+}
+
+// Plain code unit order, the same on every node whatever its locale
+function compareAddresses(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,83 @@
+import { Evidence } from '@digital-chuckram/types';
+import {
+  getBlockSigningPayload,
+  verifyBlockSignature,
+} from './block-signature.js';
+import { verifyVoteSignature } from './vote-signature.js';
+
+// Validator the evidence incriminates
+export function getEvidenceOffender(evidence: Evidence): string {
+  return evidence.type === 'DUPLICATE_VOTE'
+    ? evidence.voteA.validatorAddress
+    : evidence.headerA.validatorAddress;
+}
+
+// Check that evidence shows one validator signing two conflicting messages,
+// returning the rejection reason or null if it is valid
+export function verifyEvidence(
+  evidence: Evidence,
+  publicKey: string
+): string | null {
+  if (evidence.type === 'DUPLICATE_VOTE') {
+    const { voteA, voteB } = evidence;
+
+    if (voteA.validatorAddress !== voteB.validatorAddress) {
+      return 'Votes are from different validators';
+    }
+    if (
+      voteA.blockHeight !== voteB.blockHeight ||
+      voteA.round !== voteB.round
+    ) {
+      return 'Votes are for different heights or rounds';
+    }
+    if (voteA.blockHash === voteB.blockHash) {
+      return 'Votes are for the same block';
+    }
+
+    for (const vote of [voteA, voteB]) {
+      const signed = verifyVoteSignature(
+        {
+          type: 'PRECOMMIT',
+          height: vote.blockHeight,
+          round: vote.round,
+          blockHash: vote.blockHash,
+        },
+        vote.signature,
+        publicKey
+      );
+      if (!signed) {
+        return `Invalid signature on vote for ${vote.blockHash}`;
+      }
+    }
+
+    return null;
+  }
+
+  if (evidence.type === 'CONFLICTING_PROPOSAL') {
+    const { headerA, headerB } = evidence;
+
+    if (headerA.validatorAddress !== headerB.validatorAddress) {
+      return 'Headers are from different proposers';
+    }
+    if (
+      headerA.height !== headerB.height ||
+      (headerA.round ?? 0) !== (headerB.round ?? 0)
+    ) {
+      return 'Headers are for different heights or rounds';
+    }
+    if (getBlockSigningPayload(headerA) === getBlockSigningPayload(headerB)) {
+      return 'Headers are for the same block';
+    }
+
+    if (
+      !verifyBlockSignature(headerA, publicKey) ||
+      !verifyBlockSignature(headerB, publicKey)
+    ) {
+      return 'Invalid proposer signature on header';
+    }
+
+    return null;
+  }
+
+  return 'Unknown evidence type';
+}
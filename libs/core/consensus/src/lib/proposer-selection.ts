@@ -0,0 +1,119 @@
+import { CryptoUtils } from '@digital-chuckram/crypto';
+
+// Proposer selection in proportion to voting power, as Tendermint's
+// priority queue: at each position every validator's priority grows by its
+// voting power, the highest priority proposes and drops by the total power.
+// Without a seed all priorities start at zero; a seed gives each validator a
+// pseudo-random head start, so the order is unpredictable until the seed is
+// known but the same on every node that knows it.
+
+export interface WeightedValidator {
+  address: string;
+  votingPower: number;
+}
+
+// Proposers remembered behind the latest computed position
+const HISTORY_SIZE = 1000;
+
+// Seed from signed data of a finalized block, such as its proposer
+// signature and hash. Every node sees the same values and nobody can change
+// them once the block is final. Precommits are left out as nodes may hold
+// different sets of them.
+export function deriveProposerSeed(signatures: string[]): string {
+  return CryptoUtils.hash(signatures.join(':'));
+}
+
+export class ProposerSchedule {
+  private validators: WeightedValidator[];
+  private totalPower: number;
+  private priorities: Map<string, number> = new Map();
+  private history: string[] = []; // Proposers from position base onwards
+  private base = 0;
+
+  constructor(validators: WeightedValidator[], private seed?: string) {
+    if (validators.length === 0) {
+      throw new Error('No validators to schedule');
+    }
+
+    // Without any voting power every validator gets an equal turn
+    const weighted = validators.some((v) => v.votingPower > 0);
+    this.validators = validators
+      .filter((v) => !weighted || v.votingPower > 0)
+      .map((v) => ({
+        address: v.address,
+        votingPower: weighted ? v.votingPower : 1,
+      }))
+      .sort((a, b) => (a.address < b.address ? -1 : 1));
+    this.totalPower = this.validators.reduce(
+      (total, v) => total + v.votingPower,
+      0
+    );
+
+    this.reset();
+  }
+
+  // Proposer at a position counted from the start of the schedule
+  getProposer(position: number): string {
+    if (position < this.base) {
+      this.reset();
+    }
+    while (this.base + this.history.length <= position) {
+      this.advance();
+    }
+    return this.history[position - this.base];
+  }
+
+  // Proposers for count positions from a starting one
+  getProposers(from: number, count: number): string[] {
+    const proposers: string[] = [];
+    for (let position = from; position < from + count; position++) {
+      proposers.push(this.getProposer(position));
+    }
+    return proposers;
+  }
+
+  private reset(): void {
+    this.history = [];
+    this.base = 0;
+    for (const validator of this.validators) {
+      this.priorities.set(
+        validator.address,
+        this.getInitialPriority(validator)
+      );
+    }
+  }
+
+  private getInitialPriority(validator: WeightedValidator): number {
+    if (this.seed === undefined) {
+      return 0;
+    }
+    const digest = CryptoUtils.hash(`${this.seed}:${validator.address}`);
+    return parseInt(digest.slice(0, 8), 16) % this.totalPower;
+  }
+
+  // Pick the next proposer. Validators are in address order, so ties go to
+  // the lowest address.
+  private advance(): void {
+    let proposer: WeightedValidator | undefined;
+    for (const validator of this.validators) {
+      const priority =
+        this.priorities.get(validator.address)! + validator.votingPower;
+      this.priorities.set(validator.address, priority);
+
+      if (!proposer || priority > this.priorities.get(proposer.address)!) {
+        proposer = validator;
+      }
+    }
+
+    this.priorities.set(
+      proposer!.address,
+      this.priorities.get(proposer!.address)! - this.totalPower
+    );
+    this.history.push(proposer!.address);
+
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+      this.base++;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Block, ConsensusMessage, Validator } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { BftConsensus, BftTimeouts } from './bft.js';
+
+// Deterministic in-process network of BFT validators on a virtual clock, for
+// exercising the protocol under latency, crashes and dropped messages.
+
+export interface SimulatorOptions {
+  timeouts?: BftTimeouts;
+  latency?: number; // Delivery delay for every message
+  validateBlock?: (address: string, block: Block) => boolean;
+}
+
+// Return false to drop a message on its way to a validator
+export type MessageFilter = (message: ConsensusMessage, to: string) => boolean;
+
+interface SimulatedNode {
+  address: string;
+  engine: BftConsensus;
+  commits: Block[];
+  online: boolean;
+}
+
+interface ScheduledEvent {
+  time: number;
+  seq: number;
+  run: () => void;
+}
+
+export const SIMULATOR_TIMEOUTS: BftTimeouts = {
+  propose: 300,
+  prevote: 100,
+  precommit: 100,
+  commit: 50,
+  delta: 50,
+};
+
+export class ConsensusSimulator {
+  private nodes: Map<string, SimulatedNode> = new Map();
+  private events: ScheduledEvent[] = [];
+  private time = 0;
+  private seq = 0;
+  private latency: number;
+  private filter: MessageFilter = () => true;
+  private messages: ConsensusMessage[] = [];
+
+  private validators: Validator[] = [];
+
+  // One validator per voting power, each with a fresh key pair
+  constructor(votingPowers: number[], private options: SimulatorOptions = {}) {
+    this.latency = options.latency ?? 10;
+
+    const keys = votingPowers.map(() => CryptoUtils.generateKeyPair());
+    this.validators = keys.map((key, index) => ({
+      address: key.address,
+      publicKey: key.publicKey,
+      type: 'CITIZEN',
+      votingPower: votingPowers[index],
+      active: true,
+      lastActiveBlock: 0,
+      registeredAt: 0,
+    }));
+
+    for (const [index, validator] of this.validators.entries()) {
+      const node: SimulatedNode = {
+        address: validator.address,
+        commits: [],
+        online: true,
+        engine: undefined as unknown as BftConsensus,
+      };
+
+      node.engine = new BftConsensus({
+        validators: this.validators,
+        address: validator.address,
+        privateKey: keys[index].privateKey,
+        timeouts: options.timeouts ?? SIMULATOR_TIMEOUTS,
+        now: () => this.time,
+        // A crashed node's timers do nothing
+        schedule: (delay, callback) =>
+          this.schedule(delay, () => node.online && callback()),
+        application: {
+          createBlock: (height, round) => this.createBlock(node, height, round),
+          validateBlock: (block) => this.validateBlock(node, block),
+          commitBlock: (block) => node.commits.push(block),
+        },
+      });
+      node.engine.connect({
+        broadcastConsensusMessage: (message) => this.deliver(node, message),
+        on: () => undefined, // Messages are delivered by the simulator
+      });
+
+      this.nodes.set(validator.address, node);
+    }
+  }
+
+  start(): void {
+    for (const node of this.nodes.values()) {
+      node.engine.start(1);
+    }
+  }
+
+  // Validator addresses in proposer order
+  getAddresses(): string[] {
+    return this.validators.map((v) => v.address).sort();
+  }
+
+  getValidators(): Validator[] {
+    return this.validators;
+  }
+
+  setOnline(address: string, online: boolean): void {
+    this.getNode(address).online = online;
+  }
+
+  setMessageFilter(filter: MessageFilter): void {
+    this.filter = filter;
+  }
+
+  // Process events in time order until the condition holds or time runs out
+  run(until: () => boolean, maxTime = 60000): boolean {
+    while (!until()) {
+      const next = this.events.shift();
+      if (!next || next.time > maxTime) {
+        return false;
+      }
+
+      this.time = next.time;
+      next.run();
+    }
+    return true;
+  }
+
+  // Run until every online validator has committed up to the height
+  runUntilHeight(height: number, maxTime = 60000): boolean {
+    return this.run(
+      () =>
+        Array.from(this.nodes.values())
+          .filter((node) => node.online)
+          .every((node) => node.commits.length >= height),
+      maxTime
+    );
+  }
+
+  getCommits(address: string): Block[] {
+    return this.getNode(address).commits;
+  }
+
+  getEngine(address: string): BftConsensus {
+    return this.getNode(address).engine;
+  }
+
+  // Every message sent, in order
+  getMessages(): ConsensusMessage[] {
+    return this.messages;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  private deliver(from: SimulatedNode, message: ConsensusMessage): void {
+    if (!from.online) return;
+    this.messages.push(message);
+
+    for (const node of this.nodes.values()) {
+      if (node === from || !this.filter(message, node.address)) continue;
+
+      this.schedule(this.latency, () => {
+        if (node.online) {
+          node.engine.handleMessage(message);
+        }
+      });
+    }
+  }
+
+  private schedule(delay: number, run: () => void): void {
+    const event = { time: this.time + delay, seq: this.seq++, run };
+    const index = this.events.findIndex(
+      (other) =>
+        other.time > event.time ||
+        (other.time === event.time && other.seq > event.seq)
+    );
+    this.events.splice(index === -1 ? this.events.length : index, 0, event);
+  }
+
+  private createBlock(
+    node: SimulatedNode,
+    height: number,
+    round: number
+  ): Block {
+    const header = {
+      version: 1,
+      previousHash: this.getTipHash(node),
+      merkleRoot: '',
+      timestamp: this.time,
+      height,
+      validatorAddress: node.address,
+      round,
+    };
+    return {
+      header,
+      transactions: [],
+      nonce: round,
+      hash: CryptoUtils.hash(JSON.stringify({ header, nonce: round })),
+    };
+  }
+
+  private validateBlock(node: SimulatedNode, block: Block): boolean {
+    if (block.header.previousHash !== this.getTipHash(node)) {
+      return false;
+    }
+    return this.options.validateBlock?.(node.address, block) ?? true;
+  }
+
+  private getTipHash(node: SimulatedNode): string {
+    return node.commits[node.commits.length - 1]?.hash ?? '0'.repeat(64);
+  }
+
+  private getNode(address: string): SimulatedNode {
+    const node = this.nodes.get(address);
+    if (!node) {
+      throw new Error(`Unknown validator ${address}`);
+    }
+    return node;
+  }
+}
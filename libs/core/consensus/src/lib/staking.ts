@@ -0,0 +1,59 @@
+// Voting power split between validators. Government validators share the
+// government ratio of the total equally, as a fixed policy; citizen
+// validators share the rest in proportion to their bonded stake. A group
+// with no eligible validators leaves its share to the other.
+
+export const TOTAL_VOTING_POWER = 10_000;
+
+export interface StakedValidator {
+  address: string;
+  type?: string;
+  stake?: bigint | string;
+  active: boolean;
+  jailed?: boolean;
+}
+
+export function computeVotingPowers(
+  validators: StakedValidator[],
+  governmentRatio: number
+): Map<string, number> {
+  const powers = new Map<string, number>();
+  const government: StakedValidator[] = [];
+  const citizens: Array<{ address: string; stake: bigint }> = [];
+
+  for (const validator of validators) {
+    powers.set(validator.address, 0);
+    if (!validator.active || validator.jailed) continue;
+
+    if (validator.type?.toUpperCase() === 'GOVERNMENT') {
+      government.push(validator);
+    } else {
+      const stake = BigInt(validator.stake ?? 0);
+      if (stake > 0n) {
+        citizens.push({ address: validator.address, stake });
+      }
+    }
+  }
+
+  let governmentPower = Math.round(TOTAL_VOTING_POWER * governmentRatio);
+  if (citizens.length === 0) governmentPower = TOTAL_VOTING_POWER;
+  if (government.length === 0) governmentPower = 0;
+  const citizenPower = TOTAL_VOTING_POWER - governmentPower;
+
+  for (const validator of government) {
+    powers.set(
+      validator.address,
+      Math.floor(governmentPower / government.length)
+    );
+  }
+
+  const totalStake = citizens.reduce((total, c) => total + c.stake, 0n);
+  for (const citizen of citizens) {
+    powers.set(
+      citizen.address,
+      Number((citizen.stake * BigInt(citizenPower)) / totalStake)
+    );
+  }
+
+  return powers;
+}
@@ -0,0 +1,173 @@
+import { CommitCertificate, Validator } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+
+export interface VotePayload {
+  type: 'PROPOSE' | 'PREVOTE' | 'PRECOMMIT';
+  height: number;
+  round: number;
+  blockHash: string | null; // null for a nil vote
+  validRound?: number; // Proposals only
+}
+
+// Canonical payload covered by a consensus message signature. Binding the
+// type, height and round stops a vote being replayed anywhere else.
+export function getVoteSigningPayload(payload: VotePayload): string {
+  return JSON.stringify({
+    type: payload.type,
+    height: payload.height,
+    round: payload.round,
+    blockHash: payload.blockHash,
+    validRound: payload.validRound,
+  });
+}
+
+export function signVote(payload: VotePayload, privateKey: string): string {
+  return CryptoUtils.sign(privateKey, getVoteSigningPayload(payload));
+}
+
+// Votes are checked on arrival and again inside commit certificates, so
+// recently verified signatures are remembered
+const VERIFIED_CACHE_SIZE = 10000;
+const verified = new Set<string>();
+
+export function verifyVoteSignature(
+  payload: VotePayload,
+  signature: string,
+  publicKey: string
+): boolean {
+  const data = getVoteSigningPayload(payload);
+  const key = `${publicKey}:${signature}:${data}`;
+  if (verified.has(key)) {
+    return true;
+  }
+
+  if (!CryptoUtils.verify(publicKey, data, signature)) {
+    return false;
+  }
+
+  if (verified.size >= VERIFIED_CACHE_SIZE) {
+    // Sets iterate in insertion order, so this drops the oldest entry
+    verified.delete(verified.values().next().value!);
+  }
+  verified.add(key);
+  return true;
+}
+
+// Collect precommits for a block into a certificate, one signature per
+// validator in address order
+export function createCommitCertificate(
+  blockHash: string,
+  height: number,
+  round: number,
+  precommits: Array<{ validatorAddress: string; signature: string }>
+): CommitCertificate {
+  const bySigner = new Map<string, string>();
+  for (const { validatorAddress, signature } of precommits) {
+    if (!bySigner.has(validatorAddress)) {
+      bySigner.set(validatorAddress, signature);
+    }
+  }
+
+  const signers = Array.from(bySigner.keys()).sort();
+  return {
+    blockHash,
+    height,
+    round,
+    signers,
+    signatures: signers.map((signer) => bySigner.get(signer)!),
+  };
+}
+
+// Check that a certificate carries valid precommits for the block from more
+// than two thirds of the validators' voting power, returning the rejection
+// reason or null if it is valid
+export function verifyCommitCertificate(
+  certificate: CommitCertificate,
+  block: { hash: string; header: { height: number } },
+  validators: Validator[]
+): string | null {
+  if (certificate.blockHash !== block.hash) {
+    return `Certificate is for block ${certificate.blockHash}, not ${block.hash}`;
+  }
+
+  if (certificate.height !== block.header.height) {
+    return `Certificate is for height ${certificate.height}, not ${block.header.height}`;
+  }
+
+  if (certificate.signers.length !== certificate.signatures.length) {
+    return 'Certificate signers and signatures do not match';
+  }
+
+  const active = new Map(
+    validators.filter((v) => v.active).map((v) => [v.address, v])
+  );
+  const totalPower = Array.from(active.values()).reduce(
+    (total, v) => total + v.votingPower,
+    0
+  );
+
+  const seen = new Set<string>();
+  const keys = new Set<string>();
+  let signedPower = 0;
+
+  for (const [index, signer] of certificate.signers.entries()) {
+    if (seen.has(signer)) {
+      return `Duplicate signer ${signer}`;
+    }
+    seen.add(signer);
+
+    const validator = active.get(signer);
+    if (!validator) {
+      return `Signer ${signer} is not an active validator`;
+    }
+
+    if (!validator.publicKey) {
+      return `Unknown public key for validator ${signer}`;
+    }
+
+    // A key counts once, and only for the address it derives to
+    const key = normalizeKey(validator.publicKey);
+    if (
+      !key ||
+      CryptoUtils.publicKeyToAddress(validator.publicKey) !== signer
+    ) {
+      return `Public key of ${signer} does not belong to it`;
+    }
+    if (keys.has(key)) {
+      return `Signer ${signer} shares its public key with another signer`;
+    }
+    keys.add(key);
+
+    const payload: VotePayload = {
+      type: 'PRECOMMIT',
+      height: certificate.height,
+      round: certificate.round,
+      blockHash: certificate.blockHash,
+    };
+    if (
+      !verifyVoteSignature(
+        payload,
+        certificate.signatures[index],
+        validator.publicKey
+      )
+    ) {
+      return `Invalid precommit signature from ${signer}`;
+    }
+
+    signedPower += validator.votingPower;
+  }
+
+  if (totalPower === 0 || signedPower * 3 <= totalPower * 2) {
+    return `Certificate has ${signedPower} of ${totalPower} voting power, more than two thirds required`;
+  }
+
+  return null;
+}
+
+function normalizeKey(publicKey: string): string | null {
+  try {
+    return CryptoUtils.normalizePublicKey(publicKey);
+  } catch {
+    return null;
+  }
+}
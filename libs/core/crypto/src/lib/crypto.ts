@@ -1,5 +1,6 @@
 import * as crypto from 'crypto';
 import { ec as EC } from 'elliptic';
+import { computeMerkleRoot } from '@digital-chuckram/utils';
 
 const ec = new EC('secp256k1');
 
@@ -13,6 +14,16 @@ export class CryptoUtils {
     };
   }
 
+  static getPublicKey(privateKey: string): string {
+    return ec.keyFromPrivate(privateKey).getPublic('hex');
+  }
+
+  // Uncompressed hex form of a public key. The same key can be written
+  // compressed too, which would derive another address.
+  static normalizePublicKey(publicKey: string): string {
+    return ec.keyFromPublic(publicKey, 'hex').getPublic('hex');
+  }
+
   static publicKeyToAddress(publicKey: string): string {
     const hash = crypto.createHash('sha256').update(publicKey).digest();
 
@@ -46,24 +57,6 @@ export class CryptoUtils {
   }
 
   static generateMerkleRoot(hashes: string[]): string {
-    if (hashes.length === 0) return '';
-    if (hashes.length === 1) return hashes[0];
-
-    const tree = [...hashes];
-
-    while (tree.length > 1) {
-      const newLevel = [];
-
-      for (let i = 0; i < tree.length; i += 2) {
-        const left = tree[i];
-        const right = tree[i + 1] || left;
-        newLevel.push(this.hash(left + right));
-      }
-
-      tree.length = 0;
-      tree.push(...newLevel);
-    }
-
-    return tree[0];
+    return computeMerkleRoot(hashes);
   }
 }
@@ -0,0 +1,2 @@
+export * from './lib/light-client.js';
+export * from './lib/http-source.js';
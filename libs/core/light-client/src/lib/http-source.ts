@@ -0,0 +1,57 @@
+import { ValidatorSet } from '@digital-chuckram/types';
+import { TransactionProof } from '@digital-chuckram/blockchain';
+import {
+  AccountProof,
+  LightClientSource,
+  SignedHeader,
+} from './light-client.js';
+
+// Light client data from a blockchain node's HTTP API. Works wherever fetch
+// is available, in browsers, React Native and Node.
+export class HttpLightClientSource implements LightClientSource {
+  constructor(
+    private baseUrl: string,
+    private apiKey?: string,
+    private fetchFn: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  async getCertifiedHeight(): Promise<number> {
+    const info = await this.get('/blockchain/info');
+    return info.certifiedHeight;
+  }
+
+  getHeader(height: number): Promise<SignedHeader> {
+    return this.get(`/blockchain/blocks/${height}/header`);
+  }
+
+  getValidatorSet(height: number): Promise<ValidatorSet> {
+    return this.get(`/blockchain/validators/at/${height}`);
+  }
+
+  getAccountProof(address: string, height: number): Promise<AccountProof> {
+    return this.get(
+      `/blockchain/address/${encodeURIComponent(
+        address
+      )}/proof?height=${height}`
+    );
+  }
+
+  getTransactionProof(transactionId: string): Promise<TransactionProof> {
+    return this.get(
+      `/blockchain/transactions/${encodeURIComponent(transactionId)}/proof`
+    );
+  }
+
+  private async get(path: string): Promise<any> {
+    const response = await this.fetchFn(`${this.baseUrl}${path}`, {
+      headers: this.apiKey ? { 'X-API-Key': this.apiKey } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Request for ${path} failed with status ${response.status}`
+      );
+    }
+    return response.json();
+  }
+}
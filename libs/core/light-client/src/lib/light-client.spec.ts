@@ -0,0 +1,254 @@
+import {
+  Transaction,
+  TransactionType,
+  Validator,
+  ValidatorSet,
+} from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import {
+  calculateMerkleRoot,
+  getMerkleProof,
+  hashBlock,
+  hashTransaction,
+} from '@digital-chuckram/utils';
+import { AccountState, StateTree } from '@digital-chuckram/blockchain';
+import {
+  createCommitCertificate,
+  hashValidatorSet,
+  signVote,
+} from '@digital-chuckram/consensus';
+import {
+  AccountProof,
+  LightClient,
+  LightClientSource,
+  SignedHeader,
+} from './light-client';
+
+describe('LightClient', () => {
+  const EPOCH_LENGTH = 2;
+  const keys = [
+    CryptoUtils.generateKeyPair(),
+    CryptoUtils.generateKeyPair(),
+    CryptoUtils.generateKeyPair(),
+  ];
+
+  const validator = (index: number, votingPower: number): Validator => ({
+    address: keys[index].address,
+    publicKey: keys[index].publicKey,
+    type: 'CITIZEN',
+    votingPower,
+    active: true,
+    lastActiveBlock: 0,
+    registeredAt: 0,
+  });
+
+  const byAddress = (validators: Validator[]) =>
+    validators.sort((a, b) => (a.address < b.address ? -1 : 1));
+
+  const set0: ValidatorSet = {
+    epoch: 0,
+    startHeight: 0,
+    validators: byAddress([validator(0, 5000), validator(1, 5000)]),
+  };
+  const set1: ValidatorSet = {
+    epoch: 1,
+    startHeight: 2,
+    validators: byAddress([
+      validator(0, 3334),
+      validator(1, 3333),
+      validator(2, 3333),
+    ]),
+  };
+
+  const transaction: Transaction = {
+    id: 'tx1',
+    from: keys[0].address,
+    to: 'CHKrecipient',
+    amount: 100n,
+    fee: 1n,
+    timestamp: 1000,
+    type: TransactionType.TRANSFER,
+    signature: 'signature',
+    nonce: 0,
+  };
+
+  const recipient: AccountState = { balance: 100n, nonce: 0, votingPower: 0 };
+  const state = new StateTree(new Map([['CHKrecipient', recipient]]));
+
+  const makeHeader = (
+    height: number,
+    previousHash: string,
+    extra: Partial<SignedHeader['header']> = {}
+  ): SignedHeader => {
+    const signed: SignedHeader = {
+      header: {
+        version: 1,
+        previousHash,
+        merkleRoot: calculateMerkleRoot([]),
+        timestamp: 1000 + height,
+        height,
+        validatorAddress: keys[0].address,
+        ...extra,
+      },
+      hash: '',
+      nonce: 0,
+    };
+    signed.hash = hashBlock(signed);
+    return signed;
+  };
+
+  const certify = (signed: SignedHeader, signers: number[]) => {
+    signed.certificate = createCommitCertificate(
+      signed.hash,
+      signed.header.height,
+      0,
+      signers.map((index) => ({
+        validatorAddress: keys[index].address,
+        signature: signVote(
+          {
+            type: 'PRECOMMIT',
+            height: signed.header.height,
+            round: 0,
+            blockHash: signed.hash,
+          },
+          keys[index].privateKey
+        ),
+      }))
+    );
+    return signed;
+  };
+
+  // Genesis, then the last block of epoch 0 with a transaction, then the
+  // first block of epoch 1
+  const genesis = makeHeader(0, '0'.repeat(64));
+  const block1 = certify(
+    makeHeader(1, genesis.hash, {
+      merkleRoot: calculateMerkleRoot([transaction]),
+      stateRoot: state.getRoot(),
+      nextValidatorSetHash: hashValidatorSet(set1),
+    }),
+    [0, 1]
+  );
+  const block2 = certify(makeHeader(2, block1.hash), [0, 1, 2]);
+
+  class MemorySource implements LightClientSource {
+    headers = [genesis, block1, block2];
+    validatorSets = [set0, set1];
+    account: AccountProof['account'] = {
+      balance: '100',
+      nonce: 0,
+      votingPower: 0,
+    };
+
+    async getCertifiedHeight() {
+      return this.headers
+        .map((signed) => !!signed.certificate)
+        .lastIndexOf(true);
+    }
+
+    async getHeader(height: number) {
+      return this.headers[height];
+    }
+
+    async getValidatorSet(height: number) {
+      return [...this.validatorSets]
+        .reverse()
+        .find((set) => set.startHeight <= height)!;
+    }
+
+    async getAccountProof(address: string) {
+      return { account: this.account, proof: state.getProof(address) };
+    }
+
+    async getTransactionProof(transactionId: string) {
+      return {
+        transactionId,
+        blockHash: block1.hash,
+        blockHeight: 1,
+        merkleRoot: block1.header.merkleRoot,
+        proof: getMerkleProof([hashTransaction(transaction)], 0),
+      };
+    }
+  }
+
+  const createClient = (source: LightClientSource) =>
+    new LightClient({
+      source,
+      checkpoint: { header: genesis, validatorSet: set0 },
+      epochLength: EPOCH_LENGTH,
+    });
+
+  it('should sync across a validator set change and verify state', async () => {
+    const client = createClient(new MemorySource());
+
+    const latest = await client.sync();
+
+    expect(latest.hash).toBe(block2.hash);
+    expect(client.getValidatorSetAt(2)).toEqual(set1);
+    expect(await client.getAccount('CHKrecipient', 1)).toEqual(recipient);
+    expect((await client.verifyTransaction(transaction)).hash).toBe(
+      block1.hash
+    );
+  });
+
+  it('should verify uncertified headers through a later certified one', async () => {
+    const set2: ValidatorSet = { ...set1, epoch: 2, startHeight: 4 };
+    const uncertified = { ...block2, certificate: undefined };
+    const block3 = certify(
+      makeHeader(3, block2.hash, {
+        nextValidatorSetHash: hashValidatorSet(set2),
+      }),
+      [0, 1, 2]
+    );
+    const source = new MemorySource();
+    source.headers = [genesis, block1, uncertified, block3];
+    source.validatorSets = [set0, set1, set2];
+    const client = createClient(source);
+
+    expect((await client.sync()).hash).toBe(block3.hash);
+    expect(client.getHeader(2)).toBe(uncertified);
+    expect(client.getValidatorSetAt(4)).toEqual(set2);
+  });
+
+  it('should only sync to a certified header', async () => {
+    const source = new MemorySource();
+    source.headers = [genesis, block1, { ...block2, certificate: undefined }];
+
+    await expect(createClient(source).sync(2)).rejects.toThrow(
+      'Header 2 rejected: Header has no commit certificate'
+    );
+    expect((await createClient(source).sync()).hash).toBe(block1.hash);
+  });
+
+  it('should reject a validator set the header does not commit to', async () => {
+    const source = new MemorySource();
+    source.validatorSets = [
+      set0,
+      { ...set1, validators: byAddress([validator(2, 10000)]) },
+    ];
+
+    await expect(createClient(source).sync()).rejects.toThrow(
+      'Validator set for height 2 does not match header 1'
+    );
+  });
+
+  it('should reject headers without enough voting power', async () => {
+    const source = new MemorySource();
+    source.headers = [genesis, certify({ ...block1 }, [0])];
+
+    await expect(createClient(source).sync()).rejects.toThrow(
+      'Header 1 rejected'
+    );
+  });
+
+  it('should reject a tampered account', async () => {
+    const source = new MemorySource();
+    source.account = { balance: '1000000', nonce: 0, votingPower: 0 };
+    const client = createClient(source);
+    await client.sync(1);
+
+    await expect(client.getAccount('CHKrecipient', 1)).rejects.toThrow(
+      'Invalid state proof'
+    );
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  BlockHeader,
+  CommitCertificate,
+  Transaction,
+  ValidatorSet,
+} from '@digital-chuckram/types';
+import { hashBlock } from '@digital-chuckram/utils';
+import {
+  AccountState,
+  StateProof,
+  TransactionProof,
+  verifyStateProof,
+  verifyTransactionProof,
+} from '@digital-chuckram/blockchain';
+import {
+  hashValidatorSet,
+  isEpochEnd,
+  verifyCommitCertificate,
+} from '@digital-chuckram/consensus';
+
+// Light client that follows the chain by block headers alone. Headers are
+// certified by precommits from more than two thirds of the voting power of
+// their epoch's validators, and a certified header vouches for the headers
+// before it, which it links to by their hashes. Only the header synced to and
+// the last header of each epoch must be certified: the latter commits to the
+// next validator set, so trust carries over from one set to the next.
+// Account state and transactions are then checked against verified headers
+// with Merkle proofs, without trusting the node that serves them.
+
+// A block header as served to light clients, without the transactions
+export interface SignedHeader {
+  header: BlockHeader;
+  hash: string;
+  nonce: number;
+  certificate?: CommitCertificate;
+}
+
+// Account state with a proof against a state root, amounts as decimal
+// strings as served over JSON
+export interface AccountProof {
+  account: {
+    balance: string;
+    nonce: number;
+    votingPower: number;
+    validator?: {
+      type: string;
+      stake: string;
+      active: boolean;
+      jailed?: boolean;
+      publicKey?: string;
+      delegations?: Record<string, string>;
+      unbonding?: {
+        delegator: string;
+        amount: string;
+        releaseHeight: number;
+      }[];
+    };
+  } | null;
+  proof: StateProof;
+}
+
+// Where the client gets chain data from, usually a node's HTTP API
+export interface LightClientSource {
+  getCertifiedHeight(): Promise<number>; // Latest block with a commit certificate
+  getHeader(height: number): Promise<SignedHeader>;
+  getValidatorSet(height: number): Promise<ValidatorSet>; // Set in force at the height
+  getAccountProof(address: string, height: number): Promise<AccountProof>;
+  getTransactionProof(transactionId: string): Promise<TransactionProof>;
+}
+
+// Starting point the client trusts without proof, such as the genesis block
+// and its validators
+export interface TrustedCheckpoint {
+  header: SignedHeader;
+  validatorSet: ValidatorSet; // Validators of the blocks after the header
+}
+
+export interface LightClientOptions {
+  source: LightClientSource;
+  checkpoint: TrustedCheckpoint;
+  epochLength: number; // Blocks per validator set, as configured on the chain
+}
+
+export class LightClient {
+  private source: LightClientSource;
+  private epochLength: number;
+  private headers: Map<number, SignedHeader> = new Map();
+  private validatorSets: ValidatorSet[] = []; // Oldest first
+  private latest: SignedHeader;
+
+  constructor(options: LightClientOptions) {
+    const { header, validatorSet } = options.checkpoint;
+    if (hashBlock(header) !== header.hash) {
+      throw new Error('Checkpoint header does not match its hash');
+    }
+
+    this.source = options.source;
+    this.epochLength = options.epochLength;
+    this.headers.set(header.header.height, header);
+    this.validatorSets.push(validatorSet);
+    this.latest = header;
+  }
+
+  // Download and verify headers up to a height, by default the source's
+  // latest certified one, returning the latest verified header
+  async sync(height?: number): Promise<SignedHeader> {
+    const target = height ?? (await this.source.getCertifiedHeight());
+    const pending: SignedHeader[] = []; // Linked to the verified chain, not yet certified
+
+    for (
+      let nextHeight = this.latest.header.height + 1;
+      nextHeight <= target;
+      nextHeight++
+    ) {
+      const signed = await this.source.getHeader(nextHeight);
+      const reason = this.checkHeader(
+        signed,
+        nextHeight,
+        pending[pending.length - 1] ?? this.latest,
+        nextHeight === target || isEpochEnd(nextHeight, this.epochLength)
+      );
+      if (reason) {
+        throw new Error(`Header ${nextHeight} rejected: ${reason}`);
+      }
+      pending.push(signed);
+
+      if (signed.certificate) {
+        for (const verified of pending) {
+          this.headers.set(verified.header.height, verified);
+        }
+        pending.length = 0;
+        this.latest = signed;
+
+        if (isEpochEnd(nextHeight, this.epochLength)) {
+          await this.followValidatorSet(signed);
+        }
+      }
+    }
+
+    return this.latest;
+  }
+
+  getLatestHeader(): SignedHeader {
+    return this.latest;
+  }
+
+  getHeader(height: number): SignedHeader | undefined {
+    return this.headers.get(height);
+  }
+
+  // Verified validator set in force at a height
+  getValidatorSetAt(height: number): ValidatorSet | undefined {
+    for (let i = this.validatorSets.length - 1; i >= 0; i--) {
+      if (this.validatorSets[i].startHeight <= height) {
+        return this.validatorSets[i];
+      }
+    }
+    return undefined;
+  }
+
+  // Account state at a verified height, checked against that header's state
+  // root. Returns null if the account does not exist.
+  async getAccount(
+    address: string,
+    height: number = this.latest.header.height
+  ): Promise<AccountState | null> {
+    const stateRoot = this.getVerifiedHeader(height).header.stateRoot;
+    if (!stateRoot) {
+      throw new Error(`Header ${height} has no state root`);
+    }
+
+    const { account, proof } = await this.source.getAccountProof(
+      address,
+      height
+    );
+    const state: AccountState | null = account && {
+      balance: BigInt(account.balance),
+      nonce: account.nonce,
+      votingPower: account.votingPower,
+      validator: account.validator && {
+        ...account.validator,
+        stake: BigInt(account.validator.stake),
+        delegations: Object.fromEntries(
+          Object.entries(account.validator.delegations ?? {}).map(
+            ([delegator, amount]) => [delegator, BigInt(amount)]
+          )
+        ),
+        unbonding: (account.validator.unbonding ?? []).map((entry) => ({
+          ...entry,
+          amount: BigInt(entry.amount),
+        })),
+      },
+    };
+
+    if (!verifyStateProof(stateRoot, address, state, proof)) {
+      throw new Error(`Invalid state proof for ${address} at height ${height}`);
+    }
+    return state;
+  }
+
+  // Check that a transaction is included in a verified block, returning the
+  // block's header
+  async verifyTransaction(transaction: Transaction): Promise<SignedHeader> {
+    const proof = await this.source.getTransactionProof(transaction.id);
+    const signed = this.getVerifiedHeader(proof.blockHeight);
+
+    if (
+      proof.blockHash !== signed.hash ||
+      proof.merkleRoot !== signed.header.merkleRoot ||
+      !verifyTransactionProof(transaction, proof)
+    ) {
+      throw new Error(`Invalid inclusion proof for ${transaction.id}`);
+    }
+    return signed;
+  }
+
+  // Check that a header extends the previous one and that a certificate it
+  // carries is signed by its validators, returning the rejection reason or
+  // null if it is valid
+  private checkHeader(
+    signed: SignedHeader,
+    height: number,
+    previous: SignedHeader,
+    requireCertificate: boolean
+  ): string | null {
+    const { header, hash, certificate } = signed;
+
+    if (header.height !== height) {
+      return `Header is for height ${header.height}`;
+    }
+    if (header.previousHash !== previous.hash) {
+      return 'Header does not extend the verified chain';
+    }
+    if (hashBlock(signed) !== hash) {
+      return 'Header does not match its hash';
+    }
+    if (!certificate) {
+      return requireCertificate ? 'Header has no commit certificate' : null;
+    }
+
+    const validatorSet = this.getValidatorSetAt(height);
+    if (!validatorSet) {
+      return 'No validator set for the height';
+    }
+
+    // Members of a validator set are active for its whole epoch
+    return verifyCommitCertificate(
+      certificate,
+      signed,
+      validatorSet.validators.map((v) => ({ ...v, active: true }))
+    );
+  }
+
+  // Accept the validators of the next epoch if they match the commitment in
+  // the certified last header of the current one
+  private async followValidatorSet(signed: SignedHeader): Promise<void> {
+    const { height, nextValidatorSetHash } = signed.header;
+    if (!nextValidatorSetHash) {
+      throw new Error(
+        `Header ${height} does not commit to the next validators`
+      );
+    }
+
+    const validatorSet = await this.source.getValidatorSet(height + 1);
+    if (
+      validatorSet.startHeight !== height + 1 ||
+      hashValidatorSet(validatorSet) !== nextValidatorSetHash
+    ) {
+      throw new Error(
+        `Validator set for height ${height + 1} does not match header ${height}`
+      );
+    }
+
+    this.validatorSets.push(validatorSet);
+  }
+
+  private getVerifiedHeader(height: number): SignedHeader {
+    const signed = this.headers.get(height);
+    if (!signed) {
+      throw new Error(`Header ${height} has not been verified`);
+    }
+    return signed;
+  }
+}
@@ -1 +1,5 @@
 export * from './lib/p2p.js';
+export * from './lib/secure-session.js';
+export * from './lib/node-key.js';
+export * from './lib/peer-scoring.js';
+export * from './lib/gossip.js';
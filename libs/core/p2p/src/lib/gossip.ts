@@ -0,0 +1,612 @@
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import {
+  Block,
+  Transaction,
+  MessageType,
+  GossipConfig,
+  GossipMetrics,
+  InventoryItem,
+  InventoryPayload,
+  CompactBlockPayload,
+  BlockTransactionsRequestPayload,
+  BlockTransactionsPayload,
+  PropagationStats,
+} from '@digital-chuckram/types';
+import {
+  calculateMerkleRoot,
+  hashBlock,
+  hashTransaction,
+} from '@digital-chuckram/utils';
+
+// Gossip of new blocks and transactions. New items are announced by hash in
+// an INVENTORY to a few random peers that do not know them yet, and peers
+// fetch the bodies they are missing with GET_DATA. Transaction IDs are chosen
+// by their senders, so transactions go by their content hash instead. Blocks
+// travel as compact blocks: the header with a short ID per transaction, which
+// the receiver matches against its pending transactions, fetching only those
+// it lacks, or all of them when the rebuilt block does not match its merkle
+// root. Bodies that do not match their hash are dropped.
+// Items the application accepted are remembered in bounded caches so
+// duplicates are dropped; one it rejects can still be fetched from another
+// peer once the request times out. Emits 'block' and 'transaction' with each
+// new body and the peer it came from, and 'misbehavior' for peers sending
+// malformed gossip.
+
+export const DEFAULT_GOSSIP_CONFIG: GossipConfig = {
+  blockFanout: 8,
+  transactionFanout: 4,
+  seenCacheSize: 50000,
+  requestTimeout: 5000,
+};
+
+const MAX_INVENTORY_ITEMS = 1000;
+const MAX_PEER_KNOWN_ITEMS = 5000;
+const MAX_RECENT_BLOCKS = 100;
+const MAX_PENDING_BLOCKS = 100;
+
+export type GossipSend = (
+  peerId: string,
+  type: MessageType,
+  payload: any
+) => boolean;
+
+// Where bodies come from besides gossip: the chain and the mempool
+export interface GossipSource {
+  getBlock(hash: string): Block | undefined;
+  getPendingTransactions(): Transaction[];
+}
+
+// Insertion ordered map that forgets its oldest entries beyond a capacity
+export class SeenCache<T> {
+  private entries: Map<string, T> = new Map();
+
+  constructor(private readonly capacity: number) {}
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: string): T | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  values(): IterableIterator<T> {
+    return this.entries.values();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Short ID of a transaction in a compact block, salted with the block hash so
+// collisions cannot be planned across blocks
+export function shortTransactionId(blockHash: string, txId: string): string {
+  return createHash('sha256')
+    .update(`${blockHash}:${txId}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+interface Request {
+  peerId: string;
+  announcedAt: number; // First announcement, for the fetch time
+  requestedAt: number;
+}
+
+// Compact block waiting for transactions from the peer that sent it
+interface PendingBlock {
+  peerId: string;
+  payload: CompactBlockPayload;
+  transactions: (Transaction | undefined)[];
+  requestedAt: number;
+  full: boolean; // Every transaction was requested
+}
+
+class PropagationRecorder {
+  private received = 0;
+  private duplicates = 0;
+  private totalLatency = 0;
+  private maxLatency = 0;
+  private fetched = 0;
+  private totalFetchTime = 0;
+
+  record(latency: number, fetchTime?: number): void {
+    this.received++;
+    this.totalLatency += latency;
+    this.maxLatency = Math.max(this.maxLatency, latency);
+    if (fetchTime !== undefined) {
+      this.fetched++;
+      this.totalFetchTime += fetchTime;
+    }
+  }
+
+  duplicate(): void {
+    this.duplicates++;
+  }
+
+  getStats(): PropagationStats {
+    return {
+      received: this.received,
+      duplicates: this.duplicates,
+      averageLatency: this.received ? this.totalLatency / this.received : 0,
+      maxLatency: this.maxLatency,
+      averageFetchTime: this.fetched ? this.totalFetchTime / this.fetched : 0,
+    };
+  }
+}
+
+export class Gossip extends EventEmitter {
+  private readonly config: GossipConfig;
+  private source?: GossipSource;
+  private seen: SeenCache<true>; // Items the application accepted
+  private delivered: SeenCache<number>; // Items handed to the application, by when
+  private announced: SeenCache<true>; // Items we announced ourselves
+  private known: Map<string, SeenCache<true>> = new Map(); // Items each peer has
+  private requests: SeenCache<Request>;
+  private blocks: SeenCache<Block> = new SeenCache(MAX_RECENT_BLOCKS);
+  private transactions: SeenCache<Transaction>;
+  private pendingBlocks: SeenCache<PendingBlock> = new SeenCache(
+    MAX_PENDING_BLOCKS
+  );
+  private blockStats = new PropagationRecorder();
+  private transactionStats = new PropagationRecorder();
+  private reconstructed = 0;
+  private missingTransactions = 0;
+
+  constructor(
+    config: Partial<GossipConfig>,
+    private readonly send: GossipSend,
+    private readonly getPeerIds: () => string[]
+  ) {
+    super();
+    this.config = { ...DEFAULT_GOSSIP_CONFIG, ...config };
+    this.seen = new SeenCache(this.config.seenCacheSize);
+    this.delivered = new SeenCache(this.config.seenCacheSize);
+    this.announced = new SeenCache(this.config.seenCacheSize);
+    this.requests = new SeenCache(this.config.seenCacheSize);
+    this.transactions = new SeenCache(this.config.seenCacheSize);
+  }
+
+  setSource(source: GossipSource): void {
+    this.source = source;
+  }
+
+  // Announce a block we produced or accepted to peers that lack it
+  announceBlock(block: Block): void {
+    const key = itemKey('block', block.hash);
+    this.blocks.set(block.hash, block);
+    this.accept(key);
+    this.announce({ type: 'block', hash: block.hash }, this.config.blockFanout);
+  }
+
+  announceTransaction(transaction: Transaction): void {
+    const hash = hashTransaction(transaction);
+    this.transactions.set(hash, transaction);
+    this.accept(itemKey('transaction', hash));
+    this.announce({ type: 'transaction', hash }, this.config.transactionFanout);
+  }
+
+  // Ask the announcing peer for items we have not seen and are not already
+  // fetching from another peer
+  handleInventory(payload: InventoryPayload, peerId: string): void {
+    const items = this.readItems(payload, peerId);
+    if (!items) return;
+
+    const now = Date.now();
+    const wanted: InventoryItem[] = [];
+
+    for (const item of items) {
+      const key = itemKey(item.type, item.hash);
+      this.markKnown(peerId, key);
+
+      if (this.seen.has(key) || this.isDelivered(key)) {
+        this.getRecorder(item.type).duplicate();
+        continue;
+      }
+      if (item.type === 'block' && this.source?.getBlock(item.hash)) {
+        this.seen.set(key, true);
+        continue;
+      }
+
+      const request = this.requests.get(key);
+      if (request && now - request.requestedAt < this.config.requestTimeout) {
+        continue;
+      }
+
+      this.requests.set(key, {
+        peerId,
+        announcedAt: request?.announcedAt ?? now,
+        requestedAt: now,
+      });
+      wanted.push(item);
+    }
+
+    if (wanted.length > 0) {
+      const request: InventoryPayload = { items: wanted };
+      this.send(peerId, MessageType.GET_DATA, request);
+    }
+  }
+
+  // Serve requested bodies: transactions in full, blocks as compact blocks
+  handleGetData(payload: InventoryPayload, peerId: string): void {
+    const items = this.readItems(payload, peerId);
+    if (!items) return;
+
+    for (const item of items) {
+      this.markKnown(peerId, itemKey(item.type, item.hash));
+
+      if (item.type === 'transaction') {
+        const transaction = this.transactions.get(item.hash);
+        if (transaction) {
+          this.send(peerId, MessageType.TRANSACTION, transaction);
+        }
+      } else {
+        const block = this.findBlock(item.hash);
+        if (block) {
+          this.send(peerId, MessageType.COMPACT_BLOCK, compactBlock(block));
+        }
+      }
+    }
+  }
+
+  // A transaction is known by its content hash, so a body that differs from
+  // the one requested does not answer the request
+  handleTransaction(transaction: Transaction, peerId: string): void {
+    if (typeof transaction?.id !== 'string') {
+      this.emit('misbehavior', peerId, 'invalid-message');
+      return;
+    }
+
+    const key = itemKey('transaction', hashTransaction(transaction));
+    this.markKnown(peerId, key);
+    if (this.seen.has(key) || this.isDelivered(key)) {
+      this.transactionStats.duplicate();
+      return;
+    }
+
+    this.delivered.set(key, Date.now());
+    this.transactionStats.record(
+      latencySince(transaction.timestamp),
+      this.completeRequest(key)
+    );
+    this.emit('transaction', transaction, peerId);
+  }
+
+  // A full block, as sent by peers that do not use compact blocks
+  handleBlock(block: Block, peerId: string): void {
+    if (!isBlockHeader(block) || !Array.isArray(block.transactions)) {
+      this.emit('misbehavior', peerId, 'invalid-message');
+      return;
+    }
+    if (hashBlock(block) !== block.hash || !hasMerkleRoot(block)) {
+      this.emit('misbehavior', peerId, 'invalid-block');
+      return;
+    }
+    this.deliverBlock(block, peerId);
+  }
+
+  // Rebuild a block from our pending transactions, asking the peer for any
+  // we do not have
+  handleCompactBlock(payload: CompactBlockPayload, peerId: string): void {
+    if (
+      !isBlockHeader(payload?.block) ||
+      !Array.isArray(payload.shortIds) ||
+      !payload.shortIds.every((id) => typeof id === 'string')
+    ) {
+      this.emit('misbehavior', peerId, 'invalid-message');
+      return;
+    }
+    if (hashBlock(payload.block) !== payload.block.hash) {
+      this.emit('misbehavior', peerId, 'invalid-block');
+      return;
+    }
+
+    const { hash } = payload.block;
+    const key = itemKey('block', hash);
+    this.markKnown(peerId, key);
+    if (this.seen.has(key) || this.isDelivered(key)) {
+      this.blockStats.duplicate();
+      return;
+    }
+
+    const pending = this.pendingBlocks.get(hash);
+    if (
+      pending &&
+      Date.now() - pending.requestedAt < this.config.requestTimeout
+    ) {
+      return; // Already completing it from another peer
+    }
+
+    const candidates = new Map<string, Transaction>();
+    const addCandidate = (transaction: Transaction) =>
+      candidates.set(shortTransactionId(hash, transaction.id), transaction);
+    this.source?.getPendingTransactions().forEach(addCandidate);
+    Array.from(this.transactions.values()).forEach(addCandidate);
+
+    const transactions = payload.shortIds.map((id) => candidates.get(id));
+    const missing = transactions.filter((transaction) => !transaction).length;
+
+    if (missing > 0) {
+      this.missingTransactions += missing;
+      this.requestTransactions(payload, peerId, transactions);
+      return;
+    }
+
+    const block = {
+      ...payload.block,
+      transactions: transactions as Transaction[],
+    };
+    if (hasMerkleRoot(block)) {
+      this.reconstructed++;
+      this.deliverBlock(block, peerId);
+      return;
+    }
+
+    // Short IDs matched the wrong pending transactions
+    this.requestTransactions(payload, peerId);
+  }
+
+  handleGetBlockTransactions(
+    payload: BlockTransactionsRequestPayload,
+    peerId: string
+  ): void {
+    const block = this.findBlock(payload?.blockHash);
+    if (!block) return;
+
+    const indexes = payload.indexes;
+    if (
+      !Array.isArray(indexes) ||
+      !indexes.every(
+        (index) =>
+          Number.isInteger(index) &&
+          index >= 0 &&
+          index < block.transactions.length
+      )
+    ) {
+      this.emit('misbehavior', peerId, 'invalid-message');
+      return;
+    }
+
+    const response: BlockTransactionsPayload = {
+      blockHash: block.hash,
+      transactions: indexes.map((index) => block.transactions[index]),
+    };
+    this.send(peerId, MessageType.BLOCK_TRANSACTIONS, response);
+  }
+
+  // The missing transactions of a compact block, in the order requested
+  handleBlockTransactions(
+    payload: BlockTransactionsPayload,
+    peerId: string
+  ): void {
+    const pending = this.pendingBlocks.get(payload?.blockHash);
+    if (!pending || pending.peerId !== peerId) return;
+    this.pendingBlocks.delete(payload.blockHash);
+
+    const { shortIds } = pending.payload;
+    const received = Array.isArray(payload.transactions)
+      ? [...payload.transactions]
+      : [];
+    const transactions = pending.transactions.map(
+      (transaction) => transaction ?? received.shift()
+    );
+
+    const complete =
+      received.length === 0 &&
+      transactions.every(
+        (transaction, index) =>
+          typeof transaction?.id === 'string' &&
+          shortTransactionId(payload.blockHash, transaction.id) ===
+            shortIds[index]
+      );
+    if (!complete) {
+      this.emit('misbehavior', peerId, 'invalid-message');
+      return;
+    }
+
+    const block = {
+      ...pending.payload.block,
+      transactions: transactions as Transaction[],
+    };
+    if (hasMerkleRoot(block)) {
+      this.deliverBlock(block, peerId);
+    } else if (pending.full) {
+      this.emit('misbehavior', peerId, 'invalid-block');
+    } else {
+      // Some of our own transactions share a short ID with the block's
+      this.requestTransactions(pending.payload, peerId);
+    }
+  }
+
+  // Forget what a disconnected peer knows
+  removePeer(peerId: string): void {
+    this.known.delete(peerId);
+  }
+
+  getMetrics(): GossipMetrics {
+    return {
+      blocks: this.blockStats.getStats(),
+      transactions: this.transactionStats.getStats(),
+      compactBlocks: {
+        reconstructed: this.reconstructed,
+        missingTransactions: this.missingTransactions,
+      },
+    };
+  }
+
+  // Hand a complete block to the application, which announces it on if it
+  // accepts it
+  private deliverBlock(block: Block, peerId: string): void {
+    const key = itemKey('block', block.hash);
+    this.markKnown(peerId, key);
+    if (this.seen.has(key) || this.isDelivered(key)) {
+      this.blockStats.duplicate();
+      return;
+    }
+
+    this.delivered.set(key, Date.now());
+    this.pendingBlocks.delete(block.hash);
+    this.blockStats.record(
+      latencySince(block.header.timestamp),
+      this.completeRequest(key)
+    );
+    this.emit('block', block, peerId);
+  }
+
+  // Ask the peer for the transactions of a compact block we lack, or for
+  // all of them when none are given
+  private requestTransactions(
+    payload: CompactBlockPayload,
+    peerId: string,
+    transactions: (Transaction | undefined)[] = payload.shortIds.map(
+      () => undefined
+    )
+  ): void {
+    const indexes = transactions
+      .map((transaction, index) => (transaction ? -1 : index))
+      .filter((index) => index >= 0);
+
+    this.pendingBlocks.set(payload.block.hash, {
+      peerId,
+      payload,
+      transactions,
+      requestedAt: Date.now(),
+      full: indexes.length === transactions.length,
+    });
+    const request: BlockTransactionsRequestPayload = {
+      blockHash: payload.block.hash,
+      indexes,
+    };
+    this.send(peerId, MessageType.GET_BLOCK_TRANSACTIONS, request);
+  }
+
+  private accept(key: string): void {
+    this.seen.set(key, true);
+    this.delivered.delete(key);
+  }
+
+  // Whether the application is still deciding on an item handed to it
+  private isDelivered(key: string): boolean {
+    const deliveredAt = this.delivered.get(key);
+    return (
+      deliveredAt !== undefined &&
+      Date.now() - deliveredAt < this.config.requestTimeout
+    );
+  }
+
+  // Send an inventory to up to fanout random peers not known to have the item
+  private announce(item: InventoryItem, fanout: number): void {
+    const key = itemKey(item.type, item.hash);
+    if (this.announced.has(key)) return;
+    this.announced.set(key, true);
+
+    const peerIds = shuffle(
+      this.getPeerIds().filter((peerId) => !this.known.get(peerId)?.has(key))
+    ).slice(0, fanout);
+
+    const inventory: InventoryPayload = { items: [item] };
+    for (const peerId of peerIds) {
+      if (this.send(peerId, MessageType.INVENTORY, inventory)) {
+        this.markKnown(peerId, key);
+      }
+    }
+  }
+
+  // Fetch time of a requested item, which is no longer outstanding
+  private completeRequest(key: string): number | undefined {
+    const request = this.requests.get(key);
+    this.requests.delete(key);
+    return request ? Date.now() - request.announcedAt : undefined;
+  }
+
+  private readItems(
+    payload: InventoryPayload,
+    peerId: string
+  ): InventoryItem[] | null {
+    const items = payload?.items;
+    if (
+      !Array.isArray(items) ||
+      items.length > MAX_INVENTORY_ITEMS ||
+      !items.every(
+        (item) =>
+          (item?.type === 'block' || item?.type === 'transaction') &&
+          typeof item.hash === 'string'
+      )
+    ) {
+      this.emit('misbehavior', peerId, 'invalid-message');
+      return null;
+    }
+    return items;
+  }
+
+  private findBlock(hash: string): Block | undefined {
+    return this.blocks.get(hash) ?? this.source?.getBlock(hash);
+  }
+
+  private markKnown(peerId: string, key: string): void {
+    let known = this.known.get(peerId);
+    if (!known) {
+      known = new SeenCache(MAX_PEER_KNOWN_ITEMS);
+      this.known.set(peerId, known);
+    }
+    known.set(key, true);
+  }
+
+  private getRecorder(type: InventoryItem['type']): PropagationRecorder {
+    return type === 'block' ? this.blockStats : this.transactionStats;
+  }
+}
+
+function itemKey(type: InventoryItem['type'], hash: string): string {
+  return `${type}:${hash}`;
+}
+
+function compactBlock(block: Block): CompactBlockPayload {
+  const { transactions, ...header } = block;
+  return {
+    block: header,
+    shortIds: transactions.map((transaction) =>
+      shortTransactionId(block.hash, transaction.id)
+    ),
+  };
+}
+
+function isBlockHeader(block: Omit<Block, 'transactions'>): boolean {
+  return (
+    typeof block?.hash === 'string' &&
+    typeof block.header?.timestamp === 'number'
+  );
+}
+
+function hasMerkleRoot(block: Block): boolean {
+  return calculateMerkleRoot(block.transactions) === block.header.merkleRoot;
+}
+
+function latencySince(timestamp: number): number {
+  return typeof timestamp === 'number'
+    ? Math.max(Date.now() - timestamp, 0)
+    : 0;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import { NodeKey } from './secure-session.js';
+
+// Load the node identity key from a file, creating it on first start so the
+// node keeps its peer ID across restarts
+export function loadOrCreateNodeKey(file: string): NodeKey {
+  if (fs.existsSync(file)) {
+    const { privateKey } = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (typeof privateKey !== 'string') {
+      throw new Error(`Node key file ${file} has no private key`);
+    }
+    return { privateKey, publicKey: CryptoUtils.getPublicKey(privateKey) };
+  }
+
+  const { privateKey, publicKey, address } = CryptoUtils.generateKeyPair();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ privateKey, publicKey, address }), {
+    mode: 0o600,
+  });
+  return { privateKey, publicKey };
+}
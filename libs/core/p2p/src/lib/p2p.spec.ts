@@ -0,0 +1,746 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+import {
+  calculateMerkleRoot,
+  hashBlock,
+  hashTransaction,
+} from '@digital-chuckram/utils';
+import {
+  Block,
+  GossipConfig,
+  MessageType,
+  NetworkConfig,
+  Transaction,
+  TransactionType,
+} from '@digital-chuckram/types';
+import { P2PNetwork } from './p2p';
+import { SecureSession } from './secure-session';
+import { PeerScoring } from './peer-scoring';
+import { Gossip, GossipSource, SeenCache } from './gossip';
+
+describe('SecureSession', () => {
+  const createSession = () => {
+    const { privateKey, publicKey, address } = CryptoUtils.generateKeyPair();
+    const session = new SecureSession({ privateKey, publicKey });
+    const hello = {
+      version: '1.0.0',
+      protocolVersion: 3,
+      networkId: 'test',
+      listenPort: 0,
+      chainHeight: 0,
+      peerId: address,
+      publicKey,
+      sessionKey: session.sessionKey,
+      challenge: session.challenge,
+    };
+    return { session, hello };
+  };
+
+  // Run the handshake between two sessions
+  const connect = () => {
+    const a = createSession();
+    const b = createSession();
+    expect(a.session.acceptHello(b.hello)).toBeNull();
+    expect(b.session.acceptHello(a.hello)).toBeNull();
+    return { a, b };
+  };
+
+  it('should authenticate both peers and exchange encrypted messages', () => {
+    const { a, b } = connect();
+
+    expect(b.session.verifyAuth(a.session.createAuth())).toBe(true);
+    expect(a.session.verifyAuth(b.session.createAuth())).toBe(true);
+    expect(a.session.getPeerId()).toBe(b.hello.peerId);
+
+    const frame = a.session.seal('hello');
+    expect(frame.toString()).not.toContain('hello');
+    expect(b.session.open(frame)).toBe('hello');
+    expect(a.session.open(b.session.seal('back'))).toBe('back');
+  });
+
+  it('should reject a hello whose peer ID is not its key', () => {
+    const a = createSession();
+    const b = createSession();
+
+    expect(a.session.acceptHello({ ...b.hello, peerId: a.hello.peerId })).toBe(
+      'Peer ID does not match its public key'
+    );
+  });
+
+  it('should reject an answer signed with another key', () => {
+    const { a, b } = connect();
+    const impostor = CryptoUtils.generateKeyPair();
+    const forged = new SecureSession(impostor);
+    forged.acceptHello(a.hello);
+
+    expect(a.session.verifyAuth(forged.createAuth())).toBe(false);
+    expect(a.session.verifyAuth(b.session.createAuth())).toBe(true);
+  });
+
+  it('should reject replayed and altered frames', () => {
+    const { a, b } = connect();
+
+    const first = a.session.seal('one');
+    expect(b.session.open(first)).toBe('one');
+    expect(b.session.open(first)).toBeNull();
+
+    const second = a.session.seal('two');
+    second[second.length - 1] ^= 1;
+    expect(b.session.open(second)).toBeNull();
+  });
+});
+
+describe('PeerScoring', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should ban a peer once its score reaches the threshold', () => {
+    jest.useFakeTimers({ now: 1000000 });
+    const scoring = new PeerScoring();
+    const banned = jest.fn();
+    scoring.on('banned', banned);
+
+    expect(scoring.penalize('peer-a', 'invalid-block')).toBe(false);
+    expect(scoring.getScore('peer-a')).toBe(50);
+
+    // Scores decay by a point a minute
+    jest.advanceTimersByTime(10 * 60000);
+    expect(scoring.getScore('peer-a')).toBe(40);
+
+    expect(scoring.penalize('peer-a', 'bad-signature')).toBe(true);
+    expect(scoring.isBanned('peer-a')).toBe(true);
+    expect(banned).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'peer-a', until: Date.now() + 3600000 })
+    );
+
+    // Automatic bans expire
+    jest.advanceTimersByTime(3600000);
+    expect(scoring.isBanned('peer-a')).toBe(false);
+    expect(scoring.getBans()).toEqual([]);
+  });
+
+  it('should ban the address of peer IDs banned from it', () => {
+    const scoring = new PeerScoring({ addressBanThreshold: 2 });
+    scoring.setAddress('peer-a', '10.0.0.1');
+    scoring.setAddress('peer-b', '10.0.0.1');
+    scoring.setAddress('peer-c', '10.0.0.2');
+
+    scoring.penalize('peer-a', 'bad-signature');
+    scoring.penalize('peer-c', 'bad-signature');
+    expect(scoring.isBanned('10.0.0.1')).toBe(false);
+
+    // A fresh node key from the same address does not start over
+    scoring.penalize('peer-b', 'bad-signature');
+    expect(scoring.isBanned('10.0.0.1')).toBe(true);
+    expect(scoring.isBanned('10.0.0.2')).toBe(false);
+    expect(scoring.getBans()).toContainEqual(
+      expect.objectContaining({ key: 'peer-b', address: '10.0.0.1' })
+    );
+  });
+
+  it('should rate limit each message type separately', () => {
+    jest.useFakeTimers({ now: 1000000 });
+    const scoring = new PeerScoring({ rateLimits: { PING: 2 } });
+
+    expect(scoring.allow('peer-a', 'PING')).toBe(true);
+    expect(scoring.allow('peer-a', 'PING')).toBe(true);
+    expect(scoring.allow('peer-a', 'PING')).toBe(false);
+    expect(scoring.allow('peer-b', 'PING')).toBe(true);
+    expect(scoring.allow('peer-a', 'BLOCK_REQUEST')).toBe(true);
+
+    // The allowance refills over the minute
+    jest.advanceTimersByTime(30000);
+    expect(scoring.allow('peer-a', 'PING')).toBe(true);
+    expect(scoring.allow('peer-a', 'PING')).toBe(false);
+  });
+
+  it('should keep bans across restarts', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bans-'));
+    const banFile = path.join(dir, 'bans.json');
+
+    try {
+      const scoring = new PeerScoring({ banFile });
+      scoring.ban('10.0.0.1', undefined, 'Manual');
+      scoring.ban('peer-a', 60000);
+
+      const restarted = new PeerScoring({ banFile });
+      expect(restarted.isBanned('10.0.0.1')).toBe(true);
+      expect(restarted.isBanned('peer-a')).toBe(true);
+      expect(restarted.getBans()).toHaveLength(2);
+
+      expect(restarted.unban('10.0.0.1')).toBe(true);
+      expect(new PeerScoring({ banFile }).isBanned('10.0.0.1')).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Gossip', () => {
+  // Gossip instances connected to each other in memory, every node a peer of
+  // every other. Nodes relay what they receive like the node application.
+  const createMesh = (
+    ids: string[],
+    config: Partial<GossipConfig> = {},
+    sources: Record<string, Partial<GossipSource>> = {}
+  ) => {
+    const nodes = new Map<string, Gossip>();
+    const sent: {
+      from: string;
+      to: string;
+      type: MessageType;
+      payload: any;
+    }[] = [];
+
+    for (const id of ids) {
+      const gossip = new Gossip(
+        config,
+        (peerId, type, payload) => {
+          const peer = nodes.get(peerId);
+          if (!peer) return false;
+          sent.push({ from: id, to: peerId, type, payload });
+          deliver(peer, type, payload, id);
+          return true;
+        },
+        () => ids.filter((other) => other !== id)
+      );
+      gossip.setSource({
+        getBlock: () => undefined,
+        getPendingTransactions: () => [],
+        ...sources[id],
+      });
+      gossip.on('block', (block: Block) => gossip.announceBlock(block));
+      gossip.on('transaction', (transaction: Transaction) =>
+        gossip.announceTransaction(transaction)
+      );
+      nodes.set(id, gossip);
+    }
+
+    return { nodes, sent };
+  };
+
+  const deliver = (
+    gossip: Gossip,
+    type: MessageType,
+    payload: any,
+    peerId: string
+  ) => {
+    switch (type) {
+      case MessageType.INVENTORY:
+        return gossip.handleInventory(payload, peerId);
+      case MessageType.GET_DATA:
+        return gossip.handleGetData(payload, peerId);
+      case MessageType.TRANSACTION:
+        return gossip.handleTransaction(payload, peerId);
+      case MessageType.COMPACT_BLOCK:
+        return gossip.handleCompactBlock(payload, peerId);
+      case MessageType.GET_BLOCK_TRANSACTIONS:
+        return gossip.handleGetBlockTransactions(payload, peerId);
+      case MessageType.BLOCK_TRANSACTIONS:
+        return gossip.handleBlockTransactions(payload, peerId);
+    }
+  };
+
+  const createTransaction = (id: string): Transaction => ({
+    id,
+    from: 'CHKfrom',
+    to: 'CHKto',
+    amount: 16n,
+    fee: 1n,
+    timestamp: Date.now(),
+    type: TransactionType.TRANSFER,
+    signature: 'signature',
+    nonce: 0,
+  });
+
+  const createBlock = (transactions: Transaction[]): Block => {
+    const block: Block = {
+      header: {
+        version: 1,
+        previousHash: 'previous',
+        merkleRoot: calculateMerkleRoot(transactions),
+        timestamp: Date.now(),
+        height: 1,
+        validatorAddress: 'CHKvalidator',
+      },
+      transactions,
+      hash: '',
+      nonce: 0,
+    };
+    block.hash = hashBlock(block);
+    return block;
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should forget the oldest items beyond its capacity', () => {
+    const cache = new SeenCache<boolean>(2);
+    cache.set('a', true);
+    cache.set('b', true);
+    cache.set('a', true); // Seen again, now the newest
+    cache.set('c', true);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should deliver each transaction once to every node', () => {
+    const { nodes, sent } = createMesh(['a', 'b', 'c', 'd']);
+    const received = jest.fn();
+    for (const id of ['b', 'c', 'd']) {
+      nodes.get(id)!.on('transaction', (_, peerId) => received(id, peerId));
+    }
+
+    nodes.get('a')!.announceTransaction(createTransaction('tx-1'));
+
+    expect(received.mock.calls.map(([id]) => id).sort()).toEqual([
+      'b',
+      'c',
+      'd',
+    ]);
+    // Bodies are fetched once per node, other announcements are duplicates
+    expect(
+      sent.filter((message) => message.type === MessageType.TRANSACTION)
+    ).toHaveLength(3);
+    const duplicates = ['b', 'c', 'd'].reduce(
+      (total, id) =>
+        total + nodes.get(id)!.getMetrics().transactions.duplicates,
+      0
+    );
+    expect(duplicates).toBeGreaterThan(0);
+  });
+
+  it('should announce to no more peers than its fan-out', () => {
+    const ids = ['a', ...Array.from({ length: 9 }, (_, i) => `peer-${i}`)];
+    const { nodes, sent } = createMesh(ids, { transactionFanout: 3 });
+    const transaction = createTransaction('tx-1');
+
+    nodes.get('a')!.announceTransaction(transaction);
+    nodes.get('a')!.announceTransaction(transaction);
+
+    const announcements = sent.filter(
+      (message) =>
+        message.from === 'a' && message.type === MessageType.INVENTORY
+    );
+    expect(announcements).toHaveLength(3);
+  });
+
+  it('should rebuild compact blocks from pending transactions', () => {
+    const transactions = ['tx-1', 'tx-2', 'tx-3'].map(createTransaction);
+    const { nodes, sent } = createMesh(
+      ['a', 'b'],
+      {},
+      {
+        b: { getPendingTransactions: () => transactions.slice(0, 2) },
+      }
+    );
+    const received = jest.fn();
+    nodes.get('b')!.on('block', received);
+
+    // The third transaction is missing and fetched from the sender
+    const block = createBlock(transactions);
+    nodes.get('a')!.announceBlock(block);
+
+    expect(received).toHaveBeenCalledWith(block, 'a');
+    expect(sent.map((message) => message.type)).toEqual([
+      MessageType.INVENTORY,
+      MessageType.GET_DATA,
+      MessageType.COMPACT_BLOCK,
+      MessageType.GET_BLOCK_TRANSACTIONS,
+      MessageType.BLOCK_TRANSACTIONS,
+    ]);
+    expect(sent[3].payload.indexes).toEqual([2]);
+
+    // A block of pending transactions needs nothing more
+    nodes.get('a')!.announceBlock(createBlock(transactions.slice(0, 2)));
+    const metrics = nodes.get('b')!.getMetrics();
+    expect(metrics.blocks.received).toBe(2);
+    expect(metrics.compactBlocks).toEqual({
+      reconstructed: 1,
+      missingTransactions: 1,
+    });
+  });
+
+  it('should fetch the whole block when a compact block does not rebuild', () => {
+    const transactions = ['tx-1', 'tx-2'].map(createTransaction);
+    // A pending transaction with the ID of one in the block, but not its body
+    const impostor = { ...transactions[1], amount: 99n };
+    const { nodes, sent } = createMesh(
+      ['a', 'b'],
+      {},
+      { b: { getPendingTransactions: () => [transactions[0], impostor] } }
+    );
+    const received = jest.fn();
+    nodes.get('b')!.on('block', received);
+
+    const block = createBlock(transactions);
+    nodes.get('a')!.announceBlock(block);
+
+    expect(received).toHaveBeenCalledWith(block, 'a');
+    const request = sent.find(
+      (message) => message.type === MessageType.GET_BLOCK_TRANSACTIONS
+    );
+    expect(request?.payload.indexes).toEqual([0, 1]);
+  });
+
+  it('should drop bodies that do not match their hash', () => {
+    const { nodes } = createMesh(['a', 'b']);
+    const gossip = nodes.get('b')!;
+    const received = jest.fn();
+    const misbehavior = jest.fn();
+    gossip.on('transaction', received);
+    gossip.on('block', received);
+    gossip.on('misbehavior', misbehavior);
+
+    // A body under the ID of another transaction does not take its place
+    const transaction = createTransaction('tx-1');
+    const item = {
+      type: 'transaction' as const,
+      hash: hashTransaction(transaction),
+    };
+    gossip.handleInventory({ items: [item] }, 'c');
+    gossip.handleTransaction({ ...transaction, amount: 1n }, 'c');
+    gossip.handleTransaction(transaction, 'a');
+    expect(received).toHaveBeenCalledWith(transaction, 'a');
+
+    const { transactions, ...header } = createBlock([transaction]);
+    gossip.handleCompactBlock(
+      { block: { ...header, nonce: 1 }, shortIds: [] },
+      'c'
+    );
+    gossip.handleBlock(
+      { ...header, transactions: [...transactions, transaction] },
+      'c'
+    );
+    expect(received).toHaveBeenCalledTimes(2);
+    expect(misbehavior.mock.calls).toEqual([
+      ['c', 'invalid-block'],
+      ['c', 'invalid-block'],
+    ]);
+  });
+
+  it('should count an item as seen once the application accepts it', () => {
+    jest.useFakeTimers({ now: 1000000 });
+    const { nodes, sent } = createMesh(['a', 'b'], { requestTimeout: 5000 });
+    const gossip = nodes.get('b')!;
+    gossip.removeAllListeners('transaction');
+    const received = jest.fn();
+    gossip.on('transaction', received);
+
+    const transaction = createTransaction('tx-1');
+    const inventory = {
+      items: [
+        { type: 'transaction' as const, hash: hashTransaction(transaction) },
+      ],
+    };
+    const fetches = () =>
+      sent.filter((message) => message.type === MessageType.GET_DATA).length;
+    nodes.get('a')!.announceTransaction(transaction);
+    expect(received).toHaveBeenCalledTimes(1);
+
+    // Not fetched again while the application decides on it
+    gossip.handleInventory(inventory, 'a');
+    expect(fetches()).toBe(1);
+
+    // but it can be once the application lets it go
+    jest.advanceTimersByTime(5000);
+    gossip.handleInventory(inventory, 'a');
+    expect(fetches()).toBe(2);
+    expect(received).toHaveBeenCalledTimes(2);
+
+    // and not after it accepts it
+    gossip.announceTransaction(transaction);
+    jest.advanceTimersByTime(5000);
+    gossip.handleInventory(inventory, 'a');
+    expect(fetches()).toBe(2);
+  });
+
+  it('should report peers sending malformed gossip', () => {
+    const { nodes } = createMesh(['a', 'b']);
+    const misbehavior = jest.fn();
+    nodes.get('b')!.on('misbehavior', misbehavior);
+
+    nodes.get('b')!.handleInventory({ items: 'block-1' } as any, 'a');
+    nodes.get('b')!.handleCompactBlock({ block: {} } as any, 'a');
+
+    expect(misbehavior).toHaveBeenCalledTimes(2);
+    expect(misbehavior).toHaveBeenCalledWith('a', 'invalid-message');
+  });
+});
+
+describe('P2PNetwork', () => {
+  const port = 47311;
+  const networks: P2PNetwork[] = [];
+  const sockets: WebSocket[] = [];
+
+  const createConfig = (seedPeers: any[] = []): NetworkConfig => ({
+    port: 0,
+    maxPeers: 10,
+    seedPeers,
+    networkId: 'test',
+    version: '1.0.0',
+  });
+
+  const startNetwork = async (config: NetworkConfig, privateKey: string) => {
+    const network = new P2PNetwork(config, privateKey);
+    networks.push(network);
+    await network.start();
+    return network;
+  };
+
+  const waitFor = (network: P2PNetwork, event: string) =>
+    new Promise<any[]>((resolve) =>
+      network.once(event, (...args: any[]) => resolve(args))
+    );
+
+  afterEach(async () => {
+    sockets.forEach((ws) => ws.terminate());
+    sockets.length = 0;
+    await Promise.all(networks.map((network) => network.stop()));
+    networks.length = 0;
+  });
+
+  it('should derive its node ID from its key', () => {
+    const keys = CryptoUtils.generateKeyPair();
+    const network = new P2PNetwork(createConfig(), keys.privateKey);
+
+    expect(network.getNodeId()).toBe(keys.address);
+  });
+
+  it('should authenticate peers and deliver their messages', async () => {
+    const serverKeys = CryptoUtils.generateKeyPair();
+    const clientKeys = CryptoUtils.generateKeyPair();
+    const server = await startNetwork(
+      { ...createConfig(), port },
+      serverKeys.privateKey
+    );
+    const connected = waitFor(server, 'peer-connected');
+
+    const client = new P2PNetwork(
+      createConfig([
+        {
+          id: 'seed',
+          address: '127.0.0.1',
+          port,
+          lastSeen: 0,
+          version: '1.0.0',
+          chainHeight: 0,
+        },
+      ]),
+      clientKeys.privateKey
+    );
+    networks.push(client);
+    const clientConnected = waitFor(client, 'peer-connected');
+    await client.start();
+
+    const [peer] = await connected;
+    const [serverPeer] = await clientConnected;
+    expect(serverPeer.id).toBe(serverKeys.address);
+    expect(peer.id).toBe(clientKeys.address);
+    expect(peer.publicKey).toBe(clientKeys.publicKey);
+
+    const received = waitFor(server, 'block-request');
+    const request = { requestId: '1', fromHeight: 1, toHeight: 2 };
+    expect(client.requestBlocks(serverKeys.address, request)).toBe(true);
+    expect(await received).toEqual([request, clientKeys.address]);
+  });
+
+  it('should drop a connection that skips the handshake', async () => {
+    const server = await startNetwork(
+      { ...createConfig(), port },
+      CryptoUtils.generateKeyPair().privateKey
+    );
+    const requests = jest.fn();
+    server.on('block-request', requests);
+
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    sockets.push(ws);
+    await new Promise((resolve) => ws.on('open', resolve));
+    const closed = new Promise<number>((resolve) =>
+      ws.on('close', (code) => resolve(code))
+    );
+
+    ws.send(
+      JSON.stringify({
+        type: MessageType.BLOCK_REQUEST,
+        payload: { requestId: '1', fromHeight: 1, toHeight: 2 },
+        from: 'CHKspoofed',
+        timestamp: Date.now(),
+      })
+    );
+
+    expect(await closed).toBe(1008);
+    expect(requests).not.toHaveBeenCalled();
+  });
+
+  it('should refuse peers speaking an older protocol', async () => {
+    await startNetwork(
+      { ...createConfig(), port },
+      CryptoUtils.generateKeyPair().privateKey
+    );
+    const { privateKey, publicKey, address } = CryptoUtils.generateKeyPair();
+    const session = new SecureSession({ privateKey, publicKey });
+
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    sockets.push(ws);
+    await new Promise((resolve) => ws.on('open', resolve));
+    const closed = new Promise<number>((resolve) =>
+      ws.on('close', (code) => resolve(code))
+    );
+
+    ws.send(
+      JSON.stringify({
+        version: 1,
+        type: MessageType.HANDSHAKE,
+        payload: {
+          version: '0.9.0',
+          protocolVersion: 1,
+          networkId: 'test',
+          listenPort: 0,
+          chainHeight: 0,
+          peerId: address,
+          publicKey,
+          sessionKey: session.sessionKey,
+          challenge: session.challenge,
+        },
+        from: address,
+        timestamp: Date.now(),
+      })
+    );
+
+    expect(await closed).toBe(1002);
+  });
+
+  it('should connect to peers learned from its seeds', async () => {
+    const seedKeys = CryptoUtils.generateKeyPair();
+    await startNetwork({ ...createConfig(), port }, seedKeys.privateKey);
+    const seed = {
+      id: seedKeys.address,
+      address: '127.0.0.1',
+      port,
+      lastSeen: 0,
+      version: '1.0.0',
+      chainHeight: 0,
+    };
+
+    const first = await startNetwork(
+      createConfig([seed]),
+      CryptoUtils.generateKeyPair().privateKey
+    );
+    await waitFor(first, 'peer-connected');
+
+    // The second node hears of the first from the seed and dials it
+    const second = new P2PNetwork(
+      createConfig([seed]),
+      CryptoUtils.generateKeyPair().privateKey
+    );
+    networks.push(second);
+    const connected = new Promise<void>((resolve) =>
+      second.on('peer-connected', () => {
+        if (second.getPeerCount() === 2) resolve();
+      })
+    );
+    await second.start();
+    await connected;
+
+    expect(second.getPeers().map((peer) => peer.id)).toEqual(
+      expect.arrayContaining([seedKeys.address, first.getNodeId()])
+    );
+  }, 15000);
+
+  it('should refuse inbound connections beyond its slots', async () => {
+    await startNetwork(
+      { ...createConfig(), port, maxInbound: 1 },
+      CryptoUtils.generateKeyPair().privateKey
+    );
+
+    const open = () => {
+      const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+      sockets.push(ws);
+      return new Promise<number>((resolve) =>
+        ws.on('close', (code) => resolve(code))
+      );
+    };
+
+    const first = jest.fn();
+    open().then(first);
+    expect(await open()).toBe(1013);
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  it('should free the slot of a connection that does not authenticate in time', async () => {
+    await startNetwork(
+      { ...createConfig(), port, maxInbound: 1, handshakeTimeout: 200 },
+      CryptoUtils.generateKeyPair().privateKey
+    );
+
+    const open = () => {
+      const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+      sockets.push(ws);
+      return new Promise<number>((resolve) =>
+        ws.on('close', (code) => resolve(code))
+      );
+    };
+
+    // A socket that never answers the handshake is dropped
+    const first = open();
+    expect(await first).toBe(1006);
+
+    // and the next connection gets the slot
+    const second = jest.fn();
+    open().then(second);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should disconnect a banned peer and refuse it afterwards', async () => {
+    const serverKeys = CryptoUtils.generateKeyPair();
+    const clientKeys = CryptoUtils.generateKeyPair();
+    const server = await startNetwork(
+      { ...createConfig(), port },
+      serverKeys.privateKey
+    );
+    const seed = {
+      id: serverKeys.address,
+      address: '127.0.0.1',
+      port,
+      lastSeen: 0,
+      version: '1.0.0',
+      chainHeight: 0,
+    };
+
+    const connected = waitFor(server, 'peer-connected');
+    const client = await startNetwork(
+      createConfig([seed]),
+      clientKeys.privateKey
+    );
+    await connected;
+
+    const disconnected = waitFor(server, 'peer-disconnected');
+    server.penalizePeer(clientKeys.address, 'bad-signature');
+    expect(await disconnected).toEqual([clientKeys.address]);
+    expect(server.getBans()).toEqual([
+      expect.objectContaining({ key: clientKeys.address }),
+    ]);
+
+    // The peer's next attempt is turned away once it authenticates
+    const reconnect = new P2PNetwork(
+      createConfig([seed]),
+      clientKeys.privateKey
+    );
+    networks.push(reconnect);
+    const refused = jest.fn();
+    server.on('peer-connected', refused);
+    await reconnect.start();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(refused).not.toHaveBeenCalled();
+    expect(client.getPeers()).toEqual([]);
+  });
+});
@@ -7,38 +7,128 @@ import {
   NetworkMessage,
   MessageType,
   HandshakePayload,
-  BlockAnnouncementPayload,
+  HandshakeAuthPayload,
+  BlockRequestPayload,
+  BlockResponsePayload,
+  SnapshotRequestPayload,
+  SnapshotResponsePayload,
   PeerDiscoveryPayload,
+  PeerBan,
+  Misbehavior,
+  GossipMetrics,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
 } from '@digital-chuckram/types';
 import { Block, Transaction } from '@digital-chuckram/types';
 import { CryptoUtils } from '@digital-chuckram/crypto';
+import { SecureSession } from './secure-session.js';
+import { PeerScoring } from './peer-scoring.js';
+import { Gossip, GossipSource } from './gossip.js';
+
+const DEFAULT_MAX_MESSAGE_SIZE = 32 * 1024 * 1024;
+const DEFAULT_HANDSHAKE_TIMEOUT = 10000;
+
+// State of one socket, from the handshake until it closes
+interface Connection {
+  ws: WebSocket;
+  session: SecureSession;
+  address: string;
+  port?: number; // Set when dialing
+  inbound: boolean;
+  expectedPeerId?: string; // Set when dialing a known peer
+  hello?: HandshakePayload;
+  handshakeTimer?: NodeJS.Timeout; // Cleared once the peer is connected
+}
 
+// Peers authenticate with their node key in a handshake, after which every
+// message travels encrypted in a SecureSession and must be signed by the
+// authenticated peer. The node ID is the address of the node key.
+// Misbehaving peers are scored and banned through PeerScoring, which may be
+// shared with the application so it can report invalid blocks and
+// transactions, and connections are limited to separate inbound and outbound
+// slots. Sockets that do not complete the handshake in time are closed so
+// they do not hold on to a slot. New blocks and transactions spread by Gossip, which emits the ones
+// received as 'block' and 'transaction' events.
 export class P2PNetwork extends EventEmitter {
   private config: NetworkConfig;
   private peers: Map<string, Peer> = new Map();
-  private connections: Map<string, WebSocket> = new Map();
+  private connections: Map<string, WebSocket> = new Map(); // Authenticated peers only
+  private sockets: Map<WebSocket, Connection> = new Map();
   private server?: WebSocketServer;
+  private timers: NodeJS.Timeout[] = [];
   private nodeId: string;
   private privateKey: string;
-
-  constructor(config: NetworkConfig, privateKey: string) {
+  private publicKey: string;
+  private chainHeight = 0; // Advertised in handshakes
+  private scoring: PeerScoring;
+  private maxInbound: number;
+  private maxOutbound: number;
+  private maxMessageSize: number;
+  private handshakeTimeout: number;
+  private gossip: Gossip;
+
+  constructor(
+    config: NetworkConfig,
+    privateKey: string,
+    scoring?: PeerScoring
+  ) {
     super();
     this.config = config;
     this.privateKey = privateKey;
-    this.nodeId = CryptoUtils.generateKeyPair().address; // Generate unique node ID
+    this.publicKey = CryptoUtils.getPublicKey(privateKey);
+    this.nodeId = CryptoUtils.publicKeyToAddress(this.publicKey);
+    this.scoring = scoring ?? new PeerScoring(config.scoring);
+    this.maxOutbound = config.maxOutbound ?? Math.ceil(config.maxPeers / 2);
+    this.maxInbound = config.maxInbound ?? config.maxPeers - this.maxOutbound;
+    this.maxMessageSize = config.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    this.handshakeTimeout =
+      config.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT;
+
+    this.scoring.on('banned', this.handleBan);
+
+    this.gossip = new Gossip(
+      config.gossip ?? {},
+      (peerId, type, payload) => this.sendToPeer(peerId, type, payload),
+      () => Array.from(this.connections.keys())
+    );
+    this.gossip.on('block', (block: Block, peerId: string) =>
+      this.emit('block', block, peerId)
+    );
+    this.gossip.on('transaction', (transaction: Transaction, peerId: string) =>
+      this.emit('transaction', transaction, peerId)
+    );
+    this.gossip.on('misbehavior', (peerId: string, misbehavior: Misbehavior) =>
+      this.penalizePeer(peerId, misbehavior)
+    );
+  }
+
+  getNodeId(): string {
+    return this.nodeId;
   }
 
   async start(): Promise<void> {
     // Start WebSocket server
-    this.server = new WebSocketServer({ port: this.config.port });
+    this.server = new WebSocketServer({
+      port: this.config.port,
+      maxPayload: this.maxMessageSize,
+    });
 
     this.server.on('connection', (ws: WebSocket, req) => {
-      this.handleConnection(ws, req.socket.remoteAddress || '');
+      // IPv4 peers show up as IPv4-mapped IPv6 addresses
+      const address = (req.socket.remoteAddress || '').replace(/^::ffff:/, '');
+      this.handleConnection(ws, address);
     });
 
-    this.server.on('listening', () => {
-      console.log(`P2P server listening on port ${this.config.port}`);
+    // Wait for the port, failing if it is taken
+    const server = this.server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        resolve();
+      });
     });
+    console.log(`P2P server listening on port ${this.getPort()}`);
 
     // Connect to seed peers
     await this.connectToSeedPeers();
@@ -47,164 +137,370 @@ export class P2PNetwork extends EventEmitter {
     this.startPeriodicTasks();
   }
 
-  private async connectToSeedPeers(): Promise<void> {
+  // Seed peers are dialed by address, their ID is learned in the handshake.
+  // Seeds already connected or being dialed are skipped.
+  async connectToSeedPeers(): Promise<void> {
     for (const seedPeer of this.config.seedPeers) {
-      await this.connectToPeer(seedPeer);
+      await this.connectToPeer(seedPeer, false);
     }
   }
 
-  private async connectToPeer(peer: Peer): Promise<void> {
-    if (this.connections.has(peer.id)) {
+  private async connectToPeer(peer: Peer, verifyId = true): Promise<void> {
+    if (this.connections.has(peer.id) || peer.id === this.nodeId) {
       return; // Already connected
     }
+    if (this.isDialing(peer.address, peer.port)) {
+      return;
+    }
+    if (
+      (verifyId && this.scoring.isBanned(peer.id)) ||
+      this.scoring.isBanned(peer.address) ||
+      this.countConnections(false) >= this.maxOutbound
+    ) {
+      return;
+    }
 
     try {
-      const ws = new WebSocket(`ws://${peer.address}:${peer.port}`);
+      const host = peer.address.includes(':')
+        ? `[${peer.address}]`
+        : peer.address;
+      const ws = new WebSocket(`ws://${host}:${peer.port}`, {
+        maxPayload: this.maxMessageSize,
+      });
+      this.setupConnection(
+        ws,
+        peer.address,
+        false,
+        verifyId ? peer.id : undefined
+      );
+      this.sockets.get(ws)!.port = peer.port;
 
       ws.on('open', () => {
-        console.log(`Connected to peer ${peer.id}`);
-        this.connections.set(peer.id, ws);
-        this.setupMessageHandlers(ws, peer.id);
+        console.log(`Connected to ${peer.address}:${peer.port}`);
         this.sendHandshake(ws);
       });
-
-      ws.on('error', (error: any) => {
-        console.error(`Error connecting to peer ${peer.id}:`, error);
-      });
-
-      ws.on('close', () => {
-        this.handlePeerDisconnect(peer.id);
-      });
     } catch (error) {
       console.error(`Failed to connect to peer ${peer.id}:`, error);
     }
   }
 
   private handleConnection(ws: WebSocket, remoteAddress: string): void {
-    const tempPeerId = `temp_${Date.now()}`;
     console.log(`New connection from ${remoteAddress}`);
 
-    this.setupMessageHandlers(ws, tempPeerId);
+    if (this.scoring.isBanned(remoteAddress)) {
+      ws.close(1008, 'Banned');
+      return;
+    }
+    if (this.countConnections(true) >= this.maxInbound) {
+      ws.close(1013, 'No free inbound slots');
+      return;
+    }
+
+    this.setupConnection(ws, remoteAddress, true);
+    this.sendHandshake(ws);
   }
 
-  private setupMessageHandlers(ws: WebSocket, peerId: string): void {
-    ws.on('message', (data: Buffer) => {
+  private setupConnection(
+    ws: WebSocket,
+    address: string,
+    inbound: boolean,
+    expectedPeerId?: string
+  ): void {
+    const connection: Connection = {
+      ws,
+      session: new SecureSession({
+        privateKey: this.privateKey,
+        publicKey: this.publicKey,
+      }),
+      address,
+      inbound,
+      expectedPeerId,
+    };
+    this.sockets.set(ws, connection);
+
+    connection.handshakeTimer = setTimeout(() => {
+      console.warn(`Handshake timed out for ${connection.address}`);
+      ws.terminate();
+    }, this.handshakeTimeout);
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      const message = this.readMessage(connection, data, isBinary);
+      if (!message) {
+        console.error(`Invalid message from ${this.describe(connection)}`);
+        ws.close(1008, 'Invalid message');
+        return;
+      }
+
+      const peerId = connection.session.getPeerId();
+      if (connection.session.isAuthenticated() && peerId) {
+        if (!this.scoring.allow(peerId, message.type)) {
+          console.warn(`Rate limit exceeded by ${peerId} for ${message.type}`);
+          this.penalizePeer(peerId, 'spam');
+          return;
+        }
+
+        const peer = this.peers.get(peerId);
+        if (peer) {
+          peer.lastSeen = Date.now();
+        }
+      }
+
       try {
-        const message: NetworkMessage = JSON.parse(data.toString());
-        this.handleMessage(message, peerId, ws);
+        this.handleMessage(message, connection);
       } catch (error) {
-        console.error('Invalid message received:', error);
+        console.error(
+          `Error handling message from ${this.describe(connection)}:`,
+          error
+        );
       }
     });
 
     ws.on('close', () => {
-      this.handlePeerDisconnect(peerId);
+      this.handleClose(connection);
     });
 
     ws.on('error', (error) => {
-      console.error(`WebSocket error for peer ${peerId}:`, error);
+      console.error(`WebSocket error for ${this.describe(connection)}:`, error);
     });
   }
 
-  private handleMessage(
-    message: NetworkMessage,
-    peerId: string,
-    ws: WebSocket
-  ): void {
+  // Handshake messages travel as plain JSON, everything after as encrypted
+  // binary frames signed by the authenticated peer
+  private readMessage(
+    connection: Connection,
+    data: Buffer,
+    isBinary: boolean
+  ): NetworkMessage | null {
+    const { session } = connection;
+
+    try {
+      if (!session.isAuthenticated()) {
+        if (isBinary) return null;
+
+        const message: NetworkMessage = JSON.parse(data.toString());
+        const handshake =
+          message.type === MessageType.HANDSHAKE ||
+          message.type === MessageType.HANDSHAKE_AUTH;
+        return handshake ? message : null;
+      }
+
+      const plaintext = isBinary ? session.open(data) : null;
+      if (plaintext === null) {
+        this.penalizePeer(session.getPeerId()!, 'invalid-message');
+        return null;
+      }
+
+      const message: NetworkMessage = JSON.parse(plaintext);
+      if (typeof message.version !== 'number') {
+        return null;
+      }
+      if (
+        message.from !== session.getPeerId() ||
+        typeof message.signature !== 'string' ||
+        !CryptoUtils.verify(
+          session.getPeerPublicKey()!,
+          signedContent(message),
+          message.signature
+        )
+      ) {
+        console.error(
+          `Message signature does not match peer ${session.getPeerId()}`
+        );
+        this.penalizePeer(session.getPeerId()!, 'bad-signature');
+        return null;
+      }
+      return message;
+    } catch {
+      if (session.isAuthenticated()) {
+        this.penalizePeer(session.getPeerId()!, 'invalid-message');
+      }
+      return null;
+    }
+  }
+
+  private handleMessage(message: NetworkMessage, connection: Connection): void {
+    const { ws } = connection;
+    const peerId = connection.session.getPeerId() ?? '';
+
     switch (message.type) {
       case MessageType.HANDSHAKE:
-        this.handleHandshake(message.payload, peerId, ws);
+        this.handleHandshake(message.payload, connection);
+        break;
+      case MessageType.HANDSHAKE_AUTH:
+        this.handleHandshakeAuth(message.payload, connection);
+        break;
+      case MessageType.INVENTORY:
+        this.gossip.handleInventory(message.payload, peerId);
+        break;
+      case MessageType.GET_DATA:
+        this.gossip.handleGetData(message.payload, peerId);
         break;
-      case MessageType.BLOCK_ANNOUNCEMENT:
-        this.handleBlockAnnouncement(message.payload);
+      case MessageType.BLOCK:
+        this.gossip.handleBlock(message.payload, peerId);
         break;
-      case MessageType.TRANSACTION_ANNOUNCEMENT:
-        this.emit('transaction', message.payload);
+      case MessageType.COMPACT_BLOCK:
+        this.gossip.handleCompactBlock(message.payload, peerId);
+        break;
+      case MessageType.GET_BLOCK_TRANSACTIONS:
+        this.gossip.handleGetBlockTransactions(message.payload, peerId);
+        break;
+      case MessageType.BLOCK_TRANSACTIONS:
+        this.gossip.handleBlockTransactions(message.payload, peerId);
+        break;
+      case MessageType.TRANSACTION:
+        this.gossip.handleTransaction(message.payload, peerId);
         break;
       case MessageType.PEER_DISCOVERY:
-        this.handlePeerDiscovery(message.payload, ws);
+        this.sendPeerList(ws, peerId);
+        break;
+      case MessageType.PEER_LIST:
+        this.handlePeerDiscovery(message.payload);
         break;
       case MessageType.CONSENSUS_MESSAGE:
-        this.emit('consensus-message', message.payload);
+        this.emit('consensus-message', message.payload, peerId);
+        break;
+      case MessageType.BLOCK_REQUEST:
+        this.emit('block-request', message.payload, peerId);
+        break;
+      case MessageType.BLOCK_RESPONSE:
+        this.emit('block-response', message.payload, peerId);
+        break;
+      case MessageType.SNAPSHOT_REQUEST:
+        this.emit('snapshot-request', message.payload, peerId);
+        break;
+      case MessageType.SNAPSHOT_RESPONSE:
+        this.emit('snapshot-response', message.payload, peerId);
         break;
       case MessageType.PING:
         this.sendPong(ws);
         break;
       case MessageType.PONG:
-        // Update last seen time
-        const peer = this.peers.get(peerId);
-        if (peer) {
-          peer.lastSeen = Date.now();
-        }
-        break;
+        break; // Every message updates when the peer was last seen
     }
   }
 
+  // The peer's hello: check it and answer the challenge in it
   private handleHandshake(
     payload: HandshakePayload,
-    tempPeerId: string,
-    ws: WebSocket
+    connection: Connection
   ): void {
+    const { ws, session } = connection;
+
     // Validate handshake
     if (payload.networkId !== this.config.networkId) {
       ws.close(1002, 'Invalid network ID');
       return;
     }
+    if (
+      typeof payload.protocolVersion !== 'number' ||
+      payload.protocolVersion < MIN_PROTOCOL_VERSION
+    ) {
+      ws.close(1002, 'Unsupported protocol version');
+      return;
+    }
+    if (payload.peerId === this.nodeId) {
+      ws.close(1008, 'Connected to self');
+      return;
+    }
+    if (
+      connection.expectedPeerId &&
+      payload.peerId !== connection.expectedPeerId
+    ) {
+      ws.close(1008, 'Unexpected peer ID');
+      return;
+    }
 
-    // Update peer information
-    const peer: Peer = {
-      id: payload.peerId,
-      address: ws.url || '',
-      port: this.config.port, // Default port
-      lastSeen: Date.now(),
-      version: payload.version,
-      chainHeight: payload.chainHeight,
-    };
+    const reason = session.acceptHello(payload);
+    if (reason) {
+      console.error(
+        `Rejecting handshake from ${connection.address}: ${reason}`
+      );
+      ws.close(1008, reason);
+      return;
+    }
+    connection.hello = payload;
 
-    // Replace temporary peer ID with actual peer ID
-    this.peers.delete(tempPeerId);
-    this.peers.set(peer.id, peer);
+    const auth: HandshakeAuthPayload = { signature: session.createAuth() };
+    this.sendMessage(ws, MessageType.HANDSHAKE_AUTH, auth);
+  }
 
-    if (this.connections.has(tempPeerId)) {
-      const connection = this.connections.get(tempPeerId)!;
-      this.connections.delete(tempPeerId);
-      this.connections.set(peer.id, connection);
+  // The peer's answer to our challenge: once it checks out the peer is
+  // authenticated and the encrypted session starts
+  private handleHandshakeAuth(
+    payload: HandshakeAuthPayload,
+    connection: Connection
+  ): void {
+    const { ws, session, hello } = connection;
+
+    if (!hello || !session.verifyAuth(payload?.signature)) {
+      console.error(`Authentication failed for ${connection.address}`);
+      ws.close(1008, 'Authentication failed');
+      return;
     }
 
-    // Send our handshake if we haven't already
-    if (!ws.url) {
-      // This is an incoming connection
-      this.sendHandshake(ws);
+    if (this.connections.has(hello.peerId)) {
+      ws.close(1000, 'Already connected');
+      return;
+    }
+    if (this.scoring.isBanned(hello.peerId)) {
+      ws.close(1008, 'Banned');
+      return;
     }
 
+    const peer: Peer = {
+      id: hello.peerId,
+      address: connection.address,
+      port: hello.listenPort,
+      lastSeen: Date.now(),
+      version: hello.version,
+      chainHeight: hello.chainHeight,
+      publicKey: hello.publicKey,
+    };
+    clearTimeout(connection.handshakeTimer);
+    this.peers.set(peer.id, peer);
+    this.connections.set(peer.id, ws);
+    this.scoring.setAddress(peer.id, connection.address);
+
     // Request peer list
     this.requestPeerDiscovery(ws);
-  }
 
-  private handleBlockAnnouncement(payload: BlockAnnouncementPayload): void {
-    this.emit('block-announcement', payload);
+    this.emit('peer-connected', peer);
   }
 
-  private handlePeerDiscovery(
-    payload: PeerDiscoveryPayload,
-    ws: WebSocket
-  ): void {
-    // Add new peers
-    for (const peer of payload.peers) {
-      if (!this.peers.has(peer.id) && peer.id !== this.nodeId) {
-        this.peers.set(peer.id, peer);
-        // Try to connect to new peers
+  // Peers listed by a peer are dialed while outbound slots are free
+  private handlePeerDiscovery(payload: PeerDiscoveryPayload): void {
+    for (const peer of payload?.peers ?? []) {
+      if (
+        typeof peer?.id === 'string' &&
+        typeof peer.address === 'string' &&
+        Number.isInteger(peer.port)
+      ) {
         this.connectToPeer(peer);
       }
     }
   }
 
+  // Answer a discovery request with the other peers we are connected to
+  private sendPeerList(ws: WebSocket, peerId: string): void {
+    const peers = this.getPeers().filter((peer) => peer.id !== peerId);
+    const payload: PeerDiscoveryPayload = { peers };
+    this.sendMessage(ws, MessageType.PEER_LIST, payload);
+  }
+
   private sendHandshake(ws: WebSocket): void {
+    const session = this.sockets.get(ws)?.session;
+    if (!session) return;
+
     const handshake: HandshakePayload = {
       version: this.config.version,
+      protocolVersion: PROTOCOL_VERSION,
       networkId: this.config.networkId,
-      chainHeight: 0, // Will be updated by blockchain
+      listenPort: this.getPort(),
+      chainHeight: this.chainHeight,
       peerId: this.nodeId,
+      publicKey: this.publicKey,
+      sessionKey: session.sessionKey,
+      challenge: session.challenge,
     };
 
     this.sendMessage(ws, MessageType.HANDSHAKE, handshake);
@@ -219,54 +515,114 @@ export class P2PNetwork extends EventEmitter {
   }
 
   private sendMessage(ws: WebSocket, type: MessageType, payload: any): void {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
     const message: NetworkMessage = {
+      version: PROTOCOL_VERSION,
       type,
       payload,
       from: this.nodeId,
       timestamp: Date.now(),
     };
 
-    // Sign message if needed
-    if (type !== MessageType.PING && type !== MessageType.PONG) {
-      message.signature = CryptoUtils.sign(
-        this.privateKey,
-        JSON.stringify({
-          type,
-          payload,
-          from: message.from,
-          timestamp: message.timestamp,
-        })
-      );
+    if (type === MessageType.HANDSHAKE || type === MessageType.HANDSHAKE_AUTH) {
+      ws.send(JSON.stringify(message));
+      return;
     }
 
-    ws.send(JSON.stringify(message));
+    // Anything else only goes to authenticated peers, signed and encrypted
+    const session = this.sockets.get(ws)?.session;
+    if (!session?.isAuthenticated()) return;
+
+    message.signature = CryptoUtils.sign(
+      this.privateKey,
+      signedContent(message)
+    );
+    ws.send(session.seal(JSON.stringify(message)), { binary: true });
+  }
+
+  private handleClose(connection: Connection): void {
+    clearTimeout(connection.handshakeTimer);
+    this.sockets.delete(connection.ws);
+
+    const peerId = connection.session.getPeerId();
+    if (peerId && this.connections.get(peerId) === connection.ws) {
+      this.handlePeerDisconnect(peerId);
+    }
   }
 
   private handlePeerDisconnect(peerId: string): void {
     console.log(`Peer ${peerId} disconnected`);
     this.peers.delete(peerId);
     this.connections.delete(peerId);
+    this.scoring.forget(peerId);
+    this.gossip.removePeer(peerId);
+    this.emit('peer-disconnected', peerId);
+  }
+
+  // Close every connection to a newly banned peer ID or address
+  private handleBan = (ban: PeerBan): void => {
+    for (const connection of this.sockets.values()) {
+      if (
+        connection.address === ban.key ||
+        connection.session.getPeerId() === ban.key
+      ) {
+        connection.ws.close(1008, 'Banned');
+      }
+    }
+    this.emit('peer-banned', ban);
+  };
+
+  private isDialing(address: string, port: number): boolean {
+    for (const connection of this.sockets.values()) {
+      if (
+        !connection.inbound &&
+        connection.address === address &&
+        connection.port === port
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private countConnections(inbound: boolean): number {
+    let count = 0;
+    for (const connection of this.sockets.values()) {
+      if (connection.inbound === inbound) count++;
+    }
+    return count;
+  }
+
+  private describe(connection: Connection): string {
+    return connection.session.getPeerId() ?? connection.address;
   }
 
   private startPeriodicTasks(): void {
     // Ping peers every 30 seconds
-    setInterval(() => {
-      this.pingPeers();
-    }, 30000);
+    this.timers.push(
+      setInterval(() => {
+        this.pingPeers();
+      }, 30000)
+    );
 
     // Clean up stale peers every minute
-    setInterval(() => {
-      this.cleanupStalePeers();
-    }, 60000);
+    this.timers.push(
+      setInterval(() => {
+        this.cleanupStalePeers();
+      }, 60000)
+    );
 
     // Discover new peers every 5 minutes
-    setInterval(() => {
-      this.discoverPeers();
-    }, 300000);
+    this.timers.push(
+      setInterval(() => {
+        this.discoverPeers();
+      }, 300000)
+    );
   }
 
   private pingPeers(): void {
-    for (const [peerId, connection] of this.connections) {
+    for (const connection of this.connections.values()) {
       this.sendMessage(connection, MessageType.PING, {});
     }
   }
@@ -277,39 +633,87 @@ export class P2PNetwork extends EventEmitter {
 
     for (const [peerId, peer] of this.peers) {
       if (now - peer.lastSeen > staleTimeout) {
-        this.handlePeerDisconnect(peerId);
+        this.connections.get(peerId)?.terminate();
       }
     }
   }
 
-  private discoverPeers(): void {
+  // Ask every peer for the peers it knows
+  discoverPeers(): void {
     for (const connection of this.connections.values()) {
       this.requestPeerDiscovery(connection);
     }
   }
 
   // Public methods
+  // Announce a new block to some of the peers that lack it, which fetch it
+  // and announce it on once they accept it
   broadcastBlock(block: Block): void {
-    const announcement: BlockAnnouncementPayload = {
-      blockHash: block.hash,
-      blockHeight: block.header.height,
-      previousHash: block.header.previousHash,
-    };
-
-    this.broadcast(MessageType.BLOCK_ANNOUNCEMENT, announcement);
+    this.gossip.announceBlock(block);
   }
 
   broadcastTransaction(transaction: Transaction): void {
-    this.broadcast(MessageType.TRANSACTION_ANNOUNCEMENT, transaction);
+    this.gossip.announceTransaction(transaction);
   }
 
-  broadcastConsensusMessage(message: any): void {
-    this.broadcast(MessageType.CONSENSUS_MESSAGE, message);
+  // Chain and mempool the gossip serves bodies and rebuilds compact blocks
+  // from
+  setGossipSource(source: GossipSource): void {
+    this.gossip.setSource(source);
   }
 
-  private broadcast(type: MessageType, payload: any): void {
-    for (const connection of this.connections.values()) {
-      this.sendMessage(connection, type, payload);
+  getGossipMetrics(): GossipMetrics {
+    return this.gossip.getMetrics();
+  }
+
+  // Send a consensus message to every peer, except the one it was relayed
+  // from
+  broadcastConsensusMessage(message: any, exceptPeerId?: string): void {
+    this.broadcast(MessageType.CONSENSUS_MESSAGE, message, exceptPeerId);
+  }
+
+  // Height advertised to peers in later handshakes
+  setChainHeight(height: number): void {
+    this.chainHeight = height;
+  }
+
+  requestBlocks(peerId: string, request: BlockRequestPayload): boolean {
+    return this.sendToPeer(peerId, MessageType.BLOCK_REQUEST, request);
+  }
+
+  sendBlocks(peerId: string, response: BlockResponsePayload): boolean {
+    return this.sendToPeer(peerId, MessageType.BLOCK_RESPONSE, response);
+  }
+
+  requestSnapshot(peerId: string, request: SnapshotRequestPayload): boolean {
+    return this.sendToPeer(peerId, MessageType.SNAPSHOT_REQUEST, request);
+  }
+
+  sendSnapshot(peerId: string, response: SnapshotResponsePayload): boolean {
+    return this.sendToPeer(peerId, MessageType.SNAPSHOT_RESPONSE, response);
+  }
+
+  // Send a message to one authenticated peer, returning false if it is not
+  // connected
+  sendToPeer(peerId: string, type: MessageType, payload: any): boolean {
+    const connection = this.connections.get(peerId);
+    if (!connection) {
+      return false;
+    }
+
+    this.sendMessage(connection, type, payload);
+    return true;
+  }
+
+  private broadcast(
+    type: MessageType,
+    payload: any,
+    exceptPeerId?: string
+  ): void {
+    for (const [peerId, connection] of this.connections) {
+      if (peerId !== exceptPeerId) {
+        this.sendMessage(connection, type, payload);
+      }
     }
   }
 
@@ -317,17 +721,85 @@ export class P2PNetwork extends EventEmitter {
     return Array.from(this.peers.values());
   }
 
-  async stop(): Promise<void> {
-    // Close all connections
-    for (const connection of this.connections.values()) {
-      connection.close();
+  getPeerCount(): number {
+    return this.connections.size;
+  }
+
+  // Port the server listens on, the one assigned when configured as 0
+  getPort(): number {
+    const address = this.server?.address();
+    return typeof address === 'object' && address
+      ? address.port
+      : this.config.port;
+  }
+
+  disconnectPeer(peerId: string): boolean {
+    const connection = this.connections.get(peerId);
+    if (!connection) {
+      return false;
     }
 
+    connection.close(1000, 'Disconnected');
+    return true;
+  }
+
+  // Report misbehavior by a peer, such as an invalid block or transaction,
+  // disconnecting it if this gets it banned
+  penalizePeer(peerId: string, misbehavior: Misbehavior): void {
+    if (this.scoring.penalize(peerId, misbehavior)) {
+      console.warn(`Banned peer ${peerId} after ${misbehavior}`);
+    }
+  }
+
+  banPeer(key: string, duration?: number, reason?: string): PeerBan {
+    return this.scoring.ban(key, duration, reason);
+  }
+
+  unbanPeer(key: string): boolean {
+    return this.scoring.unban(key);
+  }
+
+  getBans(): PeerBan[] {
+    return this.scoring.getBans();
+  }
+
+  getPeerScore(peerId: string): number {
+    return this.scoring.getScore(peerId);
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+    this.scoring.off('banned', this.handleBan);
+
+    // Close all connections, authenticated or not, and wait for them to go
+    const closed = Array.from(this.sockets.keys()).map(
+      (ws) =>
+        new Promise((resolve) => {
+          ws.once('close', resolve);
+          ws.terminate();
+        })
+    );
+    await Promise.all(closed);
+
     // Close server
-    if (this.server) {
-      this.server.close();
+    const server = this.server;
+    if (server) {
+      await new Promise((resolve) => server.close(resolve));
+      this.server = undefined;
     }
 
     this.removeAllListeners();
   }
 }
+
+// Fields of a message covered by its signature
+function signedContent(message: NetworkMessage): string {
+  return JSON.stringify({
+    version: message.version,
+    type: message.type,
+    payload: message.payload,
+    from: message.from,
+    timestamp: message.timestamp,
+  });
+}
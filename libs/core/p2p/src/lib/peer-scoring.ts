@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Misbehavior,
+  PeerBan,
+  PeerScoringConfig,
+} from '@digital-chuckram/types';
+
+// Misbehavior scores, per message type rate limits and bans. Offenses add
+// points to a peer's score, which decays over time; a peer reaching the ban
+// threshold is banned for a while. Bans apply to a peer ID or a remote
+// address and are kept in the ban file when one is configured. Node keys
+// cost nothing to make, so once enough peer IDs from one address are banned
+// at the same time the address is banned too. Emits 'banned' with each new
+// ban so connections to the peer can be dropped.
+
+const MINUTE = 60000;
+
+export const DEFAULT_SCORING_CONFIG: PeerScoringConfig = {
+  penalties: {
+    'invalid-block': 50,
+    'invalid-transaction': 10,
+    'bad-signature': 100,
+    'invalid-message': 25,
+    spam: 5,
+  },
+  banThreshold: 100,
+  banDuration: 60 * MINUTE,
+  addressBanThreshold: 3,
+  scoreDecay: 1,
+  rateLimits: {
+    PING: 10,
+    PEER_DISCOVERY: 10,
+    BLOCK_REQUEST: 120,
+    SNAPSHOT_REQUEST: 10,
+    INVENTORY: 6000,
+    GET_DATA: 6000,
+    TRANSACTION: 6000,
+    CONSENSUS_MESSAGE: 6000,
+  },
+  defaultRateLimit: 600,
+};
+
+interface Score {
+  value: number;
+  updatedAt: number;
+}
+
+// Token bucket holding up to a minute's worth of messages
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class PeerScoring extends EventEmitter {
+  private readonly config: PeerScoringConfig;
+  private scores: Map<string, Score> = new Map();
+  private buckets: Map<string, Map<string, Bucket>> = new Map();
+  private bans: Map<string, PeerBan> = new Map();
+  private addresses: Map<string, string> = new Map(); // Peer ID -> remote address
+
+  constructor(config: Partial<PeerScoringConfig> = {}) {
+    super();
+    this.config = {
+      ...DEFAULT_SCORING_CONFIG,
+      ...config,
+      penalties: { ...DEFAULT_SCORING_CONFIG.penalties, ...config.penalties },
+      rateLimits: {
+        ...DEFAULT_SCORING_CONFIG.rateLimits,
+        ...config.rateLimits,
+      },
+    };
+    this.loadBans();
+  }
+
+  // Add the penalty for an offense to the peer's score, banning it once the
+  // score reaches the threshold. Returns whether the peer is now banned.
+  penalize(peerId: string, misbehavior: Misbehavior): boolean {
+    const score =
+      this.getScore(peerId) + (this.config.penalties[misbehavior] ?? 0);
+
+    if (score < this.config.banThreshold) {
+      this.scores.set(peerId, { value: score, updatedAt: Date.now() });
+      return false;
+    }
+
+    this.scores.delete(peerId);
+    const address = this.addresses.get(peerId);
+    this.ban(
+      peerId,
+      this.config.banDuration,
+      `Score ${Math.round(score)} after ${misbehavior}`,
+      address
+    );
+    if (address) {
+      this.escalate(address);
+    }
+    return true;
+  }
+
+  // Remote address of an authenticated peer, which its bans count against
+  setAddress(peerId: string, address: string): void {
+    this.addresses.set(peerId, address);
+  }
+
+  // Current score after decay, 0 for a well-behaved peer
+  getScore(peerId: string): number {
+    const score = this.scores.get(peerId);
+    if (!score) {
+      return 0;
+    }
+
+    const decay =
+      ((Date.now() - score.updatedAt) / MINUTE) * this.config.scoreDecay;
+    return Math.max(score.value - decay, 0);
+  }
+
+  // Take one message of a type from the peer's allowance, returning false
+  // once it has sent more than the rate limit allows
+  allow(peerId: string, type: string): boolean {
+    const limit = this.config.rateLimits[type] ?? this.config.defaultRateLimit;
+    const now = Date.now();
+
+    let buckets = this.buckets.get(peerId);
+    if (!buckets) {
+      buckets = new Map();
+      this.buckets.set(peerId, buckets);
+    }
+
+    const bucket = buckets.get(type) ?? { tokens: limit, updatedAt: now };
+    bucket.tokens = Math.min(
+      bucket.tokens + ((now - bucket.updatedAt) / MINUTE) * limit,
+      limit
+    );
+    bucket.updatedAt = now;
+    buckets.set(type, bucket);
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens--;
+    return true;
+  }
+
+  // Drop the rate limit state of a disconnected peer, and its score once it
+  // has decayed away
+  forget(peerId: string): void {
+    this.buckets.delete(peerId);
+    if (this.getScore(peerId) === 0) {
+      this.scores.delete(peerId);
+      this.addresses.delete(peerId);
+    }
+  }
+
+  // Ban a peer ID or address, permanently when no duration is given. A
+  // peer ID ban records the address the peer connected from.
+  ban(
+    key: string,
+    duration?: number,
+    reason = 'Banned',
+    address?: string
+  ): PeerBan {
+    const now = Date.now();
+    const ban: PeerBan = {
+      key,
+      reason,
+      bannedAt: now,
+      until: duration !== undefined ? now + duration : undefined,
+      address,
+    };
+
+    this.bans.set(key, ban);
+    this.saveBans();
+    this.emit('banned', ban);
+    return ban;
+  }
+
+  unban(key: string): boolean {
+    const removed = this.bans.delete(key);
+    this.scores.delete(key);
+    if (removed) {
+      this.saveBans();
+    }
+    return removed;
+  }
+
+  isBanned(key: string): boolean {
+    const ban = this.bans.get(key);
+    if (!ban) {
+      return false;
+    }
+    if (ban.until !== undefined && ban.until <= Date.now()) {
+      this.unban(key);
+      return false;
+    }
+    return true;
+  }
+
+  // Bans still in force
+  getBans(): PeerBan[] {
+    return Array.from(this.bans.keys())
+      .filter((key) => this.isBanned(key))
+      .map((key) => this.bans.get(key) as PeerBan);
+  }
+
+  // Ban an address once enough peer IDs banned from it are still banned
+  private escalate(address: string): void {
+    if (this.isBanned(address)) {
+      return;
+    }
+
+    const banned = this.getBans().filter((ban) => ban.address === address);
+    if (banned.length >= this.config.addressBanThreshold) {
+      this.ban(
+        address,
+        this.config.banDuration,
+        `${banned.length} peer IDs banned from this address`
+      );
+    }
+  }
+
+  private loadBans(): void {
+    const file = this.config.banFile;
+    if (!file || !fs.existsSync(file)) {
+      return;
+    }
+
+    const bans: PeerBan[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const ban of bans) {
+      this.bans.set(ban.key, ban);
+    }
+  }
+
+  private saveBans(): void {
+    const file = this.config.banFile;
+    if (!file) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(Array.from(this.bans.values())));
+  }
+}
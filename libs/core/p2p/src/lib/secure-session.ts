@@ -0,0 +1,200 @@
+import * as crypto from 'crypto';
+import { HandshakePayload } from '@digital-chuckram/types';
+import { CryptoUtils } from '@digital-chuckram/crypto';
+
+// Authenticated, encrypted channel over one peer connection. Each side sends
+// a hello with its node key, a fresh ECDH key and a random challenge, then
+// signs the other side's challenge together with both ECDH keys. A valid
+// signature proves the peer holds the node key it claims and that nobody in
+// between swapped the ECDH keys, so the secret derived from them is shared
+// by the two nodes alone. Messages are sealed with AES-256-GCM under one key
+// per direction, with a message counter as nonce, so replayed, reordered or
+// altered frames fail to open.
+
+const CURVE = 'secp256k1';
+const CIPHER = 'aes-256-gcm';
+const COUNTER_LENGTH = 8;
+const TAG_LENGTH = 16;
+
+// Node identity key, kept across restarts
+export interface NodeKey {
+  privateKey: string;
+  publicKey: string;
+}
+
+interface RemoteHello {
+  peerId: string;
+  publicKey: string;
+  sessionKey: string;
+  challenge: string;
+}
+
+export class SecureSession {
+  readonly sessionKey: string; // Our ECDH key, sent in the hello
+  readonly challenge: string; // Signed by the peer to authenticate
+  private readonly ecdh: crypto.ECDH;
+  private remote?: RemoteHello;
+  private sendKey?: Buffer;
+  private receiveKey?: Buffer;
+  private sendCounter = 0n;
+  private receiveCounter = 0n;
+  private authenticated = false;
+
+  constructor(private readonly nodeKey: NodeKey) {
+    this.ecdh = crypto.createECDH(CURVE);
+    this.sessionKey = this.ecdh.generateKeys('hex');
+    this.challenge = crypto.randomBytes(32).toString('hex');
+  }
+
+  // Record the peer's hello and derive the session keys, returning the
+  // rejection reason or null if it is acceptable
+  acceptHello(hello: HandshakePayload): string | null {
+    if (this.remote) {
+      return 'Duplicate handshake';
+    }
+    if (!hello.publicKey || !hello.sessionKey || !hello.challenge) {
+      return 'Incomplete handshake';
+    }
+    if (CryptoUtils.publicKeyToAddress(hello.publicKey) !== hello.peerId) {
+      return 'Peer ID does not match its public key';
+    }
+
+    let secret: Buffer;
+    try {
+      secret = this.ecdh.computeSecret(Buffer.from(hello.sessionKey, 'hex'));
+    } catch {
+      return 'Invalid session key';
+    }
+
+    // Both sides derive the same pair of keys and pick their sending key by
+    // the order of the session keys
+    const keys = Buffer.from(
+      crypto.hkdfSync(
+        'sha256',
+        secret,
+        [this.sessionKey, hello.sessionKey].sort().join(''),
+        'chuckram-p2p-session',
+        64
+      )
+    );
+    const first = this.sessionKey < hello.sessionKey;
+    this.sendKey = first ? keys.subarray(0, 32) : keys.subarray(32);
+    this.receiveKey = first ? keys.subarray(32) : keys.subarray(0, 32);
+
+    this.remote = {
+      peerId: hello.peerId,
+      publicKey: hello.publicKey,
+      sessionKey: hello.sessionKey,
+      challenge: hello.challenge,
+    };
+    return null;
+  }
+
+  // Signature proving we hold our node key, for the peer to verify
+  createAuth(): string {
+    if (!this.remote) {
+      throw new Error('No handshake from the peer yet');
+    }
+
+    return CryptoUtils.sign(
+      this.nodeKey.privateKey,
+      authMessage(
+        this.remote.challenge,
+        this.sessionKey,
+        this.remote.sessionKey
+      )
+    );
+  }
+
+  // Check the peer's signature over our challenge and both session keys
+  verifyAuth(signature: string): boolean {
+    if (!this.remote || typeof signature !== 'string') {
+      return false;
+    }
+
+    this.authenticated = CryptoUtils.verify(
+      this.remote.publicKey,
+      authMessage(this.challenge, this.remote.sessionKey, this.sessionKey),
+      signature
+    );
+    return this.authenticated;
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  // Node address of the peer, proven once authenticated
+  getPeerId(): string | undefined {
+    return this.remote?.peerId;
+  }
+
+  getPeerPublicKey(): string | undefined {
+    return this.remote?.publicKey;
+  }
+
+  // Encrypt a message as counter, tag and ciphertext
+  seal(plaintext: string): Buffer {
+    if (!this.sendKey) {
+      throw new Error('Session keys not established');
+    }
+
+    const counter = Buffer.alloc(COUNTER_LENGTH);
+    counter.writeBigUInt64BE(this.sendCounter++);
+
+    const cipher = crypto.createCipheriv(CIPHER, this.sendKey, nonce(counter));
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+    return Buffer.concat([counter, cipher.getAuthTag(), ciphertext]);
+  }
+
+  // Decrypt the next frame from the peer, or return null if it is not the
+  // next in sequence or fails authentication
+  open(frame: Buffer): string | null {
+    if (!this.receiveKey || frame.length < COUNTER_LENGTH + TAG_LENGTH) {
+      return null;
+    }
+
+    const counter = frame.subarray(0, COUNTER_LENGTH);
+    if (counter.readBigUInt64BE() !== this.receiveCounter) {
+      return null;
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        CIPHER,
+        this.receiveKey,
+        nonce(counter)
+      );
+      decipher.setAuthTag(
+        frame.subarray(COUNTER_LENGTH, COUNTER_LENGTH + TAG_LENGTH)
+      );
+      const plaintext = Buffer.concat([
+        decipher.update(frame.subarray(COUNTER_LENGTH + TAG_LENGTH)),
+        decipher.final(),
+      ]).toString('utf8');
+
+      this.receiveCounter++;
+      return plaintext;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// What each side signs to authenticate: the challenge it was given and the
+// session keys, its own first
+function authMessage(
+  challenge: string,
+  signerSessionKey: string,
+  verifierSessionKey: string
+): string {
+  return `chuckram-p2p-auth:${challenge}:${signerSessionKey}:${verifierSessionKey}`;
+}
+
+// 96-bit GCM nonce from a 64-bit message counter
+function nonce(counter: Buffer): Buffer {
+  return Buffer.concat([Buffer.alloc(12 - COUNTER_LENGTH), counter]);
+}
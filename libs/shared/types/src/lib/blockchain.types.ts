@@ -1,3 +1,5 @@
+import { CommitCertificate } from './consensus.types';
+
 export interface BlockHeader {
   version: number;
   previousHash: string;
@@ -5,7 +7,10 @@ export interface BlockHeader {
   timestamp: number;
   height: number;
   validatorAddress: string;
+  round?: number; // Proposer round, counting the proposers that timed out before this one
   validatorSignature?: string;
+  stateRoot?: string; // Root of the account state tree after this block
+  nextValidatorSetHash?: string; // Last block of an epoch: the next epoch's validators, see hashValidatorSet
 }
 
 export interface Block {
@@ -13,6 +18,7 @@ export interface Block {
   transactions: Transaction[];
   hash: string;
   nonce: number;
+  certificate?: CommitCertificate; // Set once validators finalize the block
 }
 
 export interface Transaction {
@@ -25,6 +31,7 @@ export interface Transaction {
   type: TransactionType;
   data?: any;
   signature: string;
+  publicKey?: string; // Sender public key, required the first time an address signs
   nonce: number;
 }
 
@@ -38,6 +45,10 @@ export enum TransactionType {
   FEE = 'FEE',
   MINT = 'MINT',
   BURN = 'BURN',
+  EVIDENCE = 'EVIDENCE', // data: { evidence: Evidence }
+  BOND = 'BOND', // amount bonded to data: { validator }
+  UNBOND = 'UNBOND', // amount unbonded from data: { validator }
+  REDELEGATE = 'REDELEGATE', // amount moved from data: { sourceValidator, validator }
 }
 
 // export interface ChuckramDenomination {
@@ -63,5 +74,8 @@ export interface ChainState {
   lastBlockHash: string;
   validators: Map<string, ValidatorNode>;
   balances: Map<string, bigint>;
+  nonces: Map<string, number>; // Next expected nonce per account
   votingPower: Map<string, number>;
+  totalMinted: bigint; // Issued by mints and block rewards
+  totalBurned: bigint; // Removed from circulation by burns
 }
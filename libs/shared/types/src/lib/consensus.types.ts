@@ -1,9 +1,13 @@
+import { BlockHeader } from './blockchain.types';
+
 export interface Validator {
   address: string;
+  publicKey?: string; // Verifies block and vote signatures
   type: 'GOVERNMENT' | 'CITIZEN';
   stake?: bigint;
   votingPower: number;
   active: boolean;
+  jailed?: boolean; // Deactivated for misbehavior
   lastActiveBlock: number;
   registeredAt: number;
 }
@@ -15,27 +19,71 @@ export interface ConsensusConfig {
   governmentValidatorRatio: number; // 0.5 for 50%
   citizenValidatorRatio: number; // 0.5 for 50%
   requiredConsensus: number; // 0.66 for 66%
-  validatorRotationInterval: number; // in blocks
+  epochLength: number; // Blocks per validator set
+  inactivityLimit?: number; // Blocks a validator of the set may go without voting before it loses its seat, an epoch by default
+  randomizeProposers?: boolean; // Seed each epoch's proposer order from the last block
 }
 
 export interface ConsensusState {
   currentValidators: Map<string, Validator>;
   pendingValidators: Map<string, Validator>;
-  lastRotationBlock: number;
+  epoch: number;
   currentProposer: string;
   round: number;
 }
 
+// Validators chosen for an epoch, fixed from its first block to its last
+export interface ValidatorSet {
+  epoch: number;
+  startHeight: number;
+  validators: Validator[]; // Sorted by address
+  seed?: string; // Proposer order seed, see deriveProposerSeed
+}
+
 export interface Vote {
   validatorAddress: string;
   blockHash: string;
   blockHeight: number;
-  signature: string;
+  round: number;
+  signature: string; // Precommit signature, see getVoteSigningPayload
   timestamp: number;
 }
 
+// Proof that more than two thirds of the voting power precommitted a block
+export interface CommitCertificate {
+  blockHash: string;
+  height: number;
+  round: number;
+  signers: string[]; // Validator addresses, sorted
+  signatures: string[]; // Precommit signatures in signer order
+}
+
+// Two precommits from one validator for different blocks in the same round
+export interface DuplicateVoteEvidence {
+  type: 'DUPLICATE_VOTE';
+  voteA: Vote;
+  voteB: Vote;
+}
+
+// Two different block headers signed by one proposer at the same height and
+// round
+export interface ConflictingProposalEvidence {
+  type: 'CONFLICTING_PROPOSAL';
+  headerA: BlockHeader;
+  headerB: BlockHeader;
+}
+
+// Proof of validator misbehavior, carried by EVIDENCE transactions
+export type Evidence = DuplicateVoteEvidence | ConflictingProposalEvidence;
+
+// Steps of a BFT consensus round
+export type ConsensusStep = 'PROPOSE' | 'PREVOTE' | 'PRECOMMIT' | 'COMMIT';
+
 export interface ConsensusMessage {
-  type: 'PROPOSE' | 'VOTE' | 'COMMIT';
+  type: 'PROPOSE' | 'PREVOTE' | 'PRECOMMIT';
+  height: number;
+  round: number;
+  // PROPOSE: { block, validRound }, votes: { blockHash } with null for nil
   data: any;
   from: string;
   signature: string;
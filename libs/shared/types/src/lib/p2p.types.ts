@@ -1,3 +1,11 @@
+import { Block, Transaction } from './blockchain.types';
+
+// Version of the message schema below. Peers announce theirs in the
+// handshake and every message carries the sender's, so later versions can
+// tell what a peer understands; peers older than the minimum are refused.
+export const PROTOCOL_VERSION = 3;
+export const MIN_PROTOCOL_VERSION = 3; // Transactions gossiped by content hash since 3
+
 export interface Peer {
   id: string;
   address: string;
@@ -5,6 +13,7 @@ export interface Peer {
   lastSeen: number;
   version: string;
   chainHeight: number;
+  publicKey?: string; // Node key, known once the peer has authenticated
 }
 
 export interface NetworkConfig {
@@ -13,9 +22,51 @@ export interface NetworkConfig {
   seedPeers: Peer[];
   networkId: string;
   version: string;
+  maxInbound?: number; // Connections accepted, defaults to half of maxPeers
+  maxOutbound?: number; // Connections dialed, defaults to half of maxPeers
+  maxMessageSize?: number; // Bytes, larger frames close the connection
+  handshakeTimeout?: number; // Milliseconds a connection has to authenticate
+  scoring?: Partial<PeerScoringConfig>;
+  gossip?: Partial<GossipConfig>;
+}
+
+export interface GossipConfig {
+  blockFanout: number; // Peers each new block is announced to
+  transactionFanout: number; // Peers each new transaction is announced to
+  seenCacheSize: number; // Items remembered to drop duplicates
+  requestTimeout: number; // Milliseconds before an item is asked of another peer
+}
+
+// Misbehavior a peer is penalized for
+export type Misbehavior =
+  | 'invalid-block'
+  | 'invalid-transaction'
+  | 'bad-signature'
+  | 'invalid-message'
+  | 'spam';
+
+export interface PeerScoringConfig {
+  penalties: Record<Misbehavior, number>; // Points added per offense
+  banThreshold: number; // Score at which a peer is banned
+  banDuration: number; // Milliseconds an automatic ban lasts
+  addressBanThreshold: number; // Peer IDs banned at once that get their address banned
+  scoreDecay: number; // Points forgiven per minute
+  rateLimits: Record<string, number>; // Messages per minute by message type
+  defaultRateLimit: number; // Messages per minute for other types
+  banFile?: string; // Where bans are kept across restarts
+}
+
+// Ban on a peer ID or a remote address
+export interface PeerBan {
+  key: string;
+  reason: string;
+  bannedAt: number;
+  until?: number; // Unset for a permanent ban
+  address?: string; // Remote address of a peer ID banned for misbehavior
 }
 
 export interface NetworkMessage {
+  version: number; // Protocol version of the sender
   type: MessageType;
   payload: any;
   from: string;
@@ -25,10 +76,18 @@ export interface NetworkMessage {
 
 export enum MessageType {
   HANDSHAKE = 'HANDSHAKE',
-  BLOCK_ANNOUNCEMENT = 'BLOCK_ANNOUNCEMENT',
+  HANDSHAKE_AUTH = 'HANDSHAKE_AUTH',
+  INVENTORY = 'INVENTORY',
+  GET_DATA = 'GET_DATA',
+  BLOCK = 'BLOCK',
+  COMPACT_BLOCK = 'COMPACT_BLOCK',
+  GET_BLOCK_TRANSACTIONS = 'GET_BLOCK_TRANSACTIONS',
+  BLOCK_TRANSACTIONS = 'BLOCK_TRANSACTIONS',
+  TRANSACTION = 'TRANSACTION',
   BLOCK_REQUEST = 'BLOCK_REQUEST',
   BLOCK_RESPONSE = 'BLOCK_RESPONSE',
-  TRANSACTION_ANNOUNCEMENT = 'TRANSACTION_ANNOUNCEMENT',
+  SNAPSHOT_REQUEST = 'SNAPSHOT_REQUEST',
+  SNAPSHOT_RESPONSE = 'SNAPSHOT_RESPONSE',
   PEER_DISCOVERY = 'PEER_DISCOVERY',
   PEER_LIST = 'PEER_LIST',
   CONSENSUS_MESSAGE = 'CONSENSUS_MESSAGE',
@@ -37,18 +96,96 @@ export enum MessageType {
 }
 
 export interface HandshakePayload {
-  version: string;
+  version: string; // Software version
+  protocolVersion: number;
   networkId: string;
+  listenPort: number; // Where the peer accepts connections
   chainHeight: number;
-  peerId: string;
+  peerId: string; // Address of the node key
+  publicKey: string; // Node key
+  sessionKey: string; // Ephemeral ECDH key for this connection
+  challenge: string; // Random value the peer must sign
+}
+
+// Proof of the node key: a signature over the peer's challenge and both
+// session keys
+export interface HandshakeAuthPayload {
+  signature: string;
+}
+
+export type InventoryType = 'block' | 'transaction';
+
+export interface InventoryItem {
+  type: InventoryType;
+  hash: string; // Block hash or transaction content hash
+}
+
+// Announcement of new items, or with GET_DATA a request for their bodies
+export interface InventoryPayload {
+  items: InventoryItem[];
 }
 
-export interface BlockAnnouncementPayload {
+// A block with its transactions replaced by short IDs, which the receiver
+// matches against its mempool
+export interface CompactBlockPayload {
+  block: Omit<Block, 'transactions'>;
+  shortIds: string[];
+}
+
+// Transactions of a compact block the receiver could not find, by index
+export interface BlockTransactionsRequestPayload {
+  blockHash: string;
+  indexes: number[];
+}
+
+export interface BlockTransactionsPayload {
   blockHash: string;
-  blockHeight: number;
-  previousHash: string;
+  transactions: Transaction[];
+}
+
+export interface PropagationStats {
+  received: number;
+  duplicates: number; // Bodies received again, or announced after receipt
+  averageLatency: number; // Milliseconds from creation to receipt
+  maxLatency: number;
+  averageFetchTime: number; // Milliseconds from announcement to receipt
+}
+
+export interface GossipMetrics {
+  blocks: PropagationStats;
+  transactions: PropagationStats;
+  compactBlocks: {
+    reconstructed: number; // Rebuilt from the mempool alone
+    missingTransactions: number; // Fetched from the peer to complete blocks
+  };
 }
 
 export interface PeerDiscoveryPayload {
   peers: Peer[];
 }
+
+// Request for a range of canonical blocks, answered with a BLOCK_RESPONSE
+// carrying the same request ID
+export interface BlockRequestPayload {
+  requestId: string;
+  fromHeight: number;
+  toHeight: number;
+}
+
+export interface BlockResponsePayload {
+  requestId: string;
+  blocks: Block[]; // In height order, possibly fewer than requested
+}
+
+// Request for a state snapshot to fast sync from, at a height or the latest
+// the peer has, answered with a SNAPSHOT_RESPONSE carrying the same request ID
+export interface SnapshotRequestPayload {
+  requestId: string;
+  height?: number;
+}
+
+export interface SnapshotResponsePayload {
+  requestId: string;
+  block: Block | null; // Block the state was taken after, null if none
+  state: any | null; // Balances, nonces, validators and validator sets
+}
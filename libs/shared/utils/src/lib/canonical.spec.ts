@@ -0,0 +1,140 @@
+import {
+  calculateMerkleRoot,
+  canonicalEncode,
+  EMPTY_MERKLE_ROOT,
+  encodeBlockHeader,
+  getMerkleProof,
+  hashBlock,
+  hashTransaction,
+  verifyMerkleProof,
+} from './canonical';
+
+// Golden vectors. Any change to these hashes is a consensus-breaking change
+// to the chain format.
+describe('canonical encoding', () => {
+  const tx1 = {
+    id: 'tx-1',
+    from: 'CHKalice',
+    to: 'CHKbob',
+    amount: 100n,
+    fee: 1n,
+    timestamp: 1700000000000,
+    type: 'TRANSFER',
+    signature: 'sig',
+    nonce: 0,
+  };
+  const tx2 = { ...tx1, id: 'tx-2', amount: 250n, nonce: 1 };
+  const tx3 = { ...tx1, id: 'tx-3', amount: 5n, nonce: 2 };
+
+  const TX1_HASH =
+    'c50e200cbb92a97dea3bcd7a0f2bb9a66f523864ff82e5c79f703543b33d3dc6';
+
+  const header = {
+    version: 1,
+    previousHash: '0'.repeat(64),
+    merkleRoot: TX1_HASH,
+    timestamp: 1700000000000,
+    height: 1,
+    validatorAddress: 'CHKvalidator1',
+    stateRoot: 'a'.repeat(64),
+  };
+
+  it('should encode objects with sorted keys and bigints as strings', () => {
+    expect(canonicalEncode(tx1)).toBe(
+      '{"amount":"100","fee":"1","from":"CHKalice","id":"tx-1","nonce":0,' +
+        '"signature":"sig","timestamp":1700000000000,"to":"CHKbob","type":"TRANSFER"}'
+    );
+    expect(canonicalEncode({ b: [1, undefined], a: undefined })).toBe(
+      '{"b":[1,null]}'
+    );
+  });
+
+  it('should hash a transaction independently of amount type and key order', () => {
+    expect(hashTransaction(tx1)).toBe(TX1_HASH);
+    expect(hashTransaction({ ...tx1, amount: '100', fee: '1' })).toBe(TX1_HASH);
+    expect(
+      hashTransaction(Object.fromEntries(Object.entries(tx1).reverse()))
+    ).toBe(TX1_HASH);
+  });
+
+  it('should calculate merkle roots', () => {
+    expect(calculateMerkleRoot([])).toBe(EMPTY_MERKLE_ROOT);
+    expect(calculateMerkleRoot([tx1])).toBe(TX1_HASH);
+    expect(calculateMerkleRoot([tx1, tx2, tx3])).toBe(
+      'a54a672216157e3a3dac9cc574fa16bf4e600420d14e35d9f2d180516fa701b2'
+    );
+  });
+
+  it('should hash block headers without the proposer signature', () => {
+    expect(encodeBlockHeader(header, 0)).toBe(
+      `{"height":1,"merkleRoot":"${TX1_HASH}","nonce":0,` +
+        `"previousHash":"${'0'.repeat(64)}","stateRoot":"${'a'.repeat(64)}",` +
+        '"timestamp":1700000000000,"validatorAddress":"CHKvalidator1","version":1}'
+    );
+
+    const hash =
+      '41d5e959b3604b21f01373b64ea92cfe76c2acaf781f594cba6c6dab00d0cebc';
+    expect(hashBlock({ header, nonce: 0 })).toBe(hash);
+    expect(
+      hashBlock({
+        header: { ...header, validatorSignature: 'signature' } as any,
+        nonce: 0,
+      })
+    ).toBe(hash);
+  });
+
+  it('should hash a genesis header without a state root', () => {
+    expect(
+      hashBlock({
+        header: {
+          version: 1,
+          previousHash: '0'.repeat(64),
+          merkleRoot: EMPTY_MERKLE_ROOT,
+          timestamp: 1700000000000,
+          height: 0,
+          validatorAddress: '0'.repeat(40),
+        },
+        nonce: 0,
+      })
+    ).toBe('e4ec65232f56aaea9b726fd3c7eb3b1b6bee1b12af305af1edf475d0d6fd8584');
+  });
+
+  it('should verify merkle proofs for every leaf', () => {
+    const hashes = [tx1, tx2, tx3].map(hashTransaction);
+    const root = calculateMerkleRoot([tx1, tx2, tx3]);
+
+    hashes.forEach((hash, index) => {
+      const proof = getMerkleProof(hashes, index);
+      expect(verifyMerkleProof(hash, proof, root)).toBe(true);
+      expect(verifyMerkleProof(hashes[(index + 1) % 3], proof, root)).toBe(
+        false
+      );
+    });
+  });
+
+  it('should not verify positions past the last leaf', () => {
+    const hashes = [tx1, tx2, tx3].map(hashTransaction);
+    const root = calculateMerkleRoot([tx1, tx2, tx3]);
+    const proof = getMerkleProof(hashes, 2);
+
+    expect(verifyMerkleProof(hashes[2], { ...proof, index: 3 }, root)).toBe(
+      false
+    );
+    expect(
+      verifyMerkleProof(hashes[2], { ...proof, index: 3, leafCount: 4 }, root)
+    ).toBe(false);
+    expect(
+      verifyMerkleProof(
+        hashes[2],
+        getMerkleProof([...hashes, hashes[2]], 3),
+        root
+      )
+    ).toBe(false);
+  });
+
+  it('should not give a repeated last leaf the same root', () => {
+    expect(calculateMerkleRoot([tx1, tx2, tx3, tx3])).not.toBe(
+      calculateMerkleRoot([tx1, tx2, tx3])
+    );
+  });
+});
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+
+// Canonical encoding and hashing of chain data. Every component that hashes
+// blocks or transactions (genesis, node, core library, gateway) goes through
+// these functions so they all agree on the same hashes.
+
+export const EMPTY_MERKLE_ROOT = '0'.repeat(64);
+
+export interface MerkleProof {
+  index: number; // Position of the hash among the leaves
+  leafCount: number; // Number of leaves in the tree
+  siblings: string[]; // Sibling hashes from the leaves up to the root
+}
+
+// Header fields covered by the block hash. The proposer signature is left
+// out since it signs the header rather than being part of it.
+export interface CanonicalBlockHeader {
+  version: number;
+  previousHash: string;
+  merkleRoot: string;
+  timestamp: number;
+  height: number;
+  validatorAddress: string;
+  round?: number;
+  stateRoot?: string;
+  nextValidatorSetHash?: string;
+}
+
+/**
+ * Deterministic JSON: object keys sorted, bigints as decimal strings and
+ * undefined object fields omitted, so amounts encode the same whether held as
+ * bigint or string
+ */
+export function canonicalEncode(value: unknown): string {
+  if (typeof value === 'bigint') {
+    return JSON.stringify(value.toString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? 'null' : canonicalEncode(item)))
+      .join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalEncode((value as any)[key])}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+export function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export function hashTransaction(transaction: object): string {
+  return sha256(canonicalEncode(transaction));
+}
+
+export function encodeBlockHeader(
+  header: CanonicalBlockHeader,
+  nonce: number
+): string {
+  return canonicalEncode({
+    version: header.version,
+    previousHash: header.previousHash,
+    merkleRoot: header.merkleRoot,
+    timestamp: header.timestamp,
+    height: header.height,
+    validatorAddress: header.validatorAddress,
+    round: header.round,
+    stateRoot: header.stateRoot,
+    nextValidatorSetHash: header.nextValidatorSetHash,
+    nonce,
+  });
+}
+
+export function hashBlock(block: {
+  header: CanonicalBlockHeader;
+  nonce: number;
+}): string {
+  return sha256(encodeBlockHeader(block.header, block.nonce));
+}
+
+/**
+ * Every level of the merkle tree from the leaves up to the root. An odd node
+ * out moves up a level unchanged, so no two leaf lists share a root by
+ * repeating their last leaf.
+ */
+export function buildMerkleTree(hashes: string[]): string[][] {
+  const levels = [[...hashes]];
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const newLevel = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      newLevel.push(
+        i + 1 < level.length ? sha256(level[i] + level[i + 1]) : level[i]
+      );
+    }
+
+    levels.push(newLevel);
+  }
+
+  return levels;
+}
+
+export function computeMerkleRoot(hashes: string[]): string {
+  if (hashes.length === 0) return EMPTY_MERKLE_ROOT;
+
+  const levels = buildMerkleTree(hashes);
+  return levels[levels.length - 1][0];
+}
+
+export function calculateMerkleRoot(transactions: object[]): string {
+  return computeMerkleRoot(transactions.map(hashTransaction));
+}
+
+/**
+ * Inclusion proof for the hash at an index, checked with verifyMerkleProof
+ */
+export function getMerkleProof(hashes: string[], index: number): MerkleProof {
+  if (index < 0 || index >= hashes.length) {
+    throw new Error(`Index ${index} is outside the ${hashes.length} hashes`);
+  }
+
+  const levels = buildMerkleTree(hashes);
+  const siblings: string[] = [];
+  let position = index;
+
+  for (const level of levels.slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    // An odd node out has no sibling on its level
+    if (sibling < level.length) {
+      siblings.push(level[sibling]);
+    }
+    position = Math.floor(position / 2);
+  }
+
+  return { index, leafCount: hashes.length, siblings };
+}
+
+/**
+ * Check an inclusion proof. The leaf count decides which levels the hash has
+ * a sibling on, and positions past the last leaf never verify.
+ */
+export function verifyMerkleProof(
+  hash: string,
+  proof: MerkleProof,
+  root: string
+): boolean {
+  const { index, leafCount, siblings } = proof;
+  if (
+    !Number.isInteger(index) ||
+    !Number.isInteger(leafCount) ||
+    index < 0 ||
+    index >= leafCount
+  ) {
+    return false;
+  }
+
+  let node = hash;
+  let position = index;
+  let width = leafCount;
+  let used = 0;
+
+  while (width > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < width) {
+      if (used === siblings.length) return false;
+      const other = siblings[used++];
+      node = position % 2 === 0 ? sha256(node + other) : sha256(other + node);
+    }
+    position = Math.floor(position / 2);
+    width = Math.ceil(width / 2);
+  }
+
+  return used === siblings.length && node === root;
+}
@@ -1 +1,2 @@
 export * from './bigint-serializer.js';
+export * from './canonical.js';